@@ -1,5 +1,6 @@
 // Register slash commands for a specific guild (instant registration)
 // Run this for immediate command availability: node register-commands-guild.js
+// Pass guild IDs to register in servers configured with /setup: node register-commands-guild.js <guild_id> [...]
 
 const { REST, Routes, Client, GatewayIntentBits } = require('discord.js');
 require('dotenv').config();
@@ -12,6 +13,244 @@ const commands = [
   {
     name: 'createbuttons',
     description: 'Create interactive buttons for stock symbols from your recent message (Analysis channels only)'
+  },
+  {
+    name: 'analysis',
+    description: 'Look up the latest analysis for a stock symbol',
+    options: [
+      {
+        name: 'symbol',
+        description: 'Stock symbol, e.g. NVDA',
+        type: 3, // STRING
+        required: true,
+        autocomplete: true
+      },
+      {
+        name: 'count',
+        description: 'Number of recent analyses to page through (default 3)',
+        type: 4, // INTEGER
+        required: false,
+        min_value: 1,
+        max_value: 20
+      },
+      {
+        name: 'analyst',
+        description: 'Only show analysis posted by this analyst',
+        type: 6, // USER
+        required: false
+      }
+    ]
+  },
+  {
+    name: 'watch',
+    description: 'Get a DM when a new analysis is posted for symbols you watch',
+    options: [
+      {
+        name: 'add',
+        description: 'Add a symbol to your watchlist',
+        type: 1, // SUB_COMMAND
+        options: [
+          { name: 'symbol', description: 'Stock symbol, e.g. NVDA', type: 3, required: true, autocomplete: true }
+        ]
+      },
+      {
+        name: 'remove',
+        description: 'Remove a symbol from your watchlist',
+        type: 1, // SUB_COMMAND
+        options: [
+          { name: 'symbol', description: 'Stock symbol to stop watching', type: 3, required: true, autocomplete: true }
+        ]
+      },
+      {
+        name: 'list',
+        description: 'Show the symbols on your watchlist',
+        type: 1 // SUB_COMMAND
+      }
+    ]
+  },
+  {
+    name: 'relevance',
+    description: 'Inspect analysis relevance scoring (Managers only)',
+    options: [
+      {
+        name: 'explain',
+        description: 'Show the per-component relevance score for a message',
+        type: 1, // SUB_COMMAND
+        options: [
+          { name: 'message_id', description: 'ID of the message to score', type: 3, required: true },
+          { name: 'channel', description: 'Channel the message is in (defaults to this channel, then the analysis channels)', type: 7, required: false }
+        ]
+      }
+    ]
+  },
+  {
+    name: 'symbols',
+    description: 'Manage symbol validation (Managers only)',
+    options: [
+      {
+        name: 'reload',
+        description: 'Reload the ticker universe file used to validate detected symbols',
+        type: 1 // SUB_COMMAND
+      }
+    ]
+  },
+  {
+    name: 'allowlist',
+    description: 'Manage symbols that are always detected (Managers only)',
+    options: [
+      {
+        name: 'add',
+        description: 'Add a symbol to the allowlist',
+        type: 1, // SUB_COMMAND
+        options: [
+          { name: 'symbol', description: 'Stock symbol, e.g. NVDA', type: 3, required: true },
+          { name: 'reason', description: 'Why this symbol is being added', type: 3, required: false, max_length: 200 }
+        ]
+      },
+      {
+        name: 'remove',
+        description: 'Remove a symbol from the allowlist',
+        type: 1, // SUB_COMMAND
+        options: [
+          { name: 'symbol', description: 'Stock symbol to remove', type: 3, required: true }
+        ]
+      },
+      {
+        name: 'list',
+        description: 'Show the allowlist',
+        type: 1 // SUB_COMMAND
+      }
+    ]
+  },
+  {
+    name: 'blocklist',
+    description: 'Manage words that are never detected as symbols (Managers only)',
+    options: [
+      {
+        name: 'add',
+        description: 'Add a symbol to the blocklist',
+        type: 1, // SUB_COMMAND
+        options: [
+          { name: 'symbol', description: 'Stock symbol, e.g. NVDA', type: 3, required: true },
+          { name: 'reason', description: 'Why this symbol is being added', type: 3, required: false, max_length: 200 }
+        ]
+      },
+      {
+        name: 'remove',
+        description: 'Remove a symbol from the blocklist',
+        type: 1, // SUB_COMMAND
+        options: [
+          { name: 'symbol', description: 'Stock symbol to remove', type: 3, required: true }
+        ]
+      },
+      {
+        name: 'list',
+        description: 'Show the blocklist',
+        type: 1 // SUB_COMMAND
+      }
+    ]
+  },
+  {
+    name: 'scrape',
+    description: 'Historical message scraping (Managers only)',
+    options: [
+      {
+        name: 'status',
+        description: 'Show the progress of the current or last historical scrape',
+        type: 1 // SUB_COMMAND
+      },
+      {
+        name: 'rerun',
+        description: 'Re-scrape recent history of the analysis and discussion channels',
+        type: 1, // SUB_COMMAND
+        options: [
+          { name: 'days', description: 'Number of days to re-scrape (default 20)', type: 4, required: false, min_value: 1, max_value: 20 }
+        ]
+      }
+    ]
+  },
+  {
+    name: 'report',
+    description: 'Generate analysis reports (Managers only)',
+    options: [
+      {
+        name: 'weekly',
+        description: 'Post a recap of the last 7 days to the report channel',
+        type: 1, // SUB_COMMAND
+        options: [
+          {
+            name: 'format',
+            description: 'File format (default markdown)',
+            type: 3,
+            required: false,
+            choices: [
+              { name: 'Markdown', value: 'markdown' },
+              { name: 'HTML', value: 'html' }
+            ]
+          }
+        ]
+      }
+    ]
+  },
+  {
+    name: 'pin',
+    description: 'Force the latest analysis for a symbol to a specific message (Managers only)',
+    options: [
+      { name: 'symbol', description: 'Stock symbol, e.g. NVDA', type: 3, required: true },
+      { name: 'message_link', description: 'Link to the analysis message (right-click the message → Copy Message Link)', type: 3, required: true }
+    ]
+  },
+  {
+    name: 'unpin',
+    description: 'Go back to automatic latest-analysis selection for a symbol (Managers only)',
+    options: [
+      { name: 'symbol', description: 'Pinned stock symbol', type: 3, required: true, autocomplete: true }
+    ]
+  },
+  {
+    name: 'setup',
+    description: 'Bind this server\'s analysis, discussion and general channels (Administrators only)',
+    default_member_permissions: '8', // ADMINISTRATOR
+    dm_permission: false,
+    options: [
+      { name: 'long_analysis', description: 'Channel with long analysis', type: 7, required: true, channel_types: [0] },
+      { name: 'short_analysis', description: 'Channel with short analysis', type: 7, required: true, channel_types: [0] },
+      { name: 'general', description: 'General notices channel where symbol buttons are posted', type: 7, required: true, channel_types: [0] },
+      { name: 'manager', description: 'Manager whose messages are indexed as analysis', type: 6, required: true }, // USER
+      { name: 'manager_role', description: 'Role whose members are also treated as managers', type: 8, required: false }, // ROLE
+      { name: 'long_discussion', description: 'Long discussion channel (manager messages only)', type: 7, required: false, channel_types: [0] },
+      { name: 'short_discussion', description: 'Short discussion channel (manager messages only)', type: 7, required: false, channel_types: [0] },
+      { name: 'report', description: 'Channel for weekly reports (defaults to the general channel)', type: 7, required: false, channel_types: [0] }
+    ]
+  },
+  {
+    name: 'toppicks',
+    description: 'Replay archived top picks lists',
+    options: [
+      {
+        name: 'show',
+        description: 'Show the top picks for a day',
+        type: 1, // SUB_COMMAND
+        options: [
+          { name: 'date', description: 'Day to show, YYYY-MM-DD (defaults to the latest)', type: 3, required: false, autocomplete: true }
+        ]
+      },
+      {
+        name: 'diff',
+        description: 'Show symbols added to or dropped from the previous day\'s lists',
+        type: 1, // SUB_COMMAND
+        options: [
+          { name: 'date', description: 'Day to compare with the day before it, YYYY-MM-DD (defaults to the latest)', type: 3, required: false, autocomplete: true }
+        ]
+      }
+    ]
+  },
+  {
+    name: 'performance',
+    description: 'Show how archived top picks performed',
+    options: [
+      { name: 'days', description: 'Number of most recent top picks days to include (default 30)', type: 4, required: false, min_value: 1, max_value: 365 }
+    ]
   }
 ];
 
@@ -30,31 +269,37 @@ const commands = [
 
     await client.login(process.env.DISCORD_TOKEN);
     
-    // Get guild ID from one of the channels we know exists
-    const channelId = process.env.MANAGER_GENERAL_MESSAGES_CHANNEL;
-    if (!channelId) {
-      throw new Error('MANAGER_GENERAL_MESSAGES_CHANNEL is required to determine guild ID');
-    }
+    let guildIds = process.argv.slice(2);
 
-    console.log(`Getting guild info from channel ${channelId}...`);
-    const channel = await client.channels.fetch(channelId);
-    
-    if (!channel || !channel.guild) {
-      throw new Error('Could not find guild from the specified channel');
-    }
+    if (guildIds.length === 0) {
+      // Get guild ID from one of the channels we know exists
+      const channelId = process.env.MANAGER_GENERAL_MESSAGES_CHANNEL;
+      if (!channelId) {
+        throw new Error('MANAGER_GENERAL_MESSAGES_CHANNEL is required to determine guild ID');
+      }
 
-    const guildId = channel.guild.id;
-    console.log(`Found guild: ${channel.guild.name} (${guildId})`);
+      console.log(`Getting guild info from channel ${channelId}...`);
+      const channel = await client.channels.fetch(channelId);
+      
+      if (!channel || !channel.guild) {
+        throw new Error('Could not find guild from the specified channel');
+      }
 
-    // Register commands for this specific guild
+      console.log(`Found guild: ${channel.guild.name} (${channel.guild.id})`);
+      guildIds = [channel.guild.id];
+    }
+
+    // Register commands for each guild
     const rest = new REST().setToken(process.env.DISCORD_TOKEN);
     
-    console.log(`Registering commands for guild ${guildId}...`);
-    
-    await rest.put(
-      Routes.applicationGuildCommands(client.user.id, guildId),
-      { body: commands },
-    );
+    for (const guildId of guildIds) {
+      console.log(`Registering commands for guild ${guildId}...`);
+      
+      await rest.put(
+        Routes.applicationGuildCommands(client.user.id, guildId),
+        { body: commands },
+      );
+    }
 
     console.log('✅ Successfully registered guild-specific slash commands!');
     console.log('Commands should be available immediately in your Discord server.');
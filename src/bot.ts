@@ -1,10 +1,12 @@
-import { Client, GatewayIntentBits, Collection, Events } from 'discord.js';
+import { Client, GatewayIntentBits, Collection, Events, Partials, Message, PartialMessage } from 'discord.js';
 import express, { Request, Response } from 'express';
+import * as path from 'path';
 import { ENV, getBotConfig } from './config';
-import { BotConfig } from './types';
+import { BotConfig, ScrapeProgress } from './types';
 import { ChannelScanner } from './services/ChannelScanner';
 import { SymbolDetector } from './services/SymbolDetector';
 import { AnalysisLinker } from './services/AnalysisLinker';
+import { JsonFileAnalysisStore } from './services/AnalysisStore';
 import { MessageRetention } from './services/MessageRetention';
 import { EphemeralHandler } from './services/EphemeralHandler';
 import { HistoricalScraper } from './services/HistoricalScraper';
@@ -14,21 +16,47 @@ import { Logger } from './utils/Logger';
 import { ThreadManager } from './services/ThreadManager';
 import { HebrewUpdateDetector } from './services/HebrewUpdateDetector';
 import { WordFrequencyAnalyzer } from './services/WordFrequencyAnalyzer';
+import { WatchlistStore } from './services/WatchlistStore';
+import { WatchlistNotifier } from './services/WatchlistNotifier';
+import { RelevanceScorer } from './services/RelevanceScorer';
+import { GuildConfigStore } from './services/GuildConfigStore';
+import { GuildServiceRegistry, GuildServices } from './services/GuildServiceRegistry';
+import { AnalysisApi } from './services/AnalysisApi';
+import { TopPicksArchive } from './services/TopPicksArchive';
+import { FilePriceProvider } from './services/PriceProvider';
+import { TopPicksPerformance } from './services/TopPicksPerformance';
+import { TickerUniverse } from './services/TickerUniverse';
+import { SymbolListStore } from './services/SymbolListStore';
+import { SymbolAllowlist } from './services/SymbolAllowlist';
+import { Scheduler, DailySchedule, CronSchedule } from './services/Scheduler';
+import { DailyDigest } from './services/DailyDigest';
+import { WeeklyReport } from './services/WeeklyReport';
 
 class TradersMindBot {
   private client: Client;
   private config: BotConfig | null;
   private channelScanner: ChannelScanner;
   private symbolDetector: SymbolDetector;
+  private tickerUniverse: TickerUniverse;
+  private symbolListStore: SymbolListStore;
+  private relevanceScorer: RelevanceScorer;
   private analysisLinker: AnalysisLinker;
   private messageRetention: MessageRetention;
   private ephemeralHandler: EphemeralHandler;
-  private historicalScraper: HistoricalScraper;
   private permissionDiagnostic: PermissionDiagnostic;
   private threadManager: ThreadManager;
   private discussionChannelHandler: DiscussionChannelHandler;
   private hebrewUpdateDetector: HebrewUpdateDetector;
   private wordFrequencyAnalyzer: WordFrequencyAnalyzer;
+  private watchlistStore: WatchlistStore;
+  private watchlistNotifier: WatchlistNotifier;
+  private guildConfigStore: GuildConfigStore;
+  private guildRegistry: GuildServiceRegistry;
+  private topPicksArchive: TopPicksArchive;
+  private topPicksPerformance: TopPicksPerformance;
+  private scheduler: Scheduler;
+  private dailyDigest: DailyDigest;
+  private weeklyReport: WeeklyReport;
   private commands: Collection<string, any>;
   private isInitialized: boolean = false;
   private httpServer: any = null;
@@ -41,7 +69,9 @@ class TradersMindBot {
         GatewayIntentBits.GuildMessages,
         GatewayIntentBits.MessageContent,
         GatewayIntentBits.GuildMessageReactions
-      ]
+      ],
+      // Partial messages let us receive edits/deletes for analysis posted before the bot started
+      partials: [Partials.Message, Partials.Channel]
     });
 
     this.commands = new Collection();
@@ -51,21 +81,38 @@ class TradersMindBot {
       throw new Error('Failed to load bot configuration. Please check your environment variables.');
     }
     
+    this.tickerUniverse = TickerUniverse.getShared();
+    this.symbolListStore = SymbolListStore.getShared();
     this.symbolDetector = new SymbolDetector();
-    this.analysisLinker = new AnalysisLinker();
+    this.relevanceScorer = new RelevanceScorer(ENV.RELEVANCE_CONFIG_PATH);
+    this.analysisLinker = new AnalysisLinker(
+      undefined,
+      new JsonFileAnalysisStore(path.join(ENV.DATA_DIR, 'analysis-index.json')),
+      this.relevanceScorer
+    );
     this.messageRetention = new MessageRetention();
     this.ephemeralHandler = new EphemeralHandler(this.analysisLinker, this.messageRetention);
-    this.historicalScraper = new HistoricalScraper(this.config);
     this.permissionDiagnostic = new PermissionDiagnostic();
     this.threadManager = new ThreadManager(this.config.analysisChannels);
     this.discussionChannelHandler = new DiscussionChannelHandler();
     this.hebrewUpdateDetector = new HebrewUpdateDetector();
     this.wordFrequencyAnalyzer = new WordFrequencyAnalyzer();
+    this.watchlistStore = new WatchlistStore(path.join(ENV.DATA_DIR, 'watchlists.json'));
+    this.watchlistNotifier = new WatchlistNotifier(this.client, this.watchlistStore, this.ephemeralHandler);
+    this.analysisLinker.onAnalysisIndexed(analysis => this.watchlistNotifier.handleAnalysisIndexed(this.config!.guildId, analysis));
+    this.guildConfigStore = new GuildConfigStore(path.join(ENV.DATA_DIR, 'guild-configs.json'));
+    this.guildRegistry = new GuildServiceRegistry(config => this.createGuildServices(config));
+    this.topPicksArchive = new TopPicksArchive(path.join(ENV.DATA_DIR, 'top-picks-archive.json'));
+    this.topPicksPerformance = new TopPicksPerformance(new FilePriceProvider(ENV.PRICE_DATA_PATH));
+    this.scheduler = new Scheduler();
+    this.dailyDigest = new DailyDigest();
+    this.weeklyReport = new WeeklyReport(this.topPicksArchive);
     this.channelScanner = new ChannelScanner(
       this.symbolDetector, 
       this.ephemeralHandler,
       this.analysisLinker
     );
+    this.channelScanner.onTopPicks(snapshot => void this.topPicksArchive.record(snapshot));
 
     // Register signal handlers IMMEDIATELY in constructor
     this.registerSignalHandlers();
@@ -88,15 +135,16 @@ class TradersMindBot {
         const discussionInfo = this.config.discussionChannels.length > 0 
           ? `, Discussion=[${this.config.discussionChannels.join(', ')}]`
           : '';
-        const managerInfo = this.config.managerId
-          ? `, ManagerID=${this.config.managerId}`
-          : '';
+        const managerIds = this.discussionChannelHandler.getConfiguredManagerIds(this.config);
+        const managerInfo = (managerIds.length > 0 ? `, ManagerIDs=[${managerIds.join(', ')}]` : '') +
+          (this.config.managerRoles?.length ? `, ManagerRoles=[${this.config.managerRoles.join(', ')}]` : '');
         
         Logger.info(`Monitoring channels: Analysis=[${this.config.analysisChannels.join(', ')}], General=${this.config.generalNoticesChannel}${discussionInfo}${managerInfo}`);
         
         // Run permission diagnostics before initialization (non-blocking)
         this.latestPermissionReport = await this.permissionDiagnostic.runStartupDiagnostics(this.client, this.config);
         
+        await this.registerGuilds();
         await this.initializeBot();
         this.startBackgroundServices();
         
@@ -111,46 +159,54 @@ class TradersMindBot {
     });
 
     this.client.on(Events.MessageCreate, async (message) => {
-      if (message.author.bot || !this.config || !this.isInitialized) return;
+      if (message.author.bot || !this.isInitialized) return;
+
+      const services = this.guildRegistry.get(message.guildId);
+      if (!services || !services.initialized) return;
+      const config = services.config;
 
       // Enhanced logging for message processing
       Logger.debug(`Bot: Processing message ${message.id} in channel ${message.channel.id} from ${message.author.tag}`);
 
-      // Skip thread messages - threads should never be processed by any service
-      const isFromThread = await this.threadManager.isMessageFromThread(this.client, message);
+      // Skip thread messages - only manager follow-ups in analysis threads are indexed, and only when opted in
+      const isFromThread = await services.threadManager.isMessageFromThread(this.client, message);
       if (isFromThread) {
-        Logger.debug(`Bot: Thread message ${message.id} was blocked from all processing`);
+        if (this.isThreadUpdateCandidate(services.config, message)) {
+          await services.analysisLinker.indexThreadUpdate(message);
+        } else {
+          Logger.debug(`Bot: Thread message ${message.id} was blocked from all processing`);
+        }
         return;
       }
 
       Logger.debug(`Bot: Message ${message.id} passed thread check, proceeding with processing`);
 
       // Check for Hebrew daily update and trigger cleanup if detected
-      if (message.channelId === this.config.generalNoticesChannel) {
+      if (message.channelId === config.generalNoticesChannel) {
         if (this.hebrewUpdateDetector.isHebrewDailyUpdate(message.content)) {
           Logger.info(`🔄 Hebrew daily update detected, performing immediate cleanup before processing new buttons`);
-          await this.messageRetention.performImmediateCleanup();
+          await services.messageRetention.performImmediateCleanup();
         }
       }
 
       // Handle general notices channel (existing functionality) - any user can trigger buttons
-      await this.channelScanner.handleMessage(message, this.config);
+      await services.channelScanner.handleMessage(message, config);
       
       // Handle manager-only channels (analysis, discussion, deals)
-      const isAnalysisChannel = this.config.analysisChannels.includes(message.channel.id);
-      const isDiscussionChannel = this.config.discussionChannels.includes(message.channel.id);
-      const isGeneralChannel = this.config.generalNoticesChannel === message.channel.id;
+      const isAnalysisChannel = config.analysisChannels.includes(message.channel.id);
+      const isDiscussionChannel = config.discussionChannels.includes(message.channel.id);
+      const isGeneralChannel = config.generalNoticesChannel === message.channel.id;
       
       // Process manager-only channels
       if (isAnalysisChannel || isDiscussionChannel) {
-        if (this.discussionChannelHandler.isManagerMessage(message, this.config)) {
+        if (this.discussionChannelHandler.isManagerMessage(message, config)) {
           const channelType = isAnalysisChannel ? 'analysis' : 'discussion';
           Logger.info(`📊 Processing ${channelType} channel message from manager ${message.member?.displayName || message.author.tag}`);
           
-          await this.analysisLinker.indexMessage(message);
+          await services.analysisLinker.indexMessage(message);
           
           // Process message for word frequency analysis if active
-          await this.wordFrequencyAnalyzer.processMessage(message, this.config);
+          await this.wordFrequencyAnalyzer.processMessage(message, config);
         } else {
           const channelType = isAnalysisChannel ? 'analysis' : 'discussion';
           Logger.debug(`Bot: Skipping ${channelType} channel message ${message.id} from non-manager ${message.author.tag}`);
@@ -161,9 +217,71 @@ class TradersMindBot {
       }
     });
 
+    this.client.on(Events.MessageUpdate, async (oldMessage, newMessage) => {
+      const services = this.guildRegistry.get(newMessage.guildId);
+      if (!services || !services.initialized) return;
+      const isFollowUp = services.analysisLinker.isFollowUp(newMessage.id);
+      if (!this.isManagerOnlyChannel(services.config, newMessage.channelId) && !isFollowUp) return;
+
+      // Embed unfurls and pin changes also fire updates - only re-index when the text or files changed
+      if (!oldMessage.partial && !newMessage.partial &&
+          oldMessage.content === newMessage.content &&
+          this.haveSameAttachments(oldMessage, newMessage)) {
+        return;
+      }
+
+      try {
+        const message = newMessage.partial ? await newMessage.fetch() : newMessage;
+        if (message.author.bot) return;
+
+        const isFromThread = await services.threadManager.isMessageFromThread(this.client, message);
+        if (isFromThread) {
+          if (isFollowUp && this.isThreadUpdateCandidate(services.config, message)) {
+            Logger.info(`✏️ Manager edited thread update ${message.id} - re-indexing`);
+            await services.analysisLinker.indexThreadUpdate(message);
+          } else {
+            Logger.debug(`Bot: Edited thread message ${message.id} was blocked from re-indexing`);
+          }
+          return;
+        }
+
+        if (this.discussionChannelHandler.isManagerMessage(message, services.config)) {
+          Logger.info(`✏️ Manager edited message ${message.id} - re-indexing analysis`);
+          await services.analysisLinker.reindexMessage(message);
+        } else {
+          // Authorship can't change, but a non-manager message should never stay indexed
+          services.analysisLinker.removeMessage(message.id);
+        }
+      } catch (error) {
+        Logger.error(`Error handling edit of message ${newMessage.id}:`, error);
+      }
+    });
+
+    this.client.on(Events.MessageDelete, async (message) => {
+      this.handleDeletedMessage(message);
+    });
+
+    this.client.on(Events.MessageBulkDelete, async (messages) => {
+      for (const message of messages.values()) {
+        this.handleDeletedMessage(message);
+      }
+    });
+
     this.client.on(Events.InteractionCreate, async (interaction) => {
       if (interaction.isButton()) {
-        await this.ephemeralHandler.handleButtonInteraction(interaction);
+        const services = this.guildRegistry.get(interaction.guildId);
+        if (services) {
+          await services.ephemeralHandler.handleButtonInteraction(interaction);
+        }
+      } else if (interaction.isAutocomplete()) {
+        const command = this.commands.get(interaction.commandName);
+        if (command?.autocomplete) {
+          try {
+            await command.autocomplete(interaction);
+          } catch (error) {
+            Logger.error('Command autocomplete error:', error);
+          }
+        }
       } else if (interaction.isChatInputCommand()) {
         const command = this.commands.get(interaction.commandName);
         if (command) {
@@ -196,6 +314,42 @@ class TradersMindBot {
 
   }
 
+  private isManagerOnlyChannel(config: BotConfig, channelId: string): boolean {
+    return config.analysisChannels.includes(channelId) || config.discussionChannels.includes(channelId);
+  }
+
+  /**
+   * Manager messages in threads under analysis or discussion channels, when INDEX_THREAD_UPDATES is enabled
+   */
+  private isThreadUpdateCandidate(config: BotConfig, message: Message): boolean {
+    if (!ENV.INDEX_THREAD_UPDATES || !message.channel.isThread()) {
+      return false;
+    }
+
+    const parentId = message.channel.parentId;
+    return !!parentId && this.isManagerOnlyChannel(config, parentId) && this.discussionChannelHandler.isManagerMessage(message, config);
+  }
+
+  private haveSameAttachments(oldMessage: Message | PartialMessage, newMessage: Message | PartialMessage): boolean {
+    return oldMessage.attachments.size === newMessage.attachments.size &&
+      oldMessage.attachments.every((_, id) => newMessage.attachments.has(id));
+  }
+
+  private handleDeletedMessage(message: Message | PartialMessage): void {
+    const services = this.guildRegistry.get(message.guildId);
+    if (!services || !services.initialized) return;
+
+    // Pinned messages can live in any channel, thread updates live in threads
+    services.analysisLinker.unpinMessage(message.id);
+    services.analysisLinker.removeFollowUp(message.id);
+    if (!this.isManagerOnlyChannel(services.config, message.channelId)) return;
+
+    const affectedSymbols = services.analysisLinker.removeMessage(message.id);
+    if (affectedSymbols.length > 0) {
+      Logger.info(`🗑️ Analysis message ${message.id} deleted - removed from index for: ${affectedSymbols.join(', ')}`);
+    }
+  }
+
   private registerSignalHandlers(): void {
     // Register SIGINT handler
     process.on('SIGINT', () => {
@@ -262,41 +416,230 @@ class TradersMindBot {
     }
   }
 
+  /**
+   * Builds the per-guild services for a guild configured through /setup
+   * The env-configured guild keeps the services created in the constructor
+   */
+  private createGuildServices(config: BotConfig): GuildServices {
+    // Each guild's managers maintain their own allowlist and blocklist
+    const symbolLists = new SymbolListStore(path.join(ENV.DATA_DIR, `symbol-lists-${config.guildId}.json`));
+    const symbolDetector = new SymbolDetector(undefined, undefined, undefined, new SymbolAllowlist(symbolLists));
+    const analysisLinker = new AnalysisLinker(
+      symbolDetector,
+      new JsonFileAnalysisStore(path.join(ENV.DATA_DIR, `analysis-index-${config.guildId}.json`)),
+      this.relevanceScorer
+    );
+    analysisLinker.onAnalysisIndexed(analysis => this.watchlistNotifier.handleAnalysisIndexed(config.guildId, analysis));
+    analysisLinker.setAnalysisChannels(config.analysisChannels);
+
+    const messageRetention = new MessageRetention();
+    const ephemeralHandler = new EphemeralHandler(analysisLinker, messageRetention);
+    const channelScanner = new ChannelScanner(symbolDetector, ephemeralHandler, analysisLinker);
+    channelScanner.onTopPicks(snapshot => void this.topPicksArchive.record(snapshot));
+
+    return {
+      config,
+      analysisLinker,
+      messageRetention,
+      ephemeralHandler,
+      channelScanner,
+      threadManager: new ThreadManager(config.analysisChannels),
+      symbolLists,
+      initialized: false
+    };
+  }
+
+  /**
+   * Registers the env-configured guild and every guild saved by /setup
+   */
+  private async registerGuilds(): Promise<void> {
+    await this.guildConfigStore.load();
+
+    const primaryGuildId = await this.resolvePrimaryGuildId();
+    if (primaryGuildId) {
+      // A /setup in the main guild overrides the env channels
+      this.config = this.guildConfigStore.get(primaryGuildId) || { ...this.config!, guildId: primaryGuildId };
+      this.analysisLinker.setAnalysisChannels(this.config.analysisChannels);
+      this.guildRegistry.register({
+        config: this.config,
+        analysisLinker: this.analysisLinker,
+        messageRetention: this.messageRetention,
+        ephemeralHandler: this.ephemeralHandler,
+        channelScanner: this.channelScanner,
+        threadManager: this.threadManager,
+        symbolLists: this.symbolListStore,
+        initialized: false
+      });
+    } else {
+      Logger.error('Could not determine the guild for the env-configured channels - only /setup guilds will be served');
+    }
+
+    for (const config of this.guildConfigStore.getAll()) {
+      if (config.guildId !== primaryGuildId) {
+        this.guildRegistry.configure(config);
+      }
+    }
+
+    Logger.info(`Serving ${this.guildRegistry.getAll().length} guild(s)`);
+  }
+
+  private async resolvePrimaryGuildId(): Promise<string | null> {
+    try {
+      const channel = await this.client.channels.fetch(this.config!.generalNoticesChannel);
+      if (channel && 'guildId' in channel && channel.guildId) {
+        return channel.guildId;
+      }
+    } catch (error) {
+      Logger.warn(`Could not fetch general notices channel to resolve its guild: ${error}`);
+    }
+
+    // A bot that is only in one guild can only be serving that guild
+    return this.client.guilds.cache.size === 1 ? this.client.guilds.cache.first()!.id : null;
+  }
+
+  /**
+   * Applies a configuration saved by /setup and backfills the guild with the new channels
+   */
+  private async applyGuildConfig(config: BotConfig): Promise<void> {
+    const services = this.guildRegistry.configure(config);
+    services.messageRetention.initialize(this.client, config);
+    services.messageRetention.startCleanupScheduler();
+
+    if (services.analysisLinker === this.analysisLinker) {
+      this.config = config;
+    }
+
+    await this.initializeGuild(services);
+  }
+
   private async initializeBot(): Promise<void> {
+    Logger.info('Initializing bot with historical data...');
+    
+    await this.watchlistStore.load(this.config!.guildId);
+    await this.topPicksArchive.load();
+    
+    for (const services of this.guildRegistry.getAll()) {
+      await this.initializeGuild(services);
+    }
+    this.isInitialized = true;
+    
+    Logger.info('Bot initialization complete! Ready to process messages.');
+  }
+
+  private async initializeGuild(services: GuildServices): Promise<void> {
+    const { config, analysisLinker } = services;
+
     try {
-      Logger.info('Initializing bot with historical data...');
+      Logger.info(`Initializing guild ${config.guildId} with historical data...`);
       
-      // Reinitialize services with client for enhanced symbol detection
-      this.symbolDetector = new SymbolDetector(this.client, this.config!.analysisChannels, this.config!.discussionChannels);
-      this.historicalScraper = new HistoricalScraper(this.config!, this.client);
-      
-      const historicalData = await this.historicalScraper.scrapeHistoricalAnalysis(
-        this.client,
-        this.config!
-      );
+      await services.symbolLists.load();
       
-      this.analysisLinker.initializeFromHistoricalData(historicalData);
-      this.isInitialized = true;
+      // Restore the persisted index first so the scraper only has to backfill newer messages
+      const restored = await analysisLinker.loadFromStore();
       
-      Logger.info('Bot initialization complete! Ready to process messages.');
+      await this.scrapeGuild(services, restored ? analysisLinker.getChannelCheckpoints() : undefined);
     } catch (error) {
-      Logger.error('Error during bot initialization:', error);
-      Logger.warn('Bot will continue without historical data.');
-      this.isInitialized = true;
+      Logger.error(`Error during initialization of guild ${config.guildId}:`, error);
+      Logger.warn('Guild will continue without historical data.');
     }
+
+    services.initialized = true;
+  }
+
+  /**
+   * Scrapes a guild's channels into its analysis index, committing every page with its channel checkpoint
+   * @param channelCheckpoints Resume each channel after its checkpoint; omit to scrape the whole window
+   * @param days Scrape window, defaults to DAYS_TO_SCRAPE
+   */
+  private async scrapeGuild(services: GuildServices, channelCheckpoints?: Map<string, string>, days?: number): Promise<void> {
+    const historicalScraper = new HistoricalScraper(services.config, this.client, this.relevanceScorer, services.symbolLists);
+    services.historicalScraper = historicalScraper;
+
+    await historicalScraper.scrapeHistoricalAnalysis(this.client, services.config, channelCheckpoints, {
+      ...(days !== undefined && { days }),
+      onBatch: batch => services.analysisLinker.applyScrapedBatch(batch)
+    });
   }
 
   private startBackgroundServices(): void {
-    this.messageRetention.initialize(this.client, this.config!);
-    this.messageRetention.startCleanupScheduler();
+    for (const services of this.guildRegistry.getAll()) {
+      services.messageRetention.initialize(this.client, services.config);
+      services.messageRetention.startCleanupScheduler();
+    }
     
     MessageRetention.setInstance(this.messageRetention);
     
+    this.relevanceScorer.startWatching();
+
+    this.scheduleDailyDigest();
+    this.scheduleWeeklyReport();
+    this.scheduler.start();
+    
     this.startHealthCheckServer();
     
     Logger.info('Background services started');
   }
 
+  /**
+   * Posts the daily digest to every initialized guild at DIGEST_TIME in TIMEZONE
+   */
+  private scheduleDailyDigest(): void {
+    if (!ENV.DIGEST_TIME) {
+      Logger.info('DIGEST_TIME not set - daily digest disabled');
+      return;
+    }
+
+    const schedule = DailySchedule.parse(ENV.DIGEST_TIME, ENV.TIMEZONE);
+    if (!schedule) {
+      Logger.warn(`Invalid DIGEST_TIME "${ENV.DIGEST_TIME}" or TIMEZONE "${ENV.TIMEZONE}" - daily digest disabled (expected HH:MM and an IANA time zone)`);
+      return;
+    }
+
+    this.scheduler.add('daily-digest', schedule, async () => {
+      for (const services of this.guildRegistry.getAll()) {
+        if (!services.initialized) {
+          continue;
+        }
+
+        try {
+          await this.dailyDigest.post(this.client, services);
+        } catch (error) {
+          Logger.error(`Failed to post daily digest for guild ${services.config.guildId}:`, error);
+        }
+      }
+    });
+  }
+
+  /**
+   * Posts the weekly report to every initialized guild on the REPORT_CRON schedule in TIMEZONE
+   */
+  private scheduleWeeklyReport(): void {
+    if (!ENV.REPORT_CRON) {
+      Logger.info('REPORT_CRON not set - scheduled weekly report disabled');
+      return;
+    }
+
+    const schedule = CronSchedule.parse(ENV.REPORT_CRON, ENV.TIMEZONE);
+    if (!schedule) {
+      Logger.warn(`Invalid REPORT_CRON "${ENV.REPORT_CRON}" or TIMEZONE "${ENV.TIMEZONE}" - scheduled weekly report disabled (expected a five-field cron expression and an IANA time zone)`);
+      return;
+    }
+
+    this.scheduler.add('weekly-report', schedule, async () => {
+      for (const services of this.guildRegistry.getAll()) {
+        if (!services.initialized) {
+          continue;
+        }
+
+        try {
+          await this.weeklyReport.post(this.client, services, ENV.REPORT_FORMAT);
+        } catch (error) {
+          Logger.error(`Failed to post weekly report for guild ${services.config.guildId}:`, error);
+        }
+      }
+    });
+  }
+
   private async handlePermissionError(): Promise<void> {
     try {
       if (!this.config) return;
@@ -353,6 +696,20 @@ class TradersMindBot {
     return permissionErrorMessages.some(msg => errorMessage.includes(msg));
   }
 
+  private summarizeScrapeProgress(progress: ScrapeProgress) {
+    return {
+      status: progress.status,
+      days: progress.days,
+      resumed: progress.resumed,
+      startedAt: progress.startedAt,
+      finishedAt: progress.finishedAt,
+      channelsCompleted: progress.channels.filter(channel => channel.status === 'completed').length,
+      channelsFailed: progress.channels.filter(channel => channel.status === 'failed').length,
+      channelsTotal: progress.channels.length,
+      messagesFetched: progress.channels.reduce((sum, channel) => sum + channel.messagesFetched, 0)
+    };
+  }
+
   private startHealthCheckServer(): void {
     const app = express();
     const port = process.env.PORT || 10000;
@@ -382,11 +739,32 @@ class TradersMindBot {
         permissions: permissionStatus,
         retention: stats,
         symbolsTracked: this.analysisLinker.getTrackedSymbolsCount(),
+        guilds: this.guildRegistry.getAll().map(services => ({
+          guildId: services.config.guildId,
+          initialized: services.initialized,
+          symbolsTracked: services.analysisLinker.getTrackedSymbolsCount(),
+          pendingCleanups: services.messageRetention.getRetentionStats().pendingJobs,
+          scrape: services.historicalScraper ? this.summarizeScrapeProgress(services.historicalScraper.getProgress()) : null
+        })),
+        scheduledJobs: this.scheduler.getJobs(),
         uptime: Math.floor(process.uptime()),
         timestamp: new Date().toISOString()
       });
     });
 
+    if (ENV.API_TOKEN) {
+      const api = new AnalysisApi(
+        ENV.API_TOKEN,
+        this.guildRegistry,
+        () => this.config?.guildId || null,
+        this.topPicksArchive
+      );
+      app.use('/api', api.createRouter());
+      Logger.info('Analysis API enabled at /api');
+    } else {
+      Logger.info('API_TOKEN not set - analysis API disabled');
+    }
+
     app.get('/', (req: Request, res: Response) => {
       res.json({ 
         service: 'TradersMind Discord Bot',
@@ -402,6 +780,17 @@ class TradersMindBot {
 
   private shutdownInProgress = false;
 
+  /**
+   * All guild services, including the env guild's before it has been registered
+   */
+  private getAllGuildServices(): Array<Pick<GuildServices, 'messageRetention' | 'ephemeralHandler'>> {
+    const all: Array<Pick<GuildServices, 'messageRetention' | 'ephemeralHandler'>> = this.guildRegistry.getAll();
+    if (!all.some(services => services.messageRetention === this.messageRetention)) {
+      all.push({ messageRetention: this.messageRetention, ephemeralHandler: this.ephemeralHandler });
+    }
+    return all;
+  }
+
   private async shutdown(): Promise<void> {
     if (this.shutdownInProgress) {
       return;
@@ -414,10 +803,10 @@ class TradersMindBot {
     try {
       // PRIORITY 1: Message cleanup FIRST (most important)
       try {
-        const cleanupPromise = Promise.all([
-          this.messageRetention.performFinalCleanup(),
-          Promise.resolve(this.ephemeralHandler.performFinalCleanup())
-        ]);
+        const cleanupPromise = Promise.all(this.getAllGuildServices().flatMap(services => [
+          services.messageRetention.performFinalCleanup(),
+          Promise.resolve(services.ephemeralHandler.performFinalCleanup())
+        ]));
 
         const timeoutPromise = new Promise((_, reject) => {
           setTimeout(() => reject(new Error('Cleanup timeout after 8 seconds')), 8000);
@@ -432,7 +821,11 @@ class TradersMindBot {
       // PRIORITY 2: Stop schedulers  
       console.log(`ℹ️ INFO: ${timestamp()} Stopping background schedulers...`);
       try {
-        this.messageRetention.stopCleanupScheduler();
+        for (const services of this.getAllGuildServices()) {
+          services.messageRetention.stopCleanupScheduler();
+        }
+        this.relevanceScorer.stopWatching();
+        this.scheduler.stop();
         console.log(`✅ SUCCESS: ${timestamp()} Schedulers stopped`);
       } catch (error) {
         console.log(`❌ ERROR: ${timestamp()} Scheduler stop failed:`, error);
@@ -494,7 +887,7 @@ class TradersMindBot {
     this.commands.set('status', statusCommand);
 
     // Initialize status command services
-    statusCommand.initializeServices(this.discussionChannelHandler);
+    statusCommand.initializeServices(this.discussionChannelHandler, this.guildRegistry);
 
     const createbuttonsCommand = await import('./commands/createbuttons');
     this.commands.set('createbuttons', createbuttonsCommand);
@@ -504,8 +897,91 @@ class TradersMindBot {
       this.discussionChannelHandler,
       this.symbolDetector,
       this.ephemeralHandler,
-      this.analysisLinker
+      this.analysisLinker,
+      this.guildRegistry
     );
+
+    const analysisCommand = await import('./commands/analysis');
+    this.commands.set('analysis', analysisCommand);
+
+    // Initialize analysis command services
+    analysisCommand.initializeServices(this.analysisLinker, this.ephemeralHandler, this.guildRegistry);
+
+    const watchCommand = await import('./commands/watch');
+    this.commands.set('watch', watchCommand);
+
+    // Initialize watch command services
+    watchCommand.initializeServices(this.watchlistStore, this.analysisLinker, this.guildRegistry);
+
+    const relevanceCommand = await import('./commands/relevance');
+    this.commands.set('relevance', relevanceCommand);
+
+    // Initialize relevance command services
+    relevanceCommand.initializeServices(this.discussionChannelHandler, this.analysisLinker, this.guildRegistry);
+
+    const setupCommand = await import('./commands/setup');
+    this.commands.set('setup', setupCommand);
+
+    // Initialize setup command services
+    setupCommand.initializeServices(this.guildConfigStore, config => this.applyGuildConfig(config));
+
+    const toppicksCommand = await import('./commands/toppicks');
+    this.commands.set('toppicks', toppicksCommand);
+
+    // Initialize toppicks command services
+    toppicksCommand.initializeServices(this.topPicksArchive);
+
+    const performanceCommand = await import('./commands/performance');
+    this.commands.set('performance', performanceCommand);
+
+    // Initialize performance command services
+    performanceCommand.initializeServices(this.topPicksArchive, this.topPicksPerformance);
+
+    const symbolsCommand = await import('./commands/symbols');
+    this.commands.set('symbols', symbolsCommand);
+
+    // Initialize symbols command services
+    symbolsCommand.initializeServices(this.discussionChannelHandler, this.tickerUniverse, this.guildRegistry);
+
+    const allowlistCommand = await import('./commands/allowlist');
+    this.commands.set('allowlist', allowlistCommand);
+
+    // Initialize allowlist command services
+    allowlistCommand.initializeServices(this.discussionChannelHandler, this.symbolListStore, this.analysisLinker, this.guildRegistry);
+
+    const blocklistCommand = await import('./commands/blocklist');
+    this.commands.set('blocklist', blocklistCommand);
+
+    // Initialize blocklist command services
+    blocklistCommand.initializeServices(this.discussionChannelHandler, this.symbolListStore, this.analysisLinker, this.guildRegistry);
+
+    const pinCommand = await import('./commands/pin');
+    this.commands.set('pin', pinCommand);
+
+    // Initialize pin command services
+    pinCommand.initializeServices(this.discussionChannelHandler, this.analysisLinker, this.guildRegistry);
+
+    const unpinCommand = await import('./commands/unpin');
+    this.commands.set('unpin', unpinCommand);
+
+    // Initialize unpin command services
+    unpinCommand.initializeServices(this.discussionChannelHandler, this.analysisLinker, this.guildRegistry);
+
+    const scrapeCommand = await import('./commands/scrape');
+    this.commands.set('scrape', scrapeCommand);
+
+    // Initialize scrape command services
+    scrapeCommand.initializeServices(this.discussionChannelHandler, this.guildRegistry, (services, days) => {
+      this.scrapeGuild(services, undefined, days).catch(error => {
+        Logger.error(`Error during historical re-scrape of guild ${services.config.guildId}:`, error);
+      });
+    });
+    
+    const reportCommand = await import('./commands/report');
+    this.commands.set('report', reportCommand);
+
+    // Initialize report command services
+    reportCommand.initializeServices(this.discussionChannelHandler, this.guildRegistry, this.weeklyReport);
     
     Logger.info('Commands loaded');
   }
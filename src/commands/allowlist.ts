@@ -0,0 +1,7 @@
+import { createSymbolListCommand } from './symbolListCommand';
+
+const command = createSymbolListCommand('allow');
+
+export const data = command.data;
+export const initializeServices = command.initializeServices;
+export const execute = command.execute;
@@ -0,0 +1,129 @@
+import { SlashCommandBuilder, ChatInputCommandInteraction, AutocompleteInteraction } from 'discord.js';
+import { AnalysisLinker } from '../services/AnalysisLinker';
+import { EphemeralHandler } from '../services/EphemeralHandler';
+import { DirectionClassifier } from '../services/DirectionClassifier';
+import { GuildServiceRegistry } from '../services/GuildServiceRegistry';
+import { Logger } from '../utils/Logger';
+
+const DEFAULT_COUNT = 3;
+const MAX_COUNT = 20;
+const MAX_AUTOCOMPLETE_CHOICES = 25;
+
+// Service instances - will be initialized by the bot
+let analysisLinker: AnalysisLinker | null = null;
+let ephemeralHandler: EphemeralHandler | null = null;
+let guildRegistry: GuildServiceRegistry | null = null;
+
+// Initialize services (called by bot during startup)
+export function initializeServices(al: AnalysisLinker, eh: EphemeralHandler, registry?: GuildServiceRegistry) {
+  analysisLinker = al;
+  ephemeralHandler = eh;
+  guildRegistry = registry || null;
+}
+
+/**
+ * The analysis index and handler for the interaction's guild
+ * Without a registry the services passed to initializeServices apply everywhere
+ */
+function resolveServices(guildId: string | null): { analysisLinker: AnalysisLinker | null; ephemeralHandler: EphemeralHandler | null } {
+  if (!guildRegistry) {
+    return { analysisLinker, ephemeralHandler };
+  }
+
+  const services = guildRegistry.get(guildId);
+  return {
+    analysisLinker: services?.analysisLinker || null,
+    ephemeralHandler: services?.ephemeralHandler || null
+  };
+}
+
+export const data = new SlashCommandBuilder()
+  .setName('analysis')
+  .setDescription('Look up the latest analysis for a stock symbol')
+  .addStringOption(option =>
+    option
+      .setName('symbol')
+      .setDescription('Stock symbol, e.g. NVDA')
+      .setRequired(true)
+      .setAutocomplete(true)
+  )
+  .addIntegerOption(option =>
+    option
+      .setName('count')
+      .setDescription(`Number of recent analyses to page through (default ${DEFAULT_COUNT})`)
+      .setMinValue(1)
+      .setMaxValue(MAX_COUNT)
+  )
+  .addUserOption(option =>
+    option
+      .setName('analyst')
+      .setDescription('Only show analysis posted by this analyst')
+  );
+
+export async function execute(interaction: ChatInputCommandInteraction) {
+  const { analysisLinker, ephemeralHandler } = resolveServices(interaction.guildId);
+  if (!analysisLinker || !ephemeralHandler) {
+    await interaction.reply({
+      content: guildRegistry
+        ? '❌ This server is not configured yet - an administrator can run `/setup` to bind its channels'
+        : '❌ Bot services not properly initialized',
+      ephemeral: true
+    });
+    return;
+  }
+
+  const symbol = interaction.options.getString('symbol', true).trim().replace(/^\$/, '').toUpperCase();
+  const count = interaction.options.getInteger('count') ?? DEFAULT_COUNT;
+  const analyst = interaction.options.getUser('analyst');
+
+  Logger.interaction(`/analysis ${symbol} (count ${count}${analyst ? `, analyst ${analyst.tag}` : ''}) requested by ${interaction.user.tag}`);
+
+  await interaction.deferReply({ ephemeral: true });
+
+  const analyses = await analysisLinker.getAnalysisHistory(symbol, count, analyst?.id);
+  if (analyses.length === 0) {
+    await interaction.editReply({
+      content: analyst
+        ? `📊 **$${symbol}**\n\n❌ No recent analysis from <@${analyst.id}> found for this symbol.`
+        : `📊 **$${symbol}**\n\n❌ No recent analysis found for this symbol.`
+    });
+    return;
+  }
+
+  const page = ephemeralHandler.buildAnalysisPage(symbol, analyses, 0, interaction.client, interaction.guildId, analyst?.id);
+
+  // Same order as the pages, so the first entry is the analysis on screen; the full history
+  // still catches a flip when count is 1
+  const history = await analysisLinker.getAnalysisHistory(symbol, AnalysisLinker.MAX_ANALYSES_PER_SYMBOL, analyst?.id);
+  const flip = DirectionClassifier.detectFlip(history);
+  if (flip) {
+    Logger.info(`Direction flip for ${symbol}: ${flip.previous.direction} (${flip.previous.messageId}) -> ${flip.latest.direction} (${flip.latest.messageId})`);
+    const previousCall = flip.previous.messageUrl
+      ? `[previous call](${flip.previous.messageUrl})`
+      : 'previous call';
+    await interaction.editReply({
+      ...page,
+      content: `⚠️ **Direction flip:** the call shown on $${symbol} is **${flip.latest.direction}**, the ${previousCall} was **${flip.previous.direction}**.`
+    });
+    return;
+  }
+
+  await interaction.editReply(page);
+}
+
+export async function autocomplete(interaction: AutocompleteInteraction) {
+  const { analysisLinker } = resolveServices(interaction.guildId);
+  if (!analysisLinker) {
+    await interaction.respond([]);
+    return;
+  }
+
+  const query = interaction.options.getFocused().trim().replace(/^\$/, '').toUpperCase();
+  const choices = analysisLinker.getAvailableSymbols()
+    .filter(symbol => symbol.startsWith(query))
+    .sort()
+    .slice(0, MAX_AUTOCOMPLETE_CHOICES)
+    .map(symbol => ({ name: `$${symbol}`, value: symbol }));
+
+  await interaction.respond(choices);
+}
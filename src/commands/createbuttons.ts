@@ -1,10 +1,11 @@
 import { SlashCommandBuilder, ChatInputCommandInteraction, EmbedBuilder, Colors } from 'discord.js';
-import { getBotConfig } from '../config';
+import { getBotConfig, SYMBOL_FORMAT } from '../config';
 import { DiscussionChannelHandler } from '../services/DiscussionChannelHandler';
 import { SymbolDetector } from '../services/SymbolDetector';
 import { EphemeralHandler } from '../services/EphemeralHandler';
 import { AnalysisLinker } from '../services/AnalysisLinker';
 import { MessageRetention } from '../services/MessageRetention';
+import { GuildServiceRegistry } from '../services/GuildServiceRegistry';
 import { StockSymbol, BotConfig } from '../types';
 import { Logger } from '../utils/Logger';
 
@@ -13,13 +14,15 @@ let discussionChannelHandler: DiscussionChannelHandler;
 let symbolDetector: SymbolDetector;
 let ephemeralHandler: EphemeralHandler;
 let analysisLinker: AnalysisLinker;
+let guildRegistry: GuildServiceRegistry | null = null;
 
 // Initialize services (called by bot during startup)
 export function initializeServices(
   dch: DiscussionChannelHandler,
   sd: SymbolDetector,
   eh: EphemeralHandler,
-  al?: AnalysisLinker
+  al?: AnalysisLinker,
+  registry?: GuildServiceRegistry
 ) {
   discussionChannelHandler = dch;
   symbolDetector = sd;
@@ -27,6 +30,7 @@ export function initializeServices(
   if (al) {
     analysisLinker = al;
   }
+  guildRegistry = registry || null;
 }
 
 export const data = new SlashCommandBuilder()
@@ -38,8 +42,11 @@ export async function execute(interaction: ChatInputCommandInteraction) {
   Logger.info(`/createbuttons started by ${interaction.user.tag} in channel ${interaction.channel?.id}`);
   
   try {
-    // Get bot configuration
-    const config = getBotConfig();
+    // Get bot configuration - guild-scoped when a registry is available
+    const guildServices = guildRegistry ? guildRegistry.get(interaction.guildId) : null;
+    const config = guildRegistry ? guildServices?.config || null : getBotConfig();
+    const guildEphemeralHandler = guildServices ? guildServices.ephemeralHandler : ephemeralHandler;
+    const guildAnalysisLinker = guildServices ? guildServices.analysisLinker : analysisLinker;
     
     if (!config) {
       Logger.error('Bot configuration error in /createbuttons');
@@ -65,6 +72,7 @@ export async function execute(interaction: ChatInputCommandInteraction) {
     const mockMessage = {
       author: interaction.user,
       channel: interaction.channel,
+      member: interaction.member,
       id: 'mock-interaction-message'
     } as any;
 
@@ -114,7 +122,8 @@ export async function execute(interaction: ChatInputCommandInteraction) {
     const latestMessage = managerMessages.first()!;
     
     // Parse symbols from the message content
-    const symbols = parseDealsSymbols(latestMessage.content);
+    // Validate with the guild's own symbol lists
+    const symbols = parseDealsSymbols(latestMessage.content, guildAnalysisLinker ? guildAnalysisLinker.getSymbolDetector() : symbolDetector);
     Logger.debug(`Parsed ${symbols.length} symbols: ${symbols.map(s => s.symbol).join(', ')}`);
 
     if (symbols.length === 0) {
@@ -126,7 +135,7 @@ export async function execute(interaction: ChatInputCommandInteraction) {
     }
 
     // Filter symbols based on channel context (LONG vs SHORT)
-    const filteredSymbols = filterSymbolsByChannelContext(symbols, interaction.channel.id, config);
+    const filteredSymbols = filterSymbolsByChannelContext(symbols, interaction.channel.id, config, guildAnalysisLinker);
     Logger.debug(`Filtered to ${filteredSymbols.length} symbols with analysis from relevant channels: ${filteredSymbols.map(s => s.symbol).join(', ')}`);
 
     if (filteredSymbols.length === 0) {
@@ -138,7 +147,7 @@ export async function execute(interaction: ChatInputCommandInteraction) {
     }
 
     // Create symbol buttons using existing EphemeralHandler
-    if (!ephemeralHandler) {
+    if (!guildEphemeralHandler) {
       Logger.error('EphemeralHandler not initialized in /createbuttons');
       await interaction.editReply({
         content: '❌ Service initialization error - please contact administrator'
@@ -146,7 +155,7 @@ export async function execute(interaction: ChatInputCommandInteraction) {
       return;
     }
 
-    await ephemeralHandler.createSymbolButtons(latestMessage, filteredSymbols);
+    await guildEphemeralHandler.createSymbolButtons(latestMessage, filteredSymbols, 'createbuttons');
     Logger.debug('Symbol buttons created successfully');
 
     // Update ephemeral response with success message
@@ -185,7 +194,12 @@ export async function execute(interaction: ChatInputCommandInteraction) {
  * When /createbuttons is used in a LONG channel, only show symbols with analysis from LONG channels
  * When used in a SHORT channel, only show symbols with analysis from SHORT channels
  */
-function filterSymbolsByChannelContext(symbols: StockSymbol[], channelId: string, config: BotConfig): StockSymbol[] {
+function filterSymbolsByChannelContext(
+  symbols: StockSymbol[],
+  channelId: string,
+  config: BotConfig,
+  analysisLinker: AnalysisLinker | undefined
+): StockSymbol[] {
   // If analysisLinker not available, return all symbols (fallback)
   if (!analysisLinker) {
     Logger.warn('AnalysisLinker not available for channel filtering - returning all symbols');
@@ -233,7 +247,7 @@ function filterSymbolsByChannelContext(symbols: StockSymbol[], channelId: string
  * Parses symbols from a deals message format like "QUBT / BKV / MSFT / VEEV 👀"
  * Handles various formats: "SYMBOL / SYMBOL", "SYMBOL/SYMBOL", "SYMBOL SYMBOL"
  */
-function parseDealsSymbols(content: string): StockSymbol[] {
+function parseDealsSymbols(content: string, symbolDetector: SymbolDetector): StockSymbol[] {
   Logger.debug(`Parsing deals symbols from content: "${content}"`);
 
   // Split content into lines and find the first line with potential symbols
@@ -266,9 +280,9 @@ function parseDealsSymbols(content: string): StockSymbol[] {
   const potentialSymbols = symbolLine
     .split(/[\s\/]+/)
     .map(s => s.trim())
-    .map(s => s.replace(/[^\w]/g, '')) // Remove emojis and special chars
-    .filter(s => s.length > 0 && s.length <= 5 && /^[A-Z]+$/i.test(s))
-    .map(s => s.toUpperCase());
+    .map(s => s.replace(/[^\w.-]/g, '').replace(/^[.-]+|[.-]+$/g, '')) // Remove emojis and special chars, keep BRK.B / RDS-A
+    .map(s => s.toUpperCase())
+    .filter(s => SYMBOL_FORMAT.test(s));
 
   // Remove duplicates
   const uniqueSymbols = [...new Set(potentialSymbols)];
@@ -276,7 +290,6 @@ function parseDealsSymbols(content: string): StockSymbol[] {
   Logger.debug(`Found potential symbols: ${uniqueSymbols.join(', ')}`);
 
   // Use context-aware validation for deals
-  const symbolDetector = new SymbolDetector();
   const validSymbols: string[] = [];
   const rejectedSingleLetters: string[] = [];
 
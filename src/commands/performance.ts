@@ -0,0 +1,95 @@
+import { SlashCommandBuilder, ChatInputCommandInteraction, EmbedBuilder, Colors } from 'discord.js';
+import { TopPicksArchive } from '../services/TopPicksArchive';
+import { TopPicksPerformance, PrioritySummary } from '../services/TopPicksPerformance';
+import { PERFORMANCE_DEFAULT_DAYS } from '../config';
+import { Logger } from '../utils/Logger';
+
+const MAX_MISSING_SYMBOLS_SHOWN = 15;
+
+// Service instances - will be initialized by the bot
+let topPicksArchive: TopPicksArchive | null = null;
+let topPicksPerformance: TopPicksPerformance | null = null;
+
+// Initialize services (called by bot during startup)
+export function initializeServices(archive: TopPicksArchive, performance: TopPicksPerformance) {
+  topPicksArchive = archive;
+  topPicksPerformance = performance;
+}
+
+export const data = new SlashCommandBuilder()
+  .setName('performance')
+  .setDescription('Show how archived top picks performed')
+  .addIntegerOption(option =>
+    option
+      .setName('days')
+      .setDescription(`Number of most recent top picks days to include (default ${PERFORMANCE_DEFAULT_DAYS})`)
+      .setMinValue(1)
+      .setMaxValue(TopPicksArchive.MAX_DAYS_PER_GUILD)
+  );
+
+function formatPercent(value: number): string {
+  const percent = value * 100;
+  return `${percent >= 0 ? '+' : ''}${percent.toFixed(2)}%`;
+}
+
+function formatSummary(summary: PrioritySummary): string {
+  if (summary.picks === 0) {
+    return 'No picks with price data';
+  }
+
+  return summary.horizons.map(stats => {
+    if (stats.count === 0 || stats.averageReturn === null || stats.winRate === null) {
+      return `\`${stats.horizon}d\` not enough price data yet`;
+    }
+    return `\`${stats.horizon}d\` ${formatPercent(stats.averageReturn)} avg · ${Math.round(stats.winRate * 100)}% win (n=${stats.count})`;
+  }).join('\n');
+}
+
+export async function execute(interaction: ChatInputCommandInteraction) {
+  if (!topPicksArchive || !topPicksPerformance || !interaction.guildId) {
+    await interaction.reply({
+      content: '❌ Bot services not properly initialized',
+      ephemeral: true
+    });
+    return;
+  }
+
+  const dayCount = interaction.options.getInteger('days') ?? PERFORMANCE_DEFAULT_DAYS;
+  Logger.interaction(`/performance (${dayCount} days) requested by ${interaction.user.tag}`);
+
+  const days = topPicksArchive.getRecentDays(interaction.guildId, dayCount);
+  if (days.length === 0) {
+    await interaction.reply({
+      content: '📊 No top picks have been archived yet.',
+      ephemeral: true
+    });
+    return;
+  }
+
+  const report = await topPicksPerformance.buildReport(days);
+  const long = report.summaries.top_long;
+  const short = report.summaries.top_short;
+
+  const embed = new EmbedBuilder()
+    .setTitle('📊 Top Picks Performance')
+    .setDescription(
+      `${report.days} day(s) of top picks, ${report.from} → ${report.to}\n` +
+      'Forward returns from the close on the pick day; short returns are inverted so positive means the pick worked.'
+    )
+    .setColor(Colors.Blue)
+    .addFields([
+      { name: `📈 Top Long (${long.picks} picks)`, value: formatSummary(long), inline: false },
+      { name: `📉 Top Short (${short.picks} picks)`, value: formatSummary(short), inline: false }
+    ])
+    .setTimestamp();
+
+  if (report.missingPrices.length > 0) {
+    const shown = report.missingPrices.slice(0, MAX_MISSING_SYMBOLS_SHOWN).join(', ');
+    const more = report.missingPrices.length > MAX_MISSING_SYMBOLS_SHOWN
+      ? ` +${report.missingPrices.length - MAX_MISSING_SYMBOLS_SHOWN} more`
+      : '';
+    embed.setFooter({ text: `No price data for: ${shown}${more}` });
+  }
+
+  await interaction.reply({ embeds: [embed], ephemeral: true });
+}
@@ -0,0 +1,107 @@
+import { SlashCommandBuilder, ChatInputCommandInteraction } from 'discord.js';
+import { getBotConfig, SYMBOL_FORMAT } from '../config';
+import { DiscussionChannelHandler } from '../services/DiscussionChannelHandler';
+import { AnalysisLinker } from '../services/AnalysisLinker';
+import { GuildServiceRegistry } from '../services/GuildServiceRegistry';
+import { DiscordUrlGenerator } from '../utils/DiscordUrlGenerator';
+import { Logger } from '../utils/Logger';
+
+// Service instances - will be initialized by the bot
+let discussionChannelHandler: DiscussionChannelHandler | null = null;
+let analysisLinker: AnalysisLinker | null = null;
+let guildRegistry: GuildServiceRegistry | null = null;
+
+// Initialize services (called by bot during startup)
+export function initializeServices(dch: DiscussionChannelHandler, al: AnalysisLinker, registry?: GuildServiceRegistry) {
+  discussionChannelHandler = dch;
+  analysisLinker = al;
+  guildRegistry = registry || null;
+}
+
+export const data = new SlashCommandBuilder()
+  .setName('pin')
+  .setDescription('Force the latest analysis for a symbol to a specific message (Managers only)')
+  .addStringOption(option =>
+    option
+      .setName('symbol')
+      .setDescription('Stock symbol, e.g. NVDA')
+      .setRequired(true)
+  )
+  .addStringOption(option =>
+    option
+      .setName('message_link')
+      .setDescription('Link to the analysis message (right-click the message → Copy Message Link)')
+      .setRequired(true)
+  );
+
+export async function execute(interaction: ChatInputCommandInteraction) {
+  // Guild-scoped when a registry is available; otherwise the env config
+  const guildServices = guildRegistry ? guildRegistry.get(interaction.guildId) : null;
+  const config = guildRegistry ? guildServices?.config || null : getBotConfig();
+  const guildLinker = guildServices ? guildServices.analysisLinker : analysisLinker;
+
+  // Permission check - manager only
+  const mockMessage = {
+    author: interaction.user,
+    channel: interaction.channel,
+    member: interaction.member,
+    id: 'mock-interaction-message'
+  } as any;
+
+  if (!config || !discussionChannelHandler || !guildLinker || !discussionChannelHandler.isManagerMessage(mockMessage, config)) {
+    Logger.warn(`/pin permission denied for user: ${interaction.user.tag}`);
+    await interaction.reply({
+      content: '❌ Only managers can use this command',
+      ephemeral: true
+    });
+    return;
+  }
+
+  const symbol = interaction.options.getString('symbol', true).trim().replace(/^\$/, '').toUpperCase();
+  if (!SYMBOL_FORMAT.test(symbol)) {
+    await interaction.reply({ content: `❌ \`${symbol}\` is not a valid stock symbol`, ephemeral: true });
+    return;
+  }
+
+  const link = DiscordUrlGenerator.parseMessageUrl(interaction.options.getString('message_link', true));
+  if (!link) {
+    await interaction.reply({ content: '❌ That is not a Discord message link', ephemeral: true });
+    return;
+  }
+  if (link.guildId !== interaction.guildId) {
+    await interaction.reply({ content: '❌ The message must be in this server', ephemeral: true });
+    return;
+  }
+
+  Logger.interaction(`/pin ${symbol} → ${link.messageId} requested by ${interaction.user.tag}`);
+  await interaction.deferReply({ ephemeral: true });
+
+  const message = await fetchMessage(interaction, link.channelId, link.messageId);
+  if (!message) {
+    await interaction.editReply({ content: '❌ Could not find that message - check the link and that the bot can read the channel' });
+    return;
+  }
+
+  const previous = guildLinker.getPinnedAnalysis(symbol);
+  const pin = await guildLinker.pinAnalysis(symbol, message, interaction.user.id);
+  const replaced = previous && previous.analysis.messageId !== message.id ? ' (replacing the previous pin)' : '';
+
+  await interaction.editReply({
+    content: `📌 Pinned [this message](${pin.analysis.messageUrl}) as the latest analysis for **$${symbol}**${replaced}. ` +
+      `Buttons and \`/analysis\` show it until you run \`/unpin symbol:${symbol}\`.`
+  });
+}
+
+async function fetchMessage(interaction: ChatInputCommandInteraction, channelId: string, messageId: string) {
+  try {
+    const channel = await interaction.client.channels.fetch(channelId);
+    // The link's guild ID is not enough - the channel itself has to belong to this server
+    if (!channel || channel.isDMBased() || channel.guildId !== interaction.guildId || !channel.isTextBased()) {
+      return null;
+    }
+    return await channel.messages.fetch(messageId).catch(() => null);
+  } catch (error) {
+    Logger.debug(`/pin could not fetch message ${messageId} in channel ${channelId}: ${error}`);
+    return null;
+  }
+}
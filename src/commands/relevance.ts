@@ -0,0 +1,132 @@
+import { SlashCommandBuilder, ChatInputCommandInteraction, EmbedBuilder, Colors, ChannelType, Message } from 'discord.js';
+import { getBotConfig } from '../config';
+import { AnalysisLinker } from '../services/AnalysisLinker';
+import { DiscussionChannelHandler } from '../services/DiscussionChannelHandler';
+import { GuildServiceRegistry } from '../services/GuildServiceRegistry';
+import { Logger } from '../utils/Logger';
+
+// Service instances - will be initialized by the bot
+let discussionChannelHandler: DiscussionChannelHandler | null = null;
+let analysisLinker: AnalysisLinker | null = null;
+let guildRegistry: GuildServiceRegistry | null = null;
+
+// Initialize services (called by bot during startup)
+export function initializeServices(dch: DiscussionChannelHandler, al: AnalysisLinker, registry?: GuildServiceRegistry) {
+  discussionChannelHandler = dch;
+  analysisLinker = al;
+  guildRegistry = registry || null;
+}
+
+export const data = new SlashCommandBuilder()
+  .setName('relevance')
+  .setDescription('Inspect analysis relevance scoring (Managers only)')
+  .addSubcommand(subcommand =>
+    subcommand
+      .setName('explain')
+      .setDescription('Show the per-component relevance score for a message')
+      .addStringOption(option =>
+        option
+          .setName('message_id')
+          .setDescription('ID of the message to score')
+          .setRequired(true)
+      )
+      .addChannelOption(option =>
+        option
+          .setName('channel')
+          .setDescription('Channel the message is in (defaults to this channel, then the analysis channels)')
+          .addChannelTypes(ChannelType.GuildText, ChannelType.PublicThread)
+      )
+  );
+
+export async function execute(interaction: ChatInputCommandInteraction) {
+  // Guild-scoped when a registry is available; otherwise the env config
+  const guildServices = guildRegistry ? guildRegistry.get(interaction.guildId) : null;
+  const config = guildRegistry ? guildServices?.config || null : getBotConfig();
+  const guildLinker = guildServices ? guildServices.analysisLinker : analysisLinker;
+
+  // Permission check - manager only
+  const mockMessage = {
+    author: interaction.user,
+    channel: interaction.channel,
+    member: interaction.member,
+    id: 'mock-interaction-message'
+  } as any;
+
+  if (!config || !discussionChannelHandler || !guildLinker || !discussionChannelHandler.isManagerMessage(mockMessage, config)) {
+    Logger.warn(`/relevance permission denied for user: ${interaction.user.tag}`);
+    await interaction.reply({
+      content: '❌ Only managers can use this command',
+      ephemeral: true
+    });
+    return;
+  }
+
+  const messageId = interaction.options.getString('message_id', true).trim();
+  await interaction.deferReply({ ephemeral: true });
+
+  const explicitChannel = interaction.options.getChannel('channel');
+  const candidateChannelIds = explicitChannel
+    ? [explicitChannel.id]
+    : [interaction.channelId, ...config.analysisChannels, ...config.discussionChannels];
+
+  const message = await findMessage(interaction, Array.from(new Set(candidateChannelIds)), messageId);
+  if (!message) {
+    await interaction.editReply({
+      content: `❌ Could not find message \`${messageId}\`${explicitChannel ? ` in <#${explicitChannel.id}>` : ' in this channel or the analysis channels'}`
+    });
+    return;
+  }
+
+  const result = guildLinker.explainRelevance(message);
+  if (!result) {
+    await interaction.editReply({
+      content: `ℹ️ [Message](${message.url}) has no stock symbols on its first line, so it is never scored.`
+    });
+    return;
+  }
+
+  const { symbols, breakdown } = result;
+  const lines = breakdown.components.map(component => {
+    const sign = component.score >= 0 ? '+' : '';
+    const detail = component.detail ? ` — ${component.detail.slice(0, 120)}` : '';
+    return `\`${sign}${component.score.toFixed(2)}\` ${component.name}${detail}`;
+  });
+
+  const embed = new EmbedBuilder()
+    .setTitle(`${breakdown.passes ? '✅' : '❌'} Relevance ${breakdown.total.toFixed(3)} (threshold ${breakdown.threshold})`)
+    .setURL(message.url)
+    .setColor(breakdown.passes ? Colors.Green : Colors.Red)
+    .setDescription(lines.join('\n'))
+    .addFields([
+      { name: 'Symbols', value: symbols.map(s => `$${s}`).join(', '), inline: true },
+      { name: 'Content Score', value: breakdown.contentScore.toFixed(3), inline: true }
+    ])
+    .setFooter({ text: 'Weights come from the relevance config file and reload automatically when it changes' })
+    .setTimestamp();
+
+  await interaction.editReply({ embeds: [embed] });
+}
+
+async function findMessage(
+  interaction: ChatInputCommandInteraction,
+  channelIds: string[],
+  messageId: string
+): Promise<Message | null> {
+  for (const channelId of channelIds) {
+    try {
+      const channel = await interaction.client.channels.fetch(channelId);
+      if (!channel || !channel.isTextBased() || !('messages' in channel)) {
+        continue;
+      }
+
+      const message = await channel.messages.fetch(messageId).catch(() => null);
+      if (message) {
+        return message;
+      }
+    } catch (error) {
+      Logger.debug(`/relevance could not search channel ${channelId}: ${error}`);
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,70 @@
+import { SlashCommandBuilder, ChatInputCommandInteraction } from 'discord.js';
+import { ENV, REPORT_LOOKBACK_DAYS } from '../config';
+import { DiscussionChannelHandler } from '../services/DiscussionChannelHandler';
+import { GuildServiceRegistry } from '../services/GuildServiceRegistry';
+import { WeeklyReport } from '../services/WeeklyReport';
+import { ReportFormat } from '../types';
+import { Logger } from '../utils/Logger';
+
+// Service instances - will be initialized by the bot
+let discussionChannelHandler: DiscussionChannelHandler | null = null;
+let guildRegistry: GuildServiceRegistry | null = null;
+let weeklyReport: WeeklyReport | null = null;
+
+// Initialize services (called by bot during startup)
+export function initializeServices(dch: DiscussionChannelHandler, registry: GuildServiceRegistry, report: WeeklyReport) {
+  discussionChannelHandler = dch;
+  guildRegistry = registry;
+  weeklyReport = report;
+}
+
+export const data = new SlashCommandBuilder()
+  .setName('report')
+  .setDescription('Generate analysis reports (Managers only)')
+  .addSubcommand(subcommand =>
+    subcommand
+      .setName('weekly')
+      .setDescription(`Post a recap of the last ${REPORT_LOOKBACK_DAYS} days to the report channel`)
+      .addStringOption(option =>
+        option
+          .setName('format')
+          .setDescription(`File format (default ${ENV.REPORT_FORMAT})`)
+          .addChoices(
+            { name: 'Markdown', value: 'markdown' },
+            { name: 'HTML', value: 'html' }
+          )
+      )
+  );
+
+export async function execute(interaction: ChatInputCommandInteraction) {
+  const services = guildRegistry ? guildRegistry.get(interaction.guildId) : null;
+
+  // Permission check - manager only
+  const mockMessage = {
+    author: interaction.user,
+    channel: interaction.channel,
+    member: interaction.member,
+    id: 'mock-interaction-message'
+  } as any;
+
+  if (!services || !discussionChannelHandler || !weeklyReport || !discussionChannelHandler.isManagerMessage(mockMessage, services.config)) {
+    Logger.warn(`/report permission denied for user: ${interaction.user.tag}`);
+    await interaction.reply({
+      content: '❌ Only managers can use this command',
+      ephemeral: true
+    });
+    return;
+  }
+
+  const format = (interaction.options.getString('format') || ENV.REPORT_FORMAT) as ReportFormat;
+  Logger.interaction(`/report weekly (${format}) requested by ${interaction.user.tag}`);
+
+  await interaction.deferReply({ ephemeral: true });
+
+  const message = await weeklyReport.post(interaction.client, services, format);
+  await interaction.editReply({
+    content: message
+      ? `📊 Posted the weekly report to <#${message.channelId}>`
+      : '❌ Could not post the weekly report - check that the bot can send files to the report channel'
+  });
+}
@@ -0,0 +1,139 @@
+import { SlashCommandBuilder, ChatInputCommandInteraction, EmbedBuilder, Colors } from 'discord.js';
+import { DAYS_TO_SCRAPE, MAX_SCRAPE_DAYS } from '../config';
+import { DiscussionChannelHandler } from '../services/DiscussionChannelHandler';
+import { GuildServiceRegistry, GuildServices } from '../services/GuildServiceRegistry';
+import { ChannelScrapeProgress, ScrapeProgress } from '../types';
+import { Logger } from '../utils/Logger';
+
+const MAX_LISTED_CHANNELS = 25;
+
+const CHANNEL_STATUS_ICONS: Record<ChannelScrapeProgress['status'], string> = {
+  pending: '🕒',
+  running: '⏳',
+  completed: '✅',
+  failed: '❌'
+};
+
+// Service instances - will be initialized by the bot
+let discussionChannelHandler: DiscussionChannelHandler | null = null;
+let guildRegistry: GuildServiceRegistry | null = null;
+let startRescrape: ((services: GuildServices, days: number) => void) | null = null;
+
+// Initialize services (called by bot during startup)
+export function initializeServices(
+  dch: DiscussionChannelHandler,
+  registry: GuildServiceRegistry,
+  onRescrape: (services: GuildServices, days: number) => void
+) {
+  discussionChannelHandler = dch;
+  guildRegistry = registry;
+  startRescrape = onRescrape;
+}
+
+export const data = new SlashCommandBuilder()
+  .setName('scrape')
+  .setDescription('Historical message scraping (Managers only)')
+  .addSubcommand(subcommand =>
+    subcommand
+      .setName('status')
+      .setDescription('Show the progress of the current or last historical scrape')
+  )
+  .addSubcommand(subcommand =>
+    subcommand
+      .setName('rerun')
+      .setDescription('Re-scrape recent history of the analysis and discussion channels')
+      .addIntegerOption(option =>
+        option
+          .setName('days')
+          .setDescription(`Number of days to re-scrape (default ${DAYS_TO_SCRAPE})`)
+          .setMinValue(1)
+          .setMaxValue(MAX_SCRAPE_DAYS)
+      )
+  );
+
+function formatTime(date: Date | null): string {
+  return date ? `<t:${Math.floor(date.getTime() / 1000)}:R>` : '—';
+}
+
+function formatChannel(channel: ChannelScrapeProgress): string {
+  const name = channel.channelName ? `#${channel.channelName}` : `<#${channel.channelId}>`;
+  const details = channel.status === 'failed'
+    ? channel.error || 'failed'
+    : `${channel.messagesFetched.toLocaleString('en-US')} messages, ${channel.symbolsFound} symbols`;
+  return `${CHANNEL_STATUS_ICONS[channel.status]} ${name} (${channel.kind}) — ${details}`;
+}
+
+function buildStatusEmbed(progress: ScrapeProgress): EmbedBuilder {
+  const completed = progress.channels.filter(channel => channel.status === 'completed').length;
+  const messagesFetched = progress.channels.reduce((sum, channel) => sum + channel.messagesFetched, 0);
+  const lines = progress.channels.slice(0, MAX_LISTED_CHANNELS).map(formatChannel);
+  if (progress.channels.length > MAX_LISTED_CHANNELS) {
+    lines.push(`…and ${progress.channels.length - MAX_LISTED_CHANNELS} more`);
+  }
+
+  const colors = { idle: Colors.Grey, running: Colors.Blue, completed: Colors.Green, failed: Colors.Red };
+
+  return new EmbedBuilder()
+    .setTitle('🗂️ Historical Scrape')
+    .setColor(colors[progress.status])
+    .setDescription(lines.length > 0 ? lines.join('\n') : 'No channels to scrape.')
+    .addFields([
+      { name: 'Status', value: progress.status, inline: true },
+      { name: 'Window', value: `${progress.days} days${progress.resumed ? ' (resumed from checkpoints)' : ''}`, inline: true },
+      { name: 'Channels', value: `${completed}/${progress.channels.length} done`, inline: true },
+      { name: 'Messages', value: messagesFetched.toLocaleString('en-US'), inline: true },
+      { name: 'Started', value: formatTime(progress.startedAt), inline: true },
+      { name: 'Finished', value: formatTime(progress.finishedAt), inline: true }
+    ])
+    .setTimestamp();
+}
+
+export async function execute(interaction: ChatInputCommandInteraction) {
+  const services = guildRegistry ? guildRegistry.get(interaction.guildId) : null;
+
+  // Permission check - manager only
+  const mockMessage = {
+    author: interaction.user,
+    channel: interaction.channel,
+    member: interaction.member,
+    id: 'mock-interaction-message'
+  } as any;
+
+  if (!services || !discussionChannelHandler || !startRescrape || !discussionChannelHandler.isManagerMessage(mockMessage, services.config)) {
+    Logger.warn(`/scrape permission denied for user: ${interaction.user.tag}`);
+    await interaction.reply({
+      content: '❌ Only managers can use this command',
+      ephemeral: true
+    });
+    return;
+  }
+
+  const subcommand = interaction.options.getSubcommand();
+  Logger.interaction(`/scrape ${subcommand} requested by ${interaction.user.tag}`);
+
+  if (subcommand === 'status') {
+    if (!services.historicalScraper) {
+      await interaction.reply({ content: 'ℹ️ No historical scrape has started yet', ephemeral: true });
+      return;
+    }
+
+    await interaction.reply({ embeds: [buildStatusEmbed(services.historicalScraper.getProgress())], ephemeral: true });
+    return;
+  }
+
+  if (services.historicalScraper?.isRunning()) {
+    await interaction.reply({
+      content: '⏳ A historical scrape is already running - check `/scrape status` for progress',
+      ephemeral: true
+    });
+    return;
+  }
+
+  const days = interaction.options.getInteger('days') ?? DAYS_TO_SCRAPE;
+  startRescrape(services, days);
+
+  await interaction.reply({
+    content: `🔄 Re-scraping the last ${days} days of ${services.config.analysisChannels.length + services.config.discussionChannels.length} channels - check \`/scrape status\` for progress`,
+    ephemeral: true
+  });
+}
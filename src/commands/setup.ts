@@ -0,0 +1,163 @@
+import { SlashCommandBuilder, ChatInputCommandInteraction, EmbedBuilder, Colors, ChannelType, PermissionFlagsBits } from 'discord.js';
+import { GuildConfigStore } from '../services/GuildConfigStore';
+import { BotConfig } from '../types';
+import { Logger } from '../utils/Logger';
+
+// Service instances - will be initialized by the bot
+let guildConfigStore: GuildConfigStore | null = null;
+let onGuildConfigured: ((config: BotConfig) => Promise<void>) | null = null;
+
+// Initialize services (called by bot during startup)
+export function initializeServices(store: GuildConfigStore, onConfigured: (config: BotConfig) => Promise<void>) {
+  guildConfigStore = store;
+  onGuildConfigured = onConfigured;
+}
+
+export const data = new SlashCommandBuilder()
+  .setName('setup')
+  .setDescription('Bind this server\'s analysis, discussion and general channels (Administrators only)')
+  .setDefaultMemberPermissions(PermissionFlagsBits.Administrator)
+  .setDMPermission(false)
+  .addChannelOption(option =>
+    option
+      .setName('long_analysis')
+      .setDescription('Channel with long analysis')
+      .setRequired(true)
+      .addChannelTypes(ChannelType.GuildText)
+  )
+  .addChannelOption(option =>
+    option
+      .setName('short_analysis')
+      .setDescription('Channel with short analysis')
+      .setRequired(true)
+      .addChannelTypes(ChannelType.GuildText)
+  )
+  .addChannelOption(option =>
+    option
+      .setName('general')
+      .setDescription('General notices channel where symbol buttons are posted')
+      .setRequired(true)
+      .addChannelTypes(ChannelType.GuildText)
+  )
+  .addUserOption(option =>
+    option
+      .setName('manager')
+      .setDescription('Manager whose messages are indexed as analysis')
+      .setRequired(true)
+  )
+  .addRoleOption(option =>
+    option
+      .setName('manager_role')
+      .setDescription('Role whose members are also treated as managers')
+  )
+  .addChannelOption(option =>
+    option
+      .setName('long_discussion')
+      .setDescription('Long discussion channel (manager messages only)')
+      .addChannelTypes(ChannelType.GuildText)
+  )
+  .addChannelOption(option =>
+    option
+      .setName('short_discussion')
+      .setDescription('Short discussion channel (manager messages only)')
+      .addChannelTypes(ChannelType.GuildText)
+  )
+  .addChannelOption(option =>
+    option
+      .setName('report')
+      .setDescription('Channel for weekly reports (defaults to the general channel)')
+      .addChannelTypes(ChannelType.GuildText)
+  );
+
+export async function execute(interaction: ChatInputCommandInteraction) {
+  if (!interaction.guildId) {
+    await interaction.reply({
+      content: 'This command can only be used in a guild.',
+      ephemeral: true
+    });
+    return;
+  }
+
+  // Default member permissions can be overridden per server, so check again here
+  if (!interaction.memberPermissions?.has(PermissionFlagsBits.Administrator)) {
+    Logger.warn(`/setup permission denied for user: ${interaction.user.tag}`);
+    await interaction.reply({
+      content: '❌ Only server administrators can use this command',
+      ephemeral: true
+    });
+    return;
+  }
+
+  if (!guildConfigStore || !onGuildConfigured) {
+    await interaction.reply({
+      content: '❌ Bot services not properly initialized',
+      ephemeral: true
+    });
+    return;
+  }
+
+  const longAnalysis = interaction.options.getChannel('long_analysis', true);
+  const shortAnalysis = interaction.options.getChannel('short_analysis', true);
+  const general = interaction.options.getChannel('general', true);
+  const manager = interaction.options.getUser('manager', true);
+  const managerRole = interaction.options.getRole('manager_role');
+  const longDiscussion = interaction.options.getChannel('long_discussion');
+  const shortDiscussion = interaction.options.getChannel('short_discussion');
+  const report = interaction.options.getChannel('report');
+
+  if (longAnalysis.id === shortAnalysis.id) {
+    await interaction.reply({
+      content: '❌ The long and short analysis channels must be different',
+      ephemeral: true
+    });
+    return;
+  }
+
+  // Same ordering as the env config: long discussion first
+  const discussionChannels: string[] = [];
+  if (longDiscussion) discussionChannels.push(longDiscussion.id);
+  if (shortDiscussion) discussionChannels.push(shortDiscussion.id);
+
+  const config: BotConfig = {
+    analysisChannels: [longAnalysis.id, shortAnalysis.id],
+    discussionChannels,
+    generalNoticesChannel: general.id,
+    guildId: interaction.guildId,
+    managerId: manager.id
+  };
+
+  if (managerRole) {
+    config.managerRoles = [managerRole.id];
+  }
+  if (report) {
+    config.reportChannel = report.id;
+  }
+
+  await interaction.deferReply({ ephemeral: true });
+  await guildConfigStore.set(config);
+  Logger.info(`⚙️ /setup by ${interaction.user.tag} configured guild ${interaction.guildId}`);
+
+  // The historical backfill can take minutes, so it runs after the reply
+  onGuildConfigured(config).catch(error => {
+    Logger.error(`Failed to initialize guild ${config.guildId} after /setup:`, error);
+  });
+
+  const embed = new EmbedBuilder()
+    .setTitle('⚙️ Server Configured')
+    .setColor(Colors.Green)
+    .addFields([
+      { name: '📈 Analysis Channels', value: `• Long: <#${longAnalysis.id}>\n• Short: <#${shortAnalysis.id}>`, inline: false },
+      { name: '📢 General Notices Channel', value: `<#${general.id}>`, inline: false },
+      ...(report ? [{ name: '📊 Report Channel', value: `<#${report.id}>`, inline: false }] : []),
+      ...(discussionChannels.length > 0 ? [{
+        name: '💬 Discussion Channels (Manager Only)',
+        value: discussionChannels.map(id => `• <#${id}>`).join('\n'),
+        inline: false
+      }] : []),
+      { name: '👑 Manager', value: `<@${manager.id}>${managerRole ? ` and members of <@&${managerRole.id}>` : ''}`, inline: false }
+    ])
+    .setDescription('Historical analysis is being loaded in the background - `/analysis` results fill in as it completes.')
+    .setTimestamp();
+
+  await interaction.editReply({ embeds: [embed] });
+}
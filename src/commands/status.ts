@@ -2,14 +2,17 @@ import { SlashCommandBuilder, ChatInputCommandInteraction, EmbedBuilder, Colors
 import { getBotConfig, ENV } from '../config';
 import { MessageRetention } from '../services/MessageRetention';
 import { DiscussionChannelHandler } from '../services/DiscussionChannelHandler';
+import { GuildServiceRegistry } from '../services/GuildServiceRegistry';
 import { Logger } from '../utils/Logger';
 
 // Service instances - will be initialized by the bot
 let discussionChannelHandler: DiscussionChannelHandler | null = null;
+let guildRegistry: GuildServiceRegistry | null = null;
 
 // Initialize services (called by bot during startup)
-export function initializeServices(dch: DiscussionChannelHandler) {
+export function initializeServices(dch: DiscussionChannelHandler, registry?: GuildServiceRegistry) {
   discussionChannelHandler = dch;
+  guildRegistry = registry || null;
 }
 
 export const data = new SlashCommandBuilder()
@@ -25,15 +28,26 @@ export async function execute(interaction: ChatInputCommandInteraction) {
     return;
   }
 
-  const config = getBotConfig();
+  // Guild-scoped when a registry is available; otherwise the env config
+  const guildServices = guildRegistry ? guildRegistry.get(interaction.guildId) : null;
+  const config = guildRegistry ? guildServices?.config || null : getBotConfig();
 
   // Permission check - manager only
   const mockMessage = {
     author: interaction.user,
     channel: interaction.channel,
+    member: interaction.member,
     id: 'mock-interaction-message'
   } as any;
 
+  if (!config && guildRegistry) {
+    await interaction.reply({
+      content: '❌ This server is not configured yet - an administrator can run `/setup` to bind its channels',
+      ephemeral: true
+    });
+    return;
+  }
+
   if (!config || !discussionChannelHandler || !discussionChannelHandler.isManagerMessage(mockMessage, config)) {
     Logger.warn(`/status permission denied for user: ${interaction.user.tag}`);
     await interaction.reply({
@@ -54,7 +68,8 @@ export async function execute(interaction: ChatInputCommandInteraction) {
         'Optional configuration:\n' +
         '• `LONG_DISCUSSION_CHANNEL` - For manager discussion monitoring\n' +
         '• `SHORT_DISCUSSION_CHANNEL` - For manager discussion monitoring\n' +
-        '• `MANAGER_ROLES` - Comma-separated list of manager role names\n\n' +
+        '• `MANAGER_ID` / `MANAGER_IDS` - Manager user ID(s), comma-separated\n' +
+        '• `MANAGER_ROLES` - Comma-separated list of manager role names or IDs\n\n' +
         'Please contact an administrator to configure these channels.'
       )
       .setColor(Colors.Red)
@@ -73,8 +88,11 @@ export async function execute(interaction: ChatInputCommandInteraction) {
     interaction.guild!.channels.cache.get(id) || `<#${id}> (Channel not found)`
   );
   
+  const managerIds = discussionChannelHandler.getConfiguredManagerIds(config);
+
   // Get retention statistics
-  const retentionStats = MessageRetention.getGlobalStats();
+  const retentionStats = guildServices ? guildServices.messageRetention.getRetentionStats() : MessageRetention.getGlobalStats();
+  const retentionPolicy = (guildServices ? guildServices.messageRetention.getRetentionPolicy() : MessageRetention.getGlobalPolicy()) || ENV.RETENTION_HOURS;
 
   const embed = new EmbedBuilder()
     .setTitle('📊 Bot Configuration & Status')
@@ -96,15 +114,20 @@ export async function execute(interaction: ChatInputCommandInteraction) {
         value: discussionChannels.map((ch, i) => `• ${ch}`).join('\n'),
         inline: false
       }] : []),
-      ...(config.managerId ? [{
-        name: '👑 Manager ID',
-        value: `• ${config.managerId}`,
+      ...(managerIds.length > 0 ? [{
+        name: managerIds.length === 1 ? '👑 Manager ID' : '👑 Manager IDs',
+        value: managerIds.map(id => `• ${id}`).join('\n'),
+        inline: false
+      }] : []),
+      ...(config.managerRoles?.length ? [{
+        name: '🎖️ Manager Roles',
+        value: config.managerRoles.map(role => `• ${interaction.guild!.roles.cache.get(role) || role}`).join('\n'),
         inline: false
       }] : []),
       {
         name: '⏰ Message Retention',
-        value: '26 hours',
-        inline: true
+        value: `Buttons: ${MessageRetention.describePolicy(retentionPolicy)}; all bot messages are also cleared on the daily update`,
+        inline: false
       },
       {
         name: '🤖 Bot Status',
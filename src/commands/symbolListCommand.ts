@@ -0,0 +1,162 @@
+import { SlashCommandBuilder, ChatInputCommandInteraction, EmbedBuilder, Colors } from 'discord.js';
+import { getBotConfig, SYMBOL_FORMAT } from '../config';
+import { DiscussionChannelHandler } from '../services/DiscussionChannelHandler';
+import { AnalysisLinker } from '../services/AnalysisLinker';
+import { GuildServiceRegistry } from '../services/GuildServiceRegistry';
+import { SymbolListStore, SymbolListType, SymbolListEntry } from '../services/SymbolListStore';
+import { Logger } from '../utils/Logger';
+
+const MAX_REASON_LENGTH = 200;
+const MAX_LISTED_ENTRIES = 40;
+
+/**
+ * Shared implementation of /allowlist and /blocklist, which only differ in the list they edit
+ */
+export function createSymbolListCommand(type: SymbolListType) {
+  const commandName = `${type}list`;
+  const otherCommandName = type === 'allow' ? 'blocklist' : 'allowlist';
+
+  // Service instances - will be initialized by the bot
+  let discussionChannelHandler: DiscussionChannelHandler | null = null;
+  let symbolLists: SymbolListStore | null = null;
+  let analysisLinker: AnalysisLinker | null = null;
+  let guildRegistry: GuildServiceRegistry | null = null;
+
+  // Initialize services (called by bot during startup)
+  function initializeServices(dch: DiscussionChannelHandler, lists: SymbolListStore, al: AnalysisLinker, registry?: GuildServiceRegistry) {
+    discussionChannelHandler = dch;
+    symbolLists = lists;
+    analysisLinker = al;
+    guildRegistry = registry || null;
+  }
+
+  const data = new SlashCommandBuilder()
+    .setName(commandName)
+    .setDescription(type === 'allow'
+      ? 'Manage symbols that are always detected (Managers only)'
+      : 'Manage words that are never detected as symbols (Managers only)')
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('add')
+        .setDescription(`Add a symbol to the ${commandName}`)
+        .addStringOption(option =>
+          option
+            .setName('symbol')
+            .setDescription('Stock symbol, e.g. NVDA')
+            .setRequired(true)
+        )
+        .addStringOption(option =>
+          option
+            .setName('reason')
+            .setDescription('Why this symbol is being added')
+            .setMaxLength(MAX_REASON_LENGTH)
+        )
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('remove')
+        .setDescription(`Remove a symbol from the ${commandName}`)
+        .addStringOption(option =>
+          option
+            .setName('symbol')
+            .setDescription('Stock symbol to remove')
+            .setRequired(true)
+        )
+    )
+    .addSubcommand(subcommand =>
+      subcommand
+        .setName('list')
+        .setDescription(`Show the ${commandName}`)
+    );
+
+  function formatEntry(entry: SymbolListEntry): string {
+    const addedAt = `<t:${Math.floor(entry.timestamp.getTime() / 1000)}:R>`;
+    return `**$${entry.symbol}** — ${entry.reason || 'no reason given'} (<@${entry.adminId}>, ${addedAt})`;
+  }
+
+  async function execute(interaction: ChatInputCommandInteraction) {
+    // Guild-scoped when a registry is available; otherwise the env config
+    const guildServices = guildRegistry ? guildRegistry.get(interaction.guildId) : null;
+    const config = guildRegistry ? guildServices?.config || null : getBotConfig();
+    const guildLinker = guildServices ? guildServices.analysisLinker : analysisLinker;
+    // Each guild edits only its own lists
+    const lists = guildRegistry ? guildServices?.symbolLists || null : symbolLists;
+
+    // Permission check - manager only
+    const mockMessage = {
+      author: interaction.user,
+      channel: interaction.channel,
+      member: interaction.member,
+      id: 'mock-interaction-message'
+    } as any;
+
+    if (!config || !discussionChannelHandler || !lists || !discussionChannelHandler.isManagerMessage(mockMessage, config)) {
+      Logger.warn(`/${commandName} permission denied for user: ${interaction.user.tag}`);
+      await interaction.reply({
+        content: '❌ Only managers can use this command',
+        ephemeral: true
+      });
+      return;
+    }
+
+    const subcommand = interaction.options.getSubcommand();
+    Logger.interaction(`/${commandName} ${subcommand} requested by ${interaction.user.tag}`);
+
+    if (subcommand === 'list') {
+      const entries = lists.list(type);
+      const lines = entries.slice(0, MAX_LISTED_ENTRIES).map(formatEntry);
+      if (entries.length > MAX_LISTED_ENTRIES) {
+        lines.push(`…and ${entries.length - MAX_LISTED_ENTRIES} more`);
+      }
+
+      const embed = new EmbedBuilder()
+        .setTitle(`${type === 'allow' ? '✅ Allowlist' : '🚫 Blocklist'} (${entries.length})`)
+        .setColor(type === 'allow' ? Colors.Green : Colors.Red)
+        .setDescription(lines.length > 0 ? lines.join('\n') : `No symbols yet. Use \`/${commandName} add\` to add one.`)
+        .setTimestamp();
+
+      if (type === 'allow' && guildLinker) {
+        const learned = guildLinker.getSymbolAllowlist().getAllowedSymbols().filter(symbol => !lists.isAllowed(symbol));
+        embed.setFooter({ text: `${learned.length} more symbols allowed from $SYMBOL mentions in recent analysis` });
+      }
+
+      await interaction.reply({ embeds: [embed], ephemeral: true });
+      return;
+    }
+
+    const symbol = interaction.options.getString('symbol', true).trim().replace(/^\$/, '').toUpperCase();
+    if (!SYMBOL_FORMAT.test(symbol)) {
+      await interaction.reply({
+        content: `❌ \`${symbol}\` is not a valid stock symbol`,
+        ephemeral: true
+      });
+      return;
+    }
+
+    if (subcommand === 'add') {
+      const reason = interaction.options.getString('reason')?.trim() || '';
+      const result = await lists.add(type, symbol, interaction.user.id, reason);
+      const messages = {
+        added: `✅ Added **$${symbol}** to the ${commandName}`,
+        updated: `✅ Updated the reason for **$${symbol}** on the ${commandName}`,
+        moved: `✅ Moved **$${symbol}** from the ${otherCommandName} to the ${commandName}`
+      };
+
+      await interaction.reply({ content: messages[result], ephemeral: true });
+      return;
+    }
+
+    // remove - for the allowlist, also forget the symbol if it was learned from a $SYMBOL mention
+    const removed = await lists.remove(type, symbol);
+    const removedLearned = type === 'allow' && guildLinker ? guildLinker.getSymbolAllowlist().removeSymbol(symbol) : false;
+
+    await interaction.reply({
+      content: removed || removedLearned
+        ? `🗑️ Removed **$${symbol}** from the ${commandName}`
+        : `ℹ️ **$${symbol}** is not on the ${commandName}`,
+      ephemeral: true
+    });
+  }
+
+  return { data, initializeServices, execute };
+}
@@ -0,0 +1,80 @@
+import { SlashCommandBuilder, ChatInputCommandInteraction, EmbedBuilder, Colors } from 'discord.js';
+import { getBotConfig } from '../config';
+import { DiscussionChannelHandler } from '../services/DiscussionChannelHandler';
+import { GuildServiceRegistry } from '../services/GuildServiceRegistry';
+import { TickerUniverse } from '../services/TickerUniverse';
+import { Logger } from '../utils/Logger';
+
+// Service instances - will be initialized by the bot
+let discussionChannelHandler: DiscussionChannelHandler | null = null;
+let tickerUniverse: TickerUniverse | null = null;
+let guildRegistry: GuildServiceRegistry | null = null;
+
+// Initialize services (called by bot during startup)
+export function initializeServices(dch: DiscussionChannelHandler, universe: TickerUniverse, registry?: GuildServiceRegistry) {
+  discussionChannelHandler = dch;
+  tickerUniverse = universe;
+  guildRegistry = registry || null;
+}
+
+export const data = new SlashCommandBuilder()
+  .setName('symbols')
+  .setDescription('Manage symbol validation (Managers only)')
+  .addSubcommand(subcommand =>
+    subcommand
+      .setName('reload')
+      .setDescription('Reload the ticker universe file used to validate detected symbols')
+  );
+
+export async function execute(interaction: ChatInputCommandInteraction) {
+  // Guild-scoped when a registry is available; otherwise the env config
+  const config = guildRegistry ? guildRegistry.get(interaction.guildId)?.config || null : getBotConfig();
+
+  // Permission check - manager only
+  const mockMessage = {
+    author: interaction.user,
+    channel: interaction.channel,
+    member: interaction.member,
+    id: 'mock-interaction-message'
+  } as any;
+
+  if (!config || !discussionChannelHandler || !tickerUniverse || !discussionChannelHandler.isManagerMessage(mockMessage, config)) {
+    Logger.warn(`/symbols permission denied for user: ${interaction.user.tag}`);
+    await interaction.reply({
+      content: '❌ Only managers can use this command',
+      ephemeral: true
+    });
+    return;
+  }
+
+  Logger.interaction(`/symbols reload requested by ${interaction.user.tag}`);
+
+  const filePath = tickerUniverse.filePath || 'not configured';
+  const reloaded = tickerUniverse.reload();
+  const count = tickerUniverse.getTickerCount();
+
+  let description: string;
+  if (reloaded) {
+    description = `Loaded **${count}** tickers from \`${filePath}\`.`;
+  } else if (count > 0) {
+    description = `Could not read \`${filePath}\` - still using the **${count}** previously loaded tickers. Check the bot logs for details.`;
+  } else {
+    description = `No ticker universe file at \`${filePath}\` - symbols are validated without a ticker list.`;
+  }
+
+  const mode = tickerUniverse.getMode();
+  const embed = new EmbedBuilder()
+    .setTitle(`${reloaded ? '✅' : '⚠️'} Ticker Universe`)
+    .setColor(reloaded ? Colors.Green : Colors.Orange)
+    .setDescription(description)
+    .addFields([
+      {
+        name: 'Mode',
+        value: mode === 'strict' ? 'Strict - unknown tickers are rejected' : 'Advisory - unknown tickers get lower confidence',
+        inline: true
+      }
+    ])
+    .setTimestamp();
+
+  await interaction.reply({ embeds: [embed], ephemeral: true });
+}
@@ -0,0 +1,140 @@
+import { SlashCommandBuilder, ChatInputCommandInteraction, AutocompleteInteraction, EmbedBuilder, Colors } from 'discord.js';
+import { TopPicksArchive, TopPicksDay, TopPicksListDiff } from '../services/TopPicksArchive';
+import { Logger } from '../utils/Logger';
+
+const DATE_FORMAT = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_AUTOCOMPLETE_CHOICES = 25;
+
+// Service instances - will be initialized by the bot
+let topPicksArchive: TopPicksArchive | null = null;
+
+// Initialize services (called by bot during startup)
+export function initializeServices(archive: TopPicksArchive) {
+  topPicksArchive = archive;
+}
+
+export const data = new SlashCommandBuilder()
+  .setName('toppicks')
+  .setDescription('Replay archived top picks lists')
+  .addSubcommand(subcommand =>
+    subcommand
+      .setName('show')
+      .setDescription('Show the top picks for a day')
+      .addStringOption(option =>
+        option
+          .setName('date')
+          .setDescription('Day to show, YYYY-MM-DD (defaults to the latest)')
+          .setAutocomplete(true)
+      )
+  )
+  .addSubcommand(subcommand =>
+    subcommand
+      .setName('diff')
+      .setDescription('Show symbols added to or dropped from the previous day\'s lists')
+      .addStringOption(option =>
+        option
+          .setName('date')
+          .setDescription('Day to compare with the day before it, YYYY-MM-DD (defaults to the latest)')
+          .setAutocomplete(true)
+      )
+  );
+
+function formatSymbols(symbols: string[]): string {
+  return symbols.length > 0 ? symbols.map(s => `$${s}`).join(', ') : '—';
+}
+
+function formatListDiff(diff: TopPicksListDiff): string {
+  if (diff.added.length === 0 && diff.dropped.length === 0) {
+    return 'No changes';
+  }
+  return `➕ ${formatSymbols(diff.added)}\n➖ ${formatSymbols(diff.dropped)}`;
+}
+
+export async function execute(interaction: ChatInputCommandInteraction) {
+  if (!topPicksArchive || !interaction.guildId) {
+    await interaction.reply({
+      content: '❌ Bot services not properly initialized',
+      ephemeral: true
+    });
+    return;
+  }
+
+  const subcommand = interaction.options.getSubcommand();
+  const requestedDate = interaction.options.getString('date')?.trim() || null;
+
+  if (requestedDate && !DATE_FORMAT.test(requestedDate)) {
+    await interaction.reply({
+      content: `❌ \`${requestedDate}\` is not a valid date - use YYYY-MM-DD`,
+      ephemeral: true
+    });
+    return;
+  }
+
+  Logger.interaction(`/toppicks ${subcommand}${requestedDate ? ` ${requestedDate}` : ''} requested by ${interaction.user.tag}`);
+
+  const day: TopPicksDay | null = requestedDate
+    ? topPicksArchive.getDay(interaction.guildId, requestedDate)
+    : topPicksArchive.getLatest(interaction.guildId);
+
+  if (!day) {
+    await interaction.reply({
+      content: requestedDate
+        ? `📋 No top picks were archived for ${requestedDate}.`
+        : '📋 No top picks have been archived yet.',
+      ephemeral: true
+    });
+    return;
+  }
+
+  if (subcommand === 'diff') {
+    const previous = topPicksArchive.getPrevious(interaction.guildId, day.date);
+    if (!previous) {
+      await interaction.reply({
+        content: `📋 There is no archived day before ${day.date} to compare with.`,
+        ephemeral: true
+      });
+      return;
+    }
+
+    const diff = TopPicksArchive.diff(previous, day);
+    const embed = new EmbedBuilder()
+      .setTitle(`📋 Top Picks Changes: ${previous.date} → ${day.date}`)
+      .setURL(day.messageUrl)
+      .setColor(Colors.Blue)
+      .addFields([
+        { name: '📈 Long', value: formatListDiff(diff.long), inline: false },
+        { name: '📉 Short', value: formatListDiff(diff.short), inline: false }
+      ])
+      .setTimestamp(day.timestamp);
+
+    await interaction.reply({ embeds: [embed], ephemeral: true });
+    return;
+  }
+
+  const embed = new EmbedBuilder()
+    .setTitle(`📋 Top Picks for ${day.date}`)
+    .setURL(day.messageUrl)
+    .setColor(Colors.Blue)
+    .addFields([
+      { name: `📈 Long (${day.long.length})`, value: formatSymbols(day.long), inline: false },
+      { name: `📉 Short (${day.short.length})`, value: formatSymbols(day.short), inline: false }
+    ])
+    .setTimestamp(day.timestamp);
+
+  await interaction.reply({ embeds: [embed], ephemeral: true });
+}
+
+export async function autocomplete(interaction: AutocompleteInteraction) {
+  if (!topPicksArchive || !interaction.guildId) {
+    await interaction.respond([]);
+    return;
+  }
+
+  const query = interaction.options.getFocused().trim();
+  const choices = topPicksArchive.getDates(interaction.guildId)
+    .filter(date => date.startsWith(query))
+    .slice(0, MAX_AUTOCOMPLETE_CHOICES)
+    .map(date => ({ name: date, value: date }));
+
+  await interaction.respond(choices);
+}
@@ -0,0 +1,85 @@
+import { SlashCommandBuilder, ChatInputCommandInteraction, AutocompleteInteraction } from 'discord.js';
+import { getBotConfig } from '../config';
+import { DiscussionChannelHandler } from '../services/DiscussionChannelHandler';
+import { AnalysisLinker } from '../services/AnalysisLinker';
+import { GuildServiceRegistry } from '../services/GuildServiceRegistry';
+import { Logger } from '../utils/Logger';
+
+const MAX_AUTOCOMPLETE_CHOICES = 25;
+
+// Service instances - will be initialized by the bot
+let discussionChannelHandler: DiscussionChannelHandler | null = null;
+let analysisLinker: AnalysisLinker | null = null;
+let guildRegistry: GuildServiceRegistry | null = null;
+
+// Initialize services (called by bot during startup)
+export function initializeServices(dch: DiscussionChannelHandler, al: AnalysisLinker, registry?: GuildServiceRegistry) {
+  discussionChannelHandler = dch;
+  analysisLinker = al;
+  guildRegistry = registry || null;
+}
+
+export const data = new SlashCommandBuilder()
+  .setName('unpin')
+  .setDescription('Go back to automatic latest-analysis selection for a symbol (Managers only)')
+  .addStringOption(option =>
+    option
+      .setName('symbol')
+      .setDescription('Pinned stock symbol')
+      .setRequired(true)
+      .setAutocomplete(true)
+  );
+
+function resolveLinker(guildId: string | null): AnalysisLinker | null {
+  return guildRegistry ? guildRegistry.get(guildId)?.analysisLinker || null : analysisLinker;
+}
+
+export async function execute(interaction: ChatInputCommandInteraction) {
+  // Guild-scoped when a registry is available; otherwise the env config
+  const config = guildRegistry ? guildRegistry.get(interaction.guildId)?.config || null : getBotConfig();
+  const guildLinker = resolveLinker(interaction.guildId);
+
+  // Permission check - manager only
+  const mockMessage = {
+    author: interaction.user,
+    channel: interaction.channel,
+    member: interaction.member,
+    id: 'mock-interaction-message'
+  } as any;
+
+  if (!config || !discussionChannelHandler || !guildLinker || !discussionChannelHandler.isManagerMessage(mockMessage, config)) {
+    Logger.warn(`/unpin permission denied for user: ${interaction.user.tag}`);
+    await interaction.reply({
+      content: '❌ Only managers can use this command',
+      ephemeral: true
+    });
+    return;
+  }
+
+  const symbol = interaction.options.getString('symbol', true).trim().replace(/^\$/, '').toUpperCase();
+  Logger.interaction(`/unpin ${symbol} requested by ${interaction.user.tag}`);
+
+  const unpinned = await guildLinker.unpinAnalysis(symbol);
+  await interaction.reply({
+    content: unpinned
+      ? `📌 Unpinned **$${symbol}** - its latest analysis is selected automatically again`
+      : `ℹ️ **$${symbol}** is not pinned`,
+    ephemeral: true
+  });
+}
+
+export async function autocomplete(interaction: AutocompleteInteraction) {
+  const guildLinker = resolveLinker(interaction.guildId);
+  if (!guildLinker) {
+    await interaction.respond([]);
+    return;
+  }
+
+  const query = interaction.options.getFocused().trim().replace(/^\$/, '').toUpperCase();
+  const choices = guildLinker.getPinnedSymbols()
+    .filter(symbol => symbol.startsWith(query))
+    .slice(0, MAX_AUTOCOMPLETE_CHOICES)
+    .map(symbol => ({ name: `$${symbol}`, value: symbol }));
+
+  await interaction.respond(choices);
+}
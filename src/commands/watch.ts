@@ -0,0 +1,146 @@
+import { SlashCommandBuilder, ChatInputCommandInteraction, AutocompleteInteraction } from 'discord.js';
+import { WatchlistStore } from '../services/WatchlistStore';
+import { AnalysisLinker } from '../services/AnalysisLinker';
+import { GuildServiceRegistry } from '../services/GuildServiceRegistry';
+import { SYMBOL_FORMAT } from '../config';
+import { Logger } from '../utils/Logger';
+
+const MAX_AUTOCOMPLETE_CHOICES = 25;
+
+// Service instances - will be initialized by the bot
+let watchlistStore: WatchlistStore | null = null;
+let analysisLinker: AnalysisLinker | null = null;
+let guildRegistry: GuildServiceRegistry | null = null;
+
+// Initialize services (called by bot during startup)
+export function initializeServices(ws: WatchlistStore, al: AnalysisLinker, registry?: GuildServiceRegistry) {
+  watchlistStore = ws;
+  analysisLinker = al;
+  guildRegistry = registry || null;
+}
+
+export const data = new SlashCommandBuilder()
+  .setName('watch')
+  .setDescription('Get a DM when a new analysis is posted for symbols you watch')
+  .addSubcommand(subcommand =>
+    subcommand
+      .setName('add')
+      .setDescription('Add a symbol to your watchlist')
+      .addStringOption(option =>
+        option
+          .setName('symbol')
+          .setDescription('Stock symbol, e.g. NVDA')
+          .setRequired(true)
+          .setAutocomplete(true)
+      )
+  )
+  .addSubcommand(subcommand =>
+    subcommand
+      .setName('remove')
+      .setDescription('Remove a symbol from your watchlist')
+      .addStringOption(option =>
+        option
+          .setName('symbol')
+          .setDescription('Stock symbol to stop watching')
+          .setRequired(true)
+          .setAutocomplete(true)
+      )
+  )
+  .addSubcommand(subcommand =>
+    subcommand
+      .setName('list')
+      .setDescription('Show the symbols on your watchlist')
+  );
+
+function normalizeSymbol(input: string): string {
+  return input.trim().replace(/^\$/, '').toUpperCase();
+}
+
+export async function execute(interaction: ChatInputCommandInteraction) {
+  if (!watchlistStore) {
+    await interaction.reply({
+      content: '❌ Bot services not properly initialized',
+      ephemeral: true
+    });
+    return;
+  }
+
+  // Watchlists are per guild, so a DM only ever carries analysis from the guild the symbol was watched in
+  const guildId = interaction.guildId;
+  if (!guildId) {
+    await interaction.reply({
+      content: 'This command can only be used in a guild.',
+      ephemeral: true
+    });
+    return;
+  }
+
+  const subcommand = interaction.options.getSubcommand();
+  const userId = interaction.user.id;
+
+  if (subcommand === 'list') {
+    const symbols = watchlistStore.list(guildId, userId);
+    await interaction.reply({
+      content: symbols.length > 0
+        ? `👀 **Your watchlist** (${symbols.length}/${WatchlistStore.MAX_SYMBOLS_PER_USER}):\n${symbols.map(s => `$${s}`).join(', ')}`
+        : '👀 Your watchlist is empty. Use `/watch add` to get a DM when a new analysis is posted.',
+      ephemeral: true
+    });
+    return;
+  }
+
+  const symbol = normalizeSymbol(interaction.options.getString('symbol', true));
+  if (!SYMBOL_FORMAT.test(symbol)) {
+    await interaction.reply({
+      content: `❌ \`${symbol}\` is not a valid stock symbol`,
+      ephemeral: true
+    });
+    return;
+  }
+
+  if (subcommand === 'add') {
+    const result = await watchlistStore.add(guildId, userId, symbol);
+    Logger.interaction(`/watch add ${symbol} by ${interaction.user.tag}: ${result}`);
+
+    const messages = {
+      added: `✅ Added **$${symbol}** to your watchlist. You'll get a DM when a new analysis is posted.`,
+      already_watching: `ℹ️ **$${symbol}** is already on your watchlist.`,
+      limit_reached: `❌ Your watchlist is full (${WatchlistStore.MAX_SYMBOLS_PER_USER} symbols). Remove one with \`/watch remove\` first.`
+    };
+    await interaction.reply({ content: messages[result], ephemeral: true });
+    return;
+  }
+
+  if (subcommand === 'remove') {
+    const removed = await watchlistStore.remove(guildId, userId, symbol);
+    Logger.interaction(`/watch remove ${symbol} by ${interaction.user.tag}: ${removed ? 'removed' : 'not watching'}`);
+
+    await interaction.reply({
+      content: removed
+        ? `✅ Removed **$${symbol}** from your watchlist.`
+        : `ℹ️ **$${symbol}** is not on your watchlist.`,
+      ephemeral: true
+    });
+  }
+}
+
+export async function autocomplete(interaction: AutocompleteInteraction) {
+  if (!watchlistStore) {
+    await interaction.respond([]);
+    return;
+  }
+
+  const query = normalizeSymbol(interaction.options.getFocused());
+  // Symbol suggestions come from the analysis index of the guild the user is typing in
+  const guildLinker = guildRegistry ? guildRegistry.get(interaction.guildId)?.analysisLinker : analysisLinker;
+  const candidates = interaction.options.getSubcommand() === 'remove'
+    ? (interaction.guildId ? watchlistStore.list(interaction.guildId, interaction.user.id) : [])
+    : (guildLinker?.getAvailableSymbols() || []).sort();
+
+  const choices = candidates
+    .filter(symbol => symbol.startsWith(query))
+    .slice(0, MAX_AUTOCOMPLETE_CHOICES)
+    .map(symbol => ({ name: `$${symbol}`, value: symbol }));
+
+  await interaction.respond(choices);
+}
@@ -1,5 +1,5 @@
 import { config } from 'dotenv';
-import { BotConfig } from '../types';
+import { BotConfig, TickerUniverseMode, ReportFormat, RetentionMessageType } from '../types';
 import * as path from 'path';
 import * as fs from 'fs';
 
@@ -17,6 +17,14 @@ if (fs.existsSync(envPath)) {
   console.log(`🔧 Loaded environment config from .env (${envFile} not found)`);
 }
 
+const dataDir = process.env.DATA_DIR || path.resolve(process.cwd(), 'data');
+
+// Non-negative number of hours, or the default when unset or invalid
+const parseHours = (value: string | undefined, defaultHours: number): number => {
+  const hours = Number(value);
+  return value && Number.isFinite(hours) && hours >= 0 ? hours : defaultHours;
+};
+
 export const ENV = {
   DISCORD_TOKEN: process.env.DISCORD_TOKEN || '',
   LONG_ANALYSIS_CHANNEL: process.env.LONG_ANALYSIS_CHANNEL || '',
@@ -25,9 +33,32 @@ export const ENV = {
   SHORT_DISCUSSION_CHANNEL: process.env.SHORT_DISCUSSION_CHANNEL || '',
   MANAGER_GENERAL_MESSAGES_CHANNEL: process.env.MANAGER_GENERAL_MESSAGES_CHANNEL || '',
   MANAGER_ID: process.env.MANAGER_ID || '',
+  MANAGER_IDS: process.env.MANAGER_IDS || '',
+  MANAGER_ROLES: process.env.MANAGER_ROLES || '',
+  DATA_DIR: dataDir,
+  RELEVANCE_CONFIG_PATH: process.env.RELEVANCE_CONFIG_PATH || path.join(dataDir, 'relevance.json'),
+  API_TOKEN: process.env.API_TOKEN || '',
+  TIMEZONE: process.env.TIMEZONE || 'UTC', // IANA zone used to group messages into days
+  PRICE_DATA_PATH: process.env.PRICE_DATA_PATH || path.join(dataDir, 'prices.csv'),
+  SYMBOL_ALIASES_PATH: process.env.SYMBOL_ALIASES_PATH || path.join(dataDir, 'symbol-aliases.json'),
+  TICKER_UNIVERSE_PATH: process.env.TICKER_UNIVERSE_PATH || path.join(dataDir, 'tickers.csv'),
+  TICKER_UNIVERSE_MODE: (process.env.TICKER_UNIVERSE_MODE === 'strict' ? 'strict' : 'advisory') as TickerUniverseMode,
+  INDEX_THREAD_UPDATES: process.env.INDEX_THREAD_UPDATES === 'true', // Index manager messages in analysis threads as follow-ups
+  DIGEST_TIME: process.env.DIGEST_TIME || '', // HH:MM in TIMEZONE to post the daily digest; empty disables it
+  REPORT_CRON: process.env.REPORT_CRON || '', // Cron expression in TIMEZONE for the weekly report; empty disables it
+  REPORT_CHANNEL: process.env.REPORT_CHANNEL || '',
+  REPORT_FORMAT: (process.env.REPORT_FORMAT === 'html' ? 'html' : 'markdown') as ReportFormat,
+  // How long button messages stay up before the hourly cleanup deletes them; 0 keeps them until the next daily update
+  RETENTION_HOURS: {
+    top_picks: parseHours(process.env.RETENTION_TOP_PICKS_HOURS, 26),
+    createbuttons: parseHours(process.env.RETENTION_CREATEBUTTONS_HOURS, 26),
+    digest: parseHours(process.env.RETENTION_DIGEST_HOURS, 24)
+  } as Record<RetentionMessageType, number>,
   NODE_ENV: process.env.NODE_ENV || 'development'
 };
 
+const parseList = (value: string): string[] => value.split(',').map(item => item.trim()).filter(item => item.length > 0);
+
 export const getBotConfig = (): BotConfig | null => {
   if (!ENV.LONG_ANALYSIS_CHANNEL || !ENV.SHORT_ANALYSIS_CHANNEL || !ENV.MANAGER_GENERAL_MESSAGES_CHANNEL) {
     return null;
@@ -49,6 +80,20 @@ export const getBotConfig = (): BotConfig | null => {
     config.managerId = ENV.MANAGER_ID;
   }
   
+  // Additional managers and manager roles (optional, comma-separated)
+  const managerIds = parseList(ENV.MANAGER_IDS);
+  if (managerIds.length > 0) {
+    config.managerIds = managerIds;
+  }
+  
+  const managerRoles = parseList(ENV.MANAGER_ROLES);
+  if (managerRoles.length > 0) {
+    config.managerRoles = managerRoles;
+  }
+
+  if (ENV.REPORT_CHANNEL) {
+    config.reportChannel = ENV.REPORT_CHANNEL;
+  }
   
   return config;
 };
@@ -95,18 +140,55 @@ export const HEBREW_STOPWORDS = new Set([
   'שימו', 'שלום', 'שם', 'שני', 'תוך'
 ]);
 
+// Ticker grammar shared by detection, parsing and validation:
+// crypto pairs (BTCUSD, ETH-USDT), class shares and exchange suffixes (BRK.B, RDS-A, TEVA.TA), plain tickers (NVDA)
+// Crypto pairs need a known base asset, so macro shorthand like "CPI-USD" is not read as a pair
+export const CRYPTO_BASE_ASSETS = [
+  'BTC', 'ETH', 'SOL', 'XRP', 'BNB', 'ADA', 'DOGE', 'AVAX', 'DOT', 'LINK', 'LTC', 'BCH', 'XLM', 'TRX',
+  'ATOM', 'UNI', 'NEAR', 'APT', 'ARB', 'SUI', 'TON', 'SHIB', 'PEPE', 'MATIC'
+];
+export const CRYPTO_QUOTE_CURRENCIES = ['USDT', 'USDC', 'USD', 'EUR', 'BTC', 'ETH'];
+// Dotted suffixes are limited to share classes and known exchanges, and need a root of 2+ letters,
+// so abbreviations like "A.I." or "U.K." are not read as tickers. Longer suffixes first.
+// A class "A" followed by a lowercase word is a sentence ending and starting ("NVDA.A few"), not a share class
+const SHARE_CLASS_SUFFIXES = ['A(?!\\s+[a-z])', 'B', 'C'];
+const EXCHANGE_SUFFIXES = ['TA', 'TO', 'HK', 'AX', 'DE', 'PA', 'AS', 'SW', 'MI', 'SS', 'SZ', 'NS', 'BO', 'KS', 'L', 'V', 'T'];
+export const TICKER_PATTERN_SOURCE = `(?:${CRYPTO_BASE_ASSETS.join('|')})-?(?:${CRYPTO_QUOTE_CURRENCIES.join('|')})` +
+  `|[A-Z]{2,5}(?:\\.(?:${[...EXCHANGE_SUFFIXES, ...SHARE_CLASS_SUFFIXES].join('|')})|-[A-Z])|[A-Z]{1,5}`;
+export const SYMBOL_FORMAT = new RegExp(`^(?:${TICKER_PATTERN_SOURCE})$`);
+
 // Enhanced regex for better Unicode and Hebrew text support
 // Matches symbols after $ or # prefix, or with proper word boundaries including Unicode support
-export const SYMBOL_PATTERN = /(?:[$#]([A-Z]{1,5})(?![A-Z])|(?<![A-Za-z])([A-Z]{1,5})(?![A-Za-z]))/g;
+export const SYMBOL_PATTERN = new RegExp(`(?:[$#](${TICKER_PATTERN_SOURCE})(?![A-Z])|(?<![A-Za-z])(${TICKER_PATTERN_SOURCE})(?![A-Za-z]))`, 'g');
 export const MAX_DISCORD_BUTTONS = 25;
+export const ALIAS_CONFIDENCE = 0.6; // Symbols resolved from a company name in the alias dictionary
+export const FUZZY_ALIAS_CONFIDENCE = 0.45; // Company names matched with a one-letter typo
+export const UNKNOWN_TICKER_PENALTY = 0.3; // Confidence penalty for tickers missing from the ticker universe (advisory mode)
 export const DAYS_TO_SCRAPE = 20;
+export const MAX_SCRAPE_DAYS = DAYS_TO_SCRAPE; // Upper bound for /scrape rerun - older analysis expires from the index anyway
+export const SCRAPE_CONCURRENCY = 3; // Channels scraped at the same time
+export const SCRAPE_REQUEST_INTERVAL_MS = 100; // Minimum gap between Discord requests, shared by all channels of a scrape
+export const SCRAPE_MAX_BATCHES_PER_CHANNEL = 500; // 100 messages each; a capped channel resumes from its checkpoint next run
+export const WATCHLIST_DM_DAILY_CAP = 20; // Max watchlist DMs per user per UTC day
+export const WATCHLIST_DM_INTERVAL_MS = 1500; // Delay between queued watchlist DMs
+export const EDIT_NOTIFY_MAX_AGE_MINUTES = 15; // An edit that first makes a message pass only announces it this soon after posting
+export const DIGEST_LOOKBACK_HOURS = 24; // New analysis covered by the daily digest
+export const REPORT_LOOKBACK_DAYS = 7; // Analysis and top picks covered by the weekly report
+export const REPORT_MAX_CHARTS_PER_SYMBOL = 3; // Chart thumbnails shown per symbol in the weekly report
+export const API_DEFAULT_PAGE_SIZE = 50;
+export const API_MAX_PAGE_SIZE = 100;
+export const PERFORMANCE_HORIZONS = [1, 5, 20]; // Forward return horizons in trading days
+export const PERFORMANCE_DEFAULT_DAYS = 30; // Archived top picks days included by /performance
+
+// Relevance keywords that also say which way the price is moving. They belong to the
+// HEBREW_KEYWORDS tiers below and are the shared vocabulary of DIRECTION_KEYWORDS.
+const BULLISH_STRONG_KEYWORDS = ['ברייקאאוט', 'פריצה', 'relative strength', 'שיא', 'בלו סקייס', 'falling wedge', 'ATH', 'ווינרס', 'באונס'];
+const BULLISH_MEDIUM_KEYWORDS = ['עולה', 'המשכיות', 'מומנטום', 'באונס', 'פורצת'];
+const BEARISH_MEDIUM_KEYWORDS = ['נשבר'];
 
 export const HEBREW_KEYWORDS = {
   strong: [
-    'ברייקאאוט',
-    'פריצה',
-    'relative strength',
-    'שיא',
+    ...BULLISH_STRONG_KEYWORDS,
     'ווליום',
     'ממוצע',
     'AVWAP',
@@ -114,37 +196,30 @@ export const HEBREW_KEYWORDS = {
     '50DMA',
     'HTF',
     'קו פריצה',
-    'בלו סקייס',
     'אלכסון',
     'קונסולדיציה',
     'ריטטס',
     'אינסייד קנדל',
-    'falling wedge',
     'ליברמור',
-    'ATH',
     '✅',
     // Discovered high-value trading terms
-    'ווינרס',
     'קנדל',
     'אינסייד',
     'רייד',
     'סקייס',
-    'באונס',
     'והמשכיות',
     'הפריצה',
     'לבלו',
     'הממוצע'
   ],
   medium: [
-    'עולה',
+    ...BULLISH_MEDIUM_KEYWORDS,
+    ...BEARISH_MEDIUM_KEYWORDS,
     'נע',
     'מעל',
     'שמירה',
-    'המשכיות',
     'טרנד',
-    'מומנטום',
     'סטאפ',
-    'באונס',
     'כריטסט',
     'רייד ווינרס',
     'IBD50',
@@ -164,11 +239,9 @@ export const HEBREW_KEYWORDS = {
     'מקו',
     'נסחרת',
     'נר',
-    'נשבר',
     'נשמר',
     'סגירה',
     'סטייג',
-    'פורצת',
     'פותחת',
     'פיבוט',
     'קו',
@@ -184,4 +257,25 @@ export const HEBREW_KEYWORDS = {
     'חדש',
     'נהדר'
   ]
-};
\ No newline at end of file
+};
+// Directional terms for DirectionClassifier: the directional HEBREW_KEYWORDS plus explicit calls.
+// English terms match whole words, Hebrew terms match with prefixes. Bare long/short/calls/puts are
+// left out because they are mostly not calls ("long term", "short squeeze", "calls it").
+export const DIRECTION_KEYWORDS = {
+  bullish: Array.from(new Set([
+    'breakout', 'breaking out', 'bullish', 'uptrend', 'higher high', 'higher highs', 'higher low',
+    'higher lows', 'bounce', 'reclaim', 'reclaimed', 'new high', 'new highs', 'blue sky', 'cup and handle',
+    'going long', 'go long', 'long position', 'long setup', 'long entry', 'long trade', 'long bias',
+    'buying calls', 'bought calls', 'long calls', 'call options',
+    ...BULLISH_STRONG_KEYWORDS, ...BULLISH_MEDIUM_KEYWORDS,
+    'לונג', 'שורי', 'עלייה'
+  ])),
+  bearish: [
+    'breakdown', 'breaking down', 'bearish', 'downtrend', 'lower high', 'lower highs', 'lower low',
+    'lower lows', 'failed breakout', 'rejection', 'rejected', 'lost support', 'head and shoulders', 'rising wedge',
+    'going short', 'go short', 'short position', 'short setup', 'short entry', 'short trade', 'short bias',
+    'buying puts', 'bought puts', 'long puts', 'put options',
+    ...BEARISH_MEDIUM_KEYWORDS,
+    'שורט', 'שבירה', 'נשברה', 'ברייקדאון', 'דובי', 'ירידה', 'יורדת', 'חולשה'
+  ]
+};
@@ -0,0 +1,199 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { timingSafeEqual } from 'crypto';
+import { AnalysisData } from '../types';
+import { AnalysisLinker } from './AnalysisLinker';
+import { GuildServiceRegistry, GuildServices } from './GuildServiceRegistry';
+import { TopPicksArchive } from './TopPicksArchive';
+import { Logger } from '../utils/Logger';
+import { API_DEFAULT_PAGE_SIZE, API_MAX_PAGE_SIZE } from '../config';
+
+interface Pagination {
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Read-only JSON API over the analysis index, mounted at /api on the health check server
+ * Every route requires `Authorization: Bearer <API_TOKEN>`; list routes take `limit` and `offset`
+ * and all routes take an optional `guild` query parameter (defaults to the env-configured guild)
+ */
+export class AnalysisApi {
+  private readonly token: Buffer;
+
+  /**
+   * @param getDefaultGuildId Guild used when a request doesn't name one
+   * @param topPicksArchive Serves the latest top picks across restarts when provided
+   */
+  constructor(
+    token: string,
+    private readonly guildRegistry: GuildServiceRegistry,
+    private readonly getDefaultGuildId: () => string | null,
+    private readonly topPicksArchive: TopPicksArchive | null = null
+  ) {
+    if (!token) {
+      throw new Error('AnalysisApi requires a non-empty token');
+    }
+    this.token = Buffer.from(token);
+  }
+
+  public createRouter(): Router {
+    const router = Router();
+
+    router.use((req, res, next) => this.authenticate(req, res, next));
+
+    router.get('/symbols', (req, res) => this.handleRequest(req, res, services => this.listSymbols(req, res, services.analysisLinker)));
+    router.get('/symbols/:symbol/analyses', (req, res) => this.handleRequest(req, res, services => this.listAnalyses(req, res, services.analysisLinker)));
+    router.get('/top-picks/latest', (req, res) => this.handleRequest(req, res, services => this.latestTopPicks(res, services)));
+    router.get('/allowlist', (req, res) => this.handleRequest(req, res, services => this.listAllowlist(req, res, services.analysisLinker)));
+
+    router.use((req, res) => {
+      res.status(404).json({ error: 'Not found' });
+    });
+
+    return router;
+  }
+
+  private authenticate(req: Request, res: Response, next: NextFunction): void {
+    const header = req.headers.authorization || '';
+    const match = header.match(/^Bearer\s+(.+)$/i);
+    const provided = match ? Buffer.from(match[1]!.trim()) : null;
+
+    if (!provided || provided.length !== this.token.length || !timingSafeEqual(provided, this.token)) {
+      Logger.warn(`API request to ${req.path} rejected: ${provided ? 'invalid' : 'missing'} bearer token`);
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    next();
+  }
+
+  private async handleRequest(
+    req: Request,
+    res: Response,
+    handler: (services: GuildServices) => Promise<void> | void
+  ): Promise<void> {
+    const guildId = typeof req.query.guild === 'string' ? req.query.guild : this.getDefaultGuildId();
+    const services = this.guildRegistry.get(guildId);
+    if (!services) {
+      res.status(404).json({ error: `Unknown guild ${guildId ?? ''}`.trim() });
+      return;
+    }
+
+    try {
+      await handler(services);
+    } catch (error) {
+      Logger.error(`API request to ${req.path} failed:`, error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  }
+
+  private async listSymbols(req: Request, res: Response, analysisLinker: AnalysisLinker): Promise<void> {
+    const pagination = this.parsePagination(req, res);
+    if (!pagination) return;
+
+    const symbols = analysisLinker.getAvailableSymbols().sort();
+    const page = this.paginate(symbols, pagination);
+
+    const data = [];
+    for (const symbol of page.items) {
+      const [latest] = await analysisLinker.getLatestAnalysis(symbol, 1);
+      data.push({
+        symbol,
+        latestAnalysisUrl: analysisLinker.getLatestAnalysisUrl(symbol),
+        latestAnalysisAt: latest ? latest.timestamp.toISOString() : null
+      });
+    }
+
+    res.json({ data, pagination: page.pagination });
+  }
+
+  private async listAnalyses(req: Request, res: Response, analysisLinker: AnalysisLinker): Promise<void> {
+    const pagination = this.parsePagination(req, res);
+    if (!pagination) return;
+
+    const symbol = String(req.params.symbol || '').replace(/^\$/, '').toUpperCase();
+    const authorId = typeof req.query.author === 'string' ? req.query.author : undefined;
+
+    const analyses = (await analysisLinker.getLatestAnalysis(symbol, AnalysisLinker.MAX_ANALYSES_PER_SYMBOL, authorId))
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+    const page = this.paginate(analyses, pagination);
+
+    res.json({ symbol, data: page.items.map(analysis => this.serializeAnalysis(analysis)), pagination: page.pagination });
+  }
+
+  private latestTopPicks(res: Response, services: GuildServices): void {
+    const topPicks = services.channelScanner.getLatestTopPicks()
+      ?? this.topPicksArchive?.getLatest(services.config.guildId)
+      ?? null;
+    if (!topPicks) {
+      res.status(404).json({ error: 'No top picks have been posted yet' });
+      return;
+    }
+
+    res.json({ data: { ...topPicks, timestamp: topPicks.timestamp.toISOString() } });
+  }
+
+  private listAllowlist(req: Request, res: Response, analysisLinker: AnalysisLinker): void {
+    const pagination = this.parsePagination(req, res);
+    if (!pagination) return;
+
+    const allowlist = analysisLinker.getSymbolAllowlist();
+    const entries = allowlist.getAllowedSymbols()
+      .map(symbol => allowlist.getSymbolEntry(symbol))
+      .filter(entry => entry !== null)
+      .map(entry => ({
+        symbol: entry.symbol,
+        addedAt: entry.timestamp.toISOString(),
+        adminId: entry.adminId,
+        messageId: entry.messageId
+      }));
+    const page = this.paginate(entries, pagination);
+
+    res.json({ data: page.items, pagination: page.pagination });
+  }
+
+  /**
+   * Reads `limit` and `offset`, replying 400 and returning null if either is invalid
+   */
+  private parsePagination(req: Request, res: Response): Pagination | null {
+    const limit = req.query.limit === undefined ? API_DEFAULT_PAGE_SIZE : Number(req.query.limit);
+    const offset = req.query.offset === undefined ? 0 : Number(req.query.offset);
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > API_MAX_PAGE_SIZE) {
+      res.status(400).json({ error: `limit must be an integer between 1 and ${API_MAX_PAGE_SIZE}` });
+      return null;
+    }
+    if (!Number.isInteger(offset) || offset < 0) {
+      res.status(400).json({ error: 'offset must be a non-negative integer' });
+      return null;
+    }
+
+    return { limit, offset };
+  }
+
+  private paginate<T>(items: T[], { limit, offset }: Pagination) {
+    return {
+      items: items.slice(offset, offset + limit),
+      pagination: { total: items.length, limit, offset, hasMore: offset + limit < items.length }
+    };
+  }
+
+  private serializeAnalysis(analysis: AnalysisData) {
+    return {
+      messageId: analysis.messageId,
+      channelId: analysis.channelId,
+      authorId: analysis.authorId,
+      authorName: analysis.authorName ?? null,
+      symbols: analysis.symbols,
+      content: analysis.content,
+      timestamp: analysis.timestamp.toISOString(),
+      relevanceScore: analysis.relevanceScore,
+      messageUrl: analysis.messageUrl ?? null,
+      chartUrls: analysis.chartUrls ?? [],
+      attachmentUrls: analysis.attachmentUrls ?? [],
+      tradeLevels: analysis.tradeLevels ?? {},
+      direction: analysis.direction ?? null,
+      directionConfidence: analysis.directionConfidence ?? null
+    };
+  }
+}
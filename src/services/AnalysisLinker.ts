@@ -1,25 +1,46 @@
 import { Message } from 'discord.js';
-import { AnalysisData } from '../types';
+import { AnalysisData, PinnedAnalysis, ScrapedBatch } from '../types';
 import { SymbolDetector } from './SymbolDetector';
 import { SymbolAllowlist } from './SymbolAllowlist';
 import { UrlExtractor } from './UrlExtractor';
+import { TradeLevelExtractor } from './TradeLevelExtractor';
+import { DirectionClassifier } from './DirectionClassifier';
 import { Logger } from '../utils/Logger';
 import { DiscordUrlGenerator } from '../utils/DiscordUrlGenerator';
-import { HEBREW_KEYWORDS, DAYS_TO_SCRAPE } from '../config';
+import { Snowflake } from '../utils/Snowflake';
+import { EDIT_NOTIFY_MAX_AGE_MINUTES } from '../config';
+import { MessageAuthor } from '../utils/MessageAuthor';
+import { DAYS_TO_SCRAPE } from '../config';
+import { AnalysisStore } from './AnalysisStore';
+import { RelevanceScorer, RelevanceBreakdown } from './RelevanceScorer';
 
 export class AnalysisLinker {
   private analysisCache: Map<string, AnalysisData[]> = new Map();
   private latestAnalysisMap: Map<string, AnalysisData> = new Map();
+  private pinnedAnalysisMap: Map<string, PinnedAnalysis> = new Map(); // Manager overrides, untouched by rescans
+  private followUpMap: Map<string, AnalysisData[]> = new Map(); // Analysis message ID -> replies and thread updates, oldest first
+  private channelCheckpoints: Map<string, string> = new Map();
+  private store: AnalysisStore | undefined;
   private symbolDetector: SymbolDetector;
+  private relevanceScorer: RelevanceScorer;
   private symbolAllowlist: SymbolAllowlist;
   private urlExtractor: UrlExtractor;
+  private tradeLevelExtractor: TradeLevelExtractor;
+  private directionClassifier: DirectionClassifier;
+  public static readonly MAX_ANALYSES_PER_SYMBOL = 20;
+  public static readonly MAX_FOLLOW_UPS_PER_ANALYSIS = 20;
   private readonly MAX_CACHE_AGE_MS = DAYS_TO_SCRAPE * 24 * 60 * 60 * 1000;
   private adminIds: Set<string> = new Set();
+  private indexedListeners: Array<(analysis: AnalysisData) => void> = [];
 
-  constructor(symbolDetector?: SymbolDetector) {
+  constructor(symbolDetector?: SymbolDetector, store?: AnalysisStore, relevanceScorer?: RelevanceScorer) {
     this.symbolDetector = symbolDetector || new SymbolDetector();
+    this.store = store;
+    this.relevanceScorer = relevanceScorer || new RelevanceScorer();
     this.symbolAllowlist = this.symbolDetector.getSymbolAllowlist();
     this.urlExtractor = new UrlExtractor();
+    this.tradeLevelExtractor = new TradeLevelExtractor();
+    this.directionClassifier = new DirectionClassifier();
     this.startCacheCleanup();
   }
 
@@ -39,14 +60,117 @@ export class AnalysisLinker {
       const existingCache = this.analysisCache.get(symbol) || [];
       existingCache.push(analysisData);
       existingCache.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
-      this.analysisCache.set(symbol, existingCache.slice(0, 20)); // Keep max 20 per symbol
+      this.analysisCache.set(symbol, existingCache.slice(0, AnalysisLinker.MAX_ANALYSES_PER_SYMBOL));
     }
     
     const symbols = Array.from(historicalMap.keys()).sort();
     Logger.info(`Historical data loaded for: ${symbols.join(', ')}`);
+    
+    void this.persist();
+  }
+
+  /**
+   * Commits one page of a historical scrape together with its channel checkpoint,
+   * so a scrape interrupted midway resumes after the last committed page
+   * batch.latestAnalysis holds each channel's quality-first pick so far, spanning every page of the scrape.
+   * Against what the index already holds - other channels, live-indexed messages or an earlier scrape
+   * this one resumed from - the newer analysis wins, as in indexMessage. A full scrape into an empty
+   * index therefore ends with the same latest analysis as one applied in a single pass.
+   */
+  public applyScrapedBatch(batch: ScrapedBatch): void {
+    for (const [symbol, analyses] of batch.history) {
+      for (const analysisData of analyses) {
+        this.addToCache(symbol, analysisData);
+      }
+    }
+
+    for (const [symbol, analysisData] of batch.latestAnalysis) {
+      const existing = this.latestAnalysisMap.get(symbol);
+      if (!existing || analysisData.timestamp > existing.timestamp) {
+        this.latestAnalysisMap.set(symbol, analysisData);
+      }
+    }
+
+    this.recordCheckpoint(batch.channelId, batch.checkpoint);
+    void this.persist();
+  }
+
+  /**
+   * Restores the index from the configured store
+   * @returns true if a persisted index was found and loaded
+   */
+  public async loadFromStore(): Promise<boolean> {
+    if (!this.store) {
+      return false;
+    }
+
+    const snapshot = await this.store.load();
+    if (!snapshot) {
+      return false;
+    }
+
+    this.analysisCache.clear();
+    this.latestAnalysisMap.clear();
+
+    for (const [symbol, analyses] of snapshot.analysisCache) {
+      const recent = analyses.filter(analysis => this.isRecentEnough(analysis.timestamp));
+      if (recent.length > 0) {
+        this.analysisCache.set(symbol, recent);
+      }
+    }
+
+    for (const [symbol, analysis] of snapshot.latestAnalysis) {
+      if (this.isRecentEnough(analysis.timestamp)) {
+        this.latestAnalysisMap.set(symbol, analysis);
+      }
+    }
+
+    this.channelCheckpoints = new Map(snapshot.channelCheckpoints);
+    this.pinnedAnalysisMap = new Map(snapshot.pinnedAnalysis);
+    this.followUpMap = new Map();
+    for (const [messageId, followUps] of snapshot.followUps) {
+      const recent = followUps.filter(followUp => this.isRecentEnough(followUp.timestamp));
+      if (recent.length > 0) {
+        this.followUpMap.set(messageId, recent);
+      }
+    }
+
+    Logger.info(`Restored ${this.latestAnalysisMap.size} symbols from persisted analysis index (${this.channelCheckpoints.size} channel checkpoints, ${this.pinnedAnalysisMap.size} pins)`);
+    return true;
+  }
+
+  /**
+   * Newest processed message ID per channel - used by HistoricalScraper to only backfill newer messages
+   */
+  public getChannelCheckpoints(): Map<string, string> {
+    return new Map(this.channelCheckpoints);
   }
 
-  public async indexMessage(message: Message): Promise<void> {
+  private recordCheckpoint(channelId: string, messageId: string): void {
+    const existing = this.channelCheckpoints.get(channelId);
+    if (!existing || Snowflake.isNewer(messageId, existing)) {
+      this.channelCheckpoints.set(channelId, messageId);
+    }
+  }
+
+  private async persist(): Promise<void> {
+    if (!this.store) {
+      return;
+    }
+
+    await this.store.save({
+      analysisCache: this.analysisCache,
+      latestAnalysis: this.latestAnalysisMap,
+      channelCheckpoints: this.channelCheckpoints,
+      pinnedAnalysis: this.pinnedAnalysisMap,
+      followUps: this.followUpMap
+    });
+  }
+
+  /**
+   * @param notify Whether onAnalysisIndexed listeners hear about an accepted analysis (off for edits of known messages)
+   */
+  public async indexMessage(message: Message, notify: boolean = true): Promise<void> {
     if (message.author.bot) return;
 
     // Check if this is an admin message and extract symbols for allowlist
@@ -64,58 +188,50 @@ export class AnalysisLinker {
 
     // Thread filtering now handled at bot.js level before calling this method
 
+    this.recordCheckpoint(message.channel.id, message.id);
+
     const firstLine = message.content.split('\n')[0] || '';
     const symbols = this.symbolDetector.detectSymbols(firstLine);
+
+    // Replies to an indexed analysis join its conversation chain, inheriting its symbols when they name none
+    const replyRoot = this.findReplyRoot(message);
+    if (replyRoot) {
+      this.recordFollowUp(replyRoot, message, symbols.map(s => s.symbol));
+      Logger.info(`↩️ Recorded reply ${message.id} as a follow-up to ${replyRoot.messageId}`);
+      await this.persist();
+    }
+
     if (symbols.length === 0) {
       return;
     }
 
-    const messageUrl = DiscordUrlGenerator.generateMessageUrl(message.guildId!, message);
     const extractedUrls = this.urlExtractor.extractUrlsFromMessage(message);
     
     Logger.analysis(`Indexing message ${message.id}: symbols=${symbols.map(s => s.symbol).join(', ')}, charts=${extractedUrls.chartUrls.length}, attachments=${extractedUrls.attachmentUrls.length}`);
     
     const symbolStrings = symbols.map(s => s.symbol);
-    let relevanceScore = this.calculateRelevanceScore(message.content, symbols.length);
-    
-    // Chart URL bonus (secondary enhancement)
-    if (extractedUrls.hasCharts) {
-      relevanceScore += 0.2;
-      Logger.debug(`Message ${message.id} has charts - boosting relevance score by 0.2`);
-    }
-    
     const isReply = message.reference !== null && message.reference !== undefined;
-    if (isReply) {
-      relevanceScore += 0.2;
-      Logger.debug(`Message ${message.id} is a reply - boosting relevance score by 0.2`);
-    }
+    const relevance = this.relevanceScorer.explain({
+      content: message.content,
+      symbolCount: symbols.length,
+      hasCharts: extractedUrls.hasCharts,
+      isReply
+    });
+    const relevanceScore = relevance.total;
     
     // Enhanced logging for debugging indexing decisions
-    Logger.debug(`Message ${message.id} analysis: symbols=${symbols.length}, score=${relevanceScore.toFixed(3)}, length=${message.content.length}, isReply=${isReply}, content="${message.content.slice(0, 80)}..."`);
+    Logger.debug(`Message ${message.id} analysis: symbols=${symbols.length}, score=${relevanceScore.toFixed(3)}, length=${message.content.length}, hasCharts=${extractedUrls.hasCharts}, isReply=${isReply}, content="${message.content.slice(0, 80)}..."`);
     
     // Skip messages with low relevance (likely ticker-only messages)
-    const MIN_RELEVANCE_THRESHOLD = 0.7;
-    if (relevanceScore < MIN_RELEVANCE_THRESHOLD) {
-      Logger.debug(`❌ Rejected message ${message.id}: relevance score ${relevanceScore.toFixed(3)} below threshold ${MIN_RELEVANCE_THRESHOLD}`);
+    if (!relevance.passes) {
+      Logger.debug(`❌ Rejected message ${message.id}: relevance score ${relevanceScore.toFixed(3)} below threshold ${relevance.threshold}`);
       return;
     }
     
-    const analysisData: AnalysisData = {
-      messageId: message.id,
-      channelId: message.channel.id,
-      authorId: message.author.id,
-      content: message.content,
-      symbols: symbolStrings,
-      timestamp: message.createdAt,
-      relevanceScore: relevanceScore,
-      messageUrl,
-      chartUrls: extractedUrls.chartUrls,
-      attachmentUrls: extractedUrls.attachmentUrls,
-      hasCharts: extractedUrls.hasCharts
-    };
+    const analysisData = this.buildAnalysisData(message, symbolStrings, relevanceScore, extractedUrls);
 
     for (const symbol of symbolStrings) {
-      Logger.debug(`Indexing symbol ${symbol} from message ${message.id} (${messageUrl})`);
+      Logger.debug(`Indexing symbol ${symbol} from message ${message.id} (${analysisData.messageUrl})`);
       Logger.debug(`Message ${message.id} channel info: channelId=${message.channelId}, channel constructor=${message.channel?.constructor?.name}`);
       Logger.debug(`Message ${message.id} timestamp: ${message.createdAt}, content preview: "${message.content.substring(0, 50)}..."`);
       
@@ -143,19 +259,405 @@ export class AnalysisLinker {
     }
 
     Logger.info(`Indexed analysis for symbols: ${symbolStrings.join(', ')} from ${message.member?.displayName || message.author.tag || message.author.id}`);
+    
+    if (notify) {
+      this.notifyIndexed(analysisData);
+    }
+    await this.persist();
+  }
+
+  private buildAnalysisData(
+    message: Message,
+    symbols: string[],
+    relevanceScore: number,
+    extractedUrls: ReturnType<UrlExtractor['extractUrlsFromMessage']>
+  ): AnalysisData {
+    return {
+      messageId: message.id,
+      channelId: message.channel.id,
+      authorId: message.author.id,
+      ...MessageAuthor.getAttribution(message),
+      content: message.content,
+      symbols,
+      timestamp: message.createdAt,
+      relevanceScore,
+      messageUrl: DiscordUrlGenerator.generateMessageUrl(message.guildId!, message),
+      chartUrls: extractedUrls.chartUrls,
+      attachmentUrls: extractedUrls.attachmentUrls,
+      hasCharts: extractedUrls.hasCharts,
+      ...this.tradeLevelExtractor.extractFields(message.content),
+      ...this.directionClassifier.classifyFields(message.content, message.channel.id)
+    };
+  }
+
+  /**
+   * Forces the latest analysis for a symbol to a specific message until it is unpinned
+   * Pins skip the relevance threshold and expiry, and are left alone by historical rescans
+   * (applyScrapedBatch) and initializeFromHistoricalData
+   * The pin is kept apart from the analysis cache, so unpinning leaves the symbol's history as it was
+   */
+  public async pinAnalysis(symbol: string, message: Message, pinnedBy: string): Promise<PinnedAnalysis> {
+    const pin: PinnedAnalysis = { analysis: this.buildPinnedAnalysisData(symbol, message), pinnedBy, pinnedAt: new Date() };
+
+    this.pinnedAnalysisMap.set(symbol, pin);
+    Logger.info(`📌 ${pinnedBy} pinned message ${message.id} as the latest analysis for ${symbol}`);
+
+    await this.persist();
+    return pin;
+  }
+
+  /**
+   * Drops a symbol's pin so its latest analysis is selected automatically again
+   * @returns false if the symbol was not pinned
+   */
+  public async unpinAnalysis(symbol: string): Promise<boolean> {
+    if (!this.pinnedAnalysisMap.delete(symbol)) {
+      return false;
+    }
+
+    Logger.info(`📌 Unpinned latest analysis for ${symbol}`);
+    await this.persist();
+    return true;
+  }
+
+  public getPinnedAnalysis(symbol: string): PinnedAnalysis | null {
+    return this.pinnedAnalysisMap.get(symbol) || null;
+  }
+
+  public getPinnedSymbols(): string[] {
+    return Array.from(this.pinnedAnalysisMap.keys()).sort();
+  }
+
+  /**
+   * Drops every pin that points at a deleted message
+   * @returns Symbols that were unpinned
+   */
+  public unpinMessage(messageId: string): string[] {
+    const unpinned: string[] = [];
+    for (const [symbol, pin] of this.pinnedAnalysisMap) {
+      if (pin.analysis.messageId === messageId) {
+        this.pinnedAnalysisMap.delete(symbol);
+        unpinned.push(symbol);
+      }
+    }
+
+    if (unpinned.length > 0) {
+      Logger.info(`📌 Pinned message ${messageId} deleted - unpinned ${unpinned.join(', ')}`);
+      void this.persist();
+    }
+    return unpinned;
+  }
+
+  /**
+   * Indexes a manager message posted inside a thread as a follow-up to the analysis that started the thread
+   * The follow-up inherits the starter's symbols when its first line doesn't name one,
+   * and is shown alongside the starter rather than replacing it as the latest analysis
+   * @returns false if the thread was not started from an indexed analysis
+   */
+  public async indexThreadUpdate(message: Message): Promise<boolean> {
+    if (message.author.bot) return false;
+
+    // A thread started from a message shares that message's ID
+    const starter = this.findAnalysis(message.channel.id);
+    if (!starter) {
+      Logger.debug(`Thread message ${message.id} skipped - thread ${message.channel.id} was not started from an indexed analysis`);
+      return false;
+    }
+
+    const firstLine = message.content.split('\n')[0] || '';
+    this.recordFollowUp(starter, message, this.symbolDetector.detectSymbols(firstLine).map(s => s.symbol));
+    Logger.info(`🧵 Indexed thread update ${message.id} as a follow-up to ${starter.messageId}`);
+
+    await this.persist();
+    return true;
+  }
+
+  /**
+   * Replies and thread updates recorded for an analysis, oldest first
+   */
+  public getFollowUps(messageId: string): AnalysisData[] {
+    return [...(this.followUpMap.get(messageId) || [])];
+  }
+
+  public getLatestFollowUp(messageId: string): AnalysisData | null {
+    return this.followUpMap.get(messageId)?.at(-1) || null;
+  }
+
+  /**
+   * The conversation chain of a symbol's latest analysis: the original call and its follow-ups, oldest first
+   */
+  public getConversation(symbol: string): { analysis: AnalysisData; followUps: AnalysisData[] } | null {
+    const analysis = this.pinnedAnalysisMap.get(symbol)?.analysis || this.latestAnalysisMap.get(symbol);
+    return analysis ? { analysis, followUps: this.getFollowUps(analysis.messageId) } : null;
+  }
+
+  public isFollowUp(messageId: string): boolean {
+    return this.findFollowUp(messageId) !== null;
+  }
+
+  /**
+   * Drops follow-ups for a deleted message - either the follow-up itself or the analysis it follows up on
+   * @returns true if anything was removed
+   */
+  public removeFollowUp(messageId: string): boolean {
+    let removed = this.followUpMap.delete(messageId);
+    for (const [rootMessageId, followUps] of this.followUpMap) {
+      const remaining = followUps.filter(followUp => followUp.messageId !== messageId);
+      if (remaining.length === followUps.length) continue;
+
+      removed = true;
+      if (remaining.length === 0) {
+        this.followUpMap.delete(rootMessageId);
+      } else {
+        this.followUpMap.set(rootMessageId, remaining);
+      }
+    }
+
+    if (removed) {
+      Logger.info(`↩️ Message ${messageId} deleted - removed its follow-ups`);
+      void this.persist();
+    }
+    return removed;
+  }
+
+  /**
+   * Adds (or, for an edited message, replaces) a follow-up in the analysis' chain
+   * Follow-ups are usually short ("stopped out", "עדיין מחזיק"), so they are scored but not held to the relevance threshold
+   * @param ownSymbols Symbols named on the follow-up's first line - the analysis' symbols are inherited when empty
+   */
+  private recordFollowUp(root: AnalysisData, message: Message, ownSymbols: string[]): AnalysisData {
+    const symbols = ownSymbols.length > 0 ? ownSymbols : root.symbols;
+    const extractedUrls = this.urlExtractor.extractUrlsFromMessage(message);
+    const relevance = this.relevanceScorer.explain({
+      content: message.content,
+      symbolCount: symbols.length,
+      hasCharts: extractedUrls.hasCharts,
+      isReply: true
+    });
+
+    const followUp: AnalysisData = { ...this.buildAnalysisData(message, symbols, relevance.total, extractedUrls), followUpOf: root.messageId };
+    const chain = (this.followUpMap.get(root.messageId) || []).filter(existing => existing.messageId !== message.id);
+    chain.push(followUp);
+    chain.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    this.followUpMap.set(root.messageId, chain.slice(-AnalysisLinker.MAX_FOLLOW_UPS_PER_ANALYSIS));
+
+    return followUp;
+  }
+
+  /**
+   * The indexed analysis a reply belongs to - replies to a follow-up join the chain of the analysis it follows up on
+   */
+  private findReplyRoot(message: Message): AnalysisData | null {
+    const referencedId = message.reference?.messageId;
+    if (!referencedId) {
+      return null;
+    }
+
+    const followUp = this.findFollowUp(referencedId);
+    return this.findAnalysis(followUp?.followUpOf || referencedId);
+  }
+
+  private findFollowUp(messageId: string): AnalysisData | null {
+    for (const followUps of this.followUpMap.values()) {
+      const followUp = followUps.find(f => f.messageId === messageId);
+      if (followUp) {
+        return followUp;
+      }
+    }
+    return null;
+  }
+
+  private findAnalysis(messageId: string): AnalysisData | null {
+    for (const analyses of this.analysisCache.values()) {
+      const analysis = analyses.find(a => a.messageId === messageId);
+      if (analysis) {
+        return analysis;
+      }
+    }
+
+    for (const pin of this.pinnedAnalysisMap.values()) {
+      if (pin.analysis.messageId === messageId) {
+        return pin.analysis;
+      }
+    }
+    return null;
+  }
+
+  private buildPinnedAnalysisData(symbol: string, message: Message): AnalysisData {
+    const firstLine = message.content.split('\n')[0] || '';
+    const symbols = Array.from(new Set([symbol, ...this.symbolDetector.detectSymbols(firstLine).map(s => s.symbol)]));
+    const extractedUrls = this.urlExtractor.extractUrlsFromMessage(message);
+    const relevance = this.relevanceScorer.explain({
+      content: message.content,
+      symbolCount: symbols.length,
+      hasCharts: extractedUrls.hasCharts,
+      isReply: message.reference !== null && message.reference !== undefined
+    });
+
+    return this.buildAnalysisData(message, symbols, relevance.total, extractedUrls);
+  }
+
+  /**
+   * Registers a listener called when a new analysis is accepted
+   * Edits only fire it when they make a recently posted message pass for the first time,
+   * never for messages that were already indexed (live or by a historical scrape)
+   */
+  public onAnalysisIndexed(listener: (analysis: AnalysisData) => void): void {
+    this.indexedListeners.push(listener);
+  }
+
+  /**
+   * Runs the same symbol detection and relevance scoring as indexMessage without indexing anything
+   * @returns null if the first line has no symbols (indexMessage would skip it before scoring)
+   */
+  public explainRelevance(message: Message): { symbols: string[]; breakdown: RelevanceBreakdown } | null {
+    const firstLine = message.content.split('\n')[0] || '';
+    const symbols = this.symbolDetector.detectSymbols(firstLine);
+    if (symbols.length === 0) {
+      return null;
+    }
+
+    const extractedUrls = this.urlExtractor.extractUrlsFromMessage(message);
+    const breakdown = this.relevanceScorer.explain({
+      content: message.content,
+      symbolCount: symbols.length,
+      hasCharts: extractedUrls.hasCharts,
+      isReply: message.reference !== null && message.reference !== undefined
+    });
+
+    return { symbols: symbols.map(s => s.symbol), breakdown };
+  }
+
+  private notifyIndexed(analysis: AnalysisData): void {
+    for (const listener of this.indexedListeners) {
+      try {
+        listener(analysis);
+      } catch (error) {
+        Logger.error('Analysis indexed listener failed:', error);
+      }
+    }
+  }
+
+  /**
+   * Re-runs symbol detection and relevance scoring for an edited message
+   * Entries from the previous version are dropped first, so a fixed ticker or a message that
+   * no longer passes the relevance threshold falls back to the previous analysis
+   */
+  public async reindexMessage(message: Message): Promise<void> {
+    const affectedSymbols = this.removeMessage(message.id, false);
+    if (affectedSymbols.length > 0) {
+      Logger.info(`Re-indexing edited message ${message.id} (previously indexed for: ${affectedSymbols.join(', ')})`);
+    }
+    
+    // Only a fresh message that this edit turns into an analysis counts as new
+    const ageMinutes = (Date.now() - message.createdAt.getTime()) / (60 * 1000);
+    await this.indexMessage(message, affectedSymbols.length === 0 && ageMinutes <= EDIT_NOTIFY_MAX_AGE_MINUTES);
+    
+    // Pins follow their message's edits instead of being dropped with the old version
+    const pinnedSymbols = this.refreshPins(message);
+    
+    // indexMessage only persists accepted messages - make sure a removal is flushed too
+    if (affectedSymbols.length > 0 || pinnedSymbols.length > 0) {
+      await this.persist();
+    }
+  }
+
+  private refreshPins(message: Message): string[] {
+    const pinnedSymbols: string[] = [];
+    for (const [symbol, pin] of this.pinnedAnalysisMap) {
+      if (pin.analysis.messageId === message.id) {
+        const analysis = this.buildPinnedAnalysisData(symbol, message);
+        this.pinnedAnalysisMap.set(symbol, { ...pin, analysis });
+        pinnedSymbols.push(symbol);
+      }
+    }
+    return pinnedSymbols;
+  }
+
+  /**
+   * Removes every entry for a deleted (or edited) message
+   * Symbols whose latest analysis was this message fall back to the newest remaining cached analysis
+   * @returns Symbols that referenced the message
+   */
+  public removeMessage(messageId: string, persist: boolean = true): string[] {
+    const affectedSymbols: string[] = [];
+    
+    for (const [symbol, analyses] of this.analysisCache.entries()) {
+      const remaining = analyses.filter(analysis => analysis.messageId !== messageId);
+      if (remaining.length === analyses.length) continue;
+      
+      affectedSymbols.push(symbol);
+      if (remaining.length === 0) {
+        this.analysisCache.delete(symbol);
+      } else {
+        this.analysisCache.set(symbol, remaining);
+      }
+    }
+    
+    for (const [symbol, latest] of this.latestAnalysisMap.entries()) {
+      if (latest.messageId !== messageId) continue;
+      
+      if (!affectedSymbols.includes(symbol)) {
+        affectedSymbols.push(symbol);
+      }
+      
+      const fallback = (this.analysisCache.get(symbol) || [])
+        .find(analysis => this.isRecentEnough(analysis.timestamp));
+      
+      if (fallback) {
+        this.latestAnalysisMap.set(symbol, fallback);
+        Logger.info(`Latest analysis for ${symbol} removed - falling back to previous message ${fallback.messageId}`);
+      } else {
+        this.latestAnalysisMap.delete(symbol);
+        Logger.info(`Latest analysis for ${symbol} removed - no previous analysis available`);
+      }
+    }
+    
+    if (affectedSymbols.length > 0 && persist) {
+      void this.persist();
+    }
+    
+    return affectedSymbols;
   }
 
-  public async getLatestAnalysis(symbol: string, limit: number = 3): Promise<AnalysisData[]> {
+  /**
+   * @param authorId Only return analyses posted by this analyst
+   */
+  public async getLatestAnalysis(symbol: string, limit: number = 3, authorId?: string): Promise<AnalysisData[]> {
     const analyses = this.analysisCache.get(symbol) || [];
+    const pinned = this.pinnedAnalysisMap.get(symbol)?.analysis;
     
-    return analyses
+    const ranked = analyses
       .filter(analysis => this.isRecentEnough(analysis.timestamp))
+      .filter(analysis => !authorId || analysis.authorId === authorId)
+      .filter(analysis => !pinned || analysis.messageId !== pinned.messageId)
       .sort((a, b) => {
         const scoreA = this.getTimeRelevanceScore(a.timestamp) + a.relevanceScore;
         const scoreB = this.getTimeRelevanceScore(b.timestamp) + b.relevanceScore;
         return scoreB - scoreA;
-      })
-      .slice(0, limit);
+      });
+    
+    // A pinned analysis always comes first
+    const withPin = pinned && (!authorId || pinned.authorId === authorId) ? [pinned, ...ranked] : ranked;
+    return withPin.slice(0, limit);
+  }
+
+  /**
+   * A symbol's analysis history for paging through how the view changed: a pinned analysis first,
+   * then the rest newest first by posting time
+   * @param authorId Only return analyses posted by this analyst
+   */
+  public async getAnalysisHistory(symbol: string, limit: number = AnalysisLinker.MAX_ANALYSES_PER_SYMBOL, authorId?: string): Promise<AnalysisData[]> {
+    const pinned = this.pinnedAnalysisMap.get(symbol)?.analysis;
+
+    const history = (this.analysisCache.get(symbol) || [])
+      .filter(analysis => this.isRecentEnough(analysis.timestamp))
+      .filter(analysis => !authorId || analysis.authorId === authorId)
+      .filter(analysis => !pinned || analysis.messageId !== pinned.messageId)
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+
+    const withPin = pinned && (!authorId || pinned.authorId === authorId) ? [pinned, ...history] : history;
+    return withPin.slice(0, limit);
   }
 
   public async getAllRelevantAnalysis(symbols: string[]): Promise<Map<string, AnalysisData[]>> {
@@ -172,11 +674,14 @@ export class AnalysisLinker {
   }
 
   public getLatestAnalysisUrl(symbol: string): string | null {
-    const latestAnalysis = this.latestAnalysisMap.get(symbol);
+    const latestAnalysis = this.pinnedAnalysisMap.get(symbol)?.analysis || this.latestAnalysisMap.get(symbol);
     return latestAnalysis?.messageUrl || null;
   }
 
   public hasAnalysisFor(symbol: string): boolean {
+    if (this.pinnedAnalysisMap.has(symbol)) {
+      return true;
+    }
     const analysis = this.latestAnalysisMap.get(symbol);
     return analysis ? this.isRecentEnough(analysis.timestamp) : false;
   }
@@ -188,6 +693,10 @@ export class AnalysisLinker {
    * @returns true if the symbol has recent analysis from any of the specified channels
    */
   public hasAnalysisFromChannels(symbol: string, channelIds: string[]): boolean {
+    const pinned = this.pinnedAnalysisMap.get(symbol);
+    if (pinned) {
+      return channelIds.includes(pinned.analysis.channelId);
+    }
     const analysis = this.latestAnalysisMap.get(symbol);
     if (!analysis || !this.isRecentEnough(analysis.timestamp)) {
       return false;
@@ -195,6 +704,21 @@ export class AnalysisLinker {
     return channelIds.includes(analysis.channelId);
   }
 
+  /**
+   * Analyses posted after the given time, newest first, each message once even if it covers several symbols
+   */
+  public getAnalysesSince(since: Date): AnalysisData[] {
+    const analyses = new Map<string, AnalysisData>();
+    for (const cached of this.analysisCache.values()) {
+      for (const analysis of cached) {
+        if (analysis.timestamp > since) {
+          analyses.set(analysis.messageId, analysis);
+        }
+      }
+    }
+    return Array.from(analyses.values()).sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  }
+
   public getAvailableSymbols(): string[] {
     const availableSymbols: string[] = [];
     for (const [symbol, analysis] of this.latestAnalysisMap.entries()) {
@@ -202,195 +726,28 @@ export class AnalysisLinker {
         availableSymbols.push(symbol);
       }
     }
+    for (const symbol of this.pinnedAnalysisMap.keys()) {
+      if (!availableSymbols.includes(symbol)) {
+        availableSymbols.push(symbol);
+      }
+    }
     return availableSymbols.sort();
   }
 
   private addToCache(symbol: string, analysis: AnalysisData): void {
-    const existing = this.analysisCache.get(symbol) || [];
+    // Drop any previous copy of the same message (restored index + backfill can overlap)
+    const existing = (this.analysisCache.get(symbol) || []).filter(a => a.messageId !== analysis.messageId);
     existing.push(analysis);
     
     existing.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
     
-    const maxPerSymbol = 20;
-    if (existing.length > maxPerSymbol) {
-      existing.splice(maxPerSymbol);
+    if (existing.length > AnalysisLinker.MAX_ANALYSES_PER_SYMBOL) {
+      existing.splice(AnalysisLinker.MAX_ANALYSES_PER_SYMBOL);
     }
     
     this.analysisCache.set(symbol, existing);
   }
 
-  private calculateRelevanceScore(content: string, symbolCount: number): number {
-    let score = 0.3; // Lower base score to require actual analysis content
-    
-    const lowerContent = content.toLowerCase();
-    
-    // Check for symbol list patterns (major penalty)
-    if (this.isSymbolList(content)) {
-      Logger.debug(`📋 Symbol list pattern detected: "${content.slice(0, 100)}..."`);
-      return 0.1; // Very low score for obvious symbol lists
-    }
-    
-    // Check symbol density (symbol-to-content ratio)
-    const symbolDensityPenalty = this.calculateSymbolDensityPenalty(content, symbolCount);
-    score -= symbolDensityPenalty;
-    
-    // Check for first-line stock patterns (major bonus for focused analysis)
-    if (this.detectFirstLineStockPattern(content)) {
-      score += 0.3;
-      Logger.debug(`📈 First-line stock pattern bonus applied: +0.3`);
-    }
-    
-    const strongKeywords = ['analysis', 'target', 'price target', 'bullish', 'bearish', 'recommendation'];
-    const mediumKeywords = ['chart', 'technical', 'support', 'resistance', 'breakout', 'trend'];
-    const weakKeywords = ['buy', 'sell', 'hold', 'watch', 'trade'];
-    
-    for (const keyword of strongKeywords) {
-      if (lowerContent.includes(keyword)) {
-        score += 0.3;
-      }
-    }
-    
-    for (const keyword of mediumKeywords) {
-      if (lowerContent.includes(keyword)) {
-        score += 0.2;
-      }
-    }
-    
-    for (const keyword of weakKeywords) {
-      if (lowerContent.includes(keyword)) {
-        score += 0.1;
-      }
-    }
-    
-    for (const keyword of HEBREW_KEYWORDS.strong) {
-      if (content.includes(keyword)) {
-        score += 0.3;
-      }
-    }
-    
-    for (const keyword of HEBREW_KEYWORDS.medium) {
-      if (content.includes(keyword)) {
-        score += 0.2;
-      }
-    }
-    
-    for (const keyword of HEBREW_KEYWORDS.weak) {
-      if (content.includes(keyword)) {
-        score += 0.1;
-      }
-    }
-    
-    // Content length bonus (meaningful analysis should be longer)
-    if (content.length > 200) {
-      score += 0.1;
-    }
-    if (content.length > 400) {
-      score += 0.1;
-    }
-    
-    // Symbol count scoring (favor fewer symbols for focused analysis)
-    if (symbolCount === 1) {
-      score += 0.2;
-    } else if (symbolCount <= 3) {
-      score += 0.1;
-    } else if (symbolCount <= 5) {
-      // Neutral - no bonus or penalty
-    } else {
-      // Penalty for many symbols (likely lists or unfocused content)
-      score -= (symbolCount - 5) * 0.05;
-    }
-    
-    return Math.max(0, Math.min(score, 1.0));
-  }
-  
-  private isSymbolList(content: string): boolean {
-    // Detect common list patterns
-    const listPatterns = [
-      /[A-Z]{1,5}\s*\/\s*[A-Z]{1,5}/, // "AAPL / TSLA"
-      /[A-Z]{1,5}\s*,\s*[A-Z]{1,5}/, // "AAPL, TSLA"
-      /[A-Z]{1,5}\s*\|\s*[A-Z]{1,5}/, // "AAPL | TSLA"
-    ];
-    
-    for (const pattern of listPatterns) {
-      const matches = content.match(new RegExp(pattern.source, 'g'));
-      if (matches && matches.length >= 3) { // Need at least 3 separator instances
-        const totalLength = content.length;
-        const symbolMatches = content.match(/\b[A-Z]{1,5}\b/g) || [];
-        
-        // Check if we have many symbols with separators
-        if (symbolMatches.length >= 5) {
-          // Check if symbols make up a large portion of the content
-          const symbolChars = symbolMatches.join('').length;
-          const separatorChars = matches.length * 3; // Approximate separator chars
-          const symbolAndSeparatorChars = symbolChars + separatorChars;
-          const ratio = symbolAndSeparatorChars / totalLength;
-          
-          if (ratio > 0.3) { // More than 30% of content is symbols and separators
-            return true;
-          }
-        }
-      }
-    }
-    
-    // Additional check: look for sequences of symbols with minimal text
-    const symbolMatches = content.match(/\b[A-Z]{1,5}\b/g) || [];
-    if (symbolMatches.length >= 6) {
-      const words = content.trim().split(/\s+/).filter(word => 
-        word.length > 0 && !/^[A-Z]{1,5}$/.test(word) && !/^[\/,\|]$/.test(word)
-      );
-      const nonSymbolWords = words.length;
-      const wordsPerSymbol = nonSymbolWords / symbolMatches.length;
-      
-      // If there are very few non-symbol words per symbol, likely a list
-      if (wordsPerSymbol < 1.5) {
-        return true;
-      }
-    }
-    
-    return false;
-  }
-
-  private detectFirstLineStockPattern(content: string): boolean {
-    const firstLine = content.split('\n')[0] || '';
-    
-    // Pattern 1: "מניית" in first line with a symbol
-    if (firstLine.includes('מניית')) {
-      // Check if there's a symbol ($SYMBOL or SYMBOL format) in the same line
-      const symbolPattern = /(?:\$[A-Z]{1,5}|(?<![A-Za-z])[A-Z]{2,5}(?![A-Za-z]))/;
-      if (symbolPattern.test(firstLine)) {
-        Logger.debug(`First-line מניית pattern detected: "${firstLine}"`);
-        return true;
-      }
-    }
-    
-    // Pattern 2: Company name in Hebrew + $SYMBOL format
-    // Look for Hebrew text followed by $SYMBOL
-    const hebrewWithSymbolPattern = /[\u0590-\u05FF]+.*\$[A-Z]{1,5}/;
-    if (hebrewWithSymbolPattern.test(firstLine)) {
-      Logger.debug(`First-line Hebrew+symbol pattern detected: "${firstLine}"`);
-      return true;
-    }
-    
-    return false;
-  }
-  
-  private calculateSymbolDensityPenalty(content: string, symbolCount: number): number {
-    if (symbolCount <= 3) return 0; // No penalty for small symbol counts
-    
-    // Calculate words per symbol ratio
-    const words = content.trim().split(/\s+/).filter(word => word.length > 0);
-    const wordsPerSymbol = words.length / symbolCount;
-    
-    // Penalize if there are very few words per symbol (indicates list-like content)
-    if (wordsPerSymbol < 3) {
-      return 0.3; // Heavy penalty for very dense symbol content
-    } else if (wordsPerSymbol < 5) {
-      return 0.1; // Light penalty for somewhat dense content
-    }
-    
-    return 0; // No penalty for well-balanced content
-  }
-
   private isRecentEnough(timestamp: Date): boolean {
     const age = Date.now() - timestamp.getTime();
     return age <= this.MAX_CACHE_AGE_MS;
@@ -435,9 +792,19 @@ export class AnalysisLinker {
         this.latestAnalysisMap.delete(symbol);
       }
     }
+
+    for (const [messageId, followUps] of this.followUpMap.entries()) {
+      const recent = followUps.filter(followUp => this.isRecentEnough(followUp.timestamp));
+      if (recent.length === 0) {
+        this.followUpMap.delete(messageId);
+      } else if (recent.length !== followUps.length) {
+        this.followUpMap.set(messageId, recent);
+      }
+    }
     
     if (totalRemoved > 0) {
       Logger.info(`Cleaned up ${totalRemoved} expired analysis entries`);
+      void this.persist();
     }
   }
 
@@ -494,6 +861,21 @@ export class AnalysisLinker {
     Logger.info(`Initialized ${adminIds.length} admin IDs for allowlist management`);
   }
 
+  /**
+   * Tells the direction classifier which analysis channel is long and which is short
+   * @param analysisChannels Channel IDs in config order: [long, short]
+   */
+  public setAnalysisChannels(analysisChannels: string[]): void {
+    this.directionClassifier.setAnalysisChannels(analysisChannels);
+  }
+
+  /**
+   * Get the symbol detector instance for external access (it uses this guild's symbol lists)
+   */
+  public getSymbolDetector(): SymbolDetector {
+    return this.symbolDetector;
+  }
+
   /**
    * Get the allowlist instance for external access
    */
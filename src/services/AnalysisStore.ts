@@ -0,0 +1,133 @@
+import { AnalysisData, PinnedAnalysis } from '../types';
+import { Logger } from '../utils/Logger';
+import { JsonFile } from '../utils/JsonFile';
+
+export interface AnalysisSnapshot {
+  analysisCache: Map<string, AnalysisData[]>;
+  latestAnalysis: Map<string, AnalysisData>;
+  channelCheckpoints: Map<string, string>; // channelId -> newest processed message ID
+  pinnedAnalysis: Map<string, PinnedAnalysis>; // symbol -> manager pin
+  followUps: Map<string, AnalysisData[]>; // analysis message ID -> replies and thread updates, oldest first
+}
+
+/**
+ * Persistence layer for the AnalysisLinker index
+ * Implementations must tolerate a missing store (first startup) by returning null from load()
+ */
+export interface AnalysisStore {
+  load(): Promise<AnalysisSnapshot | null>;
+  save(snapshot: AnalysisSnapshot): Promise<void>;
+}
+
+interface SerializedAnalysis extends Omit<AnalysisData, 'timestamp'> {
+  timestamp: string;
+}
+
+interface SerializedPin {
+  analysis: SerializedAnalysis;
+  pinnedBy: string;
+  pinnedAt: string;
+}
+
+interface SerializedSnapshot {
+  version: number;
+  savedAt: string;
+  analysisCache: Record<string, SerializedAnalysis[]>;
+  latestAnalysis: Record<string, SerializedAnalysis>;
+  channelCheckpoints: Record<string, string>;
+  pinnedAnalysis?: Record<string, SerializedPin>; // Missing in indexes saved before pins existed
+  followUps?: Record<string, SerializedAnalysis[]>; // Missing in indexes saved before follow-ups existed
+}
+
+/**
+ * Default AnalysisStore backed by a single JSON file
+ */
+export class JsonFileAnalysisStore implements AnalysisStore {
+  private static readonly VERSION = 1;
+  private file: JsonFile<SerializedSnapshot>;
+
+  constructor(private readonly filePath: string) {
+    this.file = new JsonFile(filePath);
+  }
+
+  public async load(): Promise<AnalysisSnapshot | null> {
+    try {
+      const parsed = await this.file.read();
+      if (!parsed) {
+        Logger.info(`No persisted analysis index found at ${this.filePath}`);
+        return null;
+      }
+
+      if (parsed.version !== JsonFileAnalysisStore.VERSION) {
+        Logger.warn(`Ignoring persisted analysis index with unsupported version ${parsed.version}`);
+        return null;
+      }
+
+      const analysisCache = new Map<string, AnalysisData[]>();
+      for (const [symbol, analyses] of Object.entries(parsed.analysisCache || {})) {
+        analysisCache.set(symbol, analyses.map(a => this.deserialize(a)));
+      }
+
+      const latestAnalysis = new Map<string, AnalysisData>();
+      for (const [symbol, analysis] of Object.entries(parsed.latestAnalysis || {})) {
+        latestAnalysis.set(symbol, this.deserialize(analysis));
+      }
+
+      const channelCheckpoints = new Map<string, string>(Object.entries(parsed.channelCheckpoints || {}));
+
+      const pinnedAnalysis = new Map<string, PinnedAnalysis>();
+      for (const [symbol, pin] of Object.entries(parsed.pinnedAnalysis || {})) {
+        pinnedAnalysis.set(symbol, { analysis: this.deserialize(pin.analysis), pinnedBy: pin.pinnedBy, pinnedAt: new Date(pin.pinnedAt) });
+      }
+
+      const followUps = new Map<string, AnalysisData[]>();
+      for (const [messageId, analyses] of Object.entries(parsed.followUps || {})) {
+        followUps.set(messageId, analyses.map(a => this.deserialize(a)));
+      }
+
+      Logger.info(`Loaded persisted analysis index from ${this.filePath} (saved ${parsed.savedAt})`);
+      return { analysisCache, latestAnalysis, channelCheckpoints, pinnedAnalysis, followUps };
+    } catch (error) {
+      Logger.error(`Failed to load persisted analysis index from ${this.filePath}:`, error);
+      return null;
+    }
+  }
+
+  public save(snapshot: AnalysisSnapshot): Promise<void> {
+    const serialized: SerializedSnapshot = {
+      version: JsonFileAnalysisStore.VERSION,
+      savedAt: new Date().toISOString(),
+      analysisCache: {},
+      latestAnalysis: {},
+      channelCheckpoints: Object.fromEntries(snapshot.channelCheckpoints),
+      pinnedAnalysis: Object.fromEntries(Array.from(snapshot.pinnedAnalysis, ([symbol, pin]) => [
+        symbol,
+        { analysis: this.serialize(pin.analysis), pinnedBy: pin.pinnedBy, pinnedAt: pin.pinnedAt.toISOString() }
+      ])),
+      followUps: Object.fromEntries(Array.from(snapshot.followUps, ([messageId, analyses]) => [
+        messageId,
+        analyses.map(a => this.serialize(a))
+      ]))
+    };
+
+    for (const [symbol, analyses] of snapshot.analysisCache) {
+      serialized.analysisCache[symbol] = analyses.map(a => this.serialize(a));
+    }
+    for (const [symbol, analysis] of snapshot.latestAnalysis) {
+      serialized.latestAnalysis[symbol] = this.serialize(analysis);
+    }
+
+    // Writes are chained so concurrent indexMessage calls never interleave on disk
+    return this.file.write(serialized).catch(error => {
+      Logger.error(`Failed to persist analysis index to ${this.filePath}:`, error);
+    });
+  }
+
+  private serialize(analysis: AnalysisData): SerializedAnalysis {
+    return { ...analysis, timestamp: analysis.timestamp.toISOString() };
+  }
+
+  private deserialize(analysis: SerializedAnalysis): AnalysisData {
+    return { ...analysis, timestamp: new Date(analysis.timestamp) };
+  }
+}
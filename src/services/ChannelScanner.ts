@@ -1,11 +1,14 @@
 import { Message } from 'discord.js';
-import { BotConfig } from '../types';
+import { BotConfig, TopPicksSnapshot } from '../types';
 import { SymbolDetector } from './SymbolDetector';
 import { EphemeralHandler } from './EphemeralHandler';
 import { AnalysisLinker } from './AnalysisLinker';
 import { Logger } from '../utils/Logger';
 
 export class ChannelScanner {
+  private latestTopPicks: TopPicksSnapshot | null = null;
+  private topPicksListeners: Array<(snapshot: TopPicksSnapshot) => void> = [];
+
   constructor(
     private symbolDetector: SymbolDetector,
     private ephemeralHandler: EphemeralHandler,
@@ -33,6 +36,20 @@ export class ChannelScanner {
     Logger.info(`Found ${symbols.length} symbols in message from ${message.member?.displayName || message.author.tag || message.author.id}: ${symbols.map(s => `${s.symbol}(${s.priority})`).join(', ')}`);
     Logger.debug(`Symbol breakdown: ${topLongCount} top_long, ${topShortCount} top_short, ${regularCount} regular`);
 
+    if (topLongCount > 0 || topShortCount > 0) {
+      this.latestTopPicks = {
+        guildId: message.guildId || '',
+        messageId: message.id,
+        channelId: message.channelId,
+        authorId: message.author.id,
+        messageUrl: message.url,
+        timestamp: message.createdAt,
+        long: symbols.filter(s => s.priority === 'top_long').map(s => s.symbol),
+        short: symbols.filter(s => s.priority === 'top_short').map(s => s.symbol)
+      };
+      this.notifyTopPicks(this.latestTopPicks);
+    }
+
     // All symbols (including top picks) require analysis data for buttons
     const symbolsWithAnalysis = symbols.filter(symbol => {
       return this.analysisLinker.hasAnalysisFor(symbol.symbol);
@@ -66,4 +83,28 @@ export class ChannelScanner {
 
     await this.ephemeralHandler.createSymbolButtons(message, symbolsWithAnalysis);
   }
+
+  /**
+   * The most recent top picks posted in the general notices channel, including symbols without analysis
+   */
+  public getLatestTopPicks(): TopPicksSnapshot | null {
+    return this.latestTopPicks;
+  }
+
+  /**
+   * Registers a listener called with every parsed top picks message
+   */
+  public onTopPicks(listener: (snapshot: TopPicksSnapshot) => void): void {
+    this.topPicksListeners.push(listener);
+  }
+
+  private notifyTopPicks(snapshot: TopPicksSnapshot): void {
+    for (const listener of this.topPicksListeners) {
+      try {
+        listener(snapshot);
+      } catch (error) {
+        Logger.error('Top picks listener failed:', error);
+      }
+    }
+  }
 }
\ No newline at end of file
@@ -0,0 +1,128 @@
+import { Client, EmbedBuilder, Colors, TextChannel } from 'discord.js';
+import { AnalysisData, BotConfig, StockSymbol } from '../types';
+import { GuildServices } from './GuildServiceRegistry';
+import { DIGEST_LOOKBACK_HOURS, ENV } from '../config';
+import { Logger } from '../utils/Logger';
+
+export interface DigestSection {
+  title: string;
+  symbols: { symbol: string; analysisCount: number }[];
+}
+
+/**
+ * Daily summary of the symbols that got new analysis, posted to the general notices channel
+ * with a button per symbol that opens its latest analysis like any other symbol button
+ */
+export class DailyDigest {
+  // Embed field values are limited to 1024 characters
+  private static readonly MAX_FIELD_LENGTH = 1024;
+
+  /**
+   * @param timeZone IANA time zone for the date in the digest title
+   */
+  constructor(
+    private readonly lookbackHours: number = DIGEST_LOOKBACK_HOURS,
+    private readonly timeZone: string = ENV.TIMEZONE
+  ) {}
+
+  /**
+   * Symbols with new analysis in the lookback window, grouped by the channel the analysis was posted in
+   * A symbol analyzed in both analysis channels appears in both sections; empty sections are left out
+   */
+  public buildSections(analyses: AnalysisData[], config: BotConfig): DigestSection[] {
+    const [longChannel, shortChannel] = config.analysisChannels;
+    const sections: DigestSection[] = [
+      { title: '📈 Long', symbols: [] },
+      { title: '📉 Short', symbols: [] },
+      { title: '💬 Other channels', symbols: [] }
+    ];
+
+    for (const analysis of analyses) {
+      const section = analysis.channelId === longChannel ? sections[0]!
+        : analysis.channelId === shortChannel ? sections[1]!
+        : sections[2]!;
+
+      for (const symbol of analysis.symbols) {
+        const existing = section.symbols.find(entry => entry.symbol === symbol);
+        if (existing) {
+          existing.analysisCount++;
+        } else {
+          section.symbols.push({ symbol, analysisCount: 1 });
+        }
+      }
+    }
+
+    for (const section of sections) {
+      section.symbols.sort((a, b) => b.analysisCount - a.analysisCount || a.symbol.localeCompare(b.symbol));
+    }
+    return sections.filter(section => section.symbols.length > 0);
+  }
+
+  public buildEmbed(sections: DigestSection[], now: Date = new Date()): EmbedBuilder {
+    const symbolCount = new Set(sections.flatMap(section => section.symbols.map(entry => entry.symbol))).size;
+    const date = new Intl.DateTimeFormat('en-US', { timeZone: this.timeZone, dateStyle: 'medium' }).format(now);
+
+    return new EmbedBuilder()
+      .setTitle(`📰 Daily Analysis Digest — ${date}`)
+      .setColor(Colors.Blue)
+      .setDescription(`${symbolCount} symbol${symbolCount === 1 ? '' : 's'} got new analysis in the last ${this.lookbackHours} hours`)
+      .addFields(sections.map(section => ({
+        name: `${section.title} (${section.symbols.length})`,
+        value: this.formatSymbols(section.symbols)
+      })))
+      .setFooter({ text: 'Tap a symbol below to see its latest analysis' })
+      .setTimestamp(now);
+  }
+
+  /**
+   * Posts the digest for one guild
+   * @returns false if nothing was posted (no new analysis, or the channel is unavailable)
+   */
+  public async post(client: Client, services: GuildServices, now: Date = new Date()): Promise<boolean> {
+    const { config, analysisLinker, ephemeralHandler } = services;
+    const since = new Date(now.getTime() - this.lookbackHours * 60 * 60 * 1000);
+    const sections = this.buildSections(analysisLinker.getAnalysesSince(since), config);
+
+    if (sections.length === 0) {
+      Logger.info(`No new analysis in the last ${this.lookbackHours}h for guild ${config.guildId} - skipping daily digest`);
+      return false;
+    }
+
+    const channel = await client.channels.fetch(config.generalNoticesChannel).catch(() => null) as TextChannel | null;
+    if (!channel || !channel.isTextBased()) {
+      Logger.warn(`General notices channel ${config.generalNoticesChannel} is not available - skipping daily digest`);
+      return false;
+    }
+
+    // One button per symbol even when it appears in several sections
+    const symbols: StockSymbol[] = [];
+    for (const entry of sections.flatMap(section => section.symbols)) {
+      if (!symbols.some(symbol => symbol.symbol === entry.symbol)) {
+        symbols.push({ symbol: entry.symbol, confidence: 1, position: symbols.length, priority: 'regular' });
+      }
+    }
+
+    // Button custom IDs use "_" as a separator, so the source ID is digest-<timestamp>
+    const sent = await ephemeralHandler.sendSymbolButtons(channel, symbols, `digest-${now.getTime()}`, 'digest', [this.buildEmbed(sections, now)]);
+    if (sent.length > 0) {
+      Logger.info(`Posted daily digest with ${symbols.length} symbols to guild ${config.guildId}`);
+    }
+    return sent.length > 0;
+  }
+
+  private formatSymbols(symbols: DigestSection['symbols']): string {
+    const formatted = symbols.map(entry => `**$${entry.symbol}**${entry.analysisCount > 1 ? ` ×${entry.analysisCount}` : ''}`);
+
+    let value = '';
+    for (let i = 0; i < formatted.length; i++) {
+      const next = value ? `${value}, ${formatted[i]}` : formatted[i]!;
+      const remaining = formatted.length - i - 1;
+      // Leave room for the "…and N more" suffix
+      if (next.length > DailyDigest.MAX_FIELD_LENGTH - (remaining > 0 ? 20 : 0)) {
+        return `${value} …and ${formatted.length - i} more`;
+      }
+      value = next;
+    }
+    return value;
+  }
+}
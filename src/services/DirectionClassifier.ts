@@ -0,0 +1,140 @@
+import { AnalysisData, AnalysisDirection } from '../types';
+import { DIRECTION_KEYWORDS } from '../config';
+
+export interface DirectionResult {
+  direction: AnalysisDirection;
+  confidence: number; // 0.5-1
+  bullishScore: number;
+  bearishScore: number;
+}
+
+export interface DirectionFlip {
+  latest: AnalysisData;
+  previous: AnalysisData;
+}
+
+interface DirectionTerm {
+  bullish: boolean;
+  pattern: RegExp;
+  length: number;
+}
+
+const HEBREW_LETTER = /[֐-׿]/;
+
+/**
+ * Labels an analysis bullish, bearish or neutral from directional keywords plus the channel it was posted in
+ * (the first analysis channel is the long channel, the second the short channel)
+ */
+export class DirectionClassifier {
+  private static readonly KEYWORD_WEIGHT = 1;
+  private static readonly CHANNEL_WEIGHT = 1.5;
+  private static readonly MIN_MARGIN = 1; // Net score needed to call a direction
+  private static readonly TERMS: DirectionTerm[] = DirectionClassifier.buildTerms();
+
+  private longChannelId: string | null = null;
+  private shortChannelId: string | null = null;
+
+  constructor(analysisChannels: string[] = []) {
+    this.setAnalysisChannels(analysisChannels);
+  }
+
+  public setAnalysisChannels(analysisChannels: string[]): void {
+    this.longChannelId = analysisChannels[0] || null;
+    this.shortChannelId = analysisChannels[1] || null;
+  }
+
+  public classify(content: string, channelId?: string): DirectionResult {
+    let bullishScore = 0;
+    let bearishScore = 0;
+
+    if (channelId && channelId === this.longChannelId) {
+      bullishScore += DirectionClassifier.CHANNEL_WEIGHT;
+    } else if (channelId && channelId === this.shortChannelId) {
+      bearishScore += DirectionClassifier.CHANNEL_WEIGHT;
+    }
+
+    // Longest terms first, blanking each match so "failed breakout" doesn't also count as "breakout"
+    let remaining = content;
+    for (const term of DirectionClassifier.TERMS) {
+      remaining = remaining.replace(term.pattern, match => {
+        if (term.bullish) {
+          bullishScore += DirectionClassifier.KEYWORD_WEIGHT;
+        } else {
+          bearishScore += DirectionClassifier.KEYWORD_WEIGHT;
+        }
+        return ' '.repeat(match.length);
+      });
+    }
+
+    const net = bullishScore - bearishScore;
+    const total = bullishScore + bearishScore;
+
+    if (Math.abs(net) < DirectionClassifier.MIN_MARGIN) {
+      return {
+        direction: 'neutral',
+        confidence: DirectionClassifier.round(total === 0 ? 0.5 : Math.max(0.5, 1 - Math.abs(net) / total)),
+        bullishScore,
+        bearishScore
+      };
+    }
+
+    return {
+      direction: net > 0 ? 'bullish' : 'bearish',
+      confidence: DirectionClassifier.round(0.5 + 0.5 * Math.abs(net) / (total + 1)),
+      bullishScore,
+      bearishScore
+    };
+  }
+
+  /**
+   * The classification as AnalysisData fields
+   */
+  public classifyFields(content: string, channelId?: string): Pick<AnalysisData, 'direction' | 'directionConfidence'> {
+    const { direction, confidence } = this.classify(content, channelId);
+    return { direction, directionConfidence: confidence };
+  }
+
+  /**
+   * Compares the first analysis (the one shown first) with the most recent earlier analysis in the list
+   * that called a direction, so the warning describes messages the user can page through
+   * @param analyses Analyses in display order
+   * @returns The pair when the first call is bullish/bearish and the opposite of the previous call
+   */
+  public static detectFlip(analyses: AnalysisData[]): DirectionFlip | null {
+    const [latest, ...rest] = analyses;
+    if (!latest || !latest.direction || latest.direction === 'neutral') {
+      return null;
+    }
+
+    const previous = rest
+      .filter(analysis => analysis.timestamp < latest.timestamp)
+      .filter(analysis => analysis.direction === 'bullish' || analysis.direction === 'bearish')
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())[0];
+    if (!previous || previous.direction === latest.direction) {
+      return null;
+    }
+
+    return { latest, previous };
+  }
+
+  private static buildTerms(): DirectionTerm[] {
+    const terms: DirectionTerm[] = [];
+
+    for (const [bullish, keywords] of [[true, DIRECTION_KEYWORDS.bullish], [false, DIRECTION_KEYWORDS.bearish]] as const) {
+      for (const keyword of keywords) {
+        const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        // Hebrew words take attached prefixes (ו, ה, ב, ל, מ, ש) and suffixes; English terms match whole words
+        const source = HEBREW_LETTER.test(keyword)
+          ? `(?<!\\p{L})[והבלמש]{0,2}${escaped}`
+          : `(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`;
+        terms.push({ bullish, pattern: new RegExp(source, 'giu'), length: keyword.length });
+      }
+    }
+
+    return terms.sort((a, b) => b.length - a.length);
+  }
+
+  private static round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -1,4 +1,4 @@
-import { Message } from 'discord.js';
+import { Message, GuildMember, APIInteractionGuildMember } from 'discord.js';
 import { BotConfig } from '../types';
 import { Logger } from '../utils/Logger';
 
@@ -6,25 +6,76 @@ export class DiscussionChannelHandler {
   constructor() {}
 
   /**
-   * Checks if a message is from the configured manager (specific user ID)
+   * Checks if a message is from a manager: a configured user ID, or a member holding a manager role
    */
   public isManagerMessage(message: Message, config: BotConfig): boolean {
-    // If no manager ID configured, reject all messages (secure default)
-    if (!config.managerId) {
-      Logger.warn('No manager ID configured - rejecting all discussion channel messages');
+    const managerIds = this.getConfiguredManagerIds(config);
+    const managerRoles = config.managerRoles || [];
+
+    // If no managers configured, reject all messages (secure default)
+    if (managerIds.length === 0 && managerRoles.length === 0) {
+      Logger.warn('No manager IDs or roles configured - rejecting all discussion channel messages');
       return false;
     }
 
-    // Check if message author ID matches the configured manager ID
-    const isManager = message.author.id === config.managerId;
-
-    if (isManager) {
+    if (managerIds.includes(message.author.id)) {
       Logger.debug(`Message ${message.id} from ${message.author.tag} (${message.author.id}) approved - matches manager ID`);
       return true;
-    } else {
-      Logger.debug(`Message ${message.id} from ${message.author.tag} (${message.author.id}) rejected - does not match manager ID: ${config.managerId}`);
-      return false;
     }
+
+    const matchedRole = this.findManagerRole(message.member, managerRoles);
+    if (matchedRole) {
+      Logger.debug(`Message ${message.id} from ${message.author.tag} (${message.author.id}) approved - has manager role ${matchedRole}`);
+      return true;
+    }
+
+    Logger.debug(`Message ${message.id} from ${message.author.tag} (${message.author.id}) rejected - not a manager (IDs: ${managerIds.join(', ') || 'none'}, roles: ${managerRoles.join(', ') || 'none'})`);
+    return false;
+  }
+
+  /**
+   * Fetches the guild members behind a batch of messages so role checks work on history
+   * Messages fetched over REST don't carry their member, and the GuildMembers intent isn't enabled
+   */
+  public async resolveMessageMembers(messages: Iterable<Message>, config: BotConfig): Promise<void> {
+    if (!config.managerRoles || config.managerRoles.length === 0) {
+      return;
+    }
+
+    const pending = new Map<string, Message>();
+    for (const message of messages) {
+      if (!message.member && message.guild && !pending.has(message.author.id)) {
+        pending.set(message.author.id, message);
+      }
+    }
+
+    for (const [authorId, message] of pending) {
+      try {
+        await message.guild!.members.fetch(authorId);
+      } catch (error) {
+        // Authors who left the server can't hold a manager role
+        Logger.debug(`Could not fetch member ${authorId} for manager role check: ${error}`);
+      }
+    }
+  }
+
+  /**
+   * Returns the matched role (by ID, or by name ignoring case), or null
+   * Accepts both cached members and the raw member payload on uncached interactions;
+   * the raw payload only carries role IDs, so names can only match on cached members
+   */
+  private findManagerRole(member: GuildMember | APIInteractionGuildMember | null, managerRoles: string[]): string | null {
+    if (!member || managerRoles.length === 0) {
+      return null;
+    }
+
+    const roles: Array<{ id: string; name?: string }> = Array.isArray(member.roles)
+      ? member.roles.map(id => ({ id }))
+      : Array.from(member.roles.cache.values());
+
+    const wantedNames = new Set(managerRoles.map(role => role.toLowerCase()));
+    const match = roles.find(role => managerRoles.includes(role.id) || (role.name !== undefined && wantedNames.has(role.name.toLowerCase())));
+    return match ? (match.name || match.id) : null;
   }
 
   /**
@@ -67,4 +118,12 @@ export class DiscussionChannelHandler {
   public getConfiguredManagerId(config: BotConfig): string | null {
     return config.managerId || null;
   }
+
+  /**
+   * Gets every configured manager user ID (MANAGER_ID plus MANAGER_IDS)
+   */
+  public getConfiguredManagerIds(config: BotConfig): string[] {
+    const ids = [config.managerId, ...(config.managerIds || [])].filter((id): id is string => !!id);
+    return Array.from(new Set(ids));
+  }
 }
\ No newline at end of file
@@ -5,16 +5,32 @@ import {
   ButtonBuilder, 
   ButtonStyle, 
   EmbedBuilder,
-  Colors
+  Colors,
+  Client,
+  TextChannel
 } from 'discord.js';
-import { StockSymbol, EphemeralInteraction, MessageGroup } from '../types';
+import { StockSymbol, EphemeralInteraction, MessageGroup, AnalysisData, TradeLevelType, AnalysisDirection, RetentionMessageType } from '../types';
 import { AnalysisLinker } from './AnalysisLinker';
 import { MessageRetention } from './MessageRetention';
 import { MAX_DISCORD_BUTTONS } from '../config';
 import { Logger } from '../utils/Logger';
 import { DiscordUrlGenerator } from '../utils/DiscordUrlGenerator';
+import { ButtonCustomId } from '../utils/ButtonCustomId';
 
 export class EphemeralHandler {
+  public static readonly ANALYSIS_PAGE_PREFIX = ButtonCustomId.ANALYSIS_PAGE_PREFIX;
+  private static readonly TRADE_LEVEL_LABELS: Record<TradeLevelType, string> = {
+    entry: '🎯 Entry',
+    stop: '🛑 Stop',
+    target: '🏁 Target',
+    support: '🟢 Support',
+    resistance: '🔴 Resistance'
+  };
+  private static readonly DIRECTION_STYLES: Record<AnalysisDirection, { label: string; color: number }> = {
+    bullish: { label: '🟢 Bullish', color: Colors.Green },
+    bearish: { label: '🔴 Bearish', color: Colors.Red },
+    neutral: { label: '⚪ Neutral', color: Colors.Grey }
+  };
   private ephemeralTracking: Map<string, EphemeralInteraction> = new Map();
   private messageGroups: Map<string, MessageGroup> = new Map();
 
@@ -25,9 +41,13 @@ export class EphemeralHandler {
     this.startEphemeralCleanup();
   }
 
+  /**
+   * @param retentionType Decides how long the button messages stay up before the hourly cleanup removes them
+   */
   public async createSymbolButtons(
     message: Message, 
-    symbols: StockSymbol[]
+    symbols: StockSymbol[],
+    retentionType: RetentionMessageType = 'top_picks'
   ): Promise<void> {
     // Trust ChannelScanner filtering - all symbols passed here should get buttons
     const symbolsForButtons = symbols;
@@ -48,11 +68,11 @@ export class EphemeralHandler {
     if (symbolChunks.length === 1) {
       // Single message - existing behavior
       Logger.debug(`Creating single button message with ${symbolsForButtons.length} symbols`);
-      await this.createSingleButtonMessage(message, symbolChunks[0]!);
+      await this.createSingleButtonMessage(message, symbolChunks[0]!, retentionType);
     } else {
       // Multiple messages - new grouped behavior
       Logger.info(`Splitting ${symbolsForButtons.length} symbols into ${symbolChunks.length} messages (${SYMBOLS_PER_MESSAGE} symbols per message)`);
-      await this.createGroupedButtonMessages(message, symbolChunks);
+      await this.createGroupedButtonMessages(message, symbolChunks, retentionType);
     }
   }
 
@@ -64,7 +84,7 @@ export class EphemeralHandler {
     return chunks;
   }
 
-  private async createSingleButtonMessage(message: Message, symbols: StockSymbol[]): Promise<void> {
+  private async createSingleButtonMessage(message: Message, symbols: StockSymbol[], retentionType: RetentionMessageType): Promise<void> {
     const rows = this.createButtonRows(symbols, message.id);
     
     try {
@@ -75,7 +95,7 @@ export class EphemeralHandler {
       
       // Add the bot message to retention for automatic cleanup
       if (this.messageRetention && botMessage) {
-        this.messageRetention.addMessageForRetention(botMessage);
+        this.messageRetention.addMessageForRetention(botMessage, undefined, retentionType);
       }
     } catch (error) {
       Logger.error('Failed to send symbol buttons:', error);
@@ -86,7 +106,7 @@ export class EphemeralHandler {
     }
   }
 
-  private async createGroupedButtonMessages(message: Message, symbolChunks: StockSymbol[][]): Promise<void> {
+  private async createGroupedButtonMessages(message: Message, symbolChunks: StockSymbol[][], retentionType: RetentionMessageType): Promise<void> {
     const groupId = `group_${message.id}_${Date.now()}`;
     const messageIds: string[] = [];
     
@@ -110,7 +130,7 @@ export class EphemeralHandler {
           
           // Add to retention with group information
           if (this.messageRetention) {
-            this.messageRetention.addMessageForRetention(botMessage, groupId);
+            this.messageRetention.addMessageForRetention(botMessage, groupId, retentionType);
           }
         }
         
@@ -142,6 +162,64 @@ export class EphemeralHandler {
     }
   }
 
+  /**
+   * Posts symbol buttons as new messages in a channel rather than as replies, e.g. for scheduled posts
+   * The embeds go on the first message; every message is registered for retention like reply buttons
+   * @param sourceId Stands in for the original message ID in button custom IDs (must not contain "_")
+   * @returns The messages that were sent
+   */
+  public async sendSymbolButtons(
+    channel: TextChannel,
+    symbols: StockSymbol[],
+    sourceId: string,
+    retentionType: RetentionMessageType,
+    embeds: EmbedBuilder[] = []
+  ): Promise<Message[]> {
+    const SYMBOLS_PER_MESSAGE = 20;
+    const symbolChunks = this.chunkSymbols(symbols, SYMBOLS_PER_MESSAGE);
+    const groupId = symbolChunks.length > 1 ? `group_${sourceId}_${Date.now()}` : undefined;
+    const sent: Message[] = [];
+
+    try {
+      for (let i = 0; i < Math.max(symbolChunks.length, 1); i++) {
+        const chunk = symbolChunks[i] || [];
+        const botMessage = await channel.send({
+          ...(i === 0 && embeds.length > 0 && { embeds }),
+          ...(symbolChunks.length > 1 && i > 0 && { content: `Part ${i + 1}/${symbolChunks.length}` }),
+          components: this.createButtonRows(chunk, sourceId, i)
+        });
+
+        sent.push(botMessage);
+        if (this.messageRetention) {
+          this.messageRetention.addMessageForRetention(botMessage, groupId, retentionType);
+        }
+
+        // Small delay between messages to avoid rate limits
+        if (i < symbolChunks.length - 1) {
+          await new Promise(resolve => setTimeout(resolve, 500));
+        }
+      }
+
+      if (groupId) {
+        this.messageGroups.set(groupId, {
+          groupId,
+          messageIds: sent.map(message => message.id),
+          channelId: channel.id,
+          createdAt: new Date(),
+          symbolCount: symbols.length
+        });
+      }
+    } catch (error) {
+      Logger.error(`Failed to send symbol buttons to channel ${channel.id}:`, error);
+
+      if (this.isPermissionError(error)) {
+        Logger.warn('Permission error detected while posting symbol buttons - this may indicate permission changes');
+      }
+    }
+
+    return sent;
+  }
+
   private createButtonRows(symbols: StockSymbol[], originalMessageId: string, chunkIndex: number = 0): ActionRowBuilder<ButtonBuilder>[] {
     const rows: ActionRowBuilder<ButtonBuilder>[] = [];
     let currentRow = new ActionRowBuilder<ButtonBuilder>();
@@ -155,7 +233,7 @@ export class EphemeralHandler {
       }
       
       const button = new ButtonBuilder()
-        .setCustomId(`symbol_${symbol.symbol}_${originalMessageId}_${chunkIndex}`)
+        .setCustomId(ButtonCustomId.forSymbol(symbol.symbol, originalMessageId, chunkIndex))
         .setLabel(this.getButtonLabel(symbol))
         .setStyle(this.getButtonStyle(symbol.priority));
       
@@ -171,21 +249,17 @@ export class EphemeralHandler {
   }
 
   public async handleButtonInteraction(interaction: ButtonInteraction): Promise<void> {
-    if (!interaction.customId.startsWith('symbol_')) {
+    if (interaction.customId.startsWith(EphemeralHandler.ANALYSIS_PAGE_PREFIX)) {
+      await this.handleAnalysisPageInteraction(interaction);
       return;
     }
 
-    const parts = interaction.customId.split('_');
-    if (parts.length < 3) {
-      await interaction.reply({ 
-        content: 'Invalid button interaction.', 
-        ephemeral: true 
-      });
+    if (!interaction.customId.startsWith(ButtonCustomId.SYMBOL_PREFIX)) {
       return;
     }
 
-    const [, symbol, messageId] = parts;
-    if (!symbol || !messageId) {
+    const parsed = ButtonCustomId.parseSymbol(interaction.customId);
+    if (!parsed) {
       await interaction.reply({ 
         content: 'Invalid button interaction.', 
         ephemeral: true 
@@ -193,6 +267,8 @@ export class EphemeralHandler {
       return;
     }
 
+    const { symbol, messageId } = parsed;
+
     Logger.interaction(`Button clicked: ${symbol} by ${interaction.user.tag}`);
 
     try {
@@ -206,7 +282,7 @@ export class EphemeralHandler {
         symbols: [symbol]
       });
 
-      const analyses = await this.analysisLinker.getLatestAnalysis(symbol, 1);
+      const analyses = await this.analysisLinker.getAnalysisHistory(symbol);
       const latestUrl = this.analysisLinker.getLatestAnalysisUrl(symbol);
       Logger.debug(`Button clicked for ${symbol}: latestUrl=${latestUrl}, analysesCount=${analyses.length}`);
 
@@ -230,80 +306,8 @@ export class EphemeralHandler {
         return;
       }
 
-      // Get the latest analysis (first item)
-      const latestAnalysis = analyses[0]!;
-      const timeAgo = this.getTimeAgo(latestAnalysis.timestamp);
-      const channel = interaction.client.channels.cache.get(latestAnalysis.channelId);
-      const channelName = channel ? `#${(channel as any).name}` : 'Unknown Channel';
-
-      const embed = new EmbedBuilder()
-        .setTitle(`📊 Latest Analysis for $${symbol}`)
-        .setColor(Colors.Green)
-        .setTimestamp();
-
-      // Add latest analysis URL as a prominent link if available
-      if (latestUrl) {
-        Logger.debug(`Setting embed URL to: ${latestUrl}`);
-        embed.setURL(latestUrl);
-      } else {
-        Logger.debug(`No latestUrl available for ${symbol}, embed URL will not be set`);
-      }
-
-      // Create a short preview of the analysis content (max ~200 characters)
-      const shortPreview = latestAnalysis.content.length > 200 
-        ? latestAnalysis.content.substring(0, 200) + '...'
-        : latestAnalysis.content;
-
-      let description = `**${channelName}** • ${timeAgo}\n\n${shortPreview}\n\n`;
-      
-      // Generate fallback URL first
-      const fallbackUrl = interaction.guildId 
-        ? DiscordUrlGenerator.generateLegacyUrl(
-            interaction.guildId,
-            latestAnalysis.channelId,
-            latestAnalysis.messageId
-          )
-        : 'URL unavailable';
-      
-      // Use stored URL if available, but validate it first
-      let messageUrl = latestAnalysis.messageUrl;
-      
-      // Check if stored URL has incorrect channel ID (known issue with historical data)
-      if (messageUrl && interaction.guildId) {
-        const expectedChannelId = latestAnalysis.channelId;
-        const storedUrlPattern = new RegExp(`discord\\.com/channels/${interaction.guildId}/([^/]+)/`);
-        const match = messageUrl.match(storedUrlPattern);
-        
-        if (match && match[1] !== expectedChannelId) {
-          Logger.warn(`Stored URL has incorrect channel ID ${match[1]}, expected ${expectedChannelId}. Using fallback URL.`);
-          messageUrl = fallbackUrl; // Use the correctly generated fallback URL
-        }
-      }
-      
-      // Final fallback if no messageUrl
-      if (!messageUrl) {
-        messageUrl = fallbackUrl;
-      }
-      
-      Logger.debug(`Message URL for ${symbol}: stored=${latestAnalysis.messageUrl}, fallback=${fallbackUrl}, final=${messageUrl}`);
-      description += `[View Original Message](${messageUrl})`;
-
-      embed.setDescription(description);
-
-      // Prioritize Discord attachments (chart snapshots) for display
-      let chartImageUrl: string | null = null;
-      
-      if (latestAnalysis.attachmentUrls && latestAnalysis.attachmentUrls.length > 0) {
-        chartImageUrl = latestAnalysis.attachmentUrls[0] || null;
-      } else if (latestAnalysis.chartUrls && latestAnalysis.chartUrls.length > 0) {
-        chartImageUrl = latestAnalysis.chartUrls[0] || null;
-      }
-
-      if (chartImageUrl) {
-        embed.setImage(chartImageUrl);
-      }
-
-      await interaction.editReply({ embeds: [embed] });
+      // Start at the latest analysis (first item) - older ones are reachable via Previous/Next
+      await interaction.editReply(this.buildAnalysisPage(symbol, analyses, 0, interaction.client, interaction.guildId));
 
     } catch (error) {
       Logger.error('Error handling button interaction:', error);
@@ -325,6 +329,205 @@ export class EphemeralHandler {
     }
   }
 
+  /**
+   * Builds the ephemeral analysis embed shared by symbol buttons and the /analysis command
+   * @param embedUrl URL for the embed title link (defaults to the analysis message URL)
+   */
+  public buildAnalysisEmbed(
+    symbol: string,
+    analysis: AnalysisData,
+    client: Client,
+    guildId: string | null,
+    embedUrl?: string | null,
+    title: string = `📊 Latest Analysis for $${symbol}`
+  ): EmbedBuilder {
+    const timeAgo = this.getTimeAgo(analysis.timestamp);
+    const channel = client.channels.cache.get(analysis.channelId);
+    const channelName = channel ? `#${(channel as any).name}` : 'Unknown Channel';
+
+    // Entries indexed before direction classification keep the original green
+    const directionStyle = analysis.direction ? EphemeralHandler.DIRECTION_STYLES[analysis.direction] : null;
+
+    const embed = new EmbedBuilder()
+      .setTitle(title)
+      .setColor(directionStyle ? directionStyle.color : Colors.Green)
+      .setTimestamp();
+
+    // Credit the analyst (entries indexed before names were stored have no author line)
+    if (analysis.authorName) {
+      embed.setAuthor(analysis.authorAvatarUrl
+        ? { name: analysis.authorName, iconURL: analysis.authorAvatarUrl }
+        : { name: analysis.authorName });
+    }
+
+    // Add latest analysis URL as a prominent link if available
+    const titleUrl = embedUrl === undefined ? analysis.messageUrl : embedUrl;
+    if (titleUrl) {
+      Logger.debug(`Setting embed URL to: ${titleUrl}`);
+      embed.setURL(titleUrl);
+    } else {
+      Logger.debug(`No latestUrl available for ${symbol}, embed URL will not be set`);
+    }
+
+    // Create a short preview of the analysis content (max ~200 characters)
+    const shortPreview = analysis.content.length > 200 
+      ? analysis.content.substring(0, 200) + '...'
+      : analysis.content;
+
+    const directionText = directionStyle
+      ? ` • ${directionStyle.label}${analysis.directionConfidence !== undefined ? ` (${Math.round(analysis.directionConfidence * 100)}%)` : ''}`
+      : '';
+    let description = `**${channelName}** • ${timeAgo}${directionText}\n\n${shortPreview}\n\n`;
+    
+    // Generate fallback URL first
+    const fallbackUrl = guildId 
+      ? DiscordUrlGenerator.generateLegacyUrl(
+          guildId,
+          analysis.channelId,
+          analysis.messageId
+        )
+      : 'URL unavailable';
+    
+    // Use stored URL if available, but validate it first
+    let messageUrl = analysis.messageUrl;
+    
+    // Check if stored URL has incorrect channel ID (known issue with historical data)
+    if (messageUrl && guildId) {
+      const expectedChannelId = analysis.channelId;
+      const storedUrlPattern = new RegExp(`discord\\.com/channels/${guildId}/([^/]+)/`);
+      const match = messageUrl.match(storedUrlPattern);
+      
+      if (match && match[1] !== expectedChannelId) {
+        Logger.warn(`Stored URL has incorrect channel ID ${match[1]}, expected ${expectedChannelId}. Using fallback URL.`);
+        messageUrl = fallbackUrl; // Use the correctly generated fallback URL
+      }
+    }
+    
+    // Final fallback if no messageUrl
+    if (!messageUrl) {
+      messageUrl = fallbackUrl;
+    }
+    
+    Logger.debug(`Message URL for ${symbol}: stored=${analysis.messageUrl}, fallback=${fallbackUrl}, final=${messageUrl}`);
+    description += `[View Original Message](${messageUrl})`;
+
+    embed.setDescription(description);
+
+    // Show parsed price levels so members don't have to read the whole post
+    if (analysis.tradeLevels) {
+      for (const [type, label] of Object.entries(EphemeralHandler.TRADE_LEVEL_LABELS) as [TradeLevelType, string][]) {
+        const prices = analysis.tradeLevels[type];
+        if (prices && prices.length > 0) {
+          embed.addFields({ name: label, value: prices.map(price => `$${price}`).join(', '), inline: true });
+        }
+      }
+    }
+
+    // The most recent reply or thread update the manager posted on this call
+    const followUp = this.analysisLinker.getLatestFollowUp(analysis.messageId);
+    if (followUp) {
+      // Thread updates are posted in the thread that shares the analysis' message ID
+      const inThread = followUp.channelId === analysis.messageId;
+      const preview = followUp.content.length > 150 ? followUp.content.substring(0, 150) + '...' : followUp.content;
+      embed.addFields({
+        name: inThread ? '🧵 Latest update in thread' : '↩️ Latest follow-up',
+        value: `${preview}\n${this.getTimeAgo(followUp.timestamp)} • [View ${inThread ? 'update' : 'follow-up'}](${followUp.messageUrl})`
+      });
+    }
+
+    // Prioritize Discord attachments (chart snapshots) for display
+    let chartImageUrl: string | null = null;
+    
+    if (analysis.attachmentUrls && analysis.attachmentUrls.length > 0) {
+      chartImageUrl = analysis.attachmentUrls[0] || null;
+    } else if (analysis.chartUrls && analysis.chartUrls.length > 0) {
+      chartImageUrl = analysis.chartUrls[0] || null;
+    }
+
+    if (chartImageUrl) {
+      embed.setImage(chartImageUrl);
+    }
+
+    return embed;
+  }
+
+  /**
+   * Builds one page of a symbol's analysis history with Previous/Next navigation buttons
+   * Page state lives in the button custom IDs so no per-user session needs to be tracked
+   * @param authorId Analyst filter the analyses were fetched with, carried through to the page buttons
+   */
+  public buildAnalysisPage(
+    symbol: string,
+    analyses: AnalysisData[],
+    pageIndex: number,
+    client: Client,
+    guildId: string | null,
+    authorId?: string
+  ): { embeds: EmbedBuilder[]; components: ActionRowBuilder<ButtonBuilder>[] } {
+    const total = analyses.length;
+    const page = Math.min(Math.max(pageIndex, 0), total - 1);
+    const analysis = analyses[page]!;
+
+    const title = page === 0
+      ? `📊 Latest Analysis for $${symbol}`
+      : `📊 Analysis for $${symbol}`;
+    const embed = this.buildAnalysisEmbed(symbol, analysis, client, guildId, analysis.messageUrl || null, title);
+
+    if (total <= 1) {
+      return { embeds: [embed], components: [] };
+    }
+
+    // Pages follow getAnalysisHistory: a pin first, then posting order, so Next walks back in time
+    embed.setFooter({ text: `Analysis ${page + 1} of ${total} (newest first)` });
+
+    const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
+      new ButtonBuilder()
+        .setCustomId(ButtonCustomId.forAnalysisPage(symbol, total, page - 1, authorId))
+        .setLabel('◀ Previous')
+        .setStyle(ButtonStyle.Secondary)
+        .setDisabled(page === 0),
+      new ButtonBuilder()
+        .setCustomId(ButtonCustomId.forAnalysisPage(symbol, total, page + 1, authorId))
+        .setLabel('Next ▶')
+        .setStyle(ButtonStyle.Secondary)
+        .setDisabled(page >= total - 1)
+    );
+
+    return { embeds: [embed], components: [row] };
+  }
+
+  private async handleAnalysisPageInteraction(interaction: ButtonInteraction): Promise<void> {
+    const parsed = ButtonCustomId.parseAnalysisPage(interaction.customId);
+    if (!parsed) {
+      await interaction.reply({ content: 'Invalid button interaction.', ephemeral: true });
+      return;
+    }
+
+    const { symbol, total: count, page, authorId } = parsed;
+
+    Logger.interaction(`Analysis page ${page + 1}/${count} requested for ${symbol} by ${interaction.user.tag}`);
+
+    try {
+      const analyses = await this.analysisLinker.getAnalysisHistory(symbol, count, authorId);
+      if (analyses.length === 0) {
+        await interaction.update({
+          content: `📊 **$${symbol}**\n\n❌ No recent analysis found for this symbol.`,
+          embeds: [],
+          components: []
+        });
+        return;
+      }
+
+      await interaction.update(this.buildAnalysisPage(symbol, analyses, page, interaction.client, interaction.guildId, authorId));
+    } catch (error) {
+      Logger.error('Error handling analysis page interaction:', error);
+      
+      if (!interaction.replied && !interaction.deferred) {
+        await interaction.reply({ content: 'An error occurred while fetching analysis data.', ephemeral: true });
+      }
+    }
+  }
+
   private getTimeAgo(timestamp: Date): string {
     const now = new Date();
     const diffMs = now.getTime() - timestamp.getTime();
@@ -0,0 +1,85 @@
+import { BotConfig } from '../types';
+import { Logger } from '../utils/Logger';
+import { JsonFile } from '../utils/JsonFile';
+
+interface SerializedGuildConfigs {
+  version: number;
+  guilds: Record<string, BotConfig>; // guildId -> config
+}
+
+/**
+ * Per-guild channel configuration saved by /setup
+ * Kept in memory and written through to a JSON file on every change
+ */
+export class GuildConfigStore {
+  private static readonly VERSION = 1;
+  private configs: Map<string, BotConfig> = new Map();
+  private file: JsonFile<SerializedGuildConfigs> | null;
+
+  /**
+   * @param filePath JSON file to persist to; omit for an in-memory store
+   */
+  constructor(filePath?: string) {
+    this.file = filePath ? new JsonFile(filePath) : null;
+  }
+
+  public async load(): Promise<void> {
+    if (!this.file) {
+      return;
+    }
+
+    try {
+      const parsed = await this.file.read();
+      if (!parsed) {
+        Logger.info(`No persisted guild configuration found at ${this.file.filePath}`);
+        return;
+      }
+
+      if (parsed.version !== GuildConfigStore.VERSION) {
+        Logger.warn(`Ignoring persisted guild configuration with unsupported version ${parsed.version}`);
+        return;
+      }
+
+      this.configs.clear();
+      for (const [guildId, config] of Object.entries(parsed.guilds || {})) {
+        this.configs.set(guildId, { ...config, guildId });
+      }
+
+      Logger.info(`Loaded configuration for ${this.configs.size} guild(s)`);
+    } catch (error) {
+      Logger.error(`Failed to load guild configuration from ${this.file.filePath}:`, error);
+    }
+  }
+
+  public get(guildId: string): BotConfig | null {
+    return this.configs.get(guildId) || null;
+  }
+
+  public getAll(): BotConfig[] {
+    return Array.from(this.configs.values());
+  }
+
+  public async set(config: BotConfig): Promise<void> {
+    if (!config.guildId) {
+      throw new Error('Guild configuration requires a guildId');
+    }
+
+    this.configs.set(config.guildId, config);
+    await this.persist();
+  }
+
+  private async persist(): Promise<void> {
+    if (!this.file) {
+      return;
+    }
+
+    try {
+      await this.file.write({
+        version: GuildConfigStore.VERSION,
+        guilds: Object.fromEntries(this.configs)
+      });
+    } catch (error) {
+      Logger.error(`Failed to persist guild configuration to ${this.file.filePath}:`, error);
+    }
+  }
+}
@@ -0,0 +1,73 @@
+import { BotConfig } from '../types';
+import { AnalysisLinker } from './AnalysisLinker';
+import { MessageRetention } from './MessageRetention';
+import { EphemeralHandler } from './EphemeralHandler';
+import { ChannelScanner } from './ChannelScanner';
+import { ThreadManager } from './ThreadManager';
+import { HistoricalScraper } from './HistoricalScraper';
+import { SymbolListStore } from './SymbolListStore';
+import { Logger } from '../utils/Logger';
+
+/**
+ * Everything that holds per-guild state: the analysis index, tracked bot messages, button handling and symbol lists
+ */
+export interface GuildServices {
+  config: BotConfig;
+  analysisLinker: AnalysisLinker;
+  messageRetention: MessageRetention;
+  ephemeralHandler: EphemeralHandler;
+  channelScanner: ChannelScanner;
+  threadManager: ThreadManager;
+  symbolLists: SymbolListStore; // This guild's manager allowlist and blocklist
+  initialized: boolean;
+  historicalScraper?: HistoricalScraper; // Scraper of the current or last historical scrape, for progress reporting
+}
+
+/**
+ * Looks up the services for the guild an event or interaction came from
+ * Guilds without a configuration have no services, so nothing leaks between servers
+ */
+export class GuildServiceRegistry {
+  private services: Map<string, GuildServices> = new Map();
+
+  /**
+   * @param createServices Factory for a guild seen for the first time
+   */
+  constructor(private readonly createServices: (config: BotConfig) => GuildServices) {}
+
+  public get(guildId: string | null | undefined): GuildServices | null {
+    if (!guildId) {
+      return null;
+    }
+    return this.services.get(guildId) || null;
+  }
+
+  public getAll(): GuildServices[] {
+    return Array.from(this.services.values());
+  }
+
+  public register(services: GuildServices): void {
+    this.services.set(services.config.guildId, services);
+  }
+
+  /**
+   * Creates services for a new guild, or applies an updated configuration to an existing one
+   * An updated guild is marked uninitialized so the caller re-runs the historical backfill
+   */
+  public configure(config: BotConfig): GuildServices {
+    const existing = this.services.get(config.guildId);
+    if (existing) {
+      existing.config = config;
+      existing.threadManager = new ThreadManager(config.analysisChannels);
+      existing.analysisLinker.setAnalysisChannels(config.analysisChannels);
+      existing.initialized = false;
+      Logger.info(`Updated configuration for guild ${config.guildId}`);
+      return existing;
+    }
+
+    const services = this.createServices(config);
+    this.register(services);
+    Logger.info(`Created services for guild ${config.guildId}`);
+    return services;
+  }
+}
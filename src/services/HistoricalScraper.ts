@@ -1,119 +1,124 @@
 import { Client, TextChannel, Collection, Message } from 'discord.js';
-import { BotConfig, AnalysisData } from '../types';
+import { BotConfig, AnalysisData, ScrapeProgress, ChannelScrapeProgress, ScrapedBatch } from '../types';
 import { SymbolDetector } from './SymbolDetector';
+import { SymbolAllowlist } from './SymbolAllowlist';
+import { SymbolListStore } from './SymbolListStore';
 import { UrlExtractor } from './UrlExtractor';
+import { TradeLevelExtractor } from './TradeLevelExtractor';
+import { DirectionClassifier } from './DirectionClassifier';
 import { Logger } from '../utils/Logger';
 import { DiscordUrlGenerator } from '../utils/DiscordUrlGenerator';
 import { ThreadManager } from './ThreadManager';
 import { DiscussionChannelHandler } from './DiscussionChannelHandler';
-import { DAYS_TO_SCRAPE, HEBREW_KEYWORDS } from '../config';
+import { Snowflake } from '../utils/Snowflake';
+import { MessageAuthor } from '../utils/MessageAuthor';
+import { DAYS_TO_SCRAPE, SCRAPE_CONCURRENCY, SCRAPE_REQUEST_INTERVAL_MS, SCRAPE_MAX_BATCHES_PER_CHANNEL } from '../config';
+import { RateLimiter } from '../utils/RateLimiter';
+import { RelevanceScorer } from './RelevanceScorer';
+
+export interface ScrapeOptions {
+  days?: number; // Defaults to DAYS_TO_SCRAPE
+  onBatch?: (batch: ScrapedBatch) => void;
+}
 
 export class HistoricalScraper {
   private symbolDetector: SymbolDetector;
   private urlExtractor: UrlExtractor;
+  private tradeLevelExtractor: TradeLevelExtractor;
+  private directionClassifier: DirectionClassifier;
   private threadManager: ThreadManager;
   private discussionChannelHandler: DiscussionChannelHandler;
+  private relevanceScorer: RelevanceScorer;
   private config: BotConfig;
-  private readonly REQUEST_DELAY_MS = 100;
-  private readonly RELEVANCE_THRESHOLD = 0.7; // Same threshold as AnalysisLinker
-
-  constructor(config: BotConfig, client?: Client) {
+  private progress: ScrapeProgress = {
+    status: 'idle',
+    days: DAYS_TO_SCRAPE,
+    resumed: false,
+    startedAt: null,
+    finishedAt: null,
+    channels: []
+  };
+
+  /**
+   * @param symbolLists The guild's manager allowlist and blocklist; defaults to the env-configured guild's lists
+   */
+  constructor(config: BotConfig, client?: Client, relevanceScorer?: RelevanceScorer, symbolLists?: SymbolListStore) {
     this.config = config;
-    this.symbolDetector = new SymbolDetector(client, config.analysisChannels, config.discussionChannels);
+    this.relevanceScorer = relevanceScorer || new RelevanceScorer();
+    this.symbolDetector = new SymbolDetector(
+      client,
+      config.analysisChannels,
+      config.discussionChannels,
+      symbolLists ? new SymbolAllowlist(symbolLists) : undefined
+    );
     this.urlExtractor = new UrlExtractor();
+    this.tradeLevelExtractor = new TradeLevelExtractor();
+    this.directionClassifier = new DirectionClassifier(config.analysisChannels);
     this.threadManager = new ThreadManager(config.analysisChannels);
     this.discussionChannelHandler = new DiscussionChannelHandler();
   }
 
+  /**
+   * Scrapes analysis and discussion channels for manager analysis
+   * Channels are paged oldest to newest, a few at a time, sharing one request budget.
+   * @param channelCheckpoints Optional newest-processed message ID per channel (from a persisted index).
+   *   Channels with a checkpoint are only backfilled with messages newer than it.
+   * @param options.onBatch Called after every page so the caller can commit it along with the channel checkpoint -
+   *   a scrape interrupted midway then resumes from the last committed page
+   */
   public async scrapeHistoricalAnalysis(
     client: Client,
-    config: BotConfig
+    config: BotConfig,
+    channelCheckpoints?: Map<string, string>,
+    options: ScrapeOptions = {}
   ): Promise<Map<string, AnalysisData>> {
-    Logger.info(`Starting historical analysis scrape (last ${DAYS_TO_SCRAPE} days)...`);
+    const days = options.days ?? DAYS_TO_SCRAPE;
+    Logger.info(`Starting historical analysis scrape (last ${days} days)...`);
     
     const cutoffDate = new Date();
-    cutoffDate.setDate(cutoffDate.getDate() - DAYS_TO_SCRAPE);
+    cutoffDate.setDate(cutoffDate.getDate() - days);
     
-    const latestAnalysisMap = new Map<string, AnalysisData>();
-    let totalMessagesProcessed = 0;
-    let totalSymbolsFound = 0;
-
-    // Scrape analysis channels
-    for (const channelId of config.analysisChannels) {
-      try {
-        const channel = await client.channels.fetch(channelId) as TextChannel;
-        if (!channel || !channel.isTextBased()) {
-          Logger.warn(`Could not access analysis channel ${channelId}`);
-          continue;
-        }
-        
-        Logger.info(`Scraping analysis channel #${channel.name} (${channelId})...`);
-        
-        const messages = await this.fetchRecentMessages(channel, cutoffDate, client);
-        Logger.info(`Found ${messages.size} messages in analysis channel #${channel.name}`);
-
-        const channelResults = await this.processChannelMessages(
-          messages,
-          channel.guildId || 'unknown',
-          true // apply manager filtering to analysis channels too
-        );
-        
-        Logger.debug(`Found ${channelResults.size} symbols in analysis channel ${channel.name}`);
-        for (const [symbol, analysisData] of channelResults) {
-          const existing = latestAnalysisMap.get(symbol);
-          if (!existing || analysisData.timestamp > existing.timestamp) {
-            latestAnalysisMap.set(symbol, analysisData);
-          }
-        }
+    const channelProgress = (channelId: string, kind: ChannelScrapeProgress['kind']): ChannelScrapeProgress => ({
+      channelId,
+      channelName: null,
+      kind,
+      status: 'pending',
+      messagesFetched: 0,
+      symbolsFound: 0,
+      checkpoint: channelCheckpoints?.get(channelId) || null
+    });
+
+    this.progress = {
+      status: 'running',
+      days,
+      resumed: !!channelCheckpoints && channelCheckpoints.size > 0,
+      startedAt: new Date(),
+      finishedAt: null,
+      channels: [
+        ...config.analysisChannels.map(channelId => channelProgress(channelId, 'analysis')),
+        // Discussion channels are scraped for manager messages
+        ...config.discussionChannels.map(channelId => channelProgress(channelId, 'discussion'))
+      ]
+    };
 
-        totalMessagesProcessed += messages.size;
-        totalSymbolsFound += channelResults.size;
+    const latestAnalysisMap = new Map<string, AnalysisData>();
+    const rateLimiter = new RateLimiter(SCRAPE_REQUEST_INTERVAL_MS);
+    const queue = [...this.progress.channels];
 
-        await this.delay(this.REQUEST_DELAY_MS);
-      } catch (error) {
-        Logger.error(`Error scraping analysis channel ${channelId}:`, error);
+    const worker = async () => {
+      for (let progress = queue.shift(); progress; progress = queue.shift()) {
+        await this.scrapeChannel(client, progress, cutoffDate, rateLimiter, latestAnalysisMap, options.onBatch);
       }
-    }
-
-    // Scrape discussion channels for manager messages
-    for (const channelId of config.discussionChannels) {
-      try {
-        const channel = await client.channels.fetch(channelId) as TextChannel;
-        if (!channel || !channel.isTextBased()) {
-          Logger.warn(`Could not access discussion channel ${channelId}`);
-          continue;
-        }
-        
-        Logger.info(`Scraping discussion channel #${channel.name} (${channelId}) for manager messages...`);
-        
-        const messages = await this.fetchRecentMessages(channel, cutoffDate, client);
-        Logger.info(`Found ${messages.size} messages in discussion channel #${channel.name}`);
-
-        const channelResults = await this.processChannelMessages(
-          messages,
-          channel.guildId || 'unknown',
-          true // is a discussion channel
-        );
-        
-        Logger.debug(`Found ${channelResults.size} symbols in discussion channel ${channel.name}`);
-        for (const [symbol, analysisData] of channelResults) {
-          const existing = latestAnalysisMap.get(symbol);
-          if (!existing || analysisData.timestamp > existing.timestamp) {
-            latestAnalysisMap.set(symbol, analysisData);
-          }
-        }
+    };
+    await Promise.all(Array.from({ length: Math.min(SCRAPE_CONCURRENCY, queue.length) }, worker));
 
-        totalMessagesProcessed += messages.size;
-        totalSymbolsFound += channelResults.size;
-
-        await this.delay(this.REQUEST_DELAY_MS);
-      } catch (error) {
-        Logger.error(`Error scraping discussion channel ${channelId}:`, error);
-      }
-    }
+    const failedChannels = this.progress.channels.filter(channel => channel.status === 'failed').length;
+    this.progress.status = failedChannels > 0 && failedChannels === this.progress.channels.length ? 'failed' : 'completed';
+    this.progress.finishedAt = new Date();
 
+    const totalMessagesProcessed = this.progress.channels.reduce((sum, channel) => sum + channel.messagesFetched, 0);
     Logger.info(`Historical scrape complete!`);
-    Logger.info(`Processed ${totalMessagesProcessed} messages`);
+    Logger.info(`Processed ${totalMessagesProcessed} messages in ${this.progress.channels.length - failedChannels}/${this.progress.channels.length} channels`);
     Logger.info(`Found ${latestAnalysisMap.size} unique symbols with analysis`);
     
     if (latestAnalysisMap.size > 0) {
@@ -124,70 +129,141 @@ export class HistoricalScraper {
     return latestAnalysisMap;
   }
 
-  private async fetchRecentMessages(
-    channel: TextChannel,
+  /**
+   * Progress of the current or last scrape
+   */
+  public getProgress(): ScrapeProgress {
+    return { ...this.progress, channels: this.progress.channels.map(channel => ({ ...channel })) };
+  }
+
+  public isRunning(): boolean {
+    return this.progress.status === 'running';
+  }
+
+  private async scrapeChannel(
+    client: Client,
+    progress: ChannelScrapeProgress,
     cutoffDate: Date,
-    client: Client
-  ): Promise<Collection<string, Message>> {
-    const messages = new Collection<string, Message>();
-    let lastMessageId: string | undefined;
-    let batchCount = 0;
-    const MAX_BATCHES = 50;
+    rateLimiter: RateLimiter,
+    latestAnalysisMap: Map<string, AnalysisData>,
+    onBatch?: (batch: ScrapedBatch) => void
+  ): Promise<void> {
+    const { channelId, kind } = progress;
+    progress.status = 'running';
 
-    const threadMessageIds = await this.threadManager.getThreadMessageIds(client, channel.id, true);
+    try {
+      await rateLimiter.acquire();
+      const channel = await client.channels.fetch(channelId) as TextChannel;
+      if (!channel || !channel.isTextBased()) {
+        Logger.warn(`Could not access ${kind} channel ${channelId}`);
+        progress.status = 'failed';
+        progress.error = 'Channel not accessible';
+        return;
+      }
+      progress.channelName = channel.name;
 
-    while (batchCount < MAX_BATCHES) {
-      try {
-        const fetchOptions = { 
-          limit: 100,
-          ...(lastMessageId && { before: lastMessageId })
-        };
+      let cursor = this.resolveStartMessageId(channel, cutoffDate, progress.checkpoint);
+      Logger.info(`Scraping ${kind} channel #${channel.name} (${channelId})...`);
+
+      await rateLimiter.acquire();
+      const threadMessageIds = await this.threadManager.getThreadMessageIds(client, channel.id, true);
 
-        const batch = await channel.messages.fetch(fetchOptions);
+      // Best analysis per symbol across all pages of this channel, so quality-first selection spans pages
+      const channelResults = new Map<string, AnalysisData>();
+      let batchCount = 0;
+
+      while (batchCount < SCRAPE_MAX_BATCHES_PER_CHANNEL) {
+        await rateLimiter.acquire();
+        const batch = await channel.messages.fetch({ limit: 100, after: cursor });
         
         if (batch.size === 0) {
           break;
         }
 
-        let hitCutoff = false;
+        const messages = new Collection<string, Message>();
         for (const message of batch.values()) {
-          if (message.createdAt < cutoffDate) {
-            hitCutoff = true;
-            break;
+          if (Snowflake.isNewer(message.id, cursor)) {
+            cursor = message.id;
           }
           
-          if (!message.author.bot && message.content.trim()) {
-            if (threadMessageIds.has(message.id)) {
-              continue;
-            }
-            
+          if (!message.author.bot && message.content.trim() && !threadMessageIds.has(message.id)) {
             messages.set(message.id, message);
           }
         }
 
-        if (hitCutoff) {
-          break;
+        const previousResults = new Map(channelResults);
+        const batchHistory = new Map<string, AnalysisData[]>();
+        await this.processChannelMessages(
+          messages,
+          channel.guildId || 'unknown',
+          true, // apply manager filtering to analysis and discussion channels
+          channelResults,
+          batchHistory
+        );
+
+        const changed = new Map(Array.from(channelResults).filter(([symbol, analysis]) => previousResults.get(symbol) !== analysis));
+        for (const [symbol, analysisData] of changed) {
+          const existing = latestAnalysisMap.get(symbol);
+          if (!existing || analysisData.timestamp > existing.timestamp) {
+            latestAnalysisMap.set(symbol, analysisData);
+          }
         }
 
-        lastMessageId = batch.last()?.id;
+        progress.messagesFetched += batch.size;
+        progress.symbolsFound = channelResults.size;
+        progress.checkpoint = cursor;
+        onBatch?.({ channelId, checkpoint: cursor, latestAnalysis: changed, history: batchHistory });
+
+        if (batch.size < 100) {
+          break;
+        }
         batchCount++;
+      }
 
-        await this.delay(this.REQUEST_DELAY_MS);
-      } catch (error) {
-        Logger.error(`Error fetching message batch:`, error);
-        break;
+      if (batchCount >= SCRAPE_MAX_BATCHES_PER_CHANNEL) {
+        Logger.warn(`Stopped scraping #${channel.name} after ${batchCount} pages - the next scrape continues from message ${cursor}`);
       }
+
+      Logger.info(`Found ${channelResults.size} symbols in ${progress.messagesFetched} messages of ${kind} channel #${channel.name}`);
+      progress.status = 'completed';
+    } catch (error) {
+      Logger.error(`Error scraping ${kind} channel ${channelId}:`, error);
+      progress.status = 'failed';
+      progress.error = error instanceof Error ? error.message : String(error);
     }
+  }
 
-    return messages;
+  /**
+   * Message ID to page forward from: the checkpoint if it is inside the scrape window, otherwise the window start
+   */
+  private resolveStartMessageId(channel: TextChannel, cutoffDate: Date, checkpointMessageId: string | null): string {
+    if (checkpointMessageId) {
+      const checkpointDate = Snowflake.toDate(checkpointMessageId);
+      if (checkpointDate && checkpointDate >= cutoffDate) {
+        Logger.info(`Backfilling #${channel.name} from checkpoint ${checkpointMessageId} (${checkpointDate.toISOString()})`);
+        return checkpointMessageId;
+      }
+      Logger.info(`Checkpoint for #${channel.name} is older than the scrape window - performing full scrape`);
+    }
+
+    return Snowflake.fromDate(cutoffDate);
   }
 
+  /**
+   * @param analysisMap Best analysis per symbol so far, updated in place
+   * @param batchHistory Collects every analysis accepted from these messages
+   */
   private async processChannelMessages(
     messages: Collection<string, Message>,
     guildId: string,
-    applyManagerFiltering: boolean = false
+    applyManagerFiltering: boolean = false,
+    analysisMap: Map<string, AnalysisData> = new Map(),
+    batchHistory?: Map<string, AnalysisData[]>
   ): Promise<Map<string, AnalysisData>> {
-    const analysisMap = new Map<string, AnalysisData>();
+
+    if (applyManagerFiltering) {
+      await this.discussionChannelHandler.resolveMessageMembers(messages.values(), this.config);
+    }
 
     for (const message of messages.values()) {
       try {
@@ -207,17 +283,17 @@ export class HistoricalScraper {
         
         const extractedUrls = this.urlExtractor.extractUrlsFromMessage(message);
         
-        let relevanceScore = this.calculateRelevanceScore(message.content, symbols.length);
-        
-        // Chart URL bonus (secondary enhancement) 
-        if (extractedUrls.hasCharts) {
-          relevanceScore += 0.2;
-          Logger.debug(`Historical scraper: Message ${message.id} has charts - boosting relevance score by 0.2`);
-        }
+        const relevance = this.relevanceScorer.explain({
+          content: message.content,
+          symbolCount: symbols.length,
+          hasCharts: extractedUrls.hasCharts,
+          isReply: message.reference !== null && message.reference !== undefined
+        });
+        const relevanceScore = relevance.total;
         
-        // Apply relevance threshold filtering - same as AnalysisLinker
-        if (relevanceScore < this.RELEVANCE_THRESHOLD) {
-          Logger.debug(`❌ Historical scraper rejected message ${message.id}: relevance score ${relevanceScore.toFixed(3)} below threshold ${this.RELEVANCE_THRESHOLD}`);
+        // Apply relevance threshold filtering - same scorer as AnalysisLinker
+        if (!relevance.passes) {
+          Logger.debug(`❌ Historical scraper rejected message ${message.id}: relevance score ${relevanceScore.toFixed(3)} below threshold ${relevance.threshold}`);
           continue;
         }
         
@@ -225,6 +301,7 @@ export class HistoricalScraper {
           messageId: message.id,
           channelId: message.channelId,
           authorId: message.author.id,
+          ...MessageAuthor.getAttribution(message),
           content: message.content,
           symbols: symbolStrings,
           timestamp: message.createdAt,
@@ -232,11 +309,17 @@ export class HistoricalScraper {
           messageUrl,
           chartUrls: extractedUrls.chartUrls,
           attachmentUrls: extractedUrls.attachmentUrls,
-          hasCharts: extractedUrls.hasCharts
+          hasCharts: extractedUrls.hasCharts,
+          ...this.tradeLevelExtractor.extractFields(message.content),
+          ...this.directionClassifier.classifyFields(message.content, message.channelId)
         };
 
         Logger.debug(`✅ Historical scraper accepted message ${message.id}: relevance score ${relevanceScore.toFixed(3)}, symbols: ${symbolStrings.join(', ')}`);
 
+        for (const symbol of symbolStrings) {
+          batchHistory?.set(symbol, [...(batchHistory.get(symbol) || []), analysisData]);
+        }
+
         for (const symbol of symbolStrings) {
           const existing = analysisMap.get(symbol);
           
@@ -331,185 +414,6 @@ export class HistoricalScraper {
     return score;
   }
 
-  private calculateRelevanceScore(content: string, symbolCount: number): number {
-    let score = 0.3; // Lower base score to require actual analysis content
-    
-    const lowerContent = content.toLowerCase();
-    
-    // Check for symbol list patterns (major penalty)
-    if (this.isSymbolList(content)) {
-      Logger.debug(`📋 Symbol list pattern detected in historical scraper: "${content.slice(0, 100)}..."`);
-      return 0.1; // Very low score for obvious symbol lists
-    }
-    
-    // Check symbol density (symbol-to-content ratio)
-    const symbolDensityPenalty = this.calculateSymbolDensityPenalty(content, symbolCount);
-    score -= symbolDensityPenalty;
-    
-    // Check for first-line stock patterns (major bonus for focused analysis)
-    if (this.detectFirstLineStockPattern(content)) {
-      score += 0.3;
-      Logger.debug(`📈 Historical scraper: First-line stock pattern bonus applied: +0.3`);
-    }
-    
-    const strongKeywords = ['analysis', 'target', 'price target', 'bullish', 'bearish', 'recommendation'];
-    const mediumKeywords = ['chart', 'technical', 'support', 'resistance', 'breakout', 'trend'];
-    const weakKeywords = ['buy', 'sell', 'hold', 'watch', 'trade'];
-    
-    for (const keyword of strongKeywords) {
-      if (lowerContent.includes(keyword)) {
-        score += 0.3;
-      }
-    }
-    
-    for (const keyword of mediumKeywords) {
-      if (lowerContent.includes(keyword)) {
-        score += 0.2;
-      }
-    }
-    
-    for (const keyword of weakKeywords) {
-      if (lowerContent.includes(keyword)) {
-        score += 0.1;
-      }
-    }
-    
-    // Hebrew keyword support
-    for (const keyword of HEBREW_KEYWORDS.strong) {
-      if (content.includes(keyword)) {
-        score += 0.3;
-      }
-    }
-    
-    for (const keyword of HEBREW_KEYWORDS.medium) {
-      if (content.includes(keyword)) {
-        score += 0.2;
-      }
-    }
-    
-    for (const keyword of HEBREW_KEYWORDS.weak) {
-      if (content.includes(keyword)) {
-        score += 0.1;
-      }
-    }
-    
-    // Content length bonus (meaningful analysis should be longer)
-    if (content.length > 200) {
-      score += 0.1;
-    }
-    if (content.length > 400) {
-      score += 0.1;
-    }
-    
-    // Symbol count scoring (favor fewer symbols for focused analysis)
-    if (symbolCount === 1) {
-      score += 0.2;
-    } else if (symbolCount <= 3) {
-      score += 0.1;
-    } else if (symbolCount <= 5) {
-      // Neutral - no bonus or penalty
-    } else {
-      // Penalty for many symbols (likely lists or unfocused content)
-      score -= (symbolCount - 5) * 0.05;
-    }
-    
-    return Math.max(0, Math.min(score, 1.0));
-  }
-
-  private isSymbolList(content: string): boolean {
-    // Detect common list patterns - same logic as AnalysisLinker
-    const listPatterns = [
-      /[A-Z]{1,5}\s*\/\s*[A-Z]{1,5}/, // "AAPL / TSLA"
-      /[A-Z]{1,5}\s*,\s*[A-Z]{1,5}/, // "AAPL, TSLA"
-      /[A-Z]{1,5}\s*\|\s*[A-Z]{1,5}/, // "AAPL | TSLA"
-    ];
-    
-    for (const pattern of listPatterns) {
-      const matches = content.match(new RegExp(pattern.source, 'g'));
-      if (matches && matches.length >= 3) { // Need at least 3 separator instances
-        const totalLength = content.length;
-        const symbolMatches = content.match(/\b[A-Z]{1,5}\b/g) || [];
-        
-        // Check if we have many symbols with separators
-        if (symbolMatches.length >= 5) {
-          // Check if symbols make up a large portion of the content
-          const symbolChars = symbolMatches.join('').length;
-          const separatorChars = matches.length * 3; // Approximate separator chars
-          const symbolAndSeparatorChars = symbolChars + separatorChars;
-          const ratio = symbolAndSeparatorChars / totalLength;
-          
-          if (ratio > 0.3) { // More than 30% of content is symbols and separators
-            return true;
-          }
-        }
-      }
-    }
-    
-    // Additional check: look for sequences of symbols with minimal text
-    const symbolMatches = content.match(/\b[A-Z]{1,5}\b/g) || [];
-    if (symbolMatches.length >= 6) {
-      const words = content.trim().split(/\s+/).filter(word => 
-        word.length > 0 && !/^[A-Z]{1,5}$/.test(word) && !/^[\/,\|]$/.test(word)
-      );
-      const nonSymbolWords = words.length;
-      const wordsPerSymbol = nonSymbolWords / symbolMatches.length;
-      
-      // If there are very few non-symbol words per symbol, likely a list
-      if (wordsPerSymbol < 1.5) {
-        return true;
-      }
-    }
-    
-    return false;
-  }
-
-  private detectFirstLineStockPattern(content: string): boolean {
-    const firstLine = content.split('\n')[0] || '';
-    
-    // Pattern 1: "מניית" in first line with a symbol
-    if (firstLine.includes('מניית')) {
-      // Check if there's a symbol ($SYMBOL or SYMBOL format) in the same line
-      const symbolPattern = /(?:\$[A-Z]{1,5}|(?<![A-Za-z])[A-Z]{2,5}(?![A-Za-z]))/;
-      if (symbolPattern.test(firstLine)) {
-        Logger.debug(`Historical scraper: First-line מניית pattern detected: "${firstLine}"`);
-        return true;
-      }
-    }
-    
-    // Pattern 2: Company name in Hebrew + $SYMBOL format
-    // Look for Hebrew text followed by $SYMBOL
-    const hebrewWithSymbolPattern = /[\u0590-\u05FF]+.*\$[A-Z]{1,5}/;
-    if (hebrewWithSymbolPattern.test(firstLine)) {
-      Logger.debug(`Historical scraper: First-line Hebrew+symbol pattern detected: "${firstLine}"`);
-      return true;
-    }
-    
-    return false;
-  }
-
-  private calculateSymbolDensityPenalty(content: string, symbolCount: number): number {
-    if (symbolCount <= 3) return 0; // No penalty for small symbol counts
-    
-    const words = content.trim().split(/\s+/);
-    const totalWords = words.length;
-    const wordsPerSymbol = totalWords / symbolCount;
-    
-    // Heavy penalty for high symbol density (many symbols, few words)
-    if (wordsPerSymbol < 2) {
-      return 0.4; // Heavy penalty
-    } else if (wordsPerSymbol < 3) {
-      return 0.2; // Medium penalty  
-    } else if (wordsPerSymbol < 5) {
-      return 0.1; // Light penalty
-    }
-    
-    return 0; // No penalty for good word-to-symbol ratio
-  }
-
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
-
   public async getChannelInfo(client: Client, channelId: string): Promise<string> {
     try {
       const channel = await client.channels.fetch(channelId) as TextChannel;
@@ -1,5 +1,6 @@
 import { Client, Message, TextChannel } from 'discord.js';
-import { RetentionJob, BotConfig, MessageGroup } from '../types';
+import { RetentionJob, BotConfig, MessageGroup, RetentionMessageType } from '../types';
+import { ENV } from '../config';
 
 export class MessageRetention {
   private retentionJobs: Map<string, RetentionJob> = new Map();
@@ -9,17 +10,28 @@ export class MessageRetention {
   private client: Client | null = null;
   private static readonly CLEANUP_INTERVAL_HOURS = 1;
 
+  /**
+   * @param retentionHours Hours each message type stays up; 0 keeps it until the next daily update or shutdown
+   * @param clock Current time, used to compute when tracked messages expire
+   */
+  constructor(
+    private readonly retentionHours: Record<RetentionMessageType, number> = ENV.RETENTION_HOURS,
+    private readonly clock: () => Date = () => new Date()
+  ) {}
+
   public initialize(client: Client, config: BotConfig): void {
     this.client = client;
     this.config = config;
   }
 
-  public addMessageForRetention(message: Message, groupId?: string): void {
+  public addMessageForRetention(message: Message, groupId?: string, type: RetentionMessageType = 'top_picks'): void {
+    const hours = this.retentionHours[type];
     const job: RetentionJob = {
       messageId: message.id,
       channelId: message.channel.id,
+      type,
       createdAt: message.createdAt,
-      deleteAt: new Date(Date.now() + (365 * 24 * 60 * 60 * 1000)), // Far future date (never expires)
+      deleteAt: new Date(this.clock().getTime() + (hours > 0 ? hours * 60 * 60 * 1000 : 365 * 24 * 60 * 60 * 1000)), // No TTL: far future date (never expires)
       ...(groupId && { groupId }),
       ...(groupId && { isGrouped: true })
     };
@@ -37,8 +49,15 @@ export class MessageRetention {
   }
 
   public startCleanupScheduler(): void {
-    // No automatic cleanup - messages only cleaned up on Hebrew updates and shutdown
-    console.log('🕒 Message retention initialized (manual cleanup only)');
+    if (this.cleanupInterval) {
+      return;
+    }
+
+    // Expired messages are deleted hourly; Hebrew updates and shutdown still clean up everything
+    this.cleanupInterval = setInterval(() => {
+      void this.cleanupExpiredMessages();
+    }, MessageRetention.CLEANUP_INTERVAL_HOURS * 60 * 60 * 1000);
+    console.log(`🕒 Message retention cleanup scheduler started (hourly; ${MessageRetention.describePolicy(this.retentionHours)})`);
   }
 
   public stopCleanupScheduler(): void {
@@ -51,6 +70,77 @@ export class MessageRetention {
 
 
 
+  public getRetentionPolicy(): Record<RetentionMessageType, number> {
+    return { ...this.retentionHours };
+  }
+
+  /**
+   * e.g. "top picks 26h, /createbuttons 26h, digests 24h"
+   */
+  public static describePolicy(retentionHours: Record<RetentionMessageType, number>): string {
+    const labels: Record<RetentionMessageType, string> = {
+      top_picks: 'top picks',
+      createbuttons: '/createbuttons',
+      digest: 'digests'
+    };
+
+    return (Object.keys(labels) as RetentionMessageType[])
+      .map(type => `${labels[type]} ${retentionHours[type] > 0 ? `${retentionHours[type]}h` : 'until the next daily update'}`)
+      .join(', ');
+  }
+
+  /**
+   * Deletes tracked messages whose retention period has passed (run hourly by the cleanup scheduler)
+   * A grouped message expires together with the rest of its group, so split button lists never go half-missing
+   * @returns Number of messages deleted
+   */
+  public async cleanupExpiredMessages(now: Date = this.clock()): Promise<number> {
+    if (!this.client) {
+      return 0;
+    }
+
+    const expiredJobs = Array.from(this.retentionJobs.values()).filter(job => job.deleteAt <= now);
+    if (expiredJobs.length === 0) {
+      return 0;
+    }
+
+    const expiredGroups = new Set(expiredJobs.map(job => job.groupId).filter((groupId): groupId is string => !!groupId));
+    for (const groupId of expiredGroups) {
+      for (const messageId of this.groupedJobs.get(groupId) || []) {
+        const job = this.retentionJobs.get(messageId);
+        if (job && !expiredJobs.includes(job)) {
+          expiredJobs.push(job);
+        }
+      }
+      this.groupedJobs.delete(groupId);
+    }
+
+    let totalDeleted = 0;
+    let totalErrors = 0;
+
+    for (const job of expiredJobs) {
+      this.retentionJobs.delete(job.messageId);
+
+      try {
+        const channel = this.client.channels.cache.get(job.channelId) as TextChannel;
+        if (!channel) continue;
+
+        const message = await channel.messages.fetch(job.messageId);
+        if (message && message.author.id === this.client.user?.id) {
+          await message.delete();
+          totalDeleted++;
+        }
+      } catch (error: any) {
+        if (error.code !== 10008) { // Ignore "message not found"
+          totalErrors++;
+        }
+      }
+    }
+
+    console.log(`🧹 Retention cleanup: ${totalDeleted} expired messages deleted, ${totalErrors} errors`);
+    return totalDeleted;
+  }
+
   public getRetentionStats(): { 
     pendingJobs: number; 
     oldestJob: Date | null; 
@@ -80,6 +170,10 @@ export class MessageRetention {
     return MessageRetention.instance?.getRetentionStats() || null;
   }
 
+  public static getGlobalPolicy(): Record<RetentionMessageType, number> | null {
+    return MessageRetention.instance?.getRetentionPolicy() || null;
+  }
+
   public removeRetentionJob(messageId: string): void {
     this.retentionJobs.delete(messageId);
   }
@@ -0,0 +1,149 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Logger } from '../utils/Logger';
+
+export interface DailyClose {
+  date: string; // YYYY-MM-DD
+  close: number;
+}
+
+/**
+ * Source of end-of-day prices for performance tracking
+ * Implementations return an empty list for symbols they have no prices for
+ */
+export interface PriceProvider {
+  getDailyCloses(symbol: string): Promise<DailyClose[]>; // oldest first
+}
+
+interface PriceRow {
+  symbol: string;
+  date: string;
+  close: number;
+}
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * PriceProvider backed by a local CSV or JSON file that end-of-day prices are appended to
+ * CSV needs a header with `symbol` (or `ticker`), `date` and `close` columns in any order.
+ * JSON is either `{ "NVDA": { "2026-03-02": 120.5 } }` or an array of `{ symbol, date, close }`.
+ * The file is re-read whenever its modification time changes.
+ */
+export class FilePriceProvider implements PriceProvider {
+  private closes: Map<string, DailyClose[]> = new Map();
+  private loadedMtimeMs: number | null = null;
+
+  constructor(public readonly filePath: string) {}
+
+  public async getDailyCloses(symbol: string): Promise<DailyClose[]> {
+    await this.refresh();
+    return this.closes.get(symbol.toUpperCase()) || [];
+  }
+
+  private async refresh(): Promise<void> {
+    let mtimeMs: number;
+    try {
+      mtimeMs = (await fs.promises.stat(this.filePath)).mtimeMs;
+    } catch {
+      if (this.loadedMtimeMs !== null) {
+        Logger.warn(`Price data file ${this.filePath} disappeared - keeping previously loaded prices`);
+        this.loadedMtimeMs = null;
+      }
+      return;
+    }
+
+    if (mtimeMs === this.loadedMtimeMs) {
+      return;
+    }
+
+    try {
+      const raw = await fs.promises.readFile(this.filePath, 'utf8');
+      const rows = path.extname(this.filePath).toLowerCase() === '.json'
+        ? FilePriceProvider.parseJson(raw)
+        : FilePriceProvider.parseCsv(raw);
+
+      const closes = new Map<string, DailyClose[]>();
+      for (const row of rows) {
+        const symbolCloses = closes.get(row.symbol) || [];
+        symbolCloses.push({ date: row.date, close: row.close });
+        closes.set(row.symbol, symbolCloses);
+      }
+      for (const [symbol, symbolCloses] of closes) {
+        // Sort by date and keep the last value given for a duplicated date
+        const byDate = new Map(symbolCloses.map(c => [c.date, c]));
+        closes.set(symbol, Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date)));
+      }
+
+      this.closes = closes;
+      this.loadedMtimeMs = mtimeMs;
+      Logger.info(`Loaded ${rows.length} closing prices for ${closes.size} symbols from ${this.filePath}`);
+    } catch (error) {
+      Logger.error(`Failed to load price data from ${this.filePath}, keeping previous prices:`, error);
+      // Don't retry until the file changes again
+      this.loadedMtimeMs = mtimeMs;
+    }
+  }
+
+  private static parseCsv(raw: string): PriceRow[] {
+    const lines = raw.split(/\r?\n/).filter(line => line.trim().length > 0);
+    const header = (lines.shift() || '').split(',').map(cell => FilePriceProvider.unquote(cell).toLowerCase());
+
+    const symbolIndex = header.findIndex(column => column === 'symbol' || column === 'ticker');
+    const dateIndex = header.indexOf('date');
+    const closeIndex = header.indexOf('close');
+    if (symbolIndex < 0 || dateIndex < 0 || closeIndex < 0) {
+      throw new Error('Price CSV header must include symbol, date and close columns');
+    }
+
+    return FilePriceProvider.validRows(lines.map(line => {
+      const cells = line.split(',').map(cell => FilePriceProvider.unquote(cell));
+      return { symbol: cells[symbolIndex], date: cells[dateIndex], close: cells[closeIndex] };
+    }));
+  }
+
+  private static parseJson(raw: string): PriceRow[] {
+    const parsed = JSON.parse(raw) as unknown;
+
+    if (Array.isArray(parsed)) {
+      return FilePriceProvider.validRows(parsed as Array<Record<string, unknown>>);
+    }
+
+    if (parsed && typeof parsed === 'object') {
+      const rows: Array<Record<string, unknown>> = [];
+      for (const [symbol, byDate] of Object.entries(parsed as Record<string, Record<string, unknown>>)) {
+        for (const [date, close] of Object.entries(byDate || {})) {
+          rows.push({ symbol, date, close });
+        }
+      }
+      return FilePriceProvider.validRows(rows);
+    }
+
+    throw new Error('Price JSON must be an object keyed by symbol or an array of { symbol, date, close }');
+  }
+
+  private static validRows(rows: Array<Record<string, unknown>>): PriceRow[] {
+    const valid: PriceRow[] = [];
+    let skipped = 0;
+
+    for (const row of rows) {
+      const symbol = typeof row.symbol === 'string' ? row.symbol.trim().replace(/^\$/, '').toUpperCase() : '';
+      const date = typeof row.date === 'string' ? row.date.trim() : '';
+      const close = Number(row.close);
+
+      if (!symbol || !DATE_KEY.test(date) || !Number.isFinite(close) || close <= 0) {
+        skipped++;
+        continue;
+      }
+      valid.push({ symbol, date, close });
+    }
+
+    if (skipped > 0) {
+      Logger.warn(`Skipped ${skipped} invalid price rows`);
+    }
+    return valid;
+  }
+
+  private static unquote(cell: string): string {
+    return cell.trim().replace(/^"(.*)"$/, '$1').trim();
+  }
+}
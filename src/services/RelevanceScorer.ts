@@ -0,0 +1,385 @@
+import * as fs from 'fs';
+import { HEBREW_KEYWORDS } from '../config';
+import { Logger } from '../utils/Logger';
+
+export interface KeywordTier {
+  name: string;
+  weight: number;
+  keywords: string[];
+  matchCase: boolean; // false lower-cases the content before matching (keywords must be lower-case)
+}
+
+export interface RelevanceConfig {
+  threshold: number;
+  baseScore: number;
+  symbolListScore: number; // Score (before bonuses) for messages that look like a bare symbol list
+  firstLinePatternBonus: number;
+  chartBonus: number;
+  replyBonus: number;
+  keywordTiers: KeywordTier[];
+  lengthBonuses: Array<{ minLength: number; bonus: number }>;
+  symbolCountBonuses: Array<{ maxSymbols: number; bonus: number }>;
+  neutralSymbolCount: number; // No bonus up to this many symbols, penalty per symbol above it
+  extraSymbolPenalty: number;
+  densityMinSymbols: number; // Density penalty only applies from this many symbols
+  densityPenalties: Array<{ maxWordsPerSymbol: number; penalty: number }>;
+}
+
+export interface RelevanceInput {
+  content: string;
+  symbolCount: number;
+  hasCharts: boolean;
+  isReply: boolean;
+}
+
+export interface RelevanceComponent {
+  name: string;
+  score: number;
+  detail?: string;
+}
+
+export interface RelevanceBreakdown {
+  components: RelevanceComponent[];
+  contentScore: number; // Clamped to 0-1 before the chart/reply bonuses
+  total: number;
+  threshold: number;
+  passes: boolean;
+}
+
+export const DEFAULT_RELEVANCE_CONFIG: RelevanceConfig = {
+  threshold: 0.7,
+  baseScore: 0.3,
+  symbolListScore: 0.1,
+  firstLinePatternBonus: 0.3,
+  chartBonus: 0.2,
+  replyBonus: 0.2,
+  keywordTiers: [
+    { name: 'strong', weight: 0.3, matchCase: false, keywords: ['analysis', 'target', 'price target', 'bullish', 'bearish', 'recommendation'] },
+    { name: 'medium', weight: 0.2, matchCase: false, keywords: ['chart', 'technical', 'support', 'resistance', 'breakout', 'trend'] },
+    { name: 'weak', weight: 0.1, matchCase: false, keywords: ['buy', 'sell', 'hold', 'watch', 'trade'] },
+    { name: 'hebrewStrong', weight: 0.3, matchCase: true, keywords: HEBREW_KEYWORDS.strong },
+    { name: 'hebrewMedium', weight: 0.2, matchCase: true, keywords: HEBREW_KEYWORDS.medium },
+    { name: 'hebrewWeak', weight: 0.1, matchCase: true, keywords: HEBREW_KEYWORDS.weak }
+  ],
+  lengthBonuses: [
+    { minLength: 201, bonus: 0.1 },
+    { minLength: 401, bonus: 0.1 }
+  ],
+  symbolCountBonuses: [
+    { maxSymbols: 1, bonus: 0.2 },
+    { maxSymbols: 3, bonus: 0.1 }
+  ],
+  neutralSymbolCount: 5,
+  extraSymbolPenalty: 0.05,
+  densityMinSymbols: 4,
+  densityPenalties: [
+    { maxWordsPerSymbol: 3, penalty: 0.3 },
+    { maxWordsPerSymbol: 5, penalty: 0.1 }
+  ]
+};
+
+/**
+ * Scores how likely a message is to be a real analysis (vs. a ticker-only or list message)
+ * Shared by AnalysisLinker and HistoricalScraper so live indexing and backfill agree.
+ * Weights load from an optional JSON file whose top-level keys override the defaults;
+ * keyword tiers are matched by name. The file is re-read whenever it changes.
+ */
+export class RelevanceScorer {
+  private static readonly WATCH_INTERVAL_MS = 5000;
+  private config: RelevanceConfig;
+  private watching: boolean = false;
+
+  /**
+   * @param configPath Optional JSON override file; a missing file means defaults
+   */
+  constructor(private readonly configPath?: string) {
+    this.config = DEFAULT_RELEVANCE_CONFIG;
+    this.reload();
+  }
+
+  public getConfig(): RelevanceConfig {
+    return this.config;
+  }
+
+  public getThreshold(): number {
+    return this.config.threshold;
+  }
+
+  /**
+   * Re-reads the config file. An invalid file is logged and the previous config is kept.
+   * @returns true if the config file was (re)loaded
+   */
+  public reload(): boolean {
+    if (!this.configPath || !fs.existsSync(this.configPath)) {
+      return false;
+    }
+
+    try {
+      const overrides = JSON.parse(fs.readFileSync(this.configPath, 'utf8')) as Partial<RelevanceConfig>;
+      this.config = RelevanceScorer.mergeConfig(DEFAULT_RELEVANCE_CONFIG, overrides);
+      Logger.info(`Loaded relevance scoring config from ${this.configPath} (threshold ${this.config.threshold})`);
+      return true;
+    } catch (error) {
+      Logger.error(`Invalid relevance scoring config at ${this.configPath}, keeping previous config:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Hot-reloads the config file when it changes
+   */
+  public startWatching(): void {
+    if (!this.configPath || this.watching) {
+      return;
+    }
+
+    this.watching = true;
+    fs.watchFile(this.configPath, { interval: RelevanceScorer.WATCH_INTERVAL_MS }, (current, previous) => {
+      if (current.mtimeMs !== previous.mtimeMs) {
+        Logger.info('Relevance scoring config changed - reloading');
+        this.reload();
+      }
+    });
+  }
+
+  public stopWatching(): void {
+    if (this.configPath && this.watching) {
+      fs.unwatchFile(this.configPath);
+      this.watching = false;
+    }
+  }
+
+  public score(input: RelevanceInput): number {
+    return this.explain(input).total;
+  }
+
+  public passes(input: RelevanceInput): boolean {
+    return this.explain(input).passes;
+  }
+
+  public explain(input: RelevanceInput): RelevanceBreakdown {
+    const { content, symbolCount } = input;
+    const config = this.config;
+    const components: RelevanceComponent[] = [];
+    let contentScore: number;
+
+    if (this.isSymbolList(content)) {
+      components.push({ name: 'Symbol list', score: config.symbolListScore, detail: 'replaces all content scoring' });
+      contentScore = config.symbolListScore;
+    } else {
+      components.push({ name: 'Base', score: config.baseScore });
+
+      const densityPenalty = this.calculateSymbolDensityPenalty(content, symbolCount);
+      if (densityPenalty > 0) {
+        components.push({ name: 'Symbol density', score: -densityPenalty });
+      }
+
+      if (this.detectFirstLineStockPattern(content)) {
+        components.push({ name: 'First-line stock pattern', score: config.firstLinePatternBonus });
+      }
+
+      const lowerContent = content.toLowerCase();
+      for (const tier of config.keywordTiers) {
+        const haystack = tier.matchCase ? content : lowerContent;
+        const matched = tier.keywords.filter(keyword => haystack.includes(keyword));
+        if (matched.length > 0) {
+          components.push({
+            name: `Keywords (${tier.name})`,
+            score: matched.length * tier.weight,
+            detail: matched.join(', ')
+          });
+        }
+      }
+
+      for (const { minLength, bonus } of config.lengthBonuses) {
+        if (content.length >= minLength) {
+          components.push({ name: `Length ≥ ${minLength}`, score: bonus });
+        }
+      }
+
+      const symbolCountScore = this.calculateSymbolCountScore(symbolCount);
+      if (symbolCountScore !== 0) {
+        components.push({ name: `Symbol count (${symbolCount})`, score: symbolCountScore });
+      }
+
+      const rawScore = components.reduce((sum, component) => sum + component.score, 0);
+      contentScore = Math.max(0, Math.min(rawScore, 1.0));
+      if (contentScore !== rawScore) {
+        components.push({ name: 'Clamp to 0-1', score: contentScore - rawScore });
+      }
+    }
+
+    let total = contentScore;
+    if (input.hasCharts) {
+      components.push({ name: 'Chart bonus', score: config.chartBonus });
+      total += config.chartBonus;
+    }
+    if (input.isReply) {
+      components.push({ name: 'Reply bonus', score: config.replyBonus });
+      total += config.replyBonus;
+    }
+
+    return {
+      components,
+      contentScore,
+      total,
+      threshold: config.threshold,
+      passes: total >= config.threshold
+    };
+  }
+
+  private calculateSymbolCountScore(symbolCount: number): number {
+    const { symbolCountBonuses, neutralSymbolCount, extraSymbolPenalty } = this.config;
+
+    for (const { maxSymbols, bonus } of symbolCountBonuses) {
+      if (symbolCount <= maxSymbols) {
+        return bonus;
+      }
+    }
+
+    // Penalty for many symbols (likely lists or unfocused content)
+    if (symbolCount > neutralSymbolCount) {
+      return -(symbolCount - neutralSymbolCount) * extraSymbolPenalty;
+    }
+
+    return 0;
+  }
+
+  private calculateSymbolDensityPenalty(content: string, symbolCount: number): number {
+    if (symbolCount < this.config.densityMinSymbols) return 0;
+
+    // Penalize if there are very few words per symbol (indicates list-like content)
+    const words = content.trim().split(/\s+/).filter(word => word.length > 0);
+    const wordsPerSymbol = words.length / symbolCount;
+
+    for (const { maxWordsPerSymbol, penalty } of this.config.densityPenalties) {
+      if (wordsPerSymbol < maxWordsPerSymbol) {
+        return penalty;
+      }
+    }
+
+    return 0;
+  }
+
+  private isSymbolList(content: string): boolean {
+    // Detect common list patterns
+    const listPatterns = [
+      /[A-Z]{1,5}\s*\/\s*[A-Z]{1,5}/, // "AAPL / TSLA"
+      /[A-Z]{1,5}\s*,\s*[A-Z]{1,5}/, // "AAPL, TSLA"
+      /[A-Z]{1,5}\s*\|\s*[A-Z]{1,5}/, // "AAPL | TSLA"
+    ];
+
+    for (const pattern of listPatterns) {
+      const matches = content.match(new RegExp(pattern.source, 'g'));
+      if (matches && matches.length >= 3) { // Need at least 3 separator instances
+        const totalLength = content.length;
+        const symbolMatches = content.match(/\b[A-Z]{1,5}\b/g) || [];
+
+        // Check if we have many symbols with separators
+        if (symbolMatches.length >= 5) {
+          // Check if symbols make up a large portion of the content
+          const symbolChars = symbolMatches.join('').length;
+          const separatorChars = matches.length * 3; // Approximate separator chars
+          const symbolAndSeparatorChars = symbolChars + separatorChars;
+          const ratio = symbolAndSeparatorChars / totalLength;
+
+          if (ratio > 0.3) { // More than 30% of content is symbols and separators
+            return true;
+          }
+        }
+      }
+    }
+
+    // Additional check: look for sequences of symbols with minimal text
+    const symbolMatches = content.match(/\b[A-Z]{1,5}\b/g) || [];
+    if (symbolMatches.length >= 6) {
+      const words = content.trim().split(/\s+/).filter(word =>
+        word.length > 0 && !/^[A-Z]{1,5}$/.test(word) && !/^[\/,\|]$/.test(word)
+      );
+      const nonSymbolWords = words.length;
+      const wordsPerSymbol = nonSymbolWords / symbolMatches.length;
+
+      // If there are very few non-symbol words per symbol, likely a list
+      if (wordsPerSymbol < 1.5) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  private detectFirstLineStockPattern(content: string): boolean {
+    const firstLine = content.split('\n')[0] || '';
+
+    // Pattern 1: "מניית" in first line with a symbol
+    if (firstLine.includes('מניית')) {
+      // Check if there's a symbol ($SYMBOL or SYMBOL format) in the same line
+      const symbolPattern = /(?:\$[A-Z]{1,5}|(?<![A-Za-z])[A-Z]{2,5}(?![A-Za-z]))/;
+      if (symbolPattern.test(firstLine)) {
+        return true;
+      }
+    }
+
+    // Pattern 2: Company name in Hebrew + $SYMBOL format
+    const hebrewWithSymbolPattern = /[\u0590-\u05FF]+.*\$[A-Z]{1,5}/;
+    return hebrewWithSymbolPattern.test(firstLine);
+  }
+
+  private static mergeConfig(base: RelevanceConfig, overrides: Partial<RelevanceConfig>): RelevanceConfig {
+    if (typeof overrides !== 'object' || overrides === null || Array.isArray(overrides)) {
+      throw new Error('Relevance config must be a JSON object');
+    }
+
+    const merged: RelevanceConfig = { ...base, ...overrides, keywordTiers: base.keywordTiers };
+
+    const numericKeys: Array<keyof RelevanceConfig> = [
+      'threshold', 'baseScore', 'symbolListScore', 'firstLinePatternBonus', 'chartBonus',
+      'replyBonus', 'neutralSymbolCount', 'extraSymbolPenalty', 'densityMinSymbols'
+    ];
+    for (const key of numericKeys) {
+      if (typeof merged[key] !== 'number' || Number.isNaN(merged[key])) {
+        throw new Error(`Relevance config "${key}" must be a number`);
+      }
+    }
+
+    // A malformed bonus table would make every scoring call throw, so it falls back to the default table
+    const tables: Array<[keyof RelevanceConfig, string, string]> = [
+      ['lengthBonuses', 'minLength', 'bonus'],
+      ['symbolCountBonuses', 'maxSymbols', 'bonus'],
+      ['densityPenalties', 'maxWordsPerSymbol', 'penalty']
+    ];
+    for (const [key, thresholdKey, valueKey] of tables) {
+      if (overrides[key] !== undefined && !RelevanceScorer.isNumericTable(overrides[key], [thresholdKey, valueKey])) {
+        Logger.warn(`Relevance config "${key}" must be an array of { ${thresholdKey}, ${valueKey} } numbers - using the default`);
+        Object.assign(merged, { [key]: base[key] });
+      }
+    }
+
+    // Keyword tiers merge by name so a file can tweak one tier without repeating the rest
+    if (overrides.keywordTiers !== undefined) {
+      if (!Array.isArray(overrides.keywordTiers)) {
+        throw new Error('Relevance config "keywordTiers" must be an array');
+      }
+
+      const tiers = new Map(base.keywordTiers.map(tier => [tier.name, tier]));
+      for (const tier of overrides.keywordTiers) {
+        const existing = tiers.get(tier.name);
+        const mergedTier = { ...(existing || { weight: 0, keywords: [], matchCase: false }), ...tier };
+        if (typeof mergedTier.weight !== 'number' || !Array.isArray(mergedTier.keywords)) {
+          throw new Error(`Relevance config keyword tier "${tier.name}" needs a numeric weight and a keywords array`);
+        }
+        tiers.set(tier.name, mergedTier);
+      }
+      merged.keywordTiers = Array.from(tiers.values());
+    }
+
+    return merged;
+  }
+
+  private static isNumericTable(value: unknown, keys: string[]): boolean {
+    return Array.isArray(value) && value.every(entry =>
+      typeof entry === 'object' && entry !== null &&
+      keys.every(key => typeof entry[key] === 'number' && Number.isFinite(entry[key]))
+    );
+  }
+}
@@ -0,0 +1,294 @@
+import { TimeZone } from '../utils/TimeZone';
+import { Logger } from '../utils/Logger';
+
+/**
+ * When a scheduled job runs
+ */
+export interface Schedule {
+  /**
+   * First run strictly after the given time
+   */
+  next(after: Date): Date;
+  describe(): string;
+}
+
+/**
+ * Runs every day at a wall-clock time in a time zone, e.g. 08:00 Asia/Jerusalem
+ */
+export class DailySchedule implements Schedule {
+  private constructor(
+    private readonly hour: number,
+    private readonly minute: number,
+    private readonly timeZone: string
+  ) {}
+
+  /**
+   * @param time 24-hour HH:MM
+   * @returns null if the time or time zone is invalid
+   */
+  public static parse(time: string, timeZone: string): DailySchedule | null {
+    const match = time.trim().match(/^([01]?\d|2[0-3]):([0-5]\d)$/);
+    if (!match || !TimeZone.isValid(timeZone)) {
+      return null;
+    }
+    return new DailySchedule(Number(match[1]), Number(match[2]), timeZone);
+  }
+
+  public next(after: Date): Date {
+    const today = TimeZone.getParts(after, this.timeZone);
+
+    // Today's run if it is still ahead, otherwise tomorrow's (two days covers a DST change at the run time)
+    for (let days = 0; ; days++) {
+      const candidate = TimeZone.toInstant(today.year, today.month, today.day + days, this.hour, this.minute, this.timeZone);
+      if (candidate > after) {
+        return candidate;
+      }
+    }
+  }
+
+  public describe(): string {
+    return `daily at ${String(this.hour).padStart(2, '0')}:${String(this.minute).padStart(2, '0')} ${this.timeZone}`;
+  }
+}
+
+/**
+ * Standard five-field cron expression (minute hour day-of-month month day-of-week) evaluated in a time zone
+ * Fields accept *, numbers, ranges (1-5), lists (1,3) and steps (*\/15, 1-5/2); day of week is 0-7 with 0 and 7 both Sunday.
+ * As in Vixie cron, when both day fields are restricted a day matching either one runs the job.
+ */
+export class CronSchedule implements Schedule {
+  private static readonly FIELD_RANGES: [number, number][] = [[0, 59], [0, 23], [1, 31], [1, 12], [0, 7]];
+  // Four years covers expressions that only match on 29 February
+  private static readonly MAX_DAYS_AHEAD = 4 * 366;
+
+  private constructor(
+    private readonly expression: string,
+    private readonly minutes: number[],
+    private readonly hours: number[],
+    private readonly daysOfMonth: number[],
+    private readonly months: number[],
+    private readonly daysOfWeek: number[],
+    private readonly timeZone: string
+  ) {}
+
+  /**
+   * @returns null if the expression is malformed, can never match, or the time zone is invalid
+   */
+  public static parse(expression: string, timeZone: string): CronSchedule | null {
+    const fields = expression.trim().split(/\s+/);
+    if (fields.length !== 5 || !TimeZone.isValid(timeZone)) {
+      return null;
+    }
+
+    const values = fields.map((field, i) => CronSchedule.parseField(field, ...CronSchedule.FIELD_RANGES[i]!));
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = values;
+    if (!minutes || !hours || !daysOfMonth || !months || !daysOfWeek) {
+      return null;
+    }
+
+    const schedule = new CronSchedule(
+      fields.join(' '),
+      minutes,
+      hours,
+      daysOfMonth,
+      months,
+      Array.from(new Set(daysOfWeek.map(day => day % 7))),
+      timeZone
+    );
+
+    try {
+      schedule.next(new Date());
+      return schedule;
+    } catch {
+      return null;
+    }
+  }
+
+  private static parseField(field: string, min: number, max: number): number[] | null {
+    const values = new Set<number>();
+
+    for (const part of field.split(',')) {
+      const match = part.match(/^(?:\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+      if (!match) {
+        return null;
+      }
+
+      const start = match[1] !== undefined ? Number(match[1]) : min;
+      // A bare number with a step (5/15) runs from that number to the end of the range
+      const end = match[2] !== undefined ? Number(match[2]) : match[1] === undefined || match[3] !== undefined ? max : start;
+      const step = match[3] !== undefined ? Number(match[3]) : 1;
+      if (start < min || end > max || start > end || step < 1) {
+        return null;
+      }
+
+      for (let value = start; value <= end; value += step) {
+        values.add(value);
+      }
+    }
+
+    return Array.from(values).sort((a, b) => a - b);
+  }
+
+  public next(after: Date): Date {
+    const today = TimeZone.getParts(after, this.timeZone);
+
+    for (let days = 0; days <= CronSchedule.MAX_DAYS_AHEAD; days++) {
+      // Date.UTC rolls day overflow into the next month and year
+      const date = new Date(Date.UTC(today.year, today.month - 1, today.day + days));
+      if (!this.matchesDay(date)) {
+        continue;
+      }
+
+      for (const hour of this.hours) {
+        if (days === 0 && hour < today.hour) {
+          continue;
+        }
+        for (const minute of this.minutes) {
+          const candidate = TimeZone.toInstant(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate(), hour, minute, this.timeZone);
+          if (candidate > after) {
+            return candidate;
+          }
+        }
+      }
+    }
+
+    throw new Error(`Cron expression "${this.expression}" never matches`);
+  }
+
+  public describe(): string {
+    return `cron "${this.expression}" ${this.timeZone}`;
+  }
+
+  private matchesDay(date: Date): boolean {
+    if (!this.months.includes(date.getUTCMonth() + 1)) {
+      return false;
+    }
+
+    const dayOfMonthRestricted = this.daysOfMonth.length < 31;
+    const dayOfWeekRestricted = this.daysOfWeek.length < 7;
+    const matchesDayOfMonth = this.daysOfMonth.includes(date.getUTCDate());
+    const matchesDayOfWeek = this.daysOfWeek.includes(date.getUTCDay());
+
+    if (dayOfMonthRestricted && dayOfWeekRestricted) {
+      return matchesDayOfMonth || matchesDayOfWeek;
+    }
+    return matchesDayOfMonth && matchesDayOfWeek;
+  }
+}
+
+interface ScheduledJob {
+  name: string;
+  schedule: Schedule;
+  task: () => Promise<void>;
+  timer: NodeJS.Timeout | null;
+  nextRunAt: Date | null;
+  lastRunAt: Date | null;
+}
+
+export interface ScheduledJobStatus {
+  name: string;
+  schedule: string;
+  nextRunAt: Date | null;
+  lastRunAt: Date | null;
+}
+
+/**
+ * Runs background jobs on their schedules
+ * A failing job is logged and still runs again at its next scheduled time
+ */
+export class Scheduler {
+  // setTimeout overflows past ~24.8 days, so longer waits are split
+  private static readonly MAX_TIMER_MS = 24 * 60 * 60 * 1000;
+  private jobs: Map<string, ScheduledJob> = new Map();
+  private started = false;
+
+  public add(name: string, schedule: Schedule, task: () => Promise<void>): void {
+    if (this.jobs.has(name)) {
+      throw new Error(`Scheduled job "${name}" already exists`);
+    }
+
+    const job: ScheduledJob = { name, schedule, task, timer: null, nextRunAt: null, lastRunAt: null };
+    this.jobs.set(name, job);
+    Logger.info(`🗓️ Scheduled ${name} (${schedule.describe()})`);
+
+    if (this.started) {
+      this.arm(job);
+    }
+  }
+
+  public start(): void {
+    this.started = true;
+    for (const job of this.jobs.values()) {
+      this.arm(job);
+    }
+  }
+
+  public stop(): void {
+    this.started = false;
+    for (const job of this.jobs.values()) {
+      if (job.timer) {
+        clearTimeout(job.timer);
+        job.timer = null;
+      }
+      job.nextRunAt = null;
+    }
+  }
+
+  /**
+   * Runs a job immediately, outside its schedule
+   * @returns false if there is no job with that name
+   */
+  public async run(name: string): Promise<boolean> {
+    const job = this.jobs.get(name);
+    if (!job) {
+      return false;
+    }
+
+    await this.execute(job);
+    return true;
+  }
+
+  public getJobs(): ScheduledJobStatus[] {
+    return Array.from(this.jobs.values()).map(job => ({
+      name: job.name,
+      schedule: job.schedule.describe(),
+      nextRunAt: job.nextRunAt,
+      lastRunAt: job.lastRunAt
+    }));
+  }
+
+  private arm(job: ScheduledJob): void {
+    if (job.timer) {
+      clearTimeout(job.timer);
+    }
+
+    const nextRunAt = job.nextRunAt && job.nextRunAt > new Date() ? job.nextRunAt : job.schedule.next(new Date());
+    job.nextRunAt = nextRunAt;
+
+    const delay = Math.min(nextRunAt.getTime() - Date.now(), Scheduler.MAX_TIMER_MS);
+    job.timer = setTimeout(() => {
+      job.timer = null;
+      if (Date.now() < nextRunAt.getTime()) {
+        this.arm(job);
+        return;
+      }
+
+      job.nextRunAt = null;
+      void this.execute(job).finally(() => {
+        if (this.started) {
+          this.arm(job);
+        }
+      });
+    }, Math.max(delay, 0));
+  }
+
+  private async execute(job: ScheduledJob): Promise<void> {
+    job.lastRunAt = new Date();
+    try {
+      Logger.info(`🗓️ Running scheduled job ${job.name}`);
+      await job.task();
+    } catch (error) {
+      Logger.error(`Scheduled job ${job.name} failed:`, error);
+    }
+  }
+}
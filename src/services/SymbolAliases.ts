@@ -0,0 +1,175 @@
+import * as fs from 'fs';
+import { Logger } from '../utils/Logger';
+import { SYMBOL_FORMAT } from '../config';
+
+export interface AliasMatch {
+  symbol: string;
+  alias: string; // Text as it appeared in the content
+  position: number;
+  fuzzy: boolean;
+}
+
+const HEBREW_LETTER = /[֐-׿]/;
+
+/**
+ * Dictionary of company names (English and Hebrew transliterations) that resolve to tickers,
+ * loaded from a JSON file of the form `{ "NVDA": ["Nvidia", "אנבידיה"] }`
+ * Each ticker key of 3+ letters also matches in lowercase ("nvda"); single-word aliases of
+ * 6+ characters also match with one typo ("Nvidea").
+ */
+export class SymbolAliases {
+  private static readonly MIN_LOWERCASE_TICKER_LENGTH = 3;
+  private static readonly MIN_FUZZY_LENGTH = 6;
+  private aliases: Map<string, string> = new Map(); // lowercased alias -> symbol
+  private pattern: RegExp | null = null;
+
+  /**
+   * @param filePath Optional alias file; a missing file means no aliases
+   */
+  constructor(private readonly filePath?: string) {
+    this.reload();
+  }
+
+  /**
+   * Re-reads the alias file. An invalid file is logged and the previous aliases are kept.
+   * @returns true if the alias file was (re)loaded
+   */
+  public reload(): boolean {
+    if (!this.filePath || !fs.existsSync(this.filePath)) {
+      return false;
+    }
+
+    try {
+      const parsed = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as unknown;
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new Error('Alias file must be an object mapping tickers to arrays of names');
+      }
+
+      this.setAliases(parsed as Record<string, string[]>);
+      Logger.info(`Loaded ${this.aliases.size} symbol aliases from ${this.filePath}`);
+      return true;
+    } catch (error) {
+      Logger.error(`Invalid symbol alias file at ${this.filePath}, keeping previous aliases:`, error);
+      return false;
+    }
+  }
+
+  public setAliases(aliasesBySymbol: Record<string, string[]>): void {
+    const aliases = new Map<string, string>();
+
+    for (const [rawSymbol, names] of Object.entries(aliasesBySymbol)) {
+      const symbol = rawSymbol.trim().replace(/^\$/, '').toUpperCase();
+      if (!SYMBOL_FORMAT.test(symbol)) {
+        Logger.warn(`Ignoring aliases for invalid ticker "${rawSymbol}"`);
+        continue;
+      }
+
+      if (symbol.length >= SymbolAliases.MIN_LOWERCASE_TICKER_LENGTH) {
+        aliases.set(symbol.toLowerCase(), symbol);
+      }
+      for (const name of Array.isArray(names) ? names : []) {
+        const normalized = SymbolAliases.normalize(String(name));
+        if (normalized) {
+          aliases.set(normalized, symbol);
+        }
+      }
+    }
+
+    this.aliases = aliases;
+    this.pattern = SymbolAliases.buildPattern(Array.from(aliases.keys()));
+  }
+
+  public getAliasCount(): number {
+    return this.aliases.size;
+  }
+
+  public resolve(name: string): string | null {
+    return this.aliases.get(SymbolAliases.normalize(name)) || null;
+  }
+
+  public findMatches(content: string): AliasMatch[] {
+    if (!this.pattern) {
+      return [];
+    }
+
+    const matches: AliasMatch[] = [];
+    const matchedRanges: Array<[number, number]> = [];
+
+    for (const match of content.matchAll(this.pattern)) {
+      const alias = match[1]!;
+      const position = match.index! + match[0].length - alias.length;
+      const symbol = this.aliases.get(SymbolAliases.normalize(alias));
+      if (symbol) {
+        matches.push({ symbol, alias, position, fuzzy: false });
+        matchedRanges.push([position, position + alias.length]);
+      }
+    }
+
+    // One-typo matches for long single words that weren't matched exactly
+    const fuzzyCandidates = Array.from(this.aliases.keys())
+      .filter(alias => alias.length >= SymbolAliases.MIN_FUZZY_LENGTH && !alias.includes(' '));
+    if (fuzzyCandidates.length > 0) {
+      for (const word of content.matchAll(/[\p{L}\p{N}]+/gu)) {
+        const position = word.index!;
+        const text = word[0].toLowerCase();
+        if (text.length < SymbolAliases.MIN_FUZZY_LENGTH - 1 || matchedRanges.some(([start, end]) => position < end && position + text.length > start)) {
+          continue;
+        }
+
+        const alias = fuzzyCandidates.find(candidate => SymbolAliases.isWithinOneEdit(text, candidate));
+        if (alias) {
+          matches.push({ symbol: this.aliases.get(alias)!, alias: word[0], position, fuzzy: true });
+        }
+      }
+    }
+
+    return matches.sort((a, b) => a.position - b.position);
+  }
+
+  private static normalize(name: string): string {
+    return name.trim().replace(/\s+/g, ' ').toLowerCase();
+  }
+
+  private static buildPattern(aliases: string[]): RegExp | null {
+    if (aliases.length === 0) {
+      return null;
+    }
+
+    const alternatives = [...aliases]
+      .sort((a, b) => b.length - a.length)
+      .map(alias => alias.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/ /g, '\\s+'));
+
+    // Hebrew names may carry attached prefixes (ו, ה, ב, ל, מ, ש) - e.g. "באנבידיה"
+    return new RegExp(`(?<![\\p{L}\\p{N}])(?:[והבלמש]{1,2}(?=${HEBREW_LETTER.source}))?(${alternatives.join('|')})(?![\\p{L}\\p{N}])`, 'giu');
+  }
+
+  private static isWithinOneEdit(a: string, b: string): boolean {
+    if (Math.abs(a.length - b.length) > 1 || a === b) {
+      return a === b;
+    }
+
+    let i = 0;
+    let j = 0;
+    let edits = 0;
+    while (i < a.length && j < b.length) {
+      if (a[i] === b[j]) {
+        i++;
+        j++;
+        continue;
+      }
+      if (++edits > 1) {
+        return false;
+      }
+      if (a.length > b.length) {
+        i++;
+      } else if (a.length < b.length) {
+        j++;
+      } else {
+        i++;
+        j++;
+      }
+    }
+
+    return edits + (a.length - i) + (b.length - j) <= 1;
+  }
+}
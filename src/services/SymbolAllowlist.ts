@@ -1,5 +1,6 @@
 import { Logger } from '../utils/Logger';
-import { DAYS_TO_SCRAPE } from '../config';
+import { DAYS_TO_SCRAPE, SYMBOL_FORMAT, TICKER_PATTERN_SOURCE } from '../config';
+import { SymbolListStore } from './SymbolListStore';
 
 export interface AllowlistEntry {
   symbol: string;
@@ -13,7 +14,10 @@ export class SymbolAllowlist {
   private allowlist: Map<string, AllowlistEntry> = new Map();
   private readonly MAX_AGE_MS = DAYS_TO_SCRAPE * 24 * 60 * 60 * 1000;
 
-  constructor() {
+  /**
+   * @param symbolLists Manager-maintained allowlist/blocklist that overrides entries learned from admin messages
+   */
+  constructor(private readonly symbolLists: SymbolListStore = SymbolListStore.getShared()) {
     this.startCleanupTask();
   }
 
@@ -35,8 +39,16 @@ export class SymbolAllowlist {
 
   /**
    * Check if a symbol is in the allowlist and still valid
+   * Manually allowlisted symbols never expire; blocklisted symbols are never allowed
    */
   public isSymbolAllowed(symbol: string): boolean {
+    if (this.symbolLists.isBlocked(symbol)) {
+      return false;
+    }
+    if (this.symbolLists.isAllowed(symbol)) {
+      return true;
+    }
+
     const entry = this.allowlist.get(symbol.toUpperCase());
     if (!entry) {
       return false;
@@ -53,6 +65,17 @@ export class SymbolAllowlist {
     return true;
   }
 
+  /**
+   * Check if a manager blocklisted the symbol
+   */
+  public isSymbolBlocked(symbol: string): boolean {
+    return this.symbolLists.isBlocked(symbol);
+  }
+
+  public getSymbolLists(): SymbolListStore {
+    return this.symbolLists;
+  }
+
   /**
    * Get allowlist entry for a symbol (for debugging/logging)
    */
@@ -169,14 +192,14 @@ export class SymbolAllowlist {
     const extractedSymbols: string[] = [];
     
     // Look for $SYMBOL patterns in the message
-    const symbolPattern = /\$([A-Z]{1,5})(?![A-Z])/g;
+    const symbolPattern = new RegExp(`\\$(${TICKER_PATTERN_SOURCE})(?![A-Z])`, 'g');
     let match;
     
     while ((match = symbolPattern.exec(content)) !== null) {
       const symbol = match[1]!;
       
-      // Basic validation - must be valid stock symbol format
-      if (this.isValidSymbolFormat(symbol)) {
+      // Basic validation - must be valid stock symbol format and not blocklisted
+      if (this.isValidSymbolFormat(symbol) && !this.symbolLists.isBlocked(symbol)) {
         extractedSymbols.push(symbol);
         this.addSymbol(symbol, adminId, messageId, content);
         Logger.debug(`Extracted and added symbol ${symbol} from admin message`);
@@ -191,16 +214,8 @@ export class SymbolAllowlist {
    * Check if symbol has valid format for stock symbols
    */
   private isValidSymbolFormat(symbol: string): boolean {
-    // Must be 1-5 uppercase letters
-    if (symbol.length < 1 || symbol.length > 5) {
-      return false;
-    }
-
-    if (!/^[A-Z]+$/.test(symbol)) {
-      return false;
-    }
-
-    return true;
+    // 1-5 uppercase letters, optionally with a class/exchange suffix (BRK.B, RDS-A, TEVA.TA) or a crypto pair (BTCUSD)
+    return SYMBOL_FORMAT.test(symbol);
   }
 
   /**
@@ -1,23 +1,36 @@
 import { StockSymbol } from '../types';
-import { SYMBOL_PATTERN, COMMON_WORDS, HEBREW_KEYWORDS } from '../config';
+import { SYMBOL_PATTERN, SYMBOL_FORMAT, COMMON_WORDS, HEBREW_KEYWORDS, ENV, ALIAS_CONFIDENCE, FUZZY_ALIAS_CONFIDENCE } from '../config';
 import { Logger } from '../utils/Logger';
 import { TopPicksParser, TopPicksResult } from './TopPicksParser';
 import { SymbolAllowlist } from './SymbolAllowlist';
 import { TechnicalContextDetector } from './TechnicalContextDetector';
+import { SymbolAliases } from './SymbolAliases';
+import { TickerUniverse } from './TickerUniverse';
 import { Client, TextChannel } from 'discord.js';
 
 export class SymbolDetector {
   private topPicksParser: TopPicksParser;
   private symbolAllowlist: SymbolAllowlist;
   private technicalDetector: TechnicalContextDetector;
+  private symbolAliases: SymbolAliases;
+  private tickerUniverse: TickerUniverse;
   private client: Client | undefined;
   private analysisChannels: string[] = [];
   private discussionChannels: string[] = [];
 
-  constructor(client?: Client, analysisChannels?: string[], discussionChannels?: string[], symbolAllowlist?: SymbolAllowlist) {
-    this.topPicksParser = new TopPicksParser();
+  constructor(
+    client?: Client,
+    analysisChannels?: string[],
+    discussionChannels?: string[],
+    symbolAllowlist?: SymbolAllowlist,
+    symbolAliases?: SymbolAliases,
+    tickerUniverse?: TickerUniverse
+  ) {
     this.symbolAllowlist = symbolAllowlist || new SymbolAllowlist();
+    this.topPicksParser = new TopPicksParser(this.symbolAllowlist);
     this.technicalDetector = new TechnicalContextDetector();
+    this.symbolAliases = symbolAliases || new SymbolAliases(ENV.SYMBOL_ALIASES_PATH);
+    this.tickerUniverse = tickerUniverse || TickerUniverse.getShared();
     this.client = client;
     this.analysisChannels = analysisChannels || [];
     this.discussionChannels = discussionChannels || [];
@@ -72,7 +85,7 @@ export class SymbolDetector {
         } else {
           Logger.debug(`Symbol "${symbol}" rejected due to low confidence: ${confidence.toFixed(3)}`);
         }
-      } else if (symbol.length === 1 && /^[A-Z]$/.test(symbol)) {
+      } else if (symbol.length === 1 && /^[A-Z]$/.test(symbol) && !this.isExcluded(symbol)) {
         // Collect rejected single letters for further analysis
         rejectedSingleLetters.push({ symbol, position });
       }
@@ -139,7 +152,7 @@ export class SymbolDetector {
   }
 
   public async detectSymbolsWithContext(content: string, isTopPicks: boolean = false): Promise<StockSymbol[]> {
-    Logger.debug(`Starting three-pass symbol detection for content: "${content.substring(0, 100)}..."`);
+    Logger.debug(`Starting four-pass symbol detection for content: "${content.substring(0, 100)}..."`);
     
     // Pass 1: Standard detection
     const symbols: StockSymbol[] = [];
@@ -162,7 +175,7 @@ export class SymbolDetector {
         } else {
           Logger.debug(`Symbol "${symbol}" rejected due to low confidence: ${confidence.toFixed(3)}`);
         }
-      } else if (symbol.length === 1 && /^[A-Z]$/.test(symbol)) {
+      } else if (symbol.length === 1 && /^[A-Z]$/.test(symbol) && !this.isExcluded(symbol)) {
         // Collect rejected single letters for further analysis
         rejectedSingleLetters.push({ symbol, position });
       }
@@ -193,6 +206,23 @@ export class SymbolDetector {
       symbols.push(...historicalResults);
     }
 
+    // Pass 4: Company names and lowercase tickers from the alias dictionary
+    // Not part of detectSymbolsFromAnalysis, so first-line indexing never picks up a name mention
+    // Alias targets go through the same checks as typed tickers (blocklist, ticker universe, common words)
+    for (const match of this.symbolAliases.findMatches(content)) {
+      if (!this.isValidSymbol(match.symbol)) {
+        Logger.debug(`Pass 4: Alias "${match.alias}" rejected - "${match.symbol}" is not a valid symbol`);
+        continue;
+      }
+      symbols.push({
+        symbol: match.symbol,
+        confidence: match.fuzzy ? FUZZY_ALIAS_CONFIDENCE : ALIAS_CONFIDENCE,
+        position: match.position,
+        priority: 'regular'
+      });
+      Logger.debug(`Pass 4: Added "${match.symbol}" via ${match.fuzzy ? 'fuzzy ' : ''}alias "${match.alias}"`);
+    }
+
     const finalSymbols = this.deduplicateAndSort(symbols);
     Logger.debug(`Final detection result: ${finalSymbols.map(s => s.symbol).join(', ')}`);
     
@@ -206,12 +236,14 @@ export class SymbolDetector {
   }
 
   private isValidSymbol(symbol: string): boolean {
-    // Basic format validation
-    if (symbol.length < 1 || symbol.length > 5) {
+    // Basic format validation (plain tickers, class shares, exchange suffixes and crypto pairs)
+    if (!SYMBOL_FORMAT.test(symbol)) {
       return false;
     }
 
-    if (!/^[A-Z]+$/.test(symbol)) {
+    // Managers' blocklist wins over everything else
+    if (this.symbolAllowlist.isSymbolBlocked(symbol)) {
+      Logger.debug(`Symbol "${symbol}" rejected: blocklisted`);
       return false;
     }
 
@@ -220,6 +252,12 @@ export class SymbolDetector {
       return true;
     }
 
+    // In strict mode, tickers missing from the ticker universe file are never symbols
+    if (this.tickerUniverse.rejects(symbol)) {
+      Logger.debug(`Symbol "${symbol}" rejected: not in the ticker universe`);
+      return false;
+    }
+
     // Check against old COMMON_WORDS for backward compatibility with obvious non-symbols
     // But exclude symbols that could be legitimate stocks (now handled by allowlist)
     const filteredCommonWords = new Set([...COMMON_WORDS]);
@@ -240,6 +278,13 @@ export class SymbolDetector {
     return true;
   }
 
+  /**
+   * Blocklisted by a manager, or rejected by the ticker universe in strict mode
+   */
+  private isExcluded(symbol: string): boolean {
+    return this.symbolAllowlist.isSymbolBlocked(symbol) || this.tickerUniverse.rejects(symbol);
+  }
+
   private calculateConfidence(symbol: string, content: string, position: number): number {
     let confidence = 0.5;
 
@@ -247,6 +292,13 @@ export class SymbolDetector {
     if (this.symbolAllowlist.isSymbolAllowed(symbol)) {
       confidence += 0.4;
       Logger.debug(`Symbol "${symbol}" gets allowlist bonus`);
+    } else {
+      // Advisory mode: tickers missing from the ticker universe file are less likely to be symbols
+      const unknownTickerPenalty = this.tickerUniverse.getConfidencePenalty(symbol);
+      if (unknownTickerPenalty > 0) {
+        confidence -= unknownTickerPenalty;
+        Logger.debug(`Symbol "${symbol}" gets unknown ticker penalty: ${unknownTickerPenalty}`);
+      }
     }
 
     // Check for technical context penalty - but only if symbol is not strongly indicated
@@ -524,6 +576,20 @@ export class SymbolDetector {
     return this.symbolAllowlist;
   }
 
+  /**
+   * Get the company name alias dictionary (for external services)
+   */
+  public getSymbolAliases(): SymbolAliases {
+    return this.symbolAliases;
+  }
+
+  /**
+   * Get the ticker universe instance (for external services)
+   */
+  public getTickerUniverse(): TickerUniverse {
+    return this.tickerUniverse;
+  }
+
   /**
    * Get the technical context detector instance (for external services)
    */
@@ -0,0 +1,154 @@
+import * as path from 'path';
+import { ENV } from '../config';
+import { Logger } from '../utils/Logger';
+import { JsonFile } from '../utils/JsonFile';
+import { AllowlistEntry } from './SymbolAllowlist';
+
+export type SymbolListType = 'allow' | 'block';
+
+/**
+ * A symbol managers added to the allowlist or blocklist by hand
+ * Unlike entries learned from `$SYMBOL` in admin messages, these never expire
+ */
+export interface SymbolListEntry extends Pick<AllowlistEntry, 'symbol' | 'timestamp' | 'adminId'> {
+  reason: string;
+}
+
+export type SymbolListAddResult = 'added' | 'updated' | 'moved';
+
+interface SerializedSymbolListEntry {
+  symbol: string;
+  timestamp: string;
+  adminId: string;
+  reason: string;
+}
+
+interface SerializedSymbolLists {
+  version: number;
+  allow: SerializedSymbolListEntry[];
+  block: SerializedSymbolListEntry[];
+}
+
+/**
+ * Manager-maintained allowlist and blocklist, consulted by SymbolAllowlist on every lookup
+ * so changes apply immediately to symbol detection and top picks parsing.
+ * A symbol is on at most one list; adding it to one list removes it from the other.
+ */
+export class SymbolListStore {
+  private static readonly VERSION = 1;
+  private static shared: SymbolListStore | null = null;
+  private lists: Record<SymbolListType, Map<string, SymbolListEntry>> = { allow: new Map(), block: new Map() };
+  private file: JsonFile<SerializedSymbolLists> | null;
+
+  /**
+   * @param filePath JSON file to persist to; omit for an in-memory store
+   */
+  constructor(filePath?: string) {
+    this.file = filePath ? new JsonFile(filePath) : null;
+  }
+
+  /**
+   * Lists of the env-configured guild, persisted under DATA_DIR; the default for allowlists created without their own
+   * Guilds configured through /setup each get their own store
+   */
+  public static getShared(): SymbolListStore {
+    if (!SymbolListStore.shared) {
+      SymbolListStore.shared = new SymbolListStore(path.join(ENV.DATA_DIR, 'symbol-lists.json'));
+    }
+    return SymbolListStore.shared;
+  }
+
+  public async load(): Promise<void> {
+    if (!this.file) {
+      return;
+    }
+
+    try {
+      const parsed = await this.file.read();
+      if (!parsed) {
+        Logger.info(`No persisted symbol lists found at ${this.file.filePath}`);
+        return;
+      }
+
+      if (parsed.version !== SymbolListStore.VERSION) {
+        Logger.warn(`Ignoring persisted symbol lists with unsupported version ${parsed.version}`);
+        return;
+      }
+
+      for (const type of ['allow', 'block'] as const) {
+        this.lists[type] = new Map((parsed[type] || []).map(entry => [
+          entry.symbol,
+          { symbol: entry.symbol, timestamp: new Date(entry.timestamp), adminId: entry.adminId, reason: entry.reason || '' }
+        ]));
+      }
+
+      Logger.info(`Loaded ${this.lists.allow.size} allowlisted and ${this.lists.block.size} blocklisted symbols`);
+    } catch (error) {
+      Logger.error(`Failed to load symbol lists from ${this.file.filePath}:`, error);
+    }
+  }
+
+  /**
+   * Adds the symbol to a list, or refreshes who added it and why if it is already there
+   */
+  public async add(type: SymbolListType, symbol: string, adminId: string, reason: string): Promise<SymbolListAddResult> {
+    const normalized = symbol.toUpperCase();
+    const otherType: SymbolListType = type === 'allow' ? 'block' : 'allow';
+    const existed = this.lists[type].has(normalized);
+    const moved = this.lists[otherType].delete(normalized);
+
+    this.lists[type].set(normalized, { symbol: normalized, timestamp: new Date(), adminId, reason });
+    await this.persist();
+
+    Logger.info(`${adminId} added ${normalized} to the ${type}list${reason ? `: ${reason}` : ''}`);
+    return moved ? 'moved' : existed ? 'updated' : 'added';
+  }
+
+  /**
+   * @returns false if the symbol was not on the list
+   */
+  public async remove(type: SymbolListType, symbol: string): Promise<boolean> {
+    if (!this.lists[type].delete(symbol.toUpperCase())) {
+      return false;
+    }
+
+    await this.persist();
+    Logger.info(`Removed ${symbol.toUpperCase()} from the ${type}list`);
+    return true;
+  }
+
+  public get(type: SymbolListType, symbol: string): SymbolListEntry | null {
+    return this.lists[type].get(symbol.toUpperCase()) || null;
+  }
+
+  public list(type: SymbolListType): SymbolListEntry[] {
+    return Array.from(this.lists[type].values()).sort((a, b) => a.symbol.localeCompare(b.symbol));
+  }
+
+  public isAllowed(symbol: string): boolean {
+    return this.lists.allow.has(symbol.toUpperCase());
+  }
+
+  public isBlocked(symbol: string): boolean {
+    return this.lists.block.has(symbol.toUpperCase());
+  }
+
+  private async persist(): Promise<void> {
+    if (!this.file) {
+      return;
+    }
+
+    const serialize = (type: SymbolListType): SerializedSymbolListEntry[] => this.list(type).map(entry => ({
+      symbol: entry.symbol,
+      timestamp: entry.timestamp.toISOString(),
+      adminId: entry.adminId,
+      reason: entry.reason
+    }));
+
+    try {
+      await this.file.write({ version: SymbolListStore.VERSION, allow: serialize('allow'), block: serialize('block') });
+    } catch (error) {
+      Logger.error(`Failed to persist symbol lists to ${this.file.filePath}:`, error);
+    }
+  }
+}
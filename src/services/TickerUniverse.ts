@@ -0,0 +1,138 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { TickerUniverseMode } from '../types';
+import { ENV, SYMBOL_FORMAT, UNKNOWN_TICKER_PENALTY } from '../config';
+import { Logger } from '../utils/Logger';
+
+const SYMBOL_COLUMNS = ['symbol', 'ticker', 'act symbol', 'code'];
+const DELIMITERS = ['|', '\t', ',', ';'];
+
+/**
+ * Reference list of known tickers (e.g. an exchange listings file) consulted by symbol validation.
+ * Accepts a delimited file with a `symbol`/`ticker` column (NASDAQ `|` listings, CSV, TSV), one ticker
+ * per line, or a JSON array of tickers. Without a loaded file every ticker is treated as known.
+ */
+export class TickerUniverse {
+  private static shared: TickerUniverse | null = null;
+  private tickers: Set<string> = new Set();
+
+  /**
+   * @param filePath Optional listings file; a missing file leaves validation unchanged
+   */
+  constructor(public readonly filePath?: string, private readonly mode: TickerUniverseMode = 'advisory') {
+    this.reload();
+  }
+
+  /**
+   * Instance built from ENV that all symbol detectors share, so `/symbols reload` reaches every guild
+   */
+  public static getShared(): TickerUniverse {
+    if (!TickerUniverse.shared) {
+      TickerUniverse.shared = new TickerUniverse(ENV.TICKER_UNIVERSE_PATH, ENV.TICKER_UNIVERSE_MODE);
+    }
+    return TickerUniverse.shared;
+  }
+
+  /**
+   * Re-reads the listings file. A missing or invalid file is logged and the previous tickers are kept.
+   * @returns true if the listings file was (re)loaded
+   */
+  public reload(): boolean {
+    if (!this.filePath || !fs.existsSync(this.filePath)) {
+      return false;
+    }
+
+    try {
+      const raw = fs.readFileSync(this.filePath, 'utf8');
+      const tickers = path.extname(this.filePath).toLowerCase() === '.json'
+        ? TickerUniverse.parseJson(raw)
+        : TickerUniverse.parseDelimited(raw);
+      if (tickers.length === 0) {
+        throw new Error('No valid tickers found');
+      }
+
+      this.setTickers(tickers);
+      Logger.info(`Loaded ${this.tickers.size} tickers (${this.mode} mode) from ${this.filePath}`);
+      return true;
+    } catch (error) {
+      Logger.error(`Invalid ticker universe file at ${this.filePath}, keeping previous tickers:`, error);
+      return false;
+    }
+  }
+
+  public setTickers(tickers: Iterable<string>): void {
+    const valid = new Set<string>();
+    for (const ticker of tickers) {
+      const symbol = TickerUniverse.normalize(ticker);
+      if (SYMBOL_FORMAT.test(symbol)) {
+        valid.add(symbol);
+      }
+    }
+    this.tickers = valid;
+  }
+
+  public getMode(): TickerUniverseMode {
+    return this.mode;
+  }
+
+  public getTickerCount(): number {
+    return this.tickers.size;
+  }
+
+  public isLoaded(): boolean {
+    return this.tickers.size > 0;
+  }
+
+  /**
+   * True when no listings are loaded or the ticker is listed
+   */
+  public isKnown(symbol: string): boolean {
+    return !this.isLoaded() || this.tickers.has(TickerUniverse.normalize(symbol));
+  }
+
+  /**
+   * True if strict mode should reject the ticker outright
+   */
+  public rejects(symbol: string): boolean {
+    return this.mode === 'strict' && !this.isKnown(symbol);
+  }
+
+  /**
+   * Confidence to subtract for an unknown ticker in advisory mode
+   */
+  public getConfidencePenalty(symbol: string): number {
+    return this.mode === 'advisory' && !this.isKnown(symbol) ? UNKNOWN_TICKER_PENALTY : 0;
+  }
+
+  private static parseDelimited(raw: string): string[] {
+    const lines = raw.split(/\r?\n/).filter(line => line.trim().length > 0);
+    const firstLine = lines[0] || '';
+    const delimiter = DELIMITERS.find(candidate => firstLine.includes(candidate));
+    const splitLine = (line: string) => (delimiter ? line.split(delimiter) : [line]).map(cell => TickerUniverse.unquote(cell));
+
+    // Use the symbol column when the file has a header, otherwise the first column of every line
+    const header = splitLine(firstLine).map(cell => cell.toLowerCase());
+    const headerIndex = header.findIndex(column => SYMBOL_COLUMNS.includes(column));
+    const rows = headerIndex >= 0 ? lines.slice(1) : lines;
+    const symbolIndex = Math.max(headerIndex, 0);
+
+    // Footer lines such as NASDAQ's "File Creation Time" fail the ticker format and are dropped
+    return rows.map(line => splitLine(line)[symbolIndex] || '').filter(ticker => SYMBOL_FORMAT.test(TickerUniverse.normalize(ticker)));
+  }
+
+  private static parseJson(raw: string): string[] {
+    const parsed = JSON.parse(raw) as unknown;
+    if (!Array.isArray(parsed)) {
+      throw new Error('Ticker universe JSON must be an array of tickers');
+    }
+    return parsed.filter((ticker): ticker is string => typeof ticker === 'string' && SYMBOL_FORMAT.test(TickerUniverse.normalize(ticker)));
+  }
+
+  private static normalize(ticker: string): string {
+    return ticker.trim().replace(/^\$/, '').toUpperCase();
+  }
+
+  private static unquote(cell: string): string {
+    return cell.trim().replace(/^"(.*)"$/, '$1').trim();
+  }
+}
@@ -0,0 +1,173 @@
+import { TopPicksSnapshot } from '../types';
+import { Logger } from '../utils/Logger';
+import { JsonFile } from '../utils/JsonFile';
+import { ENV } from '../config';
+
+export interface TopPicksDay extends TopPicksSnapshot {
+  date: string; // YYYY-MM-DD in the archive's time zone
+}
+
+export interface TopPicksListDiff {
+  added: string[];
+  dropped: string[];
+}
+
+export interface TopPicksDiff {
+  long: TopPicksListDiff;
+  short: TopPicksListDiff;
+}
+
+interface SerializedTopPicksDay extends Omit<TopPicksDay, 'timestamp'> {
+  timestamp: string;
+}
+
+interface SerializedTopPicksArchive {
+  version: number;
+  days: Record<string, SerializedTopPicksDay[]>; // guildId -> days, oldest first
+}
+
+/**
+ * Daily snapshots of the parsed top picks lists, one per guild per day
+ * A later top picks message on the same day replaces that day's snapshot
+ */
+export class TopPicksArchive {
+  public static readonly MAX_DAYS_PER_GUILD = 365;
+  private static readonly VERSION = 1;
+  private days: Map<string, TopPicksDay[]> = new Map(); // guildId -> days, oldest first
+  private file: JsonFile<SerializedTopPicksArchive> | null;
+
+  /**
+   * @param filePath JSON file to persist to; omit for an in-memory archive
+   * @param timeZone IANA time zone that decides which day a message belongs to
+   */
+  constructor(filePath?: string, private readonly timeZone: string = ENV.TIMEZONE) {
+    this.file = filePath ? new JsonFile(filePath) : null;
+  }
+
+  public async load(): Promise<void> {
+    if (!this.file) {
+      return;
+    }
+
+    try {
+      const parsed = await this.file.read();
+      if (!parsed) {
+        Logger.info(`No persisted top picks archive found at ${this.file.filePath}`);
+        return;
+      }
+
+      if (parsed.version !== TopPicksArchive.VERSION) {
+        Logger.warn(`Ignoring persisted top picks archive with unsupported version ${parsed.version}`);
+        return;
+      }
+
+      this.days.clear();
+      for (const [guildId, days] of Object.entries(parsed.days || {})) {
+        this.days.set(guildId, days.map(day => ({ ...day, timestamp: new Date(day.timestamp) })));
+      }
+
+      Logger.info(`Loaded top picks archive for ${this.days.size} guild(s)`);
+    } catch (error) {
+      Logger.error(`Failed to load top picks archive from ${this.file.filePath}:`, error);
+    }
+  }
+
+  public async record(snapshot: TopPicksSnapshot): Promise<TopPicksDay> {
+    const day: TopPicksDay = { ...snapshot, date: this.toDateKey(snapshot.timestamp) };
+    const days = this.days.get(snapshot.guildId) || [];
+
+    const existingIndex = days.findIndex(d => d.date === day.date);
+    if (existingIndex >= 0) {
+      if (days[existingIndex]!.timestamp > day.timestamp) {
+        // An older message (e.g. re-processed after an edit) doesn't replace the day's latest list
+        return days[existingIndex]!;
+      }
+      days[existingIndex] = day;
+    } else {
+      days.push(day);
+      days.sort((a, b) => a.date.localeCompare(b.date));
+      days.splice(0, Math.max(0, days.length - TopPicksArchive.MAX_DAYS_PER_GUILD));
+    }
+
+    this.days.set(snapshot.guildId, days);
+    Logger.info(`Archived top picks for ${day.date}: ${day.long.length} long, ${day.short.length} short (message ${day.messageId})`);
+
+    await this.persist();
+    return day;
+  }
+
+  public getDay(guildId: string, date: string): TopPicksDay | null {
+    return this.days.get(guildId)?.find(day => day.date === date) || null;
+  }
+
+  public getLatest(guildId: string): TopPicksDay | null {
+    const days = this.days.get(guildId) || [];
+    return days[days.length - 1] || null;
+  }
+
+  /**
+   * The most recent archived day strictly before the given date
+   */
+  public getPrevious(guildId: string, date: string): TopPicksDay | null {
+    const days = this.days.get(guildId) || [];
+    for (let i = days.length - 1; i >= 0; i--) {
+      if (days[i]!.date < date) {
+        return days[i]!;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * The most recent archived days for a guild, oldest first
+   */
+  public getRecentDays(guildId: string, limit: number): TopPicksDay[] {
+    return (this.days.get(guildId) || []).slice(-limit);
+  }
+
+  /**
+   * Archived dates for a guild, newest first
+   */
+  public getDates(guildId: string): string[] {
+    return (this.days.get(guildId) || []).map(day => day.date).reverse();
+  }
+
+  public static diff(previous: TopPicksDay, current: TopPicksDay): TopPicksDiff {
+    const diffList = (before: string[], after: string[]): TopPicksListDiff => ({
+      added: after.filter(symbol => !before.includes(symbol)),
+      dropped: before.filter(symbol => !after.includes(symbol))
+    });
+
+    return {
+      long: diffList(previous.long, current.long),
+      short: diffList(previous.short, current.short)
+    };
+  }
+
+  public toDateKey(date: Date): string {
+    // en-CA formats dates as YYYY-MM-DD
+    return new Intl.DateTimeFormat('en-CA', {
+      timeZone: this.timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit'
+    }).format(date);
+  }
+
+  private async persist(): Promise<void> {
+    if (!this.file) {
+      return;
+    }
+
+    const days: Record<string, SerializedTopPicksDay[]> = {};
+    for (const [guildId, guildDays] of this.days) {
+      days[guildId] = guildDays.map(day => ({ ...day, timestamp: day.timestamp.toISOString() }));
+    }
+
+    try {
+      await this.file.write({ version: TopPicksArchive.VERSION, days });
+    } catch (error) {
+      Logger.error(`Failed to persist top picks archive to ${this.file.filePath}:`, error);
+    }
+  }
+}
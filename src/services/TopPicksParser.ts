@@ -1,4 +1,6 @@
 import { Logger } from '../utils/Logger';
+import { SYMBOL_FORMAT, TICKER_PATTERN_SOURCE } from '../config';
+import { SymbolAllowlist } from './SymbolAllowlist';
 
 export interface TopPicksResult {
   longPicks: string[];
@@ -6,6 +8,11 @@ export interface TopPicksResult {
 }
 
 export class TopPicksParser {
+  /**
+   * @param symbolAllowlist Optional allowlist; blocklisted symbols are dropped and allowlisted ones bypass the excluded words
+   */
+  constructor(private readonly symbolAllowlist?: SymbolAllowlist) {}
+
   public parseTopPicks(content: string): TopPicksResult {
     const result: TopPicksResult = {
       longPicks: [],
@@ -74,8 +81,8 @@ export class TopPicksParser {
       return [];
     }
 
-    // Extract all potential symbols (1-5 uppercase letters)
-    const symbolPattern = /\b([A-Z]{1,5})\b/g;
+    // Extract all potential symbols (tickers, class shares, exchange suffixes and crypto pairs)
+    const symbolPattern = new RegExp(`(?<![A-Za-z0-9])(${TICKER_PATTERN_SOURCE})(?![A-Za-z0-9])`, 'g');
     const allSymbols: string[] = [];
     const validSymbols: string[] = [];
     const rejectedSingleLetters: string[] = [];
@@ -89,7 +96,7 @@ export class TopPicksParser {
       if (this.isValidStockSymbol(symbol)) {
         validSymbols.push(symbol);
         Logger.debug(`Found valid symbol: "${symbol}"`);
-      } else if (symbol.length === 1 && /^[A-Z]$/.test(symbol)) {
+      } else if (symbol.length === 1 && /^[A-Z]$/.test(symbol) && !this.symbolAllowlist?.isSymbolBlocked(symbol)) {
         rejectedSingleLetters.push(symbol);
         Logger.debug(`Found rejected single letter: "${symbol}"`);
       }
@@ -123,19 +130,24 @@ export class TopPicksParser {
       'SEC', 'FDA', 'API', 'URL', 'PDF', 'FAQ', 'LONG', 'SHORT', 'AVWAP'
     ]);
 
-    if (excludeWords.has(symbol)) {
-      Logger.debug(`Symbol "${symbol}" rejected: in exclude words`);
+    if (this.symbolAllowlist?.isSymbolBlocked(symbol)) {
+      Logger.debug(`Symbol "${symbol}" rejected: blocklisted`);
       return false;
     }
 
-    // Must be 1-5 uppercase letters
-    if (symbol.length < 1 || symbol.length > 5) {
-      Logger.debug(`Symbol "${symbol}" rejected: invalid length (${symbol.length})`);
+    if (this.symbolAllowlist?.isSymbolAllowed(symbol) && SYMBOL_FORMAT.test(symbol)) {
+      Logger.debug(`Symbol "${symbol}" accepted: allowlisted`);
+      return true;
+    }
+
+    if (excludeWords.has(symbol)) {
+      Logger.debug(`Symbol "${symbol}" rejected: in exclude words`);
       return false;
     }
 
-    if (!/^[A-Z]+$/.test(symbol)) {
-      Logger.debug(`Symbol "${symbol}" rejected: not all uppercase letters`);
+    // Must be 1-5 uppercase letters, optionally with a class/exchange suffix or crypto quote currency
+    if (!SYMBOL_FORMAT.test(symbol)) {
+      Logger.debug(`Symbol "${symbol}" rejected: invalid ticker format`);
       return false;
     }
 
@@ -0,0 +1,138 @@
+import { StockSymbol } from '../types';
+import { PriceProvider, DailyClose } from './PriceProvider';
+import { TopPicksDay } from './TopPicksArchive';
+import { PERFORMANCE_HORIZONS } from '../config';
+
+export type TopPickPriority = Exclude<StockSymbol['priority'], 'regular'>;
+
+export interface PickReturn {
+  symbol: string;
+  priority: TopPickPriority;
+  pickDate: string;
+  entryDate: string;
+  entryPrice: number;
+  returns: Record<number, number | null>; // horizon in trading days -> return, null until enough closes exist
+}
+
+export interface HorizonStats {
+  horizon: number;
+  count: number;
+  averageReturn: number | null;
+  winRate: number | null;
+}
+
+export interface PrioritySummary {
+  priority: TopPickPriority;
+  picks: number; // picks with an entry price
+  horizons: HorizonStats[];
+}
+
+export interface PerformanceReport {
+  from: string | null;
+  to: string | null;
+  days: number;
+  summaries: Record<TopPickPriority, PrioritySummary>;
+  picks: PickReturn[];
+  missingPrices: string[]; // symbols picked with no closing price on or after the pick date
+}
+
+/**
+ * Forward returns of archived top picks, measured in trading days from the close on the pick date
+ * (or the next close when the pick was posted on a non-trading day). Short returns are inverted so
+ * a positive return always means the pick worked.
+ */
+export class TopPicksPerformance {
+  constructor(
+    private readonly priceProvider: PriceProvider,
+    private readonly horizons: number[] = PERFORMANCE_HORIZONS
+  ) {}
+
+  public getHorizons(): number[] {
+    return this.horizons;
+  }
+
+  public async buildReport(days: TopPicksDay[]): Promise<PerformanceReport> {
+    const picks: PickReturn[] = [];
+    const missingPrices = new Set<string>();
+    const closesCache = new Map<string, DailyClose[]>();
+
+    for (const day of days) {
+      const dayPicks: Array<[string, TopPickPriority]> = [
+        ...day.long.map(symbol => [symbol, 'top_long'] as [string, TopPickPriority]),
+        ...day.short.map(symbol => [symbol, 'top_short'] as [string, TopPickPriority])
+      ];
+
+      for (const [symbol, priority] of dayPicks) {
+        let closes = closesCache.get(symbol);
+        if (!closes) {
+          closes = await this.priceProvider.getDailyCloses(symbol);
+          closesCache.set(symbol, closes);
+        }
+
+        const pick = this.computePickReturn(symbol, priority, day.date, closes);
+        if (pick) {
+          picks.push(pick);
+        } else {
+          missingPrices.add(symbol);
+        }
+      }
+    }
+
+    return {
+      from: days[0]?.date ?? null,
+      to: days[days.length - 1]?.date ?? null,
+      days: days.length,
+      summaries: {
+        top_long: this.summarize('top_long', picks),
+        top_short: this.summarize('top_short', picks)
+      },
+      picks,
+      missingPrices: Array.from(missingPrices).sort()
+    };
+  }
+
+  /**
+   * @returns null when there is no close on or after the pick date
+   */
+  public computePickReturn(symbol: string, priority: TopPickPriority, pickDate: string, closes: DailyClose[]): PickReturn | null {
+    const entryIndex = closes.findIndex(close => close.date >= pickDate);
+    if (entryIndex < 0) {
+      return null;
+    }
+
+    const entry = closes[entryIndex]!;
+    const returns: Record<number, number | null> = {};
+    for (const horizon of this.horizons) {
+      const exit = closes[entryIndex + horizon];
+      if (!exit) {
+        returns[horizon] = null;
+        continue;
+      }
+      const change = (exit.close - entry.close) / entry.close;
+      returns[horizon] = priority === 'top_short' ? -change : change;
+    }
+
+    return { symbol, priority, pickDate, entryDate: entry.date, entryPrice: entry.close, returns };
+  }
+
+  private summarize(priority: TopPickPriority, picks: PickReturn[]): PrioritySummary {
+    const priorityPicks = picks.filter(pick => pick.priority === priority);
+
+    return {
+      priority,
+      picks: priorityPicks.length,
+      horizons: this.horizons.map(horizon => {
+        const returns = priorityPicks
+          .map(pick => pick.returns[horizon])
+          .filter((value): value is number => typeof value === 'number');
+
+        return {
+          horizon,
+          count: returns.length,
+          averageReturn: returns.length > 0 ? returns.reduce((sum, value) => sum + value, 0) / returns.length : null,
+          winRate: returns.length > 0 ? returns.filter(value => value > 0).length / returns.length : null
+        };
+      })
+    };
+  }
+}
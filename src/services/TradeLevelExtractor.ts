@@ -0,0 +1,138 @@
+import { AnalysisData, TradeLevels, TradeLevelType } from '../types';
+import { Logger } from '../utils/Logger';
+
+interface LevelKeyword {
+  type: TradeLevelType;
+  pattern: RegExp;
+}
+
+interface KeywordMatch {
+  type: TradeLevelType;
+  start: number;
+  end: number;
+}
+
+// Optional Hebrew prefixes attached to a keyword: ו (and), ה (the), ב (at), ל (to), מ (from), ש (that)
+const HEBREW_PREFIX = '[והבלמש]{0,2}';
+
+// Short abbreviations (SL, TP, PT, RES) are common inside ordinary words and text, so they only count
+// as whole words directly followed by a number, e.g. "SL 172" or "TP: 210"; a numbered one ("TP1 210") counts too
+const abbreviation = (letters: string): string => `\\b${letters}\\d?\\b(?=\\s*[:=-]?\\s*\\$?\\d)`;
+
+// Keywords per level type, longest alternatives first so "stop loss" wins over "stop"
+const LEVEL_KEYWORDS: LevelKeyword[] = [
+  { type: 'entry', pattern: new RegExp(`entry points?|entry|entries|buy zone|buy point|נקודות כניסה|נקודת כניסה|${HEBREW_PREFIX}כניסה`, 'giu') },
+  { type: 'stop', pattern: new RegExp(`stop[- ]?loss|stop|${abbreviation('sl')}|${HEBREW_PREFIX}סטופ לוס|${HEBREW_PREFIX}סטופ|${HEBREW_PREFIX}עצירה`, 'giu') },
+  { type: 'target', pattern: new RegExp(`price targets?|targets?|take profit|${abbreviation('tp')}|${abbreviation('pt')}|${HEBREW_PREFIX}יעדים|${HEBREW_PREFIX}יעד|${HEBREW_PREFIX}טרגט|${HEBREW_PREFIX}טארגט`, 'giu') },
+  { type: 'support', pattern: new RegExp(`supports?|${HEBREW_PREFIX}תמיכות|${HEBREW_PREFIX}תמיכה`, 'giu') },
+  { type: 'resistance', pattern: new RegExp(`resistances?|${abbreviation('res')}|${HEBREW_PREFIX}התנגדויות|${HEBREW_PREFIX}התנגדות|${HEBREW_PREFIX}רזיסטנס`, 'giu') }
+];
+
+// A price: optional $, digits with an optional decimal part. Numbers glued to letters (50EMA, 3R, 52WH),
+// percentages and periods ("20 day", "3 ימים") are not prices.
+const PRICE_PATTERN = /(?<![\p{L}\p{N}.])\$?(\d{1,6}(?:\.\d+)?)(?![\d\p{L}%])(?!\s*(?:%|(?:EMA|SMA|DMA|MA|WMA|VWAP|days?|weeks?|months?|יום|ימים|שבוע|שבועות|חודש|חודשים)(?![\p{L}])))/giu;
+
+// Numbers that look like prices but aren't: dates (2025-03-01, 15.3.2025, 10/15), small fractions (3/5)
+// and counts ("3 of 5", "2 out of 4", "3 מתוך 5")
+const NON_PRICE_PATTERN = /(?<![\d.$])(?:\d{4}-\d{1,2}-\d{1,2}|\d{1,2}([./-])\d{1,2}\1\d{2,4}(?!\d)|\d{1,2}\/\d{1,2}(?![\d.])|\d+\s+(?:(?:out\s+)?of|מתוך)\s+\d+)/giu;
+
+// A single digit right after a keyword and before the price numbers the level, e.g. "Target 1: 210",
+// "support 2 at 180", "target #3 225" or "תמיכה 1 ב-180"
+const ORDINAL_PATTERN = /^\s*#?[1-9](?![\d.,])(?:\s*[:)]\s*|\s+(?:at\s+|@\s*|ב-?)?)(?=\$?\d)/iu;
+
+// Bare four-digit numbers in this range are read as years ("2025 highs"); a $ prefix keeps them as prices
+const MIN_YEAR = 1900;
+const MAX_YEAR = 2099;
+
+/**
+ * Pulls entry, stop, target and support/resistance prices out of English and Hebrew analysis text,
+ * e.g. "support at $180, target 210-215" or "תמיכה ב-180 יעד 210"
+ * Each keyword owns the prices that follow it up to the next keyword, line break or sentence end.
+ */
+export class TradeLevelExtractor {
+  private static readonly MAX_SEGMENT_LENGTH = 60;
+  private static readonly MAX_LEVELS_PER_TYPE = 5;
+
+  public extractLevels(content: string): TradeLevels {
+    const levels: TradeLevels = {};
+    const matches = this.findKeywords(content);
+
+    matches.forEach((match, i) => {
+      const nextStart = matches[i + 1]?.start ?? content.length;
+      let segment = content.slice(match.end, Math.min(nextStart, match.end + TradeLevelExtractor.MAX_SEGMENT_LENGTH));
+
+      // Stop at a line break or the end of a sentence (a period not inside a number)
+      const sentenceEnd = segment.search(/\n|\.(?!\d)/);
+      if (sentenceEnd >= 0) {
+        segment = segment.slice(0, sentenceEnd);
+      }
+
+      // Blank out level numbers, dates and counts so none of their numbers are read as prices
+      segment = segment
+        .replace(ORDINAL_PATTERN, text => ' '.repeat(text.length))
+        .replace(NON_PRICE_PATTERN, text => ' '.repeat(text.length));
+
+      const prices = levels[match.type] || [];
+      for (const priceMatch of segment.matchAll(PRICE_PATTERN)) {
+        const price = Number(priceMatch[1]);
+        if (this.isYear(priceMatch[0])) {
+          continue;
+        }
+        if (price > 0 && !prices.includes(price) && prices.length < TradeLevelExtractor.MAX_LEVELS_PER_TYPE) {
+          prices.push(price);
+        }
+      }
+
+      if (prices.length > 0) {
+        levels[match.type] = prices;
+      }
+    });
+
+    return levels;
+  }
+
+  /**
+   * The levels as AnalysisData fields, empty when the content has none
+   */
+  public extractFields(content: string): Pick<AnalysisData, 'tradeLevels'> {
+    const tradeLevels = this.extractLevels(content);
+    if (Object.keys(tradeLevels).length === 0) {
+      return {};
+    }
+
+    Logger.debug(`Extracted trade levels: ${JSON.stringify(tradeLevels)}`);
+    return { tradeLevels };
+  }
+
+  private isYear(text: string): boolean {
+    const value = Number(text);
+    return /^\d{4}$/.test(text) && value >= MIN_YEAR && value <= MAX_YEAR;
+  }
+
+  private findKeywords(content: string): KeywordMatch[] {
+    const matches: KeywordMatch[] = [];
+
+    for (const keyword of LEVEL_KEYWORDS) {
+      for (const match of content.matchAll(keyword.pattern)) {
+        const start = match.index!;
+        const end = start + match[0].length;
+        // Whole words only - \b doesn't work for Hebrew letters
+        if (/[\p{L}\p{N}]/u.test(content[start - 1] || '') || /\p{L}/u.test(content[end] || '')) {
+          continue;
+        }
+        matches.push({ type: keyword.type, start, end });
+      }
+    }
+
+    // Keep the earliest of any overlapping keywords
+    matches.sort((a, b) => a.start - b.start || b.end - a.end);
+    const kept: KeywordMatch[] = [];
+    for (const match of matches) {
+      const previous = kept[kept.length - 1];
+      if (!previous || match.start >= previous.end) {
+        kept.push(match);
+      }
+    }
+    return kept;
+  }
+}
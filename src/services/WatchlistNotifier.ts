@@ -0,0 +1,169 @@
+import { Client } from 'discord.js';
+import { AnalysisData } from '../types';
+import { WatchlistStore } from './WatchlistStore';
+import { EphemeralHandler } from './EphemeralHandler';
+import { WATCHLIST_DM_DAILY_CAP, WATCHLIST_DM_INTERVAL_MS } from '../config';
+import { Logger } from '../utils/Logger';
+
+interface QueuedNotification {
+  guildId: string;
+  userId: string;
+  symbols: string[];
+  analysis: AnalysisData;
+}
+
+/**
+ * DMs watchlist subscribers when a new analysis is indexed for a symbol they watch
+ * Sends go through a single queue spaced by a fixed interval, and each user has a daily cap
+ */
+export class WatchlistNotifier {
+  private static readonly MAX_TRACKED_MESSAGES = 1000;
+  private queue: QueuedNotification[] = [];
+  private processing: Promise<void> | null = null;
+  private dailyCounts: Map<string, { day: string; count: number }> = new Map();
+  private notifiedMessageIds: Set<string> = new Set();
+
+  constructor(
+    private readonly client: Client,
+    private readonly watchlistStore: WatchlistStore,
+    private readonly ephemeralHandler: EphemeralHandler,
+    private readonly dailyCap: number = WATCHLIST_DM_DAILY_CAP,
+    private readonly sendIntervalMs: number = WATCHLIST_DM_INTERVAL_MS
+  ) {}
+
+  /**
+   * Listener for AnalysisLinker.onAnalysisIndexed
+   * @param guildId Guild whose analysis index accepted the message - only its subscribers are notified
+   */
+  public handleAnalysisIndexed(guildId: string, analysis: AnalysisData): void {
+    // Guards against a message being announced twice, e.g. by two listeners on the same index
+    if (this.notifiedMessageIds.has(analysis.messageId)) {
+      return;
+    }
+    this.trackNotifiedMessage(analysis.messageId);
+
+    // One DM per user per analysis, listing every watched symbol it covers
+    const symbolsByUser = new Map<string, string[]>();
+    for (const symbol of analysis.symbols) {
+      for (const userId of this.watchlistStore.getSubscribers(guildId, symbol)) {
+        if (userId === analysis.authorId) continue;
+        const symbols = symbolsByUser.get(userId) || [];
+        symbols.push(symbol);
+        symbolsByUser.set(userId, symbols);
+      }
+    }
+
+    if (symbolsByUser.size === 0) {
+      return;
+    }
+
+    for (const [userId, symbols] of symbolsByUser) {
+      this.queue.push({ guildId, userId, symbols, analysis });
+    }
+    Logger.info(`Queued watchlist notifications for ${symbolsByUser.size} users (message ${analysis.messageId})`);
+
+    if (!this.processing) {
+      this.processing = this.processQueue().finally(() => {
+        this.processing = null;
+      });
+    }
+  }
+
+  public getQueueLength(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Resolves once every queued notification has been sent or dropped
+   */
+  public async waitForIdle(): Promise<void> {
+    while (this.processing) {
+      await this.processing;
+    }
+  }
+
+  private async processQueue(): Promise<void> {
+    while (this.queue.length > 0) {
+      const notification = this.queue.shift()!;
+      const sent = await this.send(notification);
+
+      if (sent && this.queue.length > 0) {
+        await this.delay(this.sendIntervalMs);
+      }
+    }
+  }
+
+  private async send(notification: QueuedNotification): Promise<boolean> {
+    const { guildId, userId, symbols, analysis } = notification;
+
+    if (!this.reserveDailySlot(userId)) {
+      Logger.debug(`Daily watchlist DM cap reached for user ${userId}, skipping message ${analysis.messageId}`);
+      return false;
+    }
+
+    try {
+      const user = await this.client.users.fetch(userId);
+      const symbolList = symbols.map(s => `$${s}`).join(', ');
+      const embed = this.ephemeralHandler.buildAnalysisEmbed(
+        symbols[0]!,
+        analysis,
+        this.client,
+        guildId,
+        analysis.messageUrl || null,
+        `🔔 New Analysis for ${symbolList}`
+      );
+
+      await user.send({
+        content: `New analysis for ${symbolList} from your watchlist. Use \`/watch remove\` to stop these notifications.`,
+        embeds: [embed]
+      });
+
+      Logger.debug(`Sent watchlist DM to user ${userId} for ${symbolList}`);
+      return true;
+    } catch (error) {
+      // Users with DMs closed are expected - don't let them count against the cap
+      this.releaseDailySlot(userId);
+      Logger.warn(`Failed to send watchlist DM to user ${userId}: ${error instanceof Error ? error.message : error}`);
+      return false;
+    }
+  }
+
+  private reserveDailySlot(userId: string): boolean {
+    const today = new Date().toISOString().slice(0, 10);
+    const entry = this.dailyCounts.get(userId);
+
+    if (!entry || entry.day !== today) {
+      this.dailyCounts.set(userId, { day: today, count: 1 });
+      return true;
+    }
+
+    if (entry.count >= this.dailyCap) {
+      return false;
+    }
+
+    entry.count++;
+    return true;
+  }
+
+  private releaseDailySlot(userId: string): void {
+    const entry = this.dailyCounts.get(userId);
+    if (entry && entry.count > 0) {
+      entry.count--;
+    }
+  }
+
+  private trackNotifiedMessage(messageId: string): void {
+    this.notifiedMessageIds.add(messageId);
+
+    if (this.notifiedMessageIds.size > WatchlistNotifier.MAX_TRACKED_MESSAGES) {
+      const oldest = this.notifiedMessageIds.values().next().value;
+      if (oldest !== undefined) {
+        this.notifiedMessageIds.delete(oldest);
+      }
+    }
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,161 @@
+import { Logger } from '../utils/Logger';
+import { JsonFile } from '../utils/JsonFile';
+
+interface SerializedWatchlists {
+  version: number;
+  watchlists: Record<string, Record<string, string[]>>; // guildId -> userId -> symbols
+}
+
+// Version 1 files predate per-guild watchlists
+interface SerializedLegacyWatchlists {
+  version: 1;
+  watchlists: Record<string, string[]>; // userId -> symbols
+}
+
+export type WatchResult = 'added' | 'already_watching' | 'limit_reached';
+
+/**
+ * Per-user symbol watchlists, keyed by guild and Discord user ID
+ * A user's watchlist in one guild never receives analysis from another guild
+ * Kept in memory and written through to a JSON file on every change
+ */
+export class WatchlistStore {
+  public static readonly MAX_SYMBOLS_PER_USER = 25;
+  private static readonly VERSION = 2;
+  private watchlists: Map<string, Map<string, Set<string>>> = new Map();
+  private file: JsonFile<SerializedWatchlists | SerializedLegacyWatchlists> | null;
+
+  /**
+   * @param filePath JSON file to persist to; omit for an in-memory store
+   */
+  constructor(filePath?: string) {
+    this.file = filePath ? new JsonFile(filePath) : null;
+  }
+
+  /**
+   * @param legacyGuildId Guild that version 1 watchlists are migrated to (the env-configured guild)
+   */
+  public async load(legacyGuildId?: string): Promise<void> {
+    if (!this.file) {
+      return;
+    }
+
+    try {
+      const parsed = await this.file.read();
+      if (!parsed) {
+        Logger.info(`No persisted watchlists found at ${this.file.filePath}`);
+        return;
+      }
+
+      if (parsed.version === 1 && legacyGuildId) {
+        this.watchlists.clear();
+        this.loadGuild(legacyGuildId, (parsed as SerializedLegacyWatchlists).watchlists);
+        Logger.info(`Migrated version 1 watchlists to guild ${legacyGuildId}`);
+        await this.persist();
+        return;
+      }
+
+      if (parsed.version !== WatchlistStore.VERSION) {
+        Logger.warn(`Ignoring persisted watchlists with unsupported version ${parsed.version}`);
+        return;
+      }
+
+      this.watchlists.clear();
+      for (const [guildId, users] of Object.entries((parsed as SerializedWatchlists).watchlists || {})) {
+        this.loadGuild(guildId, users);
+      }
+
+      const userCount = Array.from(this.watchlists.values()).reduce((total, users) => total + users.size, 0);
+      Logger.info(`Loaded watchlists for ${userCount} users in ${this.watchlists.size} guilds`);
+    } catch (error) {
+      Logger.error(`Failed to load watchlists from ${this.file.filePath}:`, error);
+    }
+  }
+
+  public async add(guildId: string, userId: string, symbol: string): Promise<WatchResult> {
+    const users = this.watchlists.get(guildId) || new Map<string, Set<string>>();
+    const symbols = users.get(userId) || new Set<string>();
+    if (symbols.has(symbol)) {
+      return 'already_watching';
+    }
+    if (symbols.size >= WatchlistStore.MAX_SYMBOLS_PER_USER) {
+      return 'limit_reached';
+    }
+
+    symbols.add(symbol);
+    users.set(userId, symbols);
+    this.watchlists.set(guildId, users);
+    await this.persist();
+    return 'added';
+  }
+
+  /**
+   * @returns false if the user was not watching the symbol
+   */
+  public async remove(guildId: string, userId: string, symbol: string): Promise<boolean> {
+    const users = this.watchlists.get(guildId);
+    const symbols = users?.get(userId);
+    if (!users || !symbols || !symbols.delete(symbol)) {
+      return false;
+    }
+
+    if (symbols.size === 0) {
+      users.delete(userId);
+    }
+    if (users.size === 0) {
+      this.watchlists.delete(guildId);
+    }
+    await this.persist();
+    return true;
+  }
+
+  public list(guildId: string, userId: string): string[] {
+    return Array.from(this.watchlists.get(guildId)?.get(userId) || []).sort();
+  }
+
+  /**
+   * Users watching the symbol in the given guild
+   */
+  public getSubscribers(guildId: string, symbol: string): string[] {
+    const subscribers: string[] = [];
+    for (const [userId, symbols] of this.watchlists.get(guildId) || []) {
+      if (symbols.has(symbol)) {
+        subscribers.push(userId);
+      }
+    }
+    return subscribers;
+  }
+
+  private loadGuild(guildId: string, users: Record<string, string[]>): void {
+    const watchlists = new Map<string, Set<string>>();
+    for (const [userId, symbols] of Object.entries(users || {})) {
+      if (symbols.length > 0) {
+        watchlists.set(userId, new Set(symbols));
+      }
+    }
+    if (watchlists.size > 0) {
+      this.watchlists.set(guildId, watchlists);
+    }
+  }
+
+  private async persist(): Promise<void> {
+    if (!this.file) {
+      return;
+    }
+
+    const watchlists: Record<string, Record<string, string[]>> = {};
+    for (const [guildId, users] of this.watchlists) {
+      const serialized: Record<string, string[]> = {};
+      for (const [userId, symbols] of users) {
+        serialized[userId] = Array.from(symbols).sort();
+      }
+      watchlists[guildId] = serialized;
+    }
+
+    try {
+      await this.file.write({ version: WatchlistStore.VERSION, watchlists });
+    } catch (error) {
+      Logger.error(`Failed to persist watchlists to ${this.file.filePath}:`, error);
+    }
+  }
+}
@@ -0,0 +1,254 @@
+import { Client, AttachmentBuilder, TextChannel, Message } from 'discord.js';
+import { AnalysisData, ReportFormat } from '../types';
+import { AnalysisLinker } from './AnalysisLinker';
+import { TopPicksArchive } from './TopPicksArchive';
+import { GuildServices } from './GuildServiceRegistry';
+import { REPORT_LOOKBACK_DAYS, REPORT_MAX_CHARTS_PER_SYMBOL, ENV } from '../config';
+import { Logger } from '../utils/Logger';
+
+export interface WeeklyReportSymbol {
+  symbol: string;
+  analysisCount: number;
+  firstAnalysisAt: Date | null;
+  lastAnalysisAt: Date | null;
+  latestAnalysisUrl: string | null;
+  chartUrls: string[]; // Newest first, capped at REPORT_MAX_CHARTS_PER_SYMBOL
+  longPickDays: number;
+  shortPickDays: number;
+}
+
+export interface WeeklyReportData {
+  guildId: string;
+  from: Date;
+  to: Date;
+  analysisCount: number;
+  analyzedSymbolCount: number;
+  topPicksDays: number;
+  symbols: WeeklyReportSymbol[]; // Most analyzed first, then most picked
+}
+
+/**
+ * Weekly recap of what was covered: per-symbol analysis counts and dates, chart thumbnails
+ * and how often each symbol made the top picks, exported as a Markdown or HTML file
+ */
+export class WeeklyReport {
+  /**
+   * @param timeZone IANA time zone for the dates shown in the report
+   */
+  constructor(
+    private readonly topPicksArchive: TopPicksArchive,
+    private readonly lookbackDays: number = REPORT_LOOKBACK_DAYS,
+    private readonly timeZone: string = ENV.TIMEZONE
+  ) {}
+
+  public build(analysisLinker: AnalysisLinker, guildId: string, now: Date = new Date()): WeeklyReportData {
+    const from = new Date(now.getTime() - this.lookbackDays * 24 * 60 * 60 * 1000);
+    const analyses = analysisLinker.getAnalysesSince(from).filter(analysis => analysis.timestamp <= now);
+    const symbols = new Map<string, WeeklyReportSymbol>();
+
+    const getSymbol = (symbol: string): WeeklyReportSymbol => {
+      let entry = symbols.get(symbol);
+      if (!entry) {
+        entry = {
+          symbol,
+          analysisCount: 0,
+          firstAnalysisAt: null,
+          lastAnalysisAt: null,
+          latestAnalysisUrl: null,
+          chartUrls: [],
+          longPickDays: 0,
+          shortPickDays: 0
+        };
+        symbols.set(symbol, entry);
+      }
+      return entry;
+    };
+
+    // Analyses come newest first, so the first one seen per symbol is the latest
+    for (const analysis of analyses) {
+      for (const symbol of analysis.symbols) {
+        this.addAnalysis(getSymbol(symbol), analysis);
+      }
+    }
+
+    const fromDate = this.topPicksArchive.toDateKey(from);
+    const toDate = this.topPicksArchive.toDateKey(now);
+    const topPicksDays = this.topPicksArchive.getRecentDays(guildId, TopPicksArchive.MAX_DAYS_PER_GUILD)
+      .filter(day => day.date >= fromDate && day.date <= toDate);
+
+    for (const day of topPicksDays) {
+      day.long.forEach(symbol => getSymbol(symbol).longPickDays++);
+      day.short.forEach(symbol => getSymbol(symbol).shortPickDays++);
+    }
+
+    const sorted = Array.from(symbols.values()).sort((a, b) =>
+      b.analysisCount - a.analysisCount ||
+      (b.longPickDays + b.shortPickDays) - (a.longPickDays + a.shortPickDays) ||
+      a.symbol.localeCompare(b.symbol)
+    );
+
+    return {
+      guildId,
+      from,
+      to: now,
+      analysisCount: analyses.length,
+      analyzedSymbolCount: sorted.filter(entry => entry.analysisCount > 0).length,
+      topPicksDays: topPicksDays.length,
+      symbols: sorted
+    };
+  }
+
+  public render(report: WeeklyReportData, format: ReportFormat): string {
+    return format === 'html' ? this.renderHtml(report) : this.renderMarkdown(report);
+  }
+
+  public toAttachment(report: WeeklyReportData, format: ReportFormat): AttachmentBuilder {
+    const extension = format === 'html' ? 'html' : 'md';
+    return new AttachmentBuilder(Buffer.from(this.render(report, format), 'utf8'), {
+      name: `weekly-report-${this.formatDate(report.to)}.${extension}`
+    });
+  }
+
+  /**
+   * Builds the report for a guild and posts it to its report channel (the general notices channel unless configured)
+   * @returns The posted message, or null if the channel is unavailable or the send failed
+   */
+  public async post(client: Client, services: GuildServices, format: ReportFormat, now: Date = new Date()): Promise<Message | null> {
+    const { config } = services;
+    const channelId = config.reportChannel || config.generalNoticesChannel;
+    const channel = await client.channels.fetch(channelId).catch(() => null) as TextChannel | null;
+    if (!channel || !channel.isTextBased()) {
+      Logger.warn(`Report channel ${channelId} is not available - skipping weekly report for guild ${config.guildId}`);
+      return null;
+    }
+
+    const report = this.build(services.analysisLinker, config.guildId, now);
+
+    try {
+      const message = await channel.send({
+        content: `📊 **Weekly report** (${this.formatDate(report.from)} – ${this.formatDate(report.to)}): ${report.analysisCount} analyses covering ${report.analyzedSymbolCount} symbols`,
+        files: [this.toAttachment(report, format)]
+      });
+      Logger.info(`Posted weekly report for guild ${config.guildId} to channel ${channelId}`);
+      return message;
+    } catch (error) {
+      Logger.error(`Failed to post weekly report for guild ${config.guildId}:`, error);
+      return null;
+    }
+  }
+
+  private addAnalysis(entry: WeeklyReportSymbol, analysis: AnalysisData): void {
+    entry.analysisCount++;
+    entry.firstAnalysisAt = analysis.timestamp;
+    if (!entry.lastAnalysisAt) {
+      entry.lastAnalysisAt = analysis.timestamp;
+      entry.latestAnalysisUrl = analysis.messageUrl || null;
+    }
+
+    for (const url of analysis.chartUrls || []) {
+      if (entry.chartUrls.length < REPORT_MAX_CHARTS_PER_SYMBOL && !entry.chartUrls.includes(url)) {
+        entry.chartUrls.push(url);
+      }
+    }
+  }
+
+  private renderMarkdown(report: WeeklyReportData): string {
+    const lines = [
+      `# Weekly Report: ${this.formatDate(report.from)} – ${this.formatDate(report.to)}`,
+      '',
+      `${report.analysisCount} analyses covering ${report.analyzedSymbolCount} symbols; top picks archived on ${report.topPicksDays} days.`,
+      ''
+    ];
+
+    if (report.symbols.length === 0) {
+      lines.push('No analysis or top picks this week.');
+      return lines.join('\n') + '\n';
+    }
+
+    lines.push(
+      '| Symbol | Analyses | First | Last | Top picks (long / short days) |',
+      '| --- | ---: | --- | --- | --- |'
+    );
+    for (const entry of report.symbols) {
+      const symbol = entry.latestAnalysisUrl ? `[$${entry.symbol}](${entry.latestAnalysisUrl})` : `$${entry.symbol}`;
+      lines.push(`| ${symbol} | ${entry.analysisCount} | ${this.formatDateTime(entry.firstAnalysisAt)} | ${this.formatDateTime(entry.lastAnalysisAt)} | ${entry.longPickDays} / ${entry.shortPickDays} |`);
+    }
+
+    const withCharts = report.symbols.filter(entry => entry.chartUrls.length > 0);
+    if (withCharts.length > 0) {
+      lines.push('', '## Charts', '');
+      for (const entry of withCharts) {
+        lines.push(`### $${entry.symbol}`, '', entry.chartUrls.map(url => `![${entry.symbol} chart](${url})`).join(' '), '');
+      }
+    }
+
+    return lines.join('\n').trimEnd() + '\n';
+  }
+
+  private renderHtml(report: WeeklyReportData): string {
+    const title = `Weekly Report: ${this.formatDate(report.from)} – ${this.formatDate(report.to)}`;
+    const rows = report.symbols.map(entry => {
+      const symbol = entry.latestAnalysisUrl
+        ? `<a href="${escapeHtml(entry.latestAnalysisUrl)}">$${escapeHtml(entry.symbol)}</a>`
+        : `$${escapeHtml(entry.symbol)}`;
+      const charts = entry.chartUrls
+        .map(url => `<a href="${escapeHtml(url)}"><img src="${escapeHtml(url)}" alt="${escapeHtml(entry.symbol)} chart" width="160"></a>`)
+        .join(' ');
+      return `<tr><td>${symbol}</td><td>${entry.analysisCount}</td><td>${this.formatDateTime(entry.firstAnalysisAt)}</td><td>${this.formatDateTime(entry.lastAnalysisAt)}</td><td>${entry.longPickDays} / ${entry.shortPickDays}</td><td>${charts}</td></tr>`;
+    });
+
+    return [
+      '<!DOCTYPE html>',
+      '<html>',
+      '<head>',
+      '<meta charset="utf-8">',
+      `<title>${escapeHtml(title)}</title>`,
+      '<style>body{font-family:sans-serif}table{border-collapse:collapse}td,th{border:1px solid #ccc;padding:4px 8px;vertical-align:top}</style>',
+      '</head>',
+      '<body>',
+      `<h1>${escapeHtml(title)}</h1>`,
+      `<p>${report.analysisCount} analyses covering ${report.analyzedSymbolCount} symbols; top picks archived on ${report.topPicksDays} days.</p>`,
+      rows.length > 0
+        ? `<table>\n<tr><th>Symbol</th><th>Analyses</th><th>First</th><th>Last</th><th>Top picks (long / short days)</th><th>Charts</th></tr>\n${rows.join('\n')}\n</table>`
+        : '<p>No analysis or top picks this week.</p>',
+      '</body>',
+      '</html>',
+      ''
+    ].join('\n');
+  }
+
+  private formatDate(date: Date): string {
+    // en-CA formats dates as YYYY-MM-DD
+    return new Intl.DateTimeFormat('en-CA', {
+      timeZone: this.timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit'
+    }).format(date);
+  }
+
+  private formatDateTime(date: Date | null): string {
+    if (!date) {
+      return '—';
+    }
+
+    // en-CA gives YYYY-MM-DD, HH:MM
+    return new Intl.DateTimeFormat('en-CA', {
+      timeZone: this.timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    }).format(date).replace(',', '');
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -100,6 +100,8 @@ export class WordFrequencyAnalyzer {
           totalMessages += batch.size;
           let hitCutoff = false;
 
+          await this.discussionHandler.resolveMessageMembers(batch.values(), config);
+
           for (const message of batch.values()) {
             if (message.createdAt < cutoffDate) {
               Logger.info(`📅 Reached 30-day cutoff in channel ${channel.name} (${new Date(message.createdAt).toISOString().split('T')[0]})`);
@@ -4,6 +4,9 @@ export interface BotConfig {
   generalNoticesChannel: string;
   guildId: string;
   managerId?: string;
+  managerIds?: string[]; // Additional manager user IDs
+  managerRoles?: string[]; // Role IDs or names whose members count as managers
+  reportChannel?: string; // Where scheduled reports are posted; defaults to the general notices channel
 }
 
 export interface StockSymbol {
@@ -17,6 +20,8 @@ export interface AnalysisData {
   messageId: string;
   channelId: string;
   authorId: string;
+  authorName?: string; // Display name when indexed
+  authorAvatarUrl?: string;
   content: string;
   symbols: string[];
   timestamp: Date;
@@ -25,6 +30,59 @@ export interface AnalysisData {
   chartUrls?: string[];
   attachmentUrls?: string[];
   hasCharts?: boolean;
+  tradeLevels?: TradeLevels; // Price levels parsed from the content
+  direction?: AnalysisDirection;
+  directionConfidence?: number; // 0.5-1
+  followUpOf?: string; // Thread follow-ups: message ID of the analysis that started the thread
+}
+
+// A manager's manual choice of latest analysis for a symbol, kept until unpinned
+export interface PinnedAnalysis {
+  analysis: AnalysisData;
+  pinnedBy: string;
+  pinnedAt: Date;
+}
+
+export type AnalysisDirection = 'bullish' | 'bearish' | 'neutral';
+
+export type TradeLevelType = 'entry' | 'stop' | 'target' | 'support' | 'resistance';
+
+export type TradeLevels = Partial<Record<TradeLevelType, number[]>>;
+
+// strict: unknown tickers are rejected; advisory: unknown tickers only get lower confidence
+export type TickerUniverseMode = 'strict' | 'advisory';
+
+export type ReportFormat = 'markdown' | 'html';
+
+export type ScrapeStatus = 'idle' | 'running' | 'completed' | 'failed';
+
+export interface ChannelScrapeProgress {
+  channelId: string;
+  channelName: string | null;
+  kind: 'analysis' | 'discussion';
+  status: 'pending' | 'running' | 'completed' | 'failed';
+  messagesFetched: number;
+  symbolsFound: number;
+  checkpoint: string | null; // Newest message ID committed to the analysis index
+  error?: string;
+}
+
+// Progress of a guild's historical scrape, reported on /health and by /scrape status
+export interface ScrapeProgress {
+  status: ScrapeStatus;
+  days: number;
+  resumed: boolean; // Started from persisted checkpoints rather than the full window
+  startedAt: Date | null;
+  finishedAt: Date | null;
+  channels: ChannelScrapeProgress[];
+}
+
+// One committed page of a channel's historical scrape
+export interface ScrapedBatch {
+  channelId: string;
+  checkpoint: string; // Newest message ID in the page
+  latestAnalysis: Map<string, AnalysisData>; // Symbols whose best analysis in the channel changed with this page
+  history: Map<string, AnalysisData[]>; // Every analysis accepted from this page
 }
 
 export interface EphemeralInteraction {
@@ -34,9 +92,13 @@ export interface EphemeralInteraction {
   symbols: string[];
 }
 
+// Bot messages with their own retention period: general channel buttons, /createbuttons and daily digests
+export type RetentionMessageType = 'top_picks' | 'createbuttons' | 'digest';
+
 export interface RetentionJob {
   messageId: string;
   channelId: string;
+  type: RetentionMessageType;
   createdAt: Date;
   deleteAt: Date;
   groupId?: string;
@@ -49,4 +111,14 @@ export interface MessageGroup {
   channelId: string;
   createdAt: Date;
   symbolCount: number;
-}
\ No newline at end of file
+}
+export interface TopPicksSnapshot {
+  guildId: string;
+  messageId: string;
+  channelId: string;
+  authorId: string;
+  messageUrl: string;
+  timestamp: Date;
+  long: string[];
+  short: string[];
+}
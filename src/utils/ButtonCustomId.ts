@@ -0,0 +1,64 @@
+export interface SymbolButtonId {
+  symbol: string;
+  messageId: string;
+  chunkIndex: number;
+}
+
+export interface AnalysisPageButtonId {
+  symbol: string;
+  total: number;
+  page: number;
+  authorId?: string;
+}
+
+/**
+ * Builds and parses button custom IDs. Fields are joined with `_`, which never appears in tickers
+ * or Discord IDs, so symbols such as BRK.B, RDS-A, TEVA.TA or ETH-USDT round-trip unchanged.
+ */
+export class ButtonCustomId {
+  public static readonly SYMBOL_PREFIX = 'symbol_';
+  public static readonly ANALYSIS_PAGE_PREFIX = 'analysis_page_';
+
+  // symbol_<symbol>_<messageId>[_<chunkIndex>]
+  private static readonly SYMBOL_BUTTON_PATTERN = /^symbol_([^_]+)_([^_]+)(?:_(\d+))?$/;
+  // analysis_page_<symbol>_<total>_<page>[_<authorId>]
+  private static readonly ANALYSIS_PAGE_PATTERN = /^analysis_page_([^_]+)_(\d+)_(-?\d+)(?:_([^_]+))?$/;
+
+  public static forSymbol(symbol: string, messageId: string, chunkIndex: number = 0): string {
+    return `${ButtonCustomId.SYMBOL_PREFIX}${symbol}_${messageId}_${chunkIndex}`;
+  }
+
+  /**
+   * @returns The parsed ID, or null if it is not a well-formed symbol button ID
+   */
+  public static parseSymbol(customId: string): SymbolButtonId | null {
+    const match = customId.match(ButtonCustomId.SYMBOL_BUTTON_PATTERN);
+    if (!match) {
+      return null;
+    }
+
+    return { symbol: match[1]!, messageId: match[2]!, chunkIndex: match[3] ? Number(match[3]) : 0 };
+  }
+
+  public static forAnalysisPage(symbol: string, total: number, page: number, authorId?: string): string {
+    const authorSuffix = authorId ? `_${authorId}` : '';
+    return `${ButtonCustomId.ANALYSIS_PAGE_PREFIX}${symbol}_${total}_${page}${authorSuffix}`;
+  }
+
+  /**
+   * @returns The parsed ID, or null if it is not a well-formed analysis page button ID
+   */
+  public static parseAnalysisPage(customId: string): AnalysisPageButtonId | null {
+    const match = customId.match(ButtonCustomId.ANALYSIS_PAGE_PATTERN);
+    if (!match) {
+      return null;
+    }
+
+    return {
+      symbol: match[1]!,
+      total: Number(match[2]),
+      page: Number(match[3]),
+      ...(match[4] ? { authorId: match[4] } : {})
+    };
+  }
+}
@@ -52,6 +52,20 @@ export class DiscordUrlGenerator {
     return `https://discord.com/channels/${guildId}/${channel.id}/${messageId}`;
   }
 
+  /**
+   * Parses a message link as copied from Discord ("Copy Message Link")
+   * Accepts the discord.com, discordapp.com, ptb and canary hosts
+   * @returns The IDs in the link, or null if it is not a guild message link
+   */
+  public static parseMessageUrl(url: string): { guildId: string; channelId: string; messageId: string } | null {
+    const match = url.trim().match(/^<?https?:\/\/(?:(?:ptb|canary)\.)?discord(?:app)?\.com\/channels\/(\d+)\/(\d+)\/(\d+)\/?>?$/);
+    if (!match) {
+      return null;
+    }
+
+    return { guildId: match[1]!, channelId: match[2]!, messageId: match[3]! };
+  }
+
   /**
    * Generates a Discord message URL using the legacy approach (for compatibility)
    * @param guildId The Discord guild ID
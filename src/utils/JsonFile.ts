@@ -0,0 +1,46 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Small helper shared by the JSON-backed stores
+ * Writes are serialized and atomic (temp file + rename) so a crash mid-write never corrupts the file
+ */
+export class JsonFile<T> {
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(public readonly filePath: string) {}
+
+  /**
+   * @returns The parsed contents, or null if the file does not exist yet
+   * @throws If the file exists but cannot be read or parsed
+   */
+  public async read(): Promise<T | null> {
+    if (!fs.existsSync(this.filePath)) {
+      return null;
+    }
+
+    const raw = await fs.promises.readFile(this.filePath, 'utf8');
+    return JSON.parse(raw) as T;
+  }
+
+  /**
+   * Queues an atomic write of the given data
+   * The returned promise rejects if this write fails; later writes are still attempted
+   */
+  public write(data: T): Promise<void> {
+    const contents = JSON.stringify(data);
+    const write = this.writeQueue.then(() => this.writeAtomically(contents));
+
+    // Keep the chain alive even if this write fails
+    this.writeQueue = write.catch(() => undefined);
+
+    return write;
+  }
+
+  private async writeAtomically(contents: string): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.promises.writeFile(tempPath, contents, 'utf8');
+    await fs.promises.rename(tempPath, this.filePath);
+  }
+}
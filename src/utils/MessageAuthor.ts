@@ -0,0 +1,24 @@
+import { Message } from 'discord.js';
+import { AnalysisData } from '../types';
+
+export class MessageAuthor {
+  /**
+   * Captures who posted an analysis so embeds can credit them without fetching the member again
+   * Prefers the server nickname and avatar over the global profile
+   */
+  public static getAttribution(message: Message): Pick<AnalysisData, 'authorName' | 'authorAvatarUrl'> {
+    const attribution: Pick<AnalysisData, 'authorName' | 'authorAvatarUrl'> = {};
+
+    const name = message.member?.displayName || message.author.globalName || message.author.username;
+    if (name) {
+      attribution.authorName = name;
+    }
+
+    const avatarUrl = message.member?.displayAvatarURL?.() || message.author.displayAvatarURL?.();
+    if (avatarUrl) {
+      attribution.authorAvatarUrl = avatarUrl;
+    }
+
+    return attribution;
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * Spaces out calls so that concurrent callers share one request budget
+ * Each acquire() reserves the next free slot, so N callers waiting together are released one interval apart
+ */
+export class RateLimiter {
+  private nextSlot = 0;
+
+  constructor(private readonly intervalMs: number) {}
+
+  public async acquire(): Promise<void> {
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlot);
+    this.nextSlot = slot + this.intervalMs;
+
+    if (slot > now) {
+      await new Promise(resolve => setTimeout(resolve, slot - now));
+    }
+  }
+}
@@ -0,0 +1,43 @@
+const DISCORD_EPOCH_MS = 1420070400000n;
+
+export class Snowflake {
+  /**
+   * Compares two Discord message IDs chronologically
+   * Falls back to string comparison for IDs that are not numeric snowflakes (e.g. test fixtures)
+   * @returns negative if a is older than b, positive if newer, 0 if equal
+   */
+  public static compare(a: string, b: string): number {
+    try {
+      const diff = BigInt(a) - BigInt(b);
+      return diff === 0n ? 0 : diff > 0n ? 1 : -1;
+    } catch {
+      return a.localeCompare(b);
+    }
+  }
+
+  /**
+   * Returns true if message ID a was created after message ID b
+   */
+  public static isNewer(a: string, b: string): boolean {
+    return Snowflake.compare(a, b) > 0;
+  }
+
+  /**
+   * Smallest snowflake created at the given time - fetching messages after it returns messages from that time on
+   */
+  public static fromDate(date: Date): string {
+    const ms = BigInt(Math.max(date.getTime(), Number(DISCORD_EPOCH_MS)));
+    return ((ms - DISCORD_EPOCH_MS) << 22n).toString();
+  }
+
+  /**
+   * Extracts the creation time encoded in a snowflake, or null if the ID is not a snowflake
+   */
+  public static toDate(id: string): Date | null {
+    try {
+      return new Date(Number((BigInt(id) >> 22n) + DISCORD_EPOCH_MS));
+    } catch {
+      return null;
+    }
+  }
+}
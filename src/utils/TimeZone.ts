@@ -0,0 +1,82 @@
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Wall-clock date and time in a time zone
+ * month is 1-12, weekday is 0 (Sunday) to 6
+ */
+export interface ZonedDateTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number;
+}
+
+/**
+ * IANA time zone arithmetic on top of Intl, so schedules follow DST without a date library
+ */
+export class TimeZone {
+  private static formatters: Map<string, Intl.DateTimeFormat> = new Map();
+
+  public static isValid(timeZone: string): boolean {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  public static getParts(date: Date, timeZone: string): ZonedDateTime {
+    const parts = TimeZone.getFormatter(timeZone).formatToParts(date);
+    const get = (type: Intl.DateTimeFormatPartTypes) => parts.find(part => part.type === type)?.value || '';
+
+    return {
+      year: Number(get('year')),
+      month: Number(get('month')),
+      day: Number(get('day')),
+      hour: Number(get('hour')) % 24,
+      minute: Number(get('minute')),
+      weekday: WEEKDAYS.indexOf(get('weekday'))
+    };
+  }
+
+  /**
+   * The instant at which the zone's wall clock shows the given date and time
+   * Out-of-range days roll over (day 32 is the 1st of the next month); times skipped by DST land an hour later
+   */
+  public static toInstant(year: number, month: number, day: number, hour: number, minute: number, timeZone: string): Date {
+    const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+    const offset = TimeZone.getOffsetMs(new Date(wallClock), timeZone);
+    const instant = wallClock - offset;
+
+    // The offset at the guess can differ from the offset at the result around DST changes
+    const correctedOffset = TimeZone.getOffsetMs(new Date(instant), timeZone);
+    return new Date(correctedOffset === offset ? instant : wallClock - correctedOffset);
+  }
+
+  private static getFormatter(timeZone: string): Intl.DateTimeFormat {
+    let formatter = TimeZone.formatters.get(timeZone);
+    if (!formatter) {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        weekday: 'short'
+      });
+      TimeZone.formatters.set(timeZone, formatter);
+    }
+    return formatter;
+  }
+
+  private static getOffsetMs(date: Date, timeZone: string): number {
+    const parts = TimeZone.getParts(date, timeZone);
+    const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+    return wallClock - Math.floor(date.getTime() / 60000) * 60000;
+  }
+}
@@ -0,0 +1,149 @@
+import { test, expect } from '@playwright/test';
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { AnalysisApi } from '../src/services/AnalysisApi';
+import { GuildServiceRegistry, GuildServices } from '../src/services/GuildServiceRegistry';
+import { AnalysisLinker } from '../src/services/AnalysisLinker';
+import { MessageRetention } from '../src/services/MessageRetention';
+import { EphemeralHandler } from '../src/services/EphemeralHandler';
+import { ChannelScanner } from '../src/services/ChannelScanner';
+import { ThreadManager } from '../src/services/ThreadManager';
+import { SymbolDetector } from '../src/services/SymbolDetector';
+import { SymbolListStore } from '../src/services/SymbolListStore';
+import { BotConfig } from '../src/types';
+
+const API_TOKEN = 'test-api-token';
+
+function createConfig(guildId: string): BotConfig {
+  return {
+    analysisChannels: ['long-analysis', 'short-analysis'],
+    discussionChannels: [],
+    generalNoticesChannel: 'general',
+    guildId,
+    managerId: 'manager1'
+  };
+}
+
+function createServices(config: BotConfig): GuildServices {
+  const analysisLinker = new AnalysisLinker();
+  const messageRetention = new MessageRetention();
+  const ephemeralHandler = new EphemeralHandler(analysisLinker, messageRetention);
+  return {
+    config,
+    analysisLinker,
+    messageRetention,
+    ephemeralHandler,
+    channelScanner: new ChannelScanner(new SymbolDetector(), ephemeralHandler, analysisLinker),
+    threadManager: new ThreadManager(config.analysisChannels),
+    symbolLists: new SymbolListStore(),
+    initialized: true
+  };
+}
+
+function createAnalysisMessage(id: string, content: string, minutesAgo: number): any {
+  return {
+    id,
+    author: { bot: false, id: 'manager1', tag: 'Manager#0001' },
+    content,
+    createdAt: new Date(Date.now() - minutesAgo * 60 * 1000),
+    guildId: 'guild-a',
+    channel: { id: 'long-analysis', isThread: () => false },
+    member: { displayName: 'Manager' },
+    reference: null
+  };
+}
+
+test.describe('Analysis REST API', () => {
+  let server: Server;
+  let baseUrl: string;
+  let guildA: GuildServices;
+
+  const get = (path: string, token: string | null = API_TOKEN) =>
+    fetch(`${baseUrl}${path}`, { headers: token ? { Authorization: `Bearer ${token}` } : {} });
+
+  test.beforeEach(async () => {
+    const registry = new GuildServiceRegistry(createServices);
+    guildA = registry.configure(createConfig('guild-a'));
+    registry.configure(createConfig('guild-b'));
+
+    await guildA.analysisLinker.indexMessage(createAnalysisMessage('nvda-1', '$NVDA analysis with bullish breakout and price target 180', 90));
+    await guildA.analysisLinker.indexMessage(createAnalysisMessage('nvda-2', '$NVDA breakout above resistance with price target 200', 30));
+    await guildA.analysisLinker.indexMessage(createAnalysisMessage('amd-1', '$AMD analysis with bullish breakout and price target 150', 20));
+    await guildA.analysisLinker.indexMessage(createAnalysisMessage('tsla-1', '$TSLA analysis with bearish breakdown below support 200', 10));
+
+    const app = express();
+    app.use('/api', new AnalysisApi(API_TOKEN, registry, () => 'guild-a').createRouter());
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  test.afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  test('should reject requests without a valid bearer token', async () => {
+    expect((await get('/api/symbols', null)).status).toBe(401);
+    expect((await get('/api/symbols', 'wrong-token')).status).toBe(401);
+    expect((await get('/api/symbols')).status).toBe(200);
+  });
+
+  test('should list symbols with pagination', async () => {
+    const firstPage = await (await get('/api/symbols?limit=2')).json();
+    expect(firstPage.data.map((s: any) => s.symbol)).toEqual(['AMD', 'NVDA']);
+    expect(firstPage.data[1].latestAnalysisUrl).toContain('nvda-2');
+    expect(firstPage.pagination).toEqual({ total: 3, limit: 2, offset: 0, hasMore: true });
+
+    const secondPage = await (await get('/api/symbols?limit=2&offset=2')).json();
+    expect(secondPage.data.map((s: any) => s.symbol)).toEqual(['TSLA']);
+    expect(secondPage.pagination.hasMore).toBe(false);
+
+    expect((await get('/api/symbols?limit=0')).status).toBe(400);
+    expect((await get('/api/symbols?offset=-1')).status).toBe(400);
+  });
+
+  test('should list a symbol\'s analyses newest first', async () => {
+    const body = await (await get('/api/symbols/nvda/analyses')).json();
+
+    expect(body.symbol).toBe('NVDA');
+    expect(body.data.map((a: any) => a.messageId)).toEqual(['nvda-2', 'nvda-1']);
+    expect(body.data[0].authorName).toBe('Manager');
+    expect(typeof body.data[0].timestamp).toBe('string');
+
+    const filtered = await (await get('/api/symbols/NVDA/analyses?author=someone-else')).json();
+    expect(filtered.data).toEqual([]);
+  });
+
+  test('should scope requests to the requested guild', async () => {
+    const guildB = await (await get('/api/symbols?guild=guild-b')).json();
+    expect(guildB.data).toEqual([]);
+
+    expect((await get('/api/symbols?guild=guild-c')).status).toBe(404);
+  });
+
+  test('should return the latest top picks and the allowlist', async () => {
+    expect((await get('/api/top-picks/latest')).status).toBe(404);
+
+    // Button creation fails on this mock message - the snapshot is recorded before that
+    await guildA.channelScanner.handleMessage({
+      id: 'picks-1',
+      channelId: 'general',
+      url: 'https://discord.com/channels/guild-a/general/picks-1',
+      content: '❕ טופ פיקס:\n📈 long: NVDA, AMD\n📉 short: TSLA',
+      createdAt: new Date(),
+      author: { id: 'manager1', tag: 'Manager#0001' },
+      member: { displayName: 'Manager' }
+    } as any, guildA.config).catch(() => undefined);
+
+    const topPicks = await (await get('/api/top-picks/latest')).json();
+    expect(topPicks.data.messageId).toBe('picks-1');
+    expect(topPicks.data.long).toEqual(['NVDA', 'AMD']);
+    expect(topPicks.data.short).toEqual(['TSLA']);
+
+    guildA.analysisLinker.getSymbolAllowlist().addSymbol('XYZ', 'manager1', 'msg-x', 'XYZ context');
+    const allowlist = await (await get('/api/allowlist')).json();
+    expect(allowlist.data.map((e: any) => e.symbol)).toContain('XYZ');
+    expect(allowlist.pagination.total).toBeGreaterThanOrEqual(1);
+  });
+});
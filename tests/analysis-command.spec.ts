@@ -0,0 +1,205 @@
+import { test, expect } from '@playwright/test';
+import { AnalysisLinker } from '../src/services/AnalysisLinker';
+import { EphemeralHandler } from '../src/services/EphemeralHandler';
+import * as analysisCommand from '../src/commands/analysis';
+
+const mockGuildId = 'mock-guild-id';
+const mockChannelId = 'mock-long-analysis-123';
+
+function createAnalysisMessage(id: string, content: string, minutesAgo: number, authorId: string = 'manager1'): any {
+  return {
+    id,
+    author: { bot: false, id: authorId, tag: `${authorId}#0001` },
+    content,
+    createdAt: new Date(Date.now() - minutesAgo * 60 * 1000),
+    guildId: mockGuildId,
+    channel: { id: mockChannelId, isThread: () => false },
+    member: { displayName: `Analyst ${authorId}`, displayAvatarURL: () => `https://cdn.example.com/${authorId}.png` },
+    reference: null
+  };
+}
+
+const mockClient = {
+  channels: { cache: new Map([[mockChannelId, { name: 'long-analysis' }]]) }
+};
+
+// Mock ChatInputCommandInteraction for /analysis
+class MockAnalysisInteraction {
+  public deferred: boolean = false;
+  public deferEphemeral: boolean = false;
+  public lastEdit: any = null;
+  public user = { id: 'member1', tag: 'Member#0001' };
+  public guildId = mockGuildId;
+  public client = mockClient;
+  public options: any;
+
+  constructor(symbol: string, count: number | null = null, analystId: string | null = null) {
+    this.options = {
+      getString: () => symbol,
+      getInteger: () => count,
+      getUser: () => analystId ? { id: analystId, tag: `${analystId}#0001` } : null
+    };
+  }
+
+  async reply(content: any) {
+    this.lastEdit = content;
+  }
+
+  async deferReply(options: any) {
+    this.deferred = true;
+    this.deferEphemeral = !!options?.ephemeral;
+  }
+
+  async editReply(content: any) {
+    this.lastEdit = content;
+  }
+}
+
+// Mock ButtonInteraction for the Previous/Next page buttons
+class MockPageButtonInteraction {
+  public replied: boolean = false;
+  public deferred: boolean = false;
+  public lastUpdate: any = null;
+  public user = { id: 'member1', tag: 'Member#0001' };
+  public guildId = mockGuildId;
+  public client = mockClient;
+
+  constructor(public customId: string) {}
+
+  async update(content: any) {
+    this.lastUpdate = content;
+  }
+
+  async reply(content: any) {
+    this.replied = true;
+    this.lastUpdate = content;
+  }
+}
+
+test.describe('/analysis Slash Command', () => {
+  let analysisLinker: AnalysisLinker;
+  let ephemeralHandler: EphemeralHandler;
+
+  test.beforeEach(async () => {
+    analysisLinker = new AnalysisLinker();
+    ephemeralHandler = new EphemeralHandler(analysisLinker);
+    analysisCommand.initializeServices(analysisLinker, ephemeralHandler);
+
+    await analysisLinker.indexMessage(createAnalysisMessage('nvda-1', '$NVDA analysis with bullish breakout and price target 180', 90));
+    await analysisLinker.indexMessage(createAnalysisMessage('nvda-2', '$NVDA update holding support, price target 190', 60));
+    await analysisLinker.indexMessage(createAnalysisMessage('nvda-3', '$NVDA breakout above resistance with price target 200', 30));
+    await analysisLinker.indexMessage(createAnalysisMessage('amd-1', '$AMD analysis with bullish breakout and price target 150', 20));
+  });
+
+  test('should reply ephemerally with the same embed the symbol button builds', async () => {
+    const interaction = new MockAnalysisInteraction('$nvda');
+
+    await analysisCommand.execute(interaction as any);
+
+    expect(interaction.deferEphemeral).toBe(true);
+    const embed = interaction.lastEdit.embeds[0].toJSON();
+    expect(embed.title).toBe('📊 Latest Analysis for $NVDA');
+    expect(embed.url).toContain('nvda-3');
+    expect(embed.description).toContain('#long-analysis');
+    expect(embed.description).toContain('[View Original Message]');
+    expect(embed.footer.text).toBe('Analysis 1 of 3 (newest first)');
+  });
+
+  test('should page through the analysis history with Previous/Next buttons', async () => {
+    const interaction = new MockAnalysisInteraction('NVDA', 3);
+    await analysisCommand.execute(interaction as any);
+
+    const [previous, next] = interaction.lastEdit.components[0].toJSON().components;
+    expect(previous.disabled).toBe(true);
+    expect(next.disabled).toBe(false);
+
+    const button = new MockPageButtonInteraction(next.custom_id);
+    await ephemeralHandler.handleButtonInteraction(button as any);
+
+    const embed = button.lastUpdate.embeds[0].toJSON();
+    expect(embed.url).toContain('nvda-2');
+    expect(embed.footer.text).toBe('Analysis 2 of 3 (newest first)');
+
+    const [, lastNext] = button.lastUpdate.components[0].toJSON().components;
+    const lastPage = new MockPageButtonInteraction(lastNext.custom_id);
+    await ephemeralHandler.handleButtonInteraction(lastPage as any);
+
+    const [, finalNext] = lastPage.lastUpdate.components[0].toJSON().components;
+    expect(lastPage.lastUpdate.embeds[0].toJSON().url).toContain('nvda-1');
+    expect(finalNext.disabled).toBe(true);
+  });
+
+  test('should omit navigation when only one analysis is requested', async () => {
+    const interaction = new MockAnalysisInteraction('NVDA', 1);
+    await analysisCommand.execute(interaction as any);
+
+    expect(interaction.lastEdit.components).toHaveLength(0);
+    expect(interaction.lastEdit.embeds[0].toJSON().url).toContain('nvda-3');
+  });
+
+  test('should report when no recent analysis exists', async () => {
+    const interaction = new MockAnalysisInteraction('TSLA');
+    await analysisCommand.execute(interaction as any);
+
+    expect(interaction.lastEdit.content).toContain('No recent analysis found');
+  });
+
+  test('should credit the analyst with their display name and avatar', async () => {
+    const interaction = new MockAnalysisInteraction('NVDA');
+    await analysisCommand.execute(interaction as any);
+
+    const embed = interaction.lastEdit.embeds[0].toJSON();
+    expect(embed.author).toEqual({ name: 'Analyst manager1', icon_url: 'https://cdn.example.com/manager1.png' });
+  });
+
+  test('should filter by analyst and keep the filter when paging', async () => {
+    await analysisLinker.indexMessage(createAnalysisMessage('nvda-4', '$NVDA second opinion with bearish breakdown below support', 45, 'analyst2'));
+    await analysisLinker.indexMessage(createAnalysisMessage('nvda-5', '$NVDA bearish follow-up, price target 150 if support breaks', 10, 'analyst2'));
+
+    const interaction = new MockAnalysisInteraction('NVDA', 5, 'analyst2');
+    await analysisCommand.execute(interaction as any);
+
+    const embed = interaction.lastEdit.embeds[0].toJSON();
+    expect(embed.url).toContain('nvda-5');
+    expect(embed.author.name).toBe('Analyst analyst2');
+    expect(embed.footer.text).toBe('Analysis 1 of 2 (newest first)');
+
+    const [, next] = interaction.lastEdit.components[0].toJSON().components;
+    const button = new MockPageButtonInteraction(next.custom_id);
+    await ephemeralHandler.handleButtonInteraction(button as any);
+
+    expect(button.lastUpdate.embeds[0].toJSON().url).toContain('nvda-4');
+    expect(button.lastUpdate.embeds[0].toJSON().footer.text).toBe('Analysis 2 of 2 (newest first)');
+
+    const unknownAnalyst = new MockAnalysisInteraction('NVDA', 3, 'analyst3');
+    await analysisCommand.execute(unknownAnalyst as any);
+    expect(unknownAnalyst.lastEdit.content).toContain('No recent analysis from <@analyst3>');
+  });
+
+  test('should autocomplete from symbols with recent analysis', async () => {
+    let choices: any[] = [];
+    const autocomplete = {
+      options: { getFocused: () => 'n' },
+      respond: async (result: any[]) => { choices = result; }
+    };
+
+    await analysisCommand.autocomplete(autocomplete as any);
+
+    expect(choices).toEqual([{ name: '$NVDA', value: 'NVDA' }]);
+  });
+
+  test('should warn when the latest call flips direction', async () => {
+    const unchanged = new MockAnalysisInteraction('NVDA', 1);
+    await analysisCommand.execute(unchanged as any);
+    expect(unchanged.lastEdit.content).toBeUndefined();
+
+    await analysisLinker.indexMessage(createAnalysisMessage('nvda-4', '$NVDA failed breakout, bearish breakdown below support 175', 5));
+
+    const flipped = new MockAnalysisInteraction('NVDA', 1);
+    await analysisCommand.execute(flipped as any);
+
+    expect(flipped.lastEdit.content).toContain('the call shown on $NVDA is **bearish**, the [previous call](');
+    expect(flipped.lastEdit.content).toContain('was **bullish**');
+    expect(flipped.lastEdit.embeds[0].toJSON().url).toContain('nvda-4');
+  });
+});
@@ -0,0 +1,185 @@
+import { test, expect } from '@playwright/test';
+import { AnalysisLinker } from '../src/services/AnalysisLinker';
+import { EphemeralHandler } from '../src/services/EphemeralHandler';
+import { AnalysisData } from '../src/types';
+
+const mockGuildId = 'mock-guild-id';
+const mockChannelId = 'mock-long-analysis-123';
+
+function createAnalysisMessage(id: string, content: string, daysAgo: number): any {
+  return {
+    id,
+    author: { bot: false, id: 'manager1', tag: 'Manager#0001' },
+    content,
+    createdAt: new Date(Date.now() - daysAgo * 24 * 60 * 60 * 1000),
+    guildId: mockGuildId,
+    channel: { id: mockChannelId, isThread: () => false },
+    member: { displayName: 'Manager' },
+    reference: null
+  };
+}
+
+// Adds entries the way a historical scrape page does, without touching the latest analysis
+function applyScrapedHistory(analysisLinker: AnalysisLinker, symbol: string, analyses: AnalysisData[]): void {
+  analysisLinker.applyScrapedBatch({
+    channelId: mockChannelId,
+    checkpoint: analyses[analyses.length - 1]!.messageId,
+    latestAnalysis: new Map(),
+    history: new Map([[symbol, analyses]])
+  });
+}
+
+const mockClient = {
+  channels: { cache: new Map([[mockChannelId, { name: 'long-analysis' }]]) }
+};
+
+// Mock ButtonInteraction covering both the symbol button and the page buttons
+class MockButtonInteraction {
+  public replied: boolean = false;
+  public deferred: boolean = false;
+  public response: any = null;
+  public user = { id: 'member1', tag: 'Member#0001' };
+  public guildId = mockGuildId;
+  public channelId = 'mock-general-789';
+  public client = mockClient;
+
+  constructor(public customId: string) {}
+
+  async deferReply() {
+    this.deferred = true;
+  }
+
+  async editReply(content: any) {
+    this.response = content;
+  }
+
+  async update(content: any) {
+    this.response = content;
+  }
+
+  async reply(content: any) {
+    this.replied = true;
+    this.response = content;
+  }
+}
+
+function navButtons(response: any): any[] {
+  return response.components[0].toJSON().components;
+}
+
+test.describe('Analysis History Pagination', () => {
+  let analysisLinker: AnalysisLinker;
+  let ephemeralHandler: EphemeralHandler;
+
+  test.beforeEach(async () => {
+    analysisLinker = new AnalysisLinker();
+    ephemeralHandler = new EphemeralHandler(analysisLinker);
+
+    await analysisLinker.indexMessage(createAnalysisMessage('vik-1', '$VIK analysis with bullish breakout and price target 60', 12));
+    await analysisLinker.indexMessage(createAnalysisMessage('vik-2', '$VIK pullback to support, still bullish with price target 62', 5));
+    await analysisLinker.indexMessage(createAnalysisMessage('vik-3', '$VIK breakout above resistance with price target 65', 1));
+  });
+
+  test('should walk backwards through a symbol button reply with Previous/Next', async () => {
+    const click = new MockButtonInteraction('symbol_VIK_top-picks-msg');
+    await ephemeralHandler.handleButtonInteraction(click as any);
+
+    const first = click.response.embeds[0].toJSON();
+    expect(first.title).toBe('📊 Latest Analysis for $VIK');
+    expect(first.url).toContain('vik-3');
+    expect(first.footer.text).toBe('Analysis 1 of 3 (newest first)');
+    expect(navButtons(click.response)[0].disabled).toBe(true);
+
+    const older = new MockButtonInteraction(navButtons(click.response)[1].custom_id);
+    await ephemeralHandler.handleButtonInteraction(older as any);
+
+    const second = older.response.embeds[0].toJSON();
+    expect(second.title).toBe('📊 Analysis for $VIK');
+    expect(second.url).toContain('vik-2');
+    expect(second.description).toContain('#long-analysis');
+    expect(second.description).toContain('5d ago');
+
+    const back = new MockButtonInteraction(navButtons(older.response)[0].custom_id);
+    await ephemeralHandler.handleButtonInteraction(back as any);
+    expect(back.response.embeds[0].toJSON().url).toContain('vik-3');
+  });
+
+  test('should link each page to the analysis it shows', async () => {
+    // Backfilled entries join the history in posting order without becoming the tracked latest analysis
+    applyScrapedHistory(analysisLinker, 'VIK', [{
+      messageId: 'vik-backfill',
+      channelId: mockChannelId,
+      authorId: 'manager1',
+      content: '$VIK backfilled breakout call',
+      symbols: ['VIK'],
+      timestamp: new Date(Date.now() - 2 * 60 * 60 * 1000),
+      relevanceScore: 1,
+      messageUrl: `https://discord.com/channels/${mockGuildId}/${mockChannelId}/vik-backfill`
+    }]);
+    expect(analysisLinker.getLatestAnalysisUrl('VIK')).toContain('vik-3');
+
+    const click = new MockButtonInteraction('symbol_VIK_top-picks-msg');
+    await ephemeralHandler.handleButtonInteraction(click as any);
+
+    const first = click.response.embeds[0].toJSON();
+    expect(first.description).toContain('backfilled breakout call');
+    expect(first.url).toContain('vik-backfill');
+  });
+
+  test('should page by posting time rather than relevance', async () => {
+    const createEntry = (messageId: string, daysAgo: number, relevanceScore: number): AnalysisData => ({
+      messageId,
+      channelId: mockChannelId,
+      authorId: 'manager1',
+      content: `$AMD ${messageId} call`,
+      symbols: ['AMD'],
+      timestamp: new Date(Date.now() - daysAgo * 24 * 60 * 60 * 1000),
+      relevanceScore,
+      messageUrl: `https://discord.com/channels/${mockGuildId}/${mockChannelId}/${messageId}`
+    });
+    const newerWeak = createEntry('amd-newer-weak', 4, 0.3);
+    const olderStrong = createEntry('amd-older-strong', 10, 1);
+    analysisLinker.applyScrapedBatch({
+      channelId: mockChannelId,
+      checkpoint: 'amd-newer-weak',
+      latestAnalysis: new Map([['AMD', newerWeak]]),
+      history: new Map([['AMD', [olderStrong, newerWeak]]])
+    });
+
+    const click = new MockButtonInteraction('symbol_AMD_top-picks-msg');
+    await ephemeralHandler.handleButtonInteraction(click as any);
+    expect(click.response.embeds[0].toJSON().url).toContain('amd-newer-weak');
+
+    const older = new MockButtonInteraction(navButtons(click.response)[1].custom_id);
+    await ephemeralHandler.handleButtonInteraction(older as any);
+    expect(older.response.embeds[0].toJSON().url).toContain('amd-older-strong');
+  });
+
+  test('should keep a single embed without buttons when only one analysis exists', async () => {
+    await analysisLinker.indexMessage(createAnalysisMessage('amd-1', '$AMD analysis with bullish breakout and price target 150', 2));
+
+    const click = new MockButtonInteraction('symbol_AMD_top-picks-msg');
+    await ephemeralHandler.handleButtonInteraction(click as any);
+
+    expect(click.response.embeds).toHaveLength(1);
+    expect(click.response.components).toHaveLength(0);
+  });
+
+  test('should add backfilled history without replacing the latest analysis', async () => {
+    const older: AnalysisData = {
+      messageId: 'vik-0',
+      channelId: mockChannelId,
+      authorId: 'manager1',
+      content: '$VIK first look',
+      symbols: ['VIK'],
+      timestamp: new Date(Date.now() - 15 * 24 * 60 * 60 * 1000),
+      relevanceScore: 0.9
+    };
+
+    applyScrapedHistory(analysisLinker, 'VIK', [older]);
+
+    const history = await analysisLinker.getLatestAnalysis('VIK', AnalysisLinker.MAX_ANALYSES_PER_SYMBOL);
+    expect(history.map(a => a.messageId)).toEqual(['vik-3', 'vik-2', 'vik-1', 'vik-0']);
+    expect(analysisLinker.getLatestAnalysisUrl('VIK')).toContain('vik-3');
+  });
+});
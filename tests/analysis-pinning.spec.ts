@@ -0,0 +1,177 @@
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AnalysisLinker } from '../src/services/AnalysisLinker';
+import { JsonFileAnalysisStore } from '../src/services/AnalysisStore';
+import { DiscussionChannelHandler } from '../src/services/DiscussionChannelHandler';
+import * as pinCommand from '../src/commands/pin';
+import * as unpinCommand from '../src/commands/unpin';
+import { AnalysisData, BotConfig } from '../src/types';
+
+function createMessage(id: string, content: string, minutesAgo: number, channelId: string = 'long_analysis'): any {
+  return {
+    id,
+    author: { bot: false, id: 'manager1', tag: 'Manager#0001' },
+    content,
+    createdAt: new Date(Date.now() - minutesAgo * 60 * 1000),
+    guildId: 'guild-a',
+    channelId,
+    channel: { id: channelId, isThread: () => false },
+    member: { displayName: 'Manager' },
+    reference: null,
+    attachments: new Map(),
+    embeds: []
+  };
+}
+
+function createInteraction(userId: string, options: Record<string, string>, messages: Record<string, any> = {}): any {
+  const interaction: any = {
+    user: { id: userId, tag: `${userId}#0001` },
+    member: { displayName: userId },
+    channel: { id: 'general', isThread: () => false },
+    guildId: '1000',
+    options: {
+      getString: (name: string) => options[name] ?? null
+    },
+    client: {
+      channels: {
+        fetch: async (channelId: string) => ({
+          id: channelId,
+          // Channel 9000 belongs to another server
+          guildId: channelId === '9000' ? '1001' : '1000',
+          isDMBased: () => false,
+          isTextBased: () => true,
+          messages: {
+            fetch: async (messageId: string) => {
+              if (!messages[messageId]) {
+                throw new Error('Unknown Message');
+              }
+              return messages[messageId];
+            }
+          }
+        })
+      }
+    },
+    reply: async (response: any) => {
+      interaction.response = response;
+    },
+    deferReply: async () => {},
+    editReply: async (response: any) => {
+      interaction.response = response;
+    }
+  };
+  return interaction;
+}
+
+test.describe('Pinned latest analysis', () => {
+  let analysisLinker: AnalysisLinker;
+
+  test.beforeEach(async () => {
+    analysisLinker = new AnalysisLinker();
+    await analysisLinker.indexMessage(createMessage('newer', '$AAPL update with bullish breakout above resistance and price target', 10));
+  });
+
+  test('should prefer the pinned message over newer analysis until unpinned', async () => {
+    const pinned = createMessage('pinned', 'AAPL weekly plan', 600);
+    await analysisLinker.pinAnalysis('AAPL', pinned, 'manager1');
+
+    expect(analysisLinker.getLatestAnalysisUrl('AAPL')).toContain('pinned');
+    const analyses = await analysisLinker.getLatestAnalysis('AAPL', 5);
+    expect(analyses.map(a => a.messageId)).toEqual(['pinned', 'newer']);
+
+    expect(await analysisLinker.unpinAnalysis('AAPL')).toBe(true);
+    expect(await analysisLinker.unpinAnalysis('AAPL')).toBe(false);
+    expect(analysisLinker.getLatestAnalysisUrl('AAPL')).toContain('newer');
+    expect((await analysisLinker.getLatestAnalysis('AAPL', 5)).map(a => a.messageId)).toEqual(['newer']);
+  });
+
+  test('should keep pins through historical rescans', async () => {
+    await analysisLinker.pinAnalysis('MSFT', createMessage('pinned', 'MSFT levels for the week', 600), 'manager1');
+    const [latest] = await analysisLinker.getLatestAnalysis('AAPL', 1);
+    const historical = new Map<string, AnalysisData>([['AAPL', latest!]]);
+
+    analysisLinker.initializeFromHistoricalData(historical);
+    analysisLinker.applyScrapedBatch({
+      channelId: 'long_analysis',
+      checkpoint: latest!.messageId,
+      latestAnalysis: historical,
+      history: new Map([['AAPL', [latest!]]])
+    });
+
+    expect(analysisLinker.hasAnalysisFor('MSFT')).toBe(true);
+    expect(analysisLinker.getLatestAnalysisUrl('MSFT')).toContain('pinned');
+    expect(analysisLinker.getAvailableSymbols()).toContain('MSFT');
+  });
+
+  test('should drop the pin when the pinned message is deleted', async () => {
+    await analysisLinker.pinAnalysis('AAPL', createMessage('pinned', 'AAPL weekly plan', 600), 'manager1');
+
+    expect(analysisLinker.unpinMessage('pinned')).toEqual(['AAPL']);
+    expect(analysisLinker.getPinnedSymbols()).toEqual([]);
+    expect(analysisLinker.getLatestAnalysisUrl('AAPL')).toContain('newer');
+  });
+
+  test('should persist pins with the analysis index', async () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'analysis-pins-'));
+    try {
+      const storePath = path.join(tempDir, 'analysis-index.json');
+      const linker = new AnalysisLinker(undefined, new JsonFileAnalysisStore(storePath));
+      await linker.pinAnalysis('AAPL', createMessage('pinned', 'AAPL weekly plan', 600), 'manager1');
+
+      const restarted = new AnalysisLinker(undefined, new JsonFileAnalysisStore(storePath));
+      expect(await restarted.loadFromStore()).toBe(true);
+
+      const pin = restarted.getPinnedAnalysis('AAPL');
+      expect(pin).toMatchObject({ pinnedBy: 'manager1', analysis: { messageId: 'pinned' } });
+      expect(pin!.pinnedAt).toBeInstanceOf(Date);
+      expect(pin!.analysis.timestamp).toBeInstanceOf(Date);
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test('should let managers pin and unpin with slash commands', async () => {
+    const botConfig: BotConfig = {
+      generalNoticesChannel: 'general',
+      analysisChannels: ['long_analysis'],
+      discussionChannels: [],
+      guildId: '1000',
+      managerId: 'manager1'
+    };
+    const registry: any = { get: () => ({ config: botConfig, analysisLinker }) };
+    pinCommand.initializeServices(new DiscussionChannelHandler(), analysisLinker, registry);
+    unpinCommand.initializeServices(new DiscussionChannelHandler(), analysisLinker, registry);
+
+    const link = 'https://discord.com/channels/1000/2000/3000';
+    const messages = { '3000': createMessage('3000', 'AAPL weekly plan', 600, '2000') };
+
+    const denied = createInteraction('user1', { symbol: 'AAPL', message_link: link }, messages);
+    await pinCommand.execute(denied);
+    expect(denied.response.content).toContain('Only managers');
+
+    const otherGuild = createInteraction('manager1', { symbol: 'AAPL', message_link: 'https://discord.com/channels/1001/2000/3000' }, messages);
+    await pinCommand.execute(otherGuild);
+    expect(otherGuild.response.content).toContain('must be in this server');
+
+    // A link that claims this server but points at another server's channel
+    const foreignChannel = createInteraction('manager1', { symbol: 'AAPL', message_link: 'https://discord.com/channels/1000/9000/3000' }, messages);
+    await pinCommand.execute(foreignChannel);
+    expect(foreignChannel.response.content).toContain('Could not find that message');
+    expect(analysisLinker.getPinnedSymbols()).toEqual([]);
+
+    const missing = createInteraction('manager1', { symbol: 'AAPL', message_link: 'https://discord.com/channels/1000/2000/3001' }, messages);
+    await pinCommand.execute(missing);
+    expect(missing.response.content).toContain('Could not find that message');
+
+    const pin = createInteraction('manager1', { symbol: '$aapl', message_link: `<${link}>` }, messages);
+    await pinCommand.execute(pin);
+    expect(pin.response.content).toContain('Pinned [this message]');
+    expect(analysisLinker.getPinnedAnalysis('AAPL')).toMatchObject({ pinnedBy: 'manager1' });
+
+    const unpin = createInteraction('manager1', { symbol: 'aapl' });
+    await unpinCommand.execute(unpin);
+    expect(unpin.response.content).toContain('Unpinned **$AAPL**');
+    expect(analysisLinker.getPinnedSymbols()).toEqual([]);
+  });
+});
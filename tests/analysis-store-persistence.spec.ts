@@ -0,0 +1,125 @@
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AnalysisLinker } from '../src/services/AnalysisLinker';
+import { JsonFileAnalysisStore } from '../src/services/AnalysisStore';
+import { Snowflake } from '../src/utils/Snowflake';
+import { AnalysisData } from '../src/types';
+
+function createAnalysisMessage(id: string, channelId: string, content: string, createdAt: Date): any {
+  return {
+    id,
+    author: { bot: false, id: 'manager1', tag: 'Manager#0001' },
+    content,
+    createdAt,
+    guildId: 'test-guild',
+    channelId,
+    channel: { id: channelId, isThread: () => false },
+    member: { displayName: 'Manager' },
+    reference: null,
+    attachments: new Map(),
+    embeds: []
+  };
+}
+
+test.describe('Analysis Index Persistence', () => {
+  let tempDir: string;
+  let storePath: string;
+
+  test.beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'analysis-store-'));
+    storePath = path.join(tempDir, 'analysis-index.json');
+  });
+
+  test.afterEach(async () => {
+    // Let fire-and-forget writes settle before removing the directory
+    await new Promise(resolve => setTimeout(resolve, 50));
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('should write through on indexMessage and restore after restart', async () => {
+    const linker = new AnalysisLinker(undefined, new JsonFileAnalysisStore(storePath));
+    const message = createAnalysisMessage(
+      '1428062135082160228',
+      'long_analysis',
+      '$NVDA technical analysis shows bullish breakout above resistance with price target 210',
+      new Date(Date.now() - 60 * 60 * 1000)
+    );
+
+    await linker.indexMessage(message);
+    expect(fs.existsSync(storePath)).toBe(true);
+
+    // Simulate a restart with a fresh linker reading the same store
+    const restarted = new AnalysisLinker(undefined, new JsonFileAnalysisStore(storePath));
+    const restored = await restarted.loadFromStore();
+
+    expect(restored).toBe(true);
+    expect(restarted.hasAnalysisFor('NVDA')).toBe(true);
+    expect(restarted.getLatestAnalysisUrl('NVDA')).toContain('1428062135082160228');
+
+    const analyses = await restarted.getLatestAnalysis('NVDA', 1);
+    expect(analyses[0]!.timestamp).toBeInstanceOf(Date);
+    expect(analyses[0]!.timestamp.getTime()).toBe(message.createdAt.getTime());
+  });
+
+  test('should persist the newest processed message ID per channel as a checkpoint', async () => {
+    const linker = new AnalysisLinker(undefined, new JsonFileAnalysisStore(storePath));
+
+    await linker.indexMessage(createAnalysisMessage('1428061000000000000', 'long_analysis', '$AAPL analysis with bullish breakout and price target', new Date()));
+    // Rejected (ticker-only) messages still advance the checkpoint - they were processed
+    await linker.indexMessage(createAnalysisMessage('1428062000000000000', 'long_analysis', 'AAPL', new Date()));
+
+    const restarted = new AnalysisLinker(undefined, new JsonFileAnalysisStore(storePath));
+    // Checkpoint is only flushed by the next write - the accepted message persisted the first one
+    await restarted.loadFromStore();
+    expect(restarted.getChannelCheckpoints().get('long_analysis')).toBe('1428061000000000000');
+
+    // A scraped page behind the live checkpoint flushes it without moving it back
+    linker.applyScrapedBatch({ channelId: 'long_analysis', checkpoint: '1428061000000000000', latestAnalysis: new Map(), history: new Map() });
+    await new Promise(resolve => setTimeout(resolve, 50));
+    await restarted.loadFromStore();
+    expect(restarted.getChannelCheckpoints().get('long_analysis')).toBe('1428062000000000000');
+  });
+
+  test('should add scraped pages without dropping restored analysis', async () => {
+    const linker = new AnalysisLinker(undefined, new JsonFileAnalysisStore(storePath));
+    await linker.indexMessage(createAnalysisMessage('1428061000000000000', 'long_analysis', '$TSLA analysis with bullish breakout and price target', new Date(Date.now() - 2 * 60 * 60 * 1000)));
+
+    const restarted = new AnalysisLinker(undefined, new JsonFileAnalysisStore(storePath));
+    await restarted.loadFromStore();
+
+    const backfilled: AnalysisData = {
+      messageId: '1428063000000000000',
+      channelId: 'short_analysis',
+      authorId: 'manager1',
+      content: '$AMD analysis',
+      symbols: ['AMD'],
+      timestamp: new Date(),
+      relevanceScore: 0.9
+    };
+    restarted.applyScrapedBatch({
+      channelId: 'short_analysis',
+      checkpoint: backfilled.messageId,
+      latestAnalysis: new Map([['AMD', backfilled]]),
+      history: new Map([['AMD', [backfilled]]])
+    });
+
+    expect(restarted.hasAnalysisFor('TSLA')).toBe(true);
+    expect(restarted.hasAnalysisFor('AMD')).toBe(true);
+    expect(restarted.getChannelCheckpoints().get('short_analysis')).toBe(backfilled.messageId);
+  });
+
+  test('should return false when no persisted index exists', async () => {
+    const linker = new AnalysisLinker(undefined, new JsonFileAnalysisStore(storePath));
+    expect(await linker.loadFromStore()).toBe(false);
+    expect(await new AnalysisLinker().loadFromStore()).toBe(false);
+  });
+
+  test('Snowflake should order IDs chronologically and decode timestamps', () => {
+    expect(Snowflake.isNewer('1428062135082160228', '1428061000000000000')).toBe(true);
+    expect(Snowflake.isNewer('999', '1000')).toBe(false);
+    expect(Snowflake.toDate('1428062135082160228')!.getFullYear()).toBeGreaterThanOrEqual(2025);
+    expect(Snowflake.toDate('not-a-snowflake')).toBeNull();
+  });
+});
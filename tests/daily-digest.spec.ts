@@ -0,0 +1,142 @@
+import { test, expect } from '@playwright/test';
+import { AnalysisLinker } from '../src/services/AnalysisLinker';
+import { EphemeralHandler } from '../src/services/EphemeralHandler';
+import { MessageRetention } from '../src/services/MessageRetention';
+import { DailyDigest } from '../src/services/DailyDigest';
+import { Scheduler, DailySchedule, Schedule } from '../src/services/Scheduler';
+import { ButtonCustomId } from '../src/utils/ButtonCustomId';
+import { BotConfig } from '../src/types';
+
+const botConfig: BotConfig = {
+  generalNoticesChannel: 'general',
+  analysisChannels: ['long_analysis', 'short_analysis'],
+  discussionChannels: ['long_discussion'],
+  guildId: 'test-guild',
+  managerId: 'manager1'
+};
+
+function createMessage(id: string, channelId: string, content: string, hoursAgo: number): any {
+  return {
+    id,
+    author: { bot: false, id: 'manager1', tag: 'Manager#0001' },
+    content,
+    createdAt: new Date(Date.now() - hoursAgo * 60 * 60 * 1000),
+    guildId: 'test-guild',
+    channelId,
+    channel: { id: channelId, isThread: () => false },
+    member: { displayName: 'Manager' },
+    reference: null,
+    attachments: new Map(),
+    embeds: []
+  };
+}
+
+function createChannel(): any {
+  const channel: any = {
+    id: 'general',
+    sent: [] as any[],
+    isTextBased: () => true,
+    send: async (payload: any) => {
+      const message = { id: `digest-message-${channel.sent.length + 1}`, channel, payload };
+      channel.sent.push(message);
+      return message;
+    }
+  };
+  return channel;
+}
+
+test.describe('Daily schedule', () => {
+  test('should run at the wall-clock time in the configured time zone across DST changes', () => {
+    const schedule = DailySchedule.parse('08:00', 'Asia/Jerusalem')!;
+
+    // Israel is UTC+2 in winter: 08:00 local is 06:00 UTC
+    expect(schedule.next(new Date('2026-03-02T05:00:00Z')).toISOString()).toBe('2026-03-02T06:00:00.000Z');
+    expect(schedule.next(new Date('2026-03-02T06:00:00Z')).toISOString()).toBe('2026-03-03T06:00:00.000Z');
+
+    // Daylight saving time starts on 27 March 2026, after which 08:00 local is 05:00 UTC
+    expect(schedule.next(new Date('2026-03-27T10:00:00Z')).toISOString()).toBe('2026-03-28T05:00:00.000Z');
+    expect(schedule.describe()).toBe('daily at 08:00 Asia/Jerusalem');
+  });
+
+  test('should reject malformed times and unknown time zones', () => {
+    expect(DailySchedule.parse('8:30', 'UTC')).not.toBeNull();
+    expect(DailySchedule.parse('24:00', 'UTC')).toBeNull();
+    expect(DailySchedule.parse('morning', 'UTC')).toBeNull();
+    expect(DailySchedule.parse('08:00', 'Mars/Olympus_Mons')).toBeNull();
+  });
+
+  test('should run jobs when due and keep running after a failure', async () => {
+    const scheduler = new Scheduler();
+    const soon: Schedule = { next: after => new Date(after.getTime() + 20), describe: () => 'every 20ms' };
+    let runs = 0;
+    scheduler.add('flaky', soon, async () => {
+      runs++;
+      throw new Error('boom');
+    });
+
+    scheduler.start();
+    await expect.poll(() => runs).toBeGreaterThanOrEqual(2);
+    scheduler.stop();
+
+    const [job] = scheduler.getJobs();
+    expect(job!.lastRunAt).toBeInstanceOf(Date);
+    expect(job!.nextRunAt).toBeNull();
+    expect(() => scheduler.add('flaky', soon, async () => {})).toThrow('already exists');
+  });
+});
+
+test.describe('Daily digest', () => {
+  let analysisLinker: AnalysisLinker;
+
+  test.beforeEach(async () => {
+    analysisLinker = new AnalysisLinker();
+    await analysisLinker.indexMessage(createMessage('long1', 'long_analysis', '$NVDA analysis showing bullish breakout with price target 210', 2));
+    await analysisLinker.indexMessage(createMessage('long2', 'long_analysis', '$NVDA $AMD breakout above resistance with strong volume', 5));
+    await analysisLinker.indexMessage(createMessage('short1', 'short_analysis', '$TSLA breakdown below support, short with target 180', 3));
+    await analysisLinker.indexMessage(createMessage('old', 'long_analysis', '$AAPL analysis showing bullish breakout with price target 250', 30));
+  });
+
+  test('should group symbols with analysis from the last 24 hours by channel', () => {
+    const digest = new DailyDigest(24, 'Asia/Jerusalem');
+    const since = new Date(Date.now() - 24 * 60 * 60 * 1000);
+    const sections = digest.buildSections(analysisLinker.getAnalysesSince(since), botConfig);
+
+    expect(sections).toEqual([
+      { title: '📈 Long', symbols: [{ symbol: 'NVDA', analysisCount: 2 }, { symbol: 'AMD', analysisCount: 1 }] },
+      { title: '📉 Short', symbols: [{ symbol: 'TSLA', analysisCount: 1 }] }
+    ]);
+
+    const embed = digest.buildEmbed(sections).toJSON();
+    expect(embed.title).toContain('Daily Analysis Digest');
+    expect(embed.fields!.map(field => [field.name, field.value])).toEqual([
+      ['📈 Long (2)', '**$NVDA** ×2, **$AMD**'],
+      ['📉 Short (1)', '**$TSLA**']
+    ]);
+  });
+
+  test('should post symbol buttons to the general notices channel and register them for retention', async () => {
+    const messageRetention = new MessageRetention();
+    const ephemeralHandler = new EphemeralHandler(analysisLinker, messageRetention);
+    const channel = createChannel();
+    const client: any = { channels: { fetch: async (id: string) => (id === 'general' ? channel : null) } };
+    const services: any = { config: botConfig, analysisLinker, ephemeralHandler, messageRetention };
+
+    expect(await new DailyDigest().post(client, services)).toBe(true);
+
+    expect(channel.sent).toHaveLength(1);
+    const payload = channel.sent[0].payload;
+    expect(payload.embeds).toHaveLength(1);
+    const buttonIds = payload.components.flatMap((row: any) => row.toJSON().components.map((button: any) => button.custom_id));
+    expect(buttonIds.map((id: string) => ButtonCustomId.parseSymbol(id)!.symbol)).toEqual(['NVDA', 'AMD', 'TSLA']);
+    expect(messageRetention.getRetentionStats().pendingJobs).toBe(1);
+  });
+
+  test('should skip the post when there is no new analysis', async () => {
+    const channel = createChannel();
+    const client: any = { channels: { fetch: async () => channel } };
+    const services: any = { config: botConfig, analysisLinker: new AnalysisLinker(), ephemeralHandler: null };
+
+    expect(await new DailyDigest().post(client, services)).toBe(false);
+    expect(channel.sent).toHaveLength(0);
+  });
+});
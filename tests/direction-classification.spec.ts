@@ -0,0 +1,114 @@
+import { test, expect } from '@playwright/test';
+import { Colors } from 'discord.js';
+import { DirectionClassifier } from '../src/services/DirectionClassifier';
+import { AnalysisLinker } from '../src/services/AnalysisLinker';
+import { EphemeralHandler } from '../src/services/EphemeralHandler';
+import { MessageRetention } from '../src/services/MessageRetention';
+import { AnalysisData } from '../src/types';
+
+const mockClient: any = {
+  channels: { cache: new Map([['long-analysis', { name: 'long-analysis' }], ['short-analysis', { name: 'short-analysis' }]]) }
+};
+
+function createAnalysisMessage(id: string, channelId: string, content: string): any {
+  return {
+    id,
+    author: { bot: false, id: 'manager1', tag: 'Manager#0001' },
+    content,
+    createdAt: new Date(),
+    guildId: 'guild-a',
+    channelId,
+    channel: { id: channelId, isThread: () => false },
+    member: { displayName: 'Manager' },
+    reference: null
+  };
+}
+
+function createAnalysis(messageId: string, minutesAgo: number, direction?: AnalysisData['direction']): AnalysisData {
+  return {
+    messageId,
+    channelId: 'long-analysis',
+    authorId: 'manager1',
+    content: '',
+    symbols: ['NVDA'],
+    timestamp: new Date(Date.now() - minutesAgo * 60 * 1000),
+    relevanceScore: 1,
+    ...(direction ? { direction } : {})
+  };
+}
+
+test.describe('Direction classification', () => {
+  const classifier = new DirectionClassifier(['long-analysis', 'short-analysis']);
+
+  test('should classify English and Hebrew wording', () => {
+    expect(classifier.classify('$NVDA bullish breakout above resistance').direction).toBe('bullish');
+    expect(classifier.classify('$AMD הפריצה מעל הממוצע עם מומנטום').direction).toBe('bullish');
+    expect(classifier.classify('$XYZ שורט מתחת לקו, נשברה התמיכה').direction).toBe('bearish');
+
+    // "failed breakout" is bearish and must not also count as a breakout
+    const failed = classifier.classify('$TSLA failed breakout, breakdown below support');
+    expect(failed.direction).toBe('bearish');
+    expect(failed.bullishScore).toBe(0);
+  });
+
+  test('should lean on the channel of origin and stay neutral without a signal', () => {
+    expect(classifier.classify('$NVDA update', 'long-analysis')).toMatchObject({ direction: 'bullish', confidence: 0.8 });
+    expect(classifier.classify('$NVDA update', 'short-analysis').direction).toBe('bearish');
+    expect(classifier.classify('$NVDA sitting near the 50 day')).toMatchObject({ direction: 'neutral', confidence: 0.5 });
+    expect(classifier.classify('$NVDA breakout or breakdown from here').direction).toBe('neutral');
+
+    // A strongly bearish post in the long channel is still bearish
+    expect(classifier.classify('$NVDA bearish: failed breakout, lower highs, breakdown', 'long-analysis').direction).toBe('bearish');
+  });
+
+  test('should store the direction on indexed analysis and color the embed', async () => {
+    const analysisLinker = new AnalysisLinker();
+    analysisLinker.setAnalysisChannels(['long-analysis', 'short-analysis']);
+    const ephemeralHandler = new EphemeralHandler(analysisLinker, new MessageRetention());
+
+    await analysisLinker.indexMessage(createAnalysisMessage('tsla-1', 'short-analysis', '$TSLA analysis with breakdown below support 200'));
+    const [analysis] = await analysisLinker.getLatestAnalysis('TSLA', 1);
+    expect(analysis!.direction).toBe('bearish');
+    expect(analysis!.directionConfidence).toBeGreaterThan(0.5);
+
+    const embed = ephemeralHandler.buildAnalysisEmbed('TSLA', analysis!, mockClient, 'guild-a').toJSON();
+    expect(embed.color).toBe(Colors.Red);
+    expect(embed.description).toContain('🔴 Bearish');
+
+    const neutral = ephemeralHandler.buildAnalysisEmbed('TSLA', { ...analysis!, direction: 'neutral' }, mockClient, 'guild-a').toJSON();
+    expect(neutral.color).toBe(Colors.Grey);
+  });
+
+  test('should not read long, short, calls or puts as calls without directional context', () => {
+    expect(classifier.classify('$NVDA long term uptrend intact').bullishScore).toBe(1);
+    expect(classifier.classify('$GME short squeeze candidate, short interest is high').direction).toBe('neutral');
+    expect(classifier.classify('$AMD market calls it a top, the team puts in the work').direction).toBe('neutral');
+    expect(classifier.classify('Short-term chop, it has been a long week').direction).toBe('neutral');
+
+    expect(classifier.classify('$NVDA going long here, bought calls').bullishScore).toBe(2);
+    expect(classifier.classify('$TSLA short position from 250, long puts').bearishScore).toBe(2);
+  });
+
+  test('should detect a flip against the most recent directional call', () => {
+    expect(DirectionClassifier.detectFlip([
+      createAnalysis('c', 10, 'bearish'),
+      createAnalysis('b', 20, 'neutral'),
+      createAnalysis('a', 30, 'bullish')
+    ])).toMatchObject({ latest: { messageId: 'c' }, previous: { messageId: 'a' } });
+
+    expect(DirectionClassifier.detectFlip([createAnalysis('b', 10, 'bullish'), createAnalysis('a', 30, 'bullish')])).toBeNull();
+    expect(DirectionClassifier.detectFlip([createAnalysis('b', 10, 'neutral'), createAnalysis('a', 30, 'bullish')])).toBeNull();
+    expect(DirectionClassifier.detectFlip([createAnalysis('b', 10), createAnalysis('a', 30, 'bearish')])).toBeNull();
+  });
+
+  test('should compare the analysis shown first with an earlier call', () => {
+    // A higher-ranked but older analysis is the one on screen; newer analyses are not "previous" calls
+    expect(DirectionClassifier.detectFlip([
+      createAnalysis('b', 20, 'bearish'),
+      createAnalysis('c', 10, 'bullish'),
+      createAnalysis('a', 30, 'bullish')
+    ])).toMatchObject({ latest: { messageId: 'b' }, previous: { messageId: 'a' } });
+
+    expect(DirectionClassifier.detectFlip([createAnalysis('b', 20, 'bearish'), createAnalysis('c', 10, 'bullish')])).toBeNull();
+  });
+});
@@ -100,6 +100,72 @@ test.describe('DiscussionChannelHandler', () => {
 
       expect(handler.isManagerMessage(mockMessage, configWithEmptyId)).toBe(false);
     });
+
+    test('should accept any of the additional manager IDs', () => {
+      const config: BotConfig = { ...mockConfig, managerIds: ['analyst-2', 'analyst-3'] };
+
+      expect(handler.isManagerMessage({ author: { id: 'analyst-3', tag: 'Analyst#0003' } } as any, config)).toBe(true);
+      expect(handler.isManagerMessage({ author: { id: 'manager-user-id-12345', tag: 'TestUser#1234' } } as any, config)).toBe(true);
+      expect(handler.isManagerMessage({ author: { id: 'member-1', tag: 'Member#0001' } } as any, config)).toBe(false);
+    });
+
+    test('should accept members with a manager role by ID', () => {
+      const config: BotConfig = { ...mockConfig, managerRoles: ['role-id-1', 'role-id-999'] };
+      delete (config as any).managerId;
+
+      const cached = {
+        author: { id: 'member-1', tag: 'Member#0001' },
+        member: { roles: { cache: new Map([['role-id-1', { id: 'role-id-1', name: 'Analyst' }]]) } }
+      } as any;
+      // Interactions on uncached members carry raw role IDs only
+      const byRawId = {
+        author: { id: 'member-2', tag: 'Member#0002' },
+        member: { roles: ['role-id-999'] }
+      } as any;
+      const noRole = {
+        author: { id: 'member-3', tag: 'Member#0003' },
+        member: { roles: { cache: new Map([['role-id-2', { id: 'role-id-2', name: 'Trader' }]]) } }
+      } as any;
+
+      expect(handler.isManagerMessage(cached, config)).toBe(true);
+      expect(handler.isManagerMessage(byRawId, config)).toBe(true);
+      expect(handler.isManagerMessage(noRole, config)).toBe(false);
+      expect(handler.isManagerMessage({ author: { id: 'member-4', tag: 'Member#0004' }, member: null } as any, config)).toBe(false);
+    });
+
+    test('should accept members with a manager role by name, ignoring case', () => {
+      const config: BotConfig = { ...mockConfig, managerRoles: ['analyst'] };
+      delete (config as any).managerId;
+
+      const byName = {
+        author: { id: 'member-5', tag: 'Member#0005' },
+        member: { roles: { cache: new Map([['role-id-7', { id: 'role-id-7', name: 'Analyst' }]]) } }
+      } as any;
+      // Uncached interaction members only carry role IDs
+      const rawIdsOnly = {
+        author: { id: 'member-6', tag: 'Member#0006' },
+        member: { roles: ['role-id-7'] }
+      } as any;
+
+      expect(handler.isManagerMessage(byName, config)).toBe(true);
+      expect(handler.isManagerMessage(rawIdsOnly, config)).toBe(false);
+    });
+
+    test('should fetch uncached authors once when manager roles are configured', async () => {
+      const fetched: string[] = [];
+      const guild = { members: { fetch: async (id: string) => { fetched.push(id); } } };
+      const messages = [
+        { author: { id: 'member-1' }, member: null, guild },
+        { author: { id: 'member-1' }, member: null, guild },
+        { author: { id: 'member-2' }, member: { roles: [] }, guild }
+      ] as any[];
+
+      await handler.resolveMessageMembers(messages, mockConfig);
+      expect(fetched).toEqual([]);
+
+      await handler.resolveMessageMembers(messages, { ...mockConfig, managerRoles: ['role-id-1'] });
+      expect(fetched).toEqual(['member-1']);
+    });
   });
 
   test.describe('shouldProcessDiscussionMessage', () => {
@@ -171,6 +237,11 @@ test.describe('DiscussionChannelHandler', () => {
       const managerId = handler.getConfiguredManagerId(configWithoutId);
       expect(managerId).toBeNull();
     });
+
+    test('should combine and dedupe MANAGER_ID with MANAGER_IDS', () => {
+      const config: BotConfig = { ...mockConfig, managerIds: ['analyst-2', 'manager-user-id-12345'] };
+      expect(handler.getConfiguredManagerIds(config)).toEqual(['manager-user-id-12345', 'analyst-2']);
+    });
   });
 
   test.describe('Edge cases', () => {
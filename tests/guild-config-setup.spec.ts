@@ -0,0 +1,216 @@
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PermissionFlagsBits } from 'discord.js';
+import { GuildConfigStore } from '../src/services/GuildConfigStore';
+import { GuildServiceRegistry, GuildServices } from '../src/services/GuildServiceRegistry';
+import { AnalysisLinker } from '../src/services/AnalysisLinker';
+import { MessageRetention } from '../src/services/MessageRetention';
+import { EphemeralHandler } from '../src/services/EphemeralHandler';
+import { ChannelScanner } from '../src/services/ChannelScanner';
+import { ThreadManager } from '../src/services/ThreadManager';
+import { SymbolDetector } from '../src/services/SymbolDetector';
+import { SymbolListStore } from '../src/services/SymbolListStore';
+import { BotConfig } from '../src/types';
+import * as setupCommand from '../src/commands/setup';
+import * as analysisCommand from '../src/commands/analysis';
+
+function createConfig(guildId: string, suffix: string): BotConfig {
+  return {
+    analysisChannels: [`long-${suffix}`, `short-${suffix}`],
+    discussionChannels: [],
+    generalNoticesChannel: `general-${suffix}`,
+    guildId,
+    managerId: `manager-${suffix}`
+  };
+}
+
+function createServices(config: BotConfig): GuildServices {
+  const analysisLinker = new AnalysisLinker();
+  const messageRetention = new MessageRetention();
+  const ephemeralHandler = new EphemeralHandler(analysisLinker, messageRetention);
+  return {
+    config,
+    analysisLinker,
+    messageRetention,
+    ephemeralHandler,
+    channelScanner: new ChannelScanner(new SymbolDetector(), ephemeralHandler, analysisLinker),
+    threadManager: new ThreadManager(config.analysisChannels),
+    symbolLists: new SymbolListStore(),
+    initialized: true
+  };
+}
+
+function createAnalysisMessage(id: string, guildId: string, channelId: string, content: string): any {
+  return {
+    id,
+    author: { bot: false, id: 'manager1', tag: 'Manager#0001' },
+    content,
+    createdAt: new Date(),
+    guildId,
+    channel: { id: channelId, isThread: () => false },
+    member: { displayName: 'Manager' },
+    reference: null
+  };
+}
+
+// Mock ChatInputCommandInteraction for /setup and /analysis
+class MockInteraction {
+  public lastReply: any = null;
+  public user = { id: 'admin1', tag: 'Admin#0001' };
+  public client = { channels: { cache: new Map() } };
+  public memberPermissions: any;
+  public options: any;
+
+  constructor(public guildId: string | null, options: Record<string, any>, isAdmin: boolean = true) {
+    this.memberPermissions = { has: (permission: bigint) => isAdmin && permission === PermissionFlagsBits.Administrator };
+    this.options = {
+      getChannel: (name: string) => options[name] ?? null,
+      getUser: (name: string) => options[name] ?? null,
+      getRole: (name: string) => options[name] ?? null,
+      getString: (name: string) => options[name] ?? null,
+      getInteger: (name: string) => options[name] ?? null
+    };
+  }
+
+  async reply(content: any) {
+    this.lastReply = content;
+  }
+
+  async deferReply() {}
+
+  async editReply(content: any) {
+    this.lastReply = content;
+  }
+}
+
+test.describe('Guild Configuration and /setup', () => {
+  let tempDir: string;
+
+  test.beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'guild-config-'));
+  });
+
+  test.afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('should persist guild configurations and restore them on load', async () => {
+    const filePath = path.join(tempDir, 'guild-configs.json');
+    const store = new GuildConfigStore(filePath);
+    await store.set(createConfig('guild-a', 'a'));
+    await store.set(createConfig('guild-b', 'b'));
+    await store.set({ ...createConfig('guild-a', 'a2') });
+
+    const restored = new GuildConfigStore(filePath);
+    await restored.load();
+
+    expect(restored.getAll()).toHaveLength(2);
+    expect(restored.get('guild-a')!.analysisChannels).toEqual(['long-a2', 'short-a2']);
+    expect(restored.get('guild-b')!.managerId).toBe('manager-b');
+    expect(restored.get('guild-c')).toBeNull();
+    await expect(store.set(createConfig('', 'x'))).rejects.toThrow('guildId');
+  });
+
+  test('should keep each guild\'s analysis index separate', async () => {
+    const registry = new GuildServiceRegistry(createServices);
+    const guildA = registry.configure(createConfig('guild-a', 'a'));
+    const guildB = registry.configure(createConfig('guild-b', 'b'));
+
+    await guildA.analysisLinker.indexMessage(
+      createAnalysisMessage('msg-a', 'guild-a', 'long-a', '$NVDA technical analysis shows bullish breakout with price target 200')
+    );
+
+    expect(registry.get('guild-a')!.analysisLinker.hasAnalysisFor('NVDA')).toBe(true);
+    expect(registry.get('guild-b')!.analysisLinker.hasAnalysisFor('NVDA')).toBe(false);
+    expect(guildB.analysisLinker).not.toBe(guildA.analysisLinker);
+    expect(registry.get('guild-c')).toBeNull();
+    expect(registry.get(null)).toBeNull();
+  });
+
+  test('should update an existing guild in place and mark it for re-initialization', () => {
+    const registry = new GuildServiceRegistry(createServices);
+    const original = registry.configure(createConfig('guild-a', 'a'));
+
+    const updated = registry.configure(createConfig('guild-a', 'a2'));
+
+    expect(updated).toBe(original);
+    expect(updated.initialized).toBe(false);
+    expect(updated.config.generalNoticesChannel).toBe('general-a2');
+    expect(registry.getAll()).toHaveLength(1);
+  });
+
+  test('should save the /setup configuration and hand it to the bot', async () => {
+    const store = new GuildConfigStore();
+    const configured: BotConfig[] = [];
+    setupCommand.initializeServices(store, async config => { configured.push(config); });
+
+    const interaction = new MockInteraction('guild-a', {
+      long_analysis: { id: 'long-a' },
+      short_analysis: { id: 'short-a' },
+      general: { id: 'general-a' },
+      manager: { id: 'manager-a' },
+      manager_role: { id: 'analyst-role' },
+      short_discussion: { id: 'short-discussion-a' },
+      report: { id: 'reports-a' }
+    });
+    await setupCommand.execute(interaction as any);
+
+    const saved = store.get('guild-a');
+    expect(saved).toEqual({
+      analysisChannels: ['long-a', 'short-a'],
+      discussionChannels: ['short-discussion-a'],
+      generalNoticesChannel: 'general-a',
+      guildId: 'guild-a',
+      managerId: 'manager-a',
+      managerRoles: ['analyst-role'],
+      reportChannel: 'reports-a'
+    });
+    expect(configured).toEqual([saved]);
+    expect(interaction.lastReply.embeds).toHaveLength(1);
+  });
+
+  test('should reject /setup from non-administrators', async () => {
+    const store = new GuildConfigStore();
+    let called = false;
+    setupCommand.initializeServices(store, async () => { called = true; });
+
+    const interaction = new MockInteraction('guild-a', {
+      long_analysis: { id: 'long-a' },
+      short_analysis: { id: 'short-a' },
+      general: { id: 'general-a' },
+      manager: { id: 'manager-a' }
+    }, false);
+    await setupCommand.execute(interaction as any);
+
+    expect(interaction.lastReply.content).toContain('administrators');
+    expect(store.getAll()).toHaveLength(0);
+    expect(called).toBe(false);
+  });
+
+  test('should resolve /analysis against the interaction\'s guild only', async () => {
+    const registry = new GuildServiceRegistry(createServices);
+    const guildA = registry.configure(createConfig('guild-a', 'a'));
+    await guildA.analysisLinker.indexMessage(
+      createAnalysisMessage('msg-a', 'guild-a', 'long-a', '$NVDA technical analysis shows bullish breakout with price target 200')
+    );
+    registry.configure(createConfig('guild-b', 'b'));
+
+    // The legacy services passed positionally must not be used once a registry is set
+    const fallbackLinker = new AnalysisLinker();
+    analysisCommand.initializeServices(fallbackLinker, new EphemeralHandler(fallbackLinker, new MessageRetention()), registry);
+
+    const inGuildA = new MockInteraction('guild-a', { symbol: 'NVDA' });
+    await analysisCommand.execute(inGuildA as any);
+    expect(inGuildA.lastReply.embeds[0].data.title).toContain('$NVDA');
+
+    const inGuildB = new MockInteraction('guild-b', { symbol: 'NVDA' });
+    await analysisCommand.execute(inGuildB as any);
+    expect(inGuildB.lastReply.content).toContain('No recent analysis');
+
+    const unconfigured = new MockInteraction('guild-c', { symbol: 'NVDA' });
+    await analysisCommand.execute(unconfigured as any);
+    expect(unconfigured.lastReply.content).toContain('/setup');
+  });
+});
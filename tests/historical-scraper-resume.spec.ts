@@ -0,0 +1,190 @@
+import { test, expect } from '@playwright/test';
+import { Collection } from 'discord.js';
+import { HistoricalScraper } from '../src/services/HistoricalScraper';
+import { AnalysisLinker } from '../src/services/AnalysisLinker';
+import { DiscussionChannelHandler } from '../src/services/DiscussionChannelHandler';
+import { RateLimiter } from '../src/utils/RateLimiter';
+import { Snowflake } from '../src/utils/Snowflake';
+import * as scrapeCommand from '../src/commands/scrape';
+import { BotConfig } from '../src/types';
+
+const SYMBOLS = ['NVDA', 'AMD', 'TSLA', 'PLTR', 'META'];
+
+const botConfig: BotConfig = {
+  generalNoticesChannel: 'general',
+  analysisChannels: ['long_analysis'],
+  discussionChannels: [],
+  guildId: 'guild-a',
+  managerId: 'manager1'
+};
+
+function createMessages(count: number): any[] {
+  const start = Date.now() - 5 * 24 * 60 * 60 * 1000;
+  return Array.from({ length: count }, (_, i) => {
+    const createdAt = new Date(start + i * 60 * 1000);
+    return {
+      id: (BigInt(Snowflake.fromDate(createdAt)) + 1n).toString(),
+      author: { bot: false, id: 'manager1', tag: 'Manager#0001' },
+      content: `$${SYMBOLS[i % SYMBOLS.length]} technical analysis shows bullish breakout above resistance with price target ${100 + i}`,
+      createdAt,
+      guildId: 'guild-a',
+      channelId: 'long_analysis',
+      channel: { id: 'long_analysis', isThread: () => false },
+      member: { displayName: 'Manager' },
+      reference: null,
+      attachments: new Map(),
+      embeds: []
+    };
+  });
+}
+
+/**
+ * Channel that pages like Discord's `after` cursor: the oldest `limit` messages newer than it
+ * @param failOnCall Throws on this fetch call to simulate a crash midway
+ */
+function createClient(messages: any[], failOnCall?: number) {
+  const fetchCalls: string[] = [];
+  const channel = {
+    id: 'long_analysis',
+    name: 'long-analysis',
+    guildId: 'guild-a',
+    isTextBased: () => true,
+    threads: {
+      fetchActive: async () => ({ threads: new Collection() }),
+      fetchArchived: async () => ({ threads: new Collection(), hasMore: false })
+    },
+    messages: {
+      fetch: async ({ after, limit }: { after: string; limit: number }) => {
+        fetchCalls.push(after);
+        if (fetchCalls.length === failOnCall) {
+          throw new Error('Connection reset');
+        }
+        const page = messages.filter(message => Snowflake.isNewer(message.id, after)).slice(0, limit).reverse();
+        return new Collection(page.map(message => [message.id, message]));
+      }
+    }
+  };
+  const client: any = { channels: { fetch: async () => channel } };
+  return { client, fetchCalls };
+}
+
+test.describe('Resumable historical scraping', () => {
+  test('should commit every page with its checkpoint and resume after an interrupted scrape', async () => {
+    const messages = createMessages(120);
+    const linker = new AnalysisLinker();
+
+    const interrupted = createClient(messages, 2);
+    const firstScraper = new HistoricalScraper(botConfig, interrupted.client);
+    await firstScraper.scrapeHistoricalAnalysis(interrupted.client, botConfig, undefined, {
+      onBatch: batch => linker.applyScrapedBatch(batch)
+    });
+
+    const firstProgress = firstScraper.getProgress();
+    expect(firstProgress.status).toBe('failed');
+    expect(firstProgress.channels[0]).toMatchObject({ status: 'failed', messagesFetched: 100, error: 'Connection reset' });
+    expect(linker.getChannelCheckpoints().get('long_analysis')).toBe(messages[99].id);
+
+    const resumed = createClient(messages);
+    const secondScraper = new HistoricalScraper(botConfig, resumed.client);
+    await secondScraper.scrapeHistoricalAnalysis(resumed.client, botConfig, linker.getChannelCheckpoints(), {
+      onBatch: batch => linker.applyScrapedBatch(batch)
+    });
+
+    expect(resumed.fetchCalls[0]).toBe(messages[99].id);
+    expect(secondScraper.getProgress()).toMatchObject({ status: 'completed', resumed: true });
+    expect(secondScraper.getProgress().channels[0]).toMatchObject({ messagesFetched: 20, checkpoint: messages[119].id });
+    expect(linker.getChannelCheckpoints().get('long_analysis')).toBe(messages[119].id);
+
+    // Latest analysis per symbol is the newest message for it, from the resumed page
+    expect(linker.getLatestAnalysisUrl('META')).toContain(messages[119].id);
+    expect(linker.getCacheStats().totalSymbols).toBe(SYMBOLS.length);
+  });
+
+  test('should keep the quality-first pick of a channel across pages', async () => {
+    const messages = createMessages(101);
+    messages.forEach((message, i) => {
+      message.content = `$NVDA technical analysis shows bullish breakout above resistance with price target ${100 + i}`;
+    });
+    // The chart makes the first page's call clearly stronger than the newer one on the second page
+    messages[0].content = '$AMD technical analysis shows bullish breakout above resistance with price target 180 https://www.tradingview.com/x/abc123/';
+    messages[100].content = '$AMD technical analysis shows bullish breakout above resistance with price target 185';
+
+    const linker = new AnalysisLinker();
+    const { client } = createClient(messages);
+    const result = await new HistoricalScraper(botConfig, client).scrapeHistoricalAnalysis(client, botConfig, undefined, {
+      onBatch: batch => linker.applyScrapedBatch(batch)
+    });
+
+    expect(result.get('AMD')!.messageId).toBe(messages[0].id);
+    expect(linker.getLatestAnalysisUrl('AMD')).toContain(messages[0].id);
+    // Both stay in the history, newest first
+    expect((await linker.getAnalysisHistory('AMD')).map(a => a.messageId)).toEqual([messages[100].id, messages[0].id]);
+  });
+
+  test('should start from the scrape window instead of a checkpoint older than it', async () => {
+    const messages = createMessages(10);
+    const { client, fetchCalls } = createClient(messages);
+    const scraper = new HistoricalScraper(botConfig, client);
+
+    const staleCheckpoint = Snowflake.fromDate(new Date(Date.now() - 30 * 24 * 60 * 60 * 1000));
+    const result = await scraper.scrapeHistoricalAnalysis(client, botConfig, new Map([['long_analysis', staleCheckpoint]]), { days: 3 });
+
+    expect(Snowflake.toDate(fetchCalls[0]!)!.getTime()).toBeGreaterThan(Date.now() - 3 * 24 * 60 * 60 * 1000 - 1000);
+    expect(result.size).toBe(0);
+  });
+
+  test('should space requests from concurrent callers by the shared interval', async () => {
+    const limiter = new RateLimiter(50);
+    const start = Date.now();
+    const released: number[] = [];
+
+    await Promise.all([0, 1, 2].map(async () => {
+      await limiter.acquire();
+      released.push(Date.now() - start);
+    }));
+
+    expect(released[2]!).toBeGreaterThanOrEqual(95);
+  });
+
+  test('should report progress and start re-scrapes with /scrape', async () => {
+    const scraper = new HistoricalScraper(botConfig);
+    const services: any = { config: botConfig };
+    const rescrapes: number[] = [];
+    const registry: any = { get: () => services };
+    scrapeCommand.initializeServices(new DiscussionChannelHandler(), registry, (_services, days) => {
+      rescrapes.push(days);
+      services.historicalScraper = scraper;
+    });
+
+    const createInteraction = (userId: string, subcommand: string, days: number | null = null): any => {
+      const interaction: any = {
+        user: { id: userId, tag: `${userId}#0001` },
+        member: { displayName: userId },
+        channel: { id: 'general', isThread: () => false },
+        guildId: 'guild-a',
+        options: { getSubcommand: () => subcommand, getInteger: () => days },
+        reply: async (response: any) => {
+          interaction.response = response;
+        }
+      };
+      return interaction;
+    };
+
+    const denied = createInteraction('user1', 'rerun', 5);
+    await scrapeCommand.execute(denied);
+    expect(denied.response.content).toContain('Only managers');
+
+    const notStarted = createInteraction('manager1', 'status');
+    await scrapeCommand.execute(notStarted);
+    expect(notStarted.response.content).toContain('No historical scrape has started');
+
+    const rerun = createInteraction('manager1', 'rerun', 5);
+    await scrapeCommand.execute(rerun);
+    expect(rerun.response.content).toContain('Re-scraping the last 5 days');
+    expect(rescrapes).toEqual([5]);
+
+    const status = createInteraction('manager1', 'status');
+    await scrapeCommand.execute(status);
+    expect(status.response.embeds[0].toJSON().fields).toContainEqual({ name: 'Status', value: 'idle', inline: true });
+  });
+});
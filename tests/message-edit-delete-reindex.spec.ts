@@ -0,0 +1,80 @@
+import { test, expect } from '@playwright/test';
+import { AnalysisLinker } from '../src/services/AnalysisLinker';
+
+function createMessage(id: string, content: string, minutesAgo: number): any {
+  return {
+    id,
+    author: { bot: false, id: 'manager1', tag: 'Manager#0001' },
+    content,
+    createdAt: new Date(Date.now() - minutesAgo * 60 * 1000),
+    guildId: 'test-guild',
+    channel: { id: 'long_analysis', isThread: () => false },
+    member: { displayName: 'Manager' },
+    reference: null
+  };
+}
+
+test.describe('Re-indexing on message edit and delete', () => {
+  let analysisLinker: AnalysisLinker;
+
+  test.beforeEach(async () => {
+    analysisLinker = new AnalysisLinker();
+
+    await analysisLinker.indexMessage(createMessage('older', '$AAPL analysis showing bullish breakout with price target', 30));
+    await analysisLinker.indexMessage(createMessage('newer', '$AAPL update with bullish breakout above resistance and price target', 10));
+  });
+
+  test('should fall back to the previous analysis when the latest message is deleted', async () => {
+    expect(analysisLinker.getLatestAnalysisUrl('AAPL')).toContain('newer');
+
+    const affected = analysisLinker.removeMessage('newer');
+
+    expect(affected).toEqual(['AAPL']);
+    expect(analysisLinker.getLatestAnalysisUrl('AAPL')).toContain('older');
+
+    const analyses = await analysisLinker.getLatestAnalysis('AAPL', 5);
+    expect(analyses.map(a => a.messageId)).toEqual(['older']);
+  });
+
+  test('should drop the symbol entirely when its only analysis is deleted', async () => {
+    analysisLinker.removeMessage('newer');
+    analysisLinker.removeMessage('older');
+
+    expect(analysisLinker.hasAnalysisFor('AAPL')).toBe(false);
+    expect(analysisLinker.getAvailableSymbols()).not.toContain('AAPL');
+  });
+
+  test('should move the analysis to the corrected ticker when the first line is edited', async () => {
+    const edited = createMessage('newer', '$MSFT update with bullish breakout above resistance and price target', 10);
+
+    await analysisLinker.reindexMessage(edited);
+
+    expect(analysisLinker.getLatestAnalysisUrl('MSFT')).toContain('newer');
+    expect(analysisLinker.getLatestAnalysisUrl('AAPL')).toContain('older');
+  });
+
+  test('should replace cached content when the analysis body is edited', async () => {
+    const edited = createMessage('newer', '$AAPL corrected update with bullish breakout above resistance and price target', 10);
+
+    await analysisLinker.reindexMessage(edited);
+
+    const analyses = await analysisLinker.getLatestAnalysis('AAPL', 5);
+    const newer = analyses.filter(a => a.messageId === 'newer');
+    expect(newer).toHaveLength(1);
+    expect(newer[0]!.content).toContain('corrected');
+    expect(analysisLinker.getLatestAnalysisUrl('AAPL')).toContain('newer');
+  });
+
+  test('should un-index an edit that no longer passes relevance scoring', async () => {
+    const edited = createMessage('newer', 'AAPL', 10);
+
+    await analysisLinker.reindexMessage(edited);
+
+    expect(analysisLinker.getLatestAnalysisUrl('AAPL')).toContain('older');
+  });
+
+  test('should ignore deletes for messages that were never indexed', () => {
+    expect(analysisLinker.removeMessage('unknown-message')).toEqual([]);
+    expect(analysisLinker.getLatestAnalysisUrl('AAPL')).toContain('newer');
+  });
+});
@@ -0,0 +1,83 @@
+import { test, expect } from '@playwright/test';
+import { MessageRetention } from '../src/services/MessageRetention';
+import { BotConfig } from '../src/types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const botConfig: BotConfig = {
+  generalNoticesChannel: 'general',
+  analysisChannels: ['long_analysis', 'short_analysis'],
+  discussionChannels: [],
+  guildId: 'test-guild',
+  managerId: 'manager1'
+};
+
+function createClient() {
+  const deleted: string[] = [];
+  const channel = {
+    id: 'general',
+    messages: {
+      fetch: async (id: string) => ({
+        id,
+        author: { id: 'bot' },
+        delete: async () => { deleted.push(id); }
+      })
+    }
+  };
+  const client: any = {
+    user: { id: 'bot' },
+    channels: { cache: new Map([['general', channel]]) }
+  };
+  return { client, deleted };
+}
+
+function createMessage(id: string): any {
+  return { id, channel: { id: 'general' }, createdAt: new Date() };
+}
+
+test.describe('Message retention policy', () => {
+  test('should delete each message type once its retention period has passed', async () => {
+    const retention = new MessageRetention({ top_picks: 26, createbuttons: 2, digest: 0 });
+    const { client, deleted } = createClient();
+    retention.initialize(client, botConfig);
+
+    retention.addMessageForRetention(createMessage('picks'));
+    retention.addMessageForRetention(createMessage('manual'), undefined, 'createbuttons');
+    retention.addMessageForRetention(createMessage('digest'), undefined, 'digest');
+
+    expect(await retention.cleanupExpiredMessages(new Date(Date.now() + HOUR_MS))).toBe(0);
+    expect(await retention.cleanupExpiredMessages(new Date(Date.now() + 3 * HOUR_MS))).toBe(1);
+    expect(deleted).toEqual(['manual']);
+
+    expect(await retention.cleanupExpiredMessages(new Date(Date.now() + 27 * HOUR_MS))).toBe(1);
+    expect(deleted).toEqual(['manual', 'picks']);
+
+    // A zero TTL keeps the message until the next daily update
+    expect(retention.getRetentionStats().pendingJobs).toBe(1);
+  });
+
+  test('should expire split button messages together', async () => {
+    const start = Date.now();
+    let now = new Date(start);
+    const retention = new MessageRetention({ top_picks: 1, createbuttons: 1, digest: 1 }, () => now);
+    const { client, deleted } = createClient();
+    retention.initialize(client, botConfig);
+
+    // The second part is tracked later, so it expires after the first one
+    retention.addMessageForRetention(createMessage('part1'), 'group-a');
+    now = new Date(start + HOUR_MS / 2);
+    retention.addMessageForRetention(createMessage('part2'), 'group-a');
+
+    // Only the first part has expired, but the whole group goes
+    now = new Date(start + HOUR_MS * 1.25);
+    expect(await retention.cleanupExpiredMessages()).toBe(2);
+    expect(deleted.sort()).toEqual(['part1', 'part2']);
+    expect(retention.getRetentionStats().pendingJobs).toBe(0);
+  });
+
+  test('should describe the active policy', () => {
+    expect(MessageRetention.describePolicy({ top_picks: 26, createbuttons: 12, digest: 0 }))
+      .toBe('top picks 26h, /createbuttons 12h, digests until the next daily update');
+    expect(new MessageRetention({ top_picks: 6, createbuttons: 6, digest: 24 }).getRetentionPolicy().digest).toBe(24);
+  });
+});
@@ -0,0 +1,136 @@
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { RelevanceScorer, DEFAULT_RELEVANCE_CONFIG } from '../src/services/RelevanceScorer';
+import { AnalysisLinker } from '../src/services/AnalysisLinker';
+
+function createMessage(id: string, content: string, isReply: boolean = false): any {
+  return {
+    id,
+    author: { bot: false, id: 'manager1', tag: 'Manager#0001' },
+    content,
+    createdAt: new Date(),
+    guildId: 'test-guild',
+    channel: { id: 'long_analysis', isThread: () => false },
+    member: { displayName: 'Manager' },
+    reference: isReply ? { messageId: 'parent' } : null
+  };
+}
+
+test.describe('Relevance Scorer', () => {
+  let tempDir: string;
+  let configPath: string;
+
+  test.beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'relevance-'));
+    configPath = path.join(tempDir, 'relevance.json');
+  });
+
+  test.afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('should keep the original scoring with the default config', () => {
+    const scorer = new RelevanceScorer();
+
+    const tickerOnly = scorer.explain({ content: 'AAPL', symbolCount: 1, hasCharts: false, isReply: false });
+    expect(tickerOnly.total).toBeCloseTo(0.5);
+    expect(tickerOnly.passes).toBe(false);
+
+    const analysis = scorer.explain({
+      content: 'AAPL technical analysis shows bullish breakout with price target 210',
+      symbolCount: 1,
+      hasCharts: true,
+      isReply: false
+    });
+    expect(analysis.passes).toBe(true);
+    expect(analysis.threshold).toBe(0.7);
+    // Content score is clamped to 1.0 before the chart bonus is added
+    expect(analysis.contentScore).toBe(1.0);
+    expect(analysis.total).toBeCloseTo(1.2);
+  });
+
+  test('should break the score down into components that add up to the total', () => {
+    const scorer = new RelevanceScorer();
+    const breakdown = scorer.explain({ content: 'AAPL bullish', symbolCount: 1, hasCharts: false, isReply: true });
+
+    const names = breakdown.components.map(c => c.name);
+    expect(names).toEqual(['Base', 'Keywords (strong)', 'Symbol count (1)', 'Reply bonus']);
+    expect(breakdown.components.find(c => c.name === 'Keywords (strong)')!.detail).toBe('bullish');
+
+    const sum = breakdown.components.reduce((total, c) => total + c.score, 0);
+    expect(sum).toBeCloseTo(breakdown.total);
+  });
+
+  test('should apply overrides from the config file and merge keyword tiers by name', () => {
+    fs.writeFileSync(configPath, JSON.stringify({
+      threshold: 0.5,
+      keywordTiers: [{ name: 'strong', weight: 0.5 }, { name: 'custom', weight: 0.4, matchCase: false, keywords: ['squeeze'] }]
+    }));
+
+    const scorer = new RelevanceScorer(configPath);
+    const config = scorer.getConfig();
+
+    expect(config.threshold).toBe(0.5);
+    expect(config.chartBonus).toBe(DEFAULT_RELEVANCE_CONFIG.chartBonus);
+    expect(config.keywordTiers.find(t => t.name === 'strong')!.weight).toBe(0.5);
+    expect(config.keywordTiers.find(t => t.name === 'strong')!.keywords).toContain('bullish');
+    expect(config.keywordTiers.find(t => t.name === 'hebrewStrong')!.keywords.length).toBeGreaterThan(0);
+
+    expect(scorer.passes({ content: 'GME', symbolCount: 1, hasCharts: false, isReply: false })).toBe(true);
+    expect(scorer.explain({ content: 'GME squeeze', symbolCount: 1, hasCharts: false, isReply: false }).components.map(c => c.name))
+      .toContain('Keywords (custom)');
+  });
+
+  test('should pick up file changes on reload and keep the previous config if the file is invalid', () => {
+    fs.writeFileSync(configPath, JSON.stringify({ threshold: 0.9 }));
+    const scorer = new RelevanceScorer(configPath);
+    expect(scorer.getThreshold()).toBe(0.9);
+
+    fs.writeFileSync(configPath, JSON.stringify({ threshold: 0.6 }));
+    expect(scorer.reload()).toBe(true);
+    expect(scorer.getThreshold()).toBe(0.6);
+
+    fs.writeFileSync(configPath, JSON.stringify({ threshold: 'high' }));
+    expect(scorer.reload()).toBe(false);
+    expect(scorer.getThreshold()).toBe(0.6);
+
+    fs.writeFileSync(configPath, '{ not json');
+    expect(scorer.reload()).toBe(false);
+    expect(scorer.getThreshold()).toBe(0.6);
+  });
+
+  test('should fall back to the default bonus tables when they are malformed', () => {
+    fs.writeFileSync(configPath, JSON.stringify({
+      threshold: 0.6,
+      lengthBonuses: { minLength: 100, bonus: 0.1 },
+      symbolCountBonuses: [{ maxSymbols: '1', bonus: 0.2 }],
+      densityPenalties: [null]
+    }));
+
+    const scorer = new RelevanceScorer(configPath);
+    const config = scorer.getConfig();
+
+    expect(config.threshold).toBe(0.6);
+    expect(config.lengthBonuses).toEqual(DEFAULT_RELEVANCE_CONFIG.lengthBonuses);
+    expect(config.symbolCountBonuses).toEqual(DEFAULT_RELEVANCE_CONFIG.symbolCountBonuses);
+    expect(config.densityPenalties).toEqual(DEFAULT_RELEVANCE_CONFIG.densityPenalties);
+    expect(() => scorer.explain({ content: 'AAPL MSFT NVDA AMD bullish', symbolCount: 4, hasCharts: false, isReply: false })).not.toThrow();
+  });
+
+  test('should drive AnalysisLinker indexing and explainRelevance from the shared scorer', async () => {
+    fs.writeFileSync(configPath, JSON.stringify({ threshold: 1.5 }));
+    const linker = new AnalysisLinker(undefined, undefined, new RelevanceScorer(configPath));
+    const message = createMessage('msg-1', '$NVDA technical analysis shows bullish breakout with price target 200');
+
+    await linker.indexMessage(message);
+    expect(linker.hasAnalysisFor('NVDA')).toBe(false);
+
+    const explained = linker.explainRelevance(createMessage('msg-1', message.content, true));
+    expect(explained!.symbols).toEqual(['NVDA']);
+    expect(explained!.breakdown.threshold).toBe(1.5);
+    expect(explained!.breakdown.components.map(c => c.name)).toContain('Reply bonus');
+    expect(linker.explainRelevance(createMessage('msg-2', 'no symbols here\n$NVDA'))).toBeNull();
+  });
+});
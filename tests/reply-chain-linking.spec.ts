@@ -0,0 +1,81 @@
+import { test, expect } from '@playwright/test';
+import { AnalysisLinker } from '../src/services/AnalysisLinker';
+import { EphemeralHandler } from '../src/services/EphemeralHandler';
+
+function createMessage(id: string, content: string, minutesAgo: number, replyTo?: string): any {
+  return {
+    id,
+    author: { bot: false, id: 'manager1', tag: 'Manager#0001' },
+    content,
+    createdAt: new Date(Date.now() - minutesAgo * 60 * 1000),
+    guildId: 'test-guild',
+    channelId: 'long_analysis',
+    channel: { id: 'long_analysis', isThread: () => false },
+    member: { displayName: 'Manager' },
+    reference: replyTo ? { messageId: replyTo } : null,
+    attachments: new Map(),
+    embeds: []
+  };
+}
+
+test.describe('Reply-chain aware analysis linking', () => {
+  let analysisLinker: AnalysisLinker;
+
+  test.beforeEach(async () => {
+    analysisLinker = new AnalysisLinker();
+    await analysisLinker.indexMessage(createMessage('call', '$NVDA analysis showing bullish breakout with price target 210', 300));
+  });
+
+  test('should record symbol-less replies as follow-ups that inherit the analysis symbols', async () => {
+    await analysisLinker.indexMessage(createMessage('reply1', 'עדיין מחזיק', 120, 'call'));
+    await analysisLinker.indexMessage(createMessage('reply2', 'stopped out', 30, 'reply1'));
+
+    const conversation = analysisLinker.getConversation('NVDA');
+    expect(conversation!.analysis.messageId).toBe('call');
+    expect(conversation!.followUps.map(f => [f.messageId, f.followUpOf, f.symbols])).toEqual([
+      ['reply1', 'call', ['NVDA']],
+      ['reply2', 'call', ['NVDA']]
+    ]);
+
+    // Follow-ups never replace the original call
+    expect(analysisLinker.getLatestAnalysisUrl('NVDA')).toContain('call');
+  });
+
+  test('should ignore replies to messages that are not indexed', async () => {
+    await analysisLinker.indexMessage(createMessage('reply1', 'stopped out', 30, 'chatter'));
+
+    expect(analysisLinker.isFollowUp('reply1')).toBe(false);
+    expect(analysisLinker.getFollowUps('call')).toEqual([]);
+  });
+
+  test('should still index replies that are full analyses in their own right', async () => {
+    await analysisLinker.indexMessage(createMessage('reply1', '$NVDA update: bullish breakout above resistance, price target raised to 230', 30, 'call'));
+
+    expect(analysisLinker.getLatestAnalysisUrl('NVDA')).toContain('reply1');
+    expect(analysisLinker.getLatestFollowUp('call')!.messageId).toBe('reply1');
+  });
+
+  test('should update edited follow-ups and drop deleted ones', async () => {
+    await analysisLinker.indexMessage(createMessage('reply1', 'stopped out', 30, 'call'));
+    await analysisLinker.reindexMessage(createMessage('reply1', 'stopped out at 178', 30, 'call'));
+
+    expect(analysisLinker.getFollowUps('call').map(f => f.content)).toEqual(['stopped out at 178']);
+
+    expect(analysisLinker.removeFollowUp('reply1')).toBe(true);
+    expect(analysisLinker.isFollowUp('reply1')).toBe(false);
+  });
+
+  test('should show the original call with its most recent follow-up on the button embed', async () => {
+    await analysisLinker.indexMessage(createMessage('reply1', 'stopped out', 30, 'call'));
+
+    const [analysis] = await analysisLinker.getLatestAnalysis('NVDA', 1);
+    const client: any = { channels: { cache: new Map() } };
+    const embed = new EphemeralHandler(analysisLinker).buildAnalysisEmbed('NVDA', analysis!, client, 'test-guild').toJSON();
+
+    expect(embed.description).toContain('bullish breakout');
+    expect(embed.fields).toContainEqual({
+      name: '↩️ Latest follow-up',
+      value: 'stopped out\n30m ago • [View follow-up](https://discord.com/channels/test-guild/long_analysis/reply1)'
+    });
+  });
+});
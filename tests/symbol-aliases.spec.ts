@@ -0,0 +1,91 @@
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SymbolAliases } from '../src/services/SymbolAliases';
+import { SymbolDetector } from '../src/services/SymbolDetector';
+import { SymbolAllowlist } from '../src/services/SymbolAllowlist';
+import { SymbolListStore } from '../src/services/SymbolListStore';
+import { TickerUniverse } from '../src/services/TickerUniverse';
+import { ALIAS_CONFIDENCE, FUZZY_ALIAS_CONFIDENCE } from '../src/config';
+
+const ALIASES = {
+  NVDA: ['Nvidia', 'אנבידיה'],
+  TSLA: ['Tesla', 'טסלה'],
+  PANW: ['Palo Alto Networks', 'Palo Alto'],
+  ON: ['onsemi']
+};
+
+test.describe('Symbol aliases', () => {
+  let aliases: SymbolAliases;
+
+  test.beforeEach(() => {
+    aliases = new SymbolAliases();
+    aliases.setAliases(ALIASES);
+  });
+
+  test('should resolve English and Hebrew names, multi-word names and lowercase tickers', () => {
+    const matches = aliases.findMatches('nvidia looks strong, ובטסלה ראינו שבירה. Palo  Alto Networks and tsla too');
+
+    expect(matches.map(m => [m.symbol, m.alias, m.fuzzy])).toEqual([
+      ['NVDA', 'nvidia', false],
+      ['TSLA', 'טסלה', false],
+      ['PANW', 'Palo  Alto Networks', false],
+      ['TSLA', 'tsla', false]
+    ]);
+    expect(matches[1]!.position).toBe(23);
+  });
+
+  test('should match long names with one typo but not short tickers in lowercase', () => {
+    const matches = aliases.findMatches('Nvidea reports tonight, I am on it, tesla too');
+
+    expect(matches.map(m => [m.symbol, m.fuzzy])).toEqual([['NVDA', true], ['TSLA', false]]);
+    expect(aliases.findMatches('Nvidiaaa and Teslas')).toEqual([]);
+  });
+
+  test('should load aliases from a file and keep them when the file becomes invalid', () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'symbol-aliases-'));
+    try {
+      const filePath = path.join(tempDir, 'symbol-aliases.json');
+      fs.writeFileSync(filePath, JSON.stringify({ '$nvda': ['Nvidia'], 'NOT-A-TICKER': ['Nothing'] }));
+
+      const fromFile = new SymbolAliases(filePath);
+      expect(fromFile.resolve('NVIDIA')).toBe('NVDA');
+      expect(fromFile.resolve('Nothing')).toBeNull();
+
+      fs.writeFileSync(filePath, '{ not json');
+      expect(fromFile.reload()).toBe(false);
+      expect(fromFile.resolve('nvidia')).toBe('NVDA');
+
+      expect(new SymbolAliases(path.join(tempDir, 'missing.json')).getAliasCount()).toBe(0);
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test('should add alias matches in detectSymbolsWithContext only', async () => {
+    const symbolDetector = new SymbolDetector(undefined, undefined, undefined, undefined, aliases);
+    const content = 'AMD and nvidia both breaking out, Nvidea first';
+
+    const withContext = await symbolDetector.detectSymbolsWithContext(content);
+    expect(withContext.map(s => s.symbol)).toContain('AMD');
+    expect(withContext.find(s => s.symbol === 'NVDA')!.confidence).toBe(ALIAS_CONFIDENCE);
+
+    const fuzzyOnly = await symbolDetector.detectSymbolsWithContext('Nvidea breaking out');
+    expect(fuzzyOnly.find(s => s.symbol === 'NVDA')!.confidence).toBe(FUZZY_ALIAS_CONFIDENCE);
+
+    // The first-line indexing path ignores company names
+    expect(symbolDetector.detectSymbols(content).map(s => s.symbol)).toEqual(['AMD']);
+  });
+
+  test('should validate alias targets like typed tickers', async () => {
+    const symbolLists = new SymbolListStore();
+    await symbolLists.add('block', 'TSLA', 'manager1', '');
+    aliases.setAliases({ ...ALIASES, THE: ['The Trade Desk'] });
+
+    const symbolDetector = new SymbolDetector(undefined, undefined, undefined, new SymbolAllowlist(symbolLists), aliases, new TickerUniverse());
+    const detected = await symbolDetector.detectSymbolsWithContext('Nvidia, Tesla and The Trade Desk are all breaking out');
+
+    expect(detected.map(s => s.symbol)).toEqual(['NVDA']);
+  });
+});
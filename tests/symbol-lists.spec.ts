@@ -0,0 +1,155 @@
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { SymbolListStore } from '../src/services/SymbolListStore';
+import { SymbolAllowlist } from '../src/services/SymbolAllowlist';
+import { SymbolDetector } from '../src/services/SymbolDetector';
+import { SymbolAliases } from '../src/services/SymbolAliases';
+import { TickerUniverse } from '../src/services/TickerUniverse';
+import { AnalysisLinker } from '../src/services/AnalysisLinker';
+import { DiscussionChannelHandler } from '../src/services/DiscussionChannelHandler';
+import * as blocklistCommand from '../src/commands/blocklist';
+import { BotConfig } from '../src/types';
+
+const TOP_PICKS = 'טופ פיקס:\n📈 long: NVDA, PLAN, ALL\n📉 short: TSLA';
+
+function createDetector(symbolLists: SymbolListStore): SymbolDetector {
+  return new SymbolDetector(undefined, undefined, undefined, new SymbolAllowlist(symbolLists), new SymbolAliases(), new TickerUniverse());
+}
+
+function createInteraction(userId: string, subcommand: string, options: Record<string, string>): any {
+  const interaction: any = {
+    user: { id: userId, tag: `${userId}#0001` },
+    member: { displayName: userId },
+    channel: { id: 'general', isThread: () => false },
+    guildId: 'guild-a',
+    options: {
+      getSubcommand: () => subcommand,
+      getString: (name: string) => options[name] ?? null
+    },
+    reply: async (response: any) => {
+      interaction.response = response;
+    }
+  };
+  return interaction;
+}
+
+test.describe('Manager symbol allowlist and blocklist', () => {
+  test('should apply list changes to symbol detection and top picks immediately', async () => {
+    const symbolLists = new SymbolListStore();
+    const detector = createDetector(symbolLists);
+
+    expect(detector.detectSymbolsFromTopPicks(TOP_PICKS).map(s => s.symbol)).toEqual(['NVDA', 'PLAN', 'TSLA']);
+
+    await symbolLists.add('block', 'PLAN', 'manager1', 'English word');
+    await symbolLists.add('allow', 'ALL', 'manager1', 'Allstate');
+
+    expect(detector.detectSymbolsFromTopPicks(TOP_PICKS).map(s => s.symbol)).toEqual(['NVDA', 'ALL', 'TSLA']);
+    expect(detector.detectSymbols('$NVDA and $PLAN breakout').map(s => s.symbol)).toEqual(['NVDA']);
+    expect(detector.isLikelyStockSymbol('ALL')).toBe(true);
+  });
+
+  test('should keep blocklisted symbols out of the learned allowlist', async () => {
+    const symbolLists = new SymbolListStore();
+    await symbolLists.add('block', 'PLAN', 'manager1', '');
+    const allowlist = new SymbolAllowlist(symbolLists);
+
+    expect(allowlist.extractSymbolsFromAdminMessage('$NVDA and $PLAN', 'manager1', 'msg1')).toEqual(['NVDA']);
+    expect(allowlist.isSymbolAllowed('PLAN')).toBe(false);
+  });
+
+  test('should move symbols between lists and persist who added them and why', async () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'symbol-lists-'));
+    try {
+      const filePath = path.join(tempDir, 'symbol-lists.json');
+      const symbolLists = new SymbolListStore(filePath);
+
+      expect(await symbolLists.add('allow', 'plan', 'manager1', 'ePlus')).toBe('added');
+      expect(await symbolLists.add('allow', 'PLAN', 'manager2', 'Anaplan')).toBe('updated');
+      expect(await symbolLists.add('block', 'PLAN', 'manager1', 'Mostly the English word')).toBe('moved');
+      expect(symbolLists.isAllowed('PLAN')).toBe(false);
+      expect(await symbolLists.remove('allow', 'PLAN')).toBe(false);
+
+      const reloaded = new SymbolListStore(filePath);
+      await reloaded.load();
+      expect(reloaded.list('allow')).toEqual([]);
+      expect(reloaded.get('block', 'plan')).toMatchObject({ symbol: 'PLAN', adminId: 'manager1', reason: 'Mostly the English word' });
+      expect(reloaded.get('block', 'PLAN')!.timestamp).toBeInstanceOf(Date);
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test('should let managers edit the blocklist with /blocklist', async () => {
+    const symbolLists = new SymbolListStore();
+    const botConfig: BotConfig = {
+      generalNoticesChannel: 'general',
+      analysisChannels: ['long-analysis', 'short-analysis'],
+      discussionChannels: [],
+      guildId: 'guild-a',
+      managerId: 'manager1'
+    };
+    const analysisLinker = new AnalysisLinker();
+    const registry: any = { get: () => ({ config: botConfig, analysisLinker, symbolLists }) };
+    blocklistCommand.initializeServices(new DiscussionChannelHandler(), symbolLists, analysisLinker, registry);
+
+    const denied = createInteraction('user1', 'add', { symbol: 'PLAN' });
+    await blocklistCommand.execute(denied);
+    expect(denied.response.content).toContain('Only managers');
+    expect(symbolLists.isBlocked('PLAN')).toBe(false);
+
+    const add = createInteraction('manager1', 'add', { symbol: '$plan', reason: 'English word' });
+    await blocklistCommand.execute(add);
+    expect(add.response.content).toContain('Added **$PLAN** to the blocklist');
+    expect(symbolLists.get('block', 'PLAN')).toMatchObject({ adminId: 'manager1', reason: 'English word' });
+
+    const list = createInteraction('manager1', 'list', {});
+    await blocklistCommand.execute(list);
+    expect(list.response.embeds[0].toJSON().description).toContain('**$PLAN** — English word (<@manager1>');
+
+    const invalid = createInteraction('manager1', 'remove', { symbol: 'NOT A TICKER' });
+    await blocklistCommand.execute(invalid);
+    expect(invalid.response.content).toContain('is not a valid stock symbol');
+
+    const remove = createInteraction('manager1', 'remove', { symbol: 'PLAN' });
+    await blocklistCommand.execute(remove);
+    expect(remove.response.content).toContain('Removed **$PLAN**');
+    expect(symbolLists.isBlocked('PLAN')).toBe(false);
+  });
+
+  test('should keep each guild\'s lists out of reach of other guilds\' managers', async () => {
+    const createGuild = (guildId: string, managerId: string) => ({
+      config: {
+        generalNoticesChannel: 'general',
+        analysisChannels: ['long-analysis', 'short-analysis'],
+        discussionChannels: [],
+        guildId,
+        managerId
+      } as BotConfig,
+      analysisLinker: new AnalysisLinker(),
+      symbolLists: new SymbolListStore()
+    });
+    const guilds: Record<string, ReturnType<typeof createGuild>> = {
+      'guild-a': createGuild('guild-a', 'manager1'),
+      'guild-b': createGuild('guild-b', 'manager2')
+    };
+    const registry: any = { get: (guildId: string) => guilds[guildId] };
+    blocklistCommand.initializeServices(new DiscussionChannelHandler(), new SymbolListStore(), new AnalysisLinker(), registry);
+
+    await blocklistCommand.execute(createInteraction('manager1', 'add', { symbol: 'PLAN' }));
+
+    // Guild B's manager only sees and edits guild B's blocklist
+    const remove = createInteraction('manager2', 'remove', { symbol: 'PLAN' });
+    remove.guildId = 'guild-b';
+    await blocklistCommand.execute(remove);
+    expect(remove.response.content).toContain('is not on the blocklist');
+
+    const add = createInteraction('manager2', 'add', { symbol: 'ALL' });
+    add.guildId = 'guild-b';
+    await blocklistCommand.execute(add);
+
+    expect(guilds['guild-a']!.symbolLists.list('block').map(entry => entry.symbol)).toEqual(['PLAN']);
+    expect(guilds['guild-b']!.symbolLists.list('block').map(entry => entry.symbol)).toEqual(['ALL']);
+  });
+});
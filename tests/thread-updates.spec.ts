@@ -0,0 +1,105 @@
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AnalysisLinker } from '../src/services/AnalysisLinker';
+import { JsonFileAnalysisStore } from '../src/services/AnalysisStore';
+import { EphemeralHandler } from '../src/services/EphemeralHandler';
+
+const STARTER_ID = '1428061000000000000';
+
+function createMessage(id: string, content: string, minutesAgo: number, channel: any = { id: 'long_analysis', isThread: () => false }): any {
+  return {
+    id,
+    author: { bot: false, id: 'manager1', tag: 'Manager#0001' },
+    content,
+    createdAt: new Date(Date.now() - minutesAgo * 60 * 1000),
+    guildId: 'test-guild',
+    channelId: channel.id,
+    channel,
+    member: { displayName: 'Manager' },
+    reference: null,
+    attachments: new Map(),
+    embeds: []
+  };
+}
+
+function createThreadMessage(id: string, content: string, minutesAgo: number, threadId: string = STARTER_ID): any {
+  return createMessage(id, content, minutesAgo, { id: threadId, isThread: () => true, parentId: 'long_analysis' });
+}
+
+test.describe('Thread follow-ups', () => {
+  let analysisLinker: AnalysisLinker;
+
+  test.beforeEach(async () => {
+    analysisLinker = new AnalysisLinker();
+    await analysisLinker.indexMessage(createMessage(STARTER_ID, '$AAPL analysis showing bullish breakout with price target 210', 120));
+  });
+
+  test('should link thread messages to the starter analysis and inherit its symbols', async () => {
+    expect(await analysisLinker.indexThreadUpdate(createThreadMessage('update1', 'Stop moved to 180', 30))).toBe(true);
+
+    const update = analysisLinker.getLatestFollowUp(STARTER_ID);
+    expect(update).toMatchObject({ messageId: 'update1', symbols: ['AAPL'], followUpOf: STARTER_ID, channelId: STARTER_ID });
+    expect(update!.tradeLevels).toEqual({ stop: [180] });
+
+    // The starter stays the latest analysis
+    expect(analysisLinker.getLatestAnalysisUrl('AAPL')).toContain(STARTER_ID);
+    expect(analysisLinker.isFollowUp('update1')).toBe(true);
+  });
+
+  test('should keep symbols the follow-up names itself and show the newest update', async () => {
+    await analysisLinker.indexThreadUpdate(createThreadMessage('update2', '$MSFT moving in sympathy', 10));
+    await analysisLinker.indexThreadUpdate(createThreadMessage('update1', 'Stop moved to 180', 30));
+
+    expect(analysisLinker.getLatestFollowUp(STARTER_ID)).toMatchObject({ messageId: 'update2', symbols: ['MSFT'] });
+    expect(analysisLinker.getFollowUps(STARTER_ID).map(f => f.messageId)).toEqual(['update1', 'update2']);
+  });
+
+  test('should skip threads that were not started from an indexed analysis', async () => {
+    expect(await analysisLinker.indexThreadUpdate(createThreadMessage('update1', 'Stop moved to 180', 30, '1428069999999999999'))).toBe(false);
+    expect(analysisLinker.getLatestFollowUp('1428069999999999999')).toBeNull();
+  });
+
+  test('should drop the follow-up when it or its starter is deleted', async () => {
+    await analysisLinker.indexThreadUpdate(createThreadMessage('update1', 'Stop moved to 180', 30));
+    expect(analysisLinker.removeFollowUp('update1')).toBe(true);
+    expect(analysisLinker.getLatestFollowUp(STARTER_ID)).toBeNull();
+
+    await analysisLinker.indexThreadUpdate(createThreadMessage('update1', 'Stop moved to 180', 30));
+    expect(analysisLinker.removeFollowUp(STARTER_ID)).toBe(true);
+    expect(analysisLinker.getLatestFollowUp(STARTER_ID)).toBeNull();
+  });
+
+  test('should show a link to the latest thread update on the analysis embed', async () => {
+    await analysisLinker.indexThreadUpdate(createThreadMessage('update1', 'Stop moved to 180', 30));
+
+    const [analysis] = await analysisLinker.getLatestAnalysis('AAPL', 1);
+    const client: any = { channels: { cache: new Map() } };
+    const embed = new EphemeralHandler(analysisLinker).buildAnalysisEmbed('AAPL', analysis!, client, 'test-guild').toJSON();
+
+    expect(embed.description).toContain('[View Original Message]');
+    expect(embed.fields).toContainEqual({
+      name: '🧵 Latest update in thread',
+      value: `Stop moved to 180\n30m ago • [View update](https://discord.com/channels/test-guild/${STARTER_ID}/update1)`
+    });
+  });
+
+  test('should persist thread updates with the analysis index', async () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'thread-updates-'));
+    try {
+      const storePath = path.join(tempDir, 'analysis-index.json');
+      const linker = new AnalysisLinker(undefined, new JsonFileAnalysisStore(storePath));
+      await linker.indexMessage(createMessage(STARTER_ID, '$AAPL analysis showing bullish breakout with price target 210', 120));
+      await linker.indexThreadUpdate(createThreadMessage('update1', 'Stop moved to 180', 30));
+
+      const restarted = new AnalysisLinker(undefined, new JsonFileAnalysisStore(storePath));
+      await restarted.loadFromStore();
+      const update = restarted.getLatestFollowUp(STARTER_ID);
+      expect(update).toMatchObject({ messageId: 'update1', followUpOf: STARTER_ID });
+      expect(update!.timestamp).toBeInstanceOf(Date);
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,72 @@
+import { test, expect } from '@playwright/test';
+import { SymbolDetector } from '../src/services/SymbolDetector';
+import { SymbolAllowlist } from '../src/services/SymbolAllowlist';
+import { TopPicksParser } from '../src/services/TopPicksParser';
+import { ButtonCustomId } from '../src/utils/ButtonCustomId';
+import { SYMBOL_FORMAT } from '../src/config';
+
+test.describe('Non-US ticker formats', () => {
+  test('should detect class shares, exchange suffixes and crypto pairs', () => {
+    const symbolDetector = new SymbolDetector();
+    const symbols = symbolDetector.detectSymbols('$BRK.B and RDS-A holding up, TEVA.TA breakout, BTCUSD and ETH-USDT bouncing. $NVDA.').map(s => s.symbol);
+
+    expect(symbols).toEqual(expect.arrayContaining(['BRK.B', 'RDS-A', 'TEVA.TA', 'BTCUSD', 'ETH-USDT', 'NVDA']));
+    expect(symbols).not.toContain('BRK');
+    expect(symbols).not.toContain('TEVA');
+    expect(symbolDetector.isLikelyStockSymbol('BRK.B')).toBe(true);
+    expect(symbolDetector.isLikelyStockSymbol('BRK.')).toBe(false);
+  });
+
+  test('should only read crypto pairs with a known base asset', () => {
+    expect(SYMBOL_FORMAT.test('SOL-USDT')).toBe(true);
+    expect(SYMBOL_FORMAT.test('CPI-USD')).toBe(false);
+    expect(SYMBOL_FORMAT.test('GDPEUR')).toBe(false);
+
+    const symbols = new SymbolDetector().detectSymbols('$NVDA holding up while CPI-USD data lands').map(s => s.symbol);
+    expect(symbols).not.toContain('CPI-USD');
+  });
+
+  test('should not read dotted abbreviations as tickers', () => {
+    for (const abbreviation of ['A.I', 'P.M', 'U.K', 'E.U', 'Q.E', 'A.M', 'NVDA.I']) {
+      expect(SYMBOL_FORMAT.test(abbreviation)).toBe(false);
+    }
+    expect(SYMBOL_FORMAT.test('BRK.A')).toBe(true);
+    expect(SYMBOL_FORMAT.test('SHOP.TO')).toBe(true);
+
+    const symbolDetector = new SymbolDetector();
+    for (const content of ['$NVDA A.I. demand', '$NVDA report at 4 P.M. today', '$NVDA U.K. and E.U. sales', '$NVDA Q.E. talk at 9 A.M.', '$NVDA.A few more days']) {
+      const symbols = symbolDetector.detectSymbols(content).map(s => s.symbol);
+      expect(symbols, content).toContain('NVDA');
+      expect(symbols.filter(symbol => symbol.includes('.')), content).toEqual([]);
+    }
+  });
+
+  test('should keep dotted and dashed symbols intact in top picks', () => {
+    const parser = new TopPicksParser();
+    const result = parser.parseTopPicks('טופ פיקס:\n📈 long: BRK.B, TEVA.TA, NVDA\n📉 short: RDS-A, BTCUSD');
+
+    expect(result.longPicks).toEqual(['BRK.B', 'TEVA.TA', 'NVDA']);
+    expect(result.shortPicks).toEqual(['RDS-A', 'BTCUSD']);
+  });
+
+  test('should add extended symbols from admin messages to the allowlist', () => {
+    const allowlist = new SymbolAllowlist();
+    const symbols = allowlist.extractSymbolsFromAdminMessage('$BRK.B and $ETH-USDT setups', 'admin1', 'msg1');
+
+    expect(symbols).toEqual(['BRK.B', 'ETH-USDT']);
+    expect(allowlist.isSymbolAllowed('BRK.B')).toBe(true);
+  });
+
+  test('should round-trip button custom IDs for extended symbols', () => {
+    const symbolId = ButtonCustomId.forSymbol('BRK.B', '1234567890123456789', 2);
+    expect(symbolId).toBe('symbol_BRK.B_1234567890123456789_2');
+    expect(ButtonCustomId.parseSymbol(symbolId)).toEqual({ symbol: 'BRK.B', messageId: '1234567890123456789', chunkIndex: 2 });
+    expect(ButtonCustomId.parseSymbol('symbol_ETH-USDT_top-picks-msg')).toEqual({ symbol: 'ETH-USDT', messageId: 'top-picks-msg', chunkIndex: 0 });
+    expect(ButtonCustomId.parseSymbol('symbol_NVDA')).toBeNull();
+
+    const pageId = ButtonCustomId.forAnalysisPage('TEVA.TA', 3, -1, 'manager1');
+    expect(ButtonCustomId.parseAnalysisPage(pageId)).toEqual({ symbol: 'TEVA.TA', total: 3, page: -1, authorId: 'manager1' });
+    expect(ButtonCustomId.parseAnalysisPage(ButtonCustomId.forAnalysisPage('RDS-A', 2, 1))).toEqual({ symbol: 'RDS-A', total: 2, page: 1 });
+    expect(ButtonCustomId.parseAnalysisPage('analysis_page_NVDA_x_1')).toBeNull();
+  });
+});
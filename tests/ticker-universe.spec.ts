@@ -0,0 +1,98 @@
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TickerUniverse } from '../src/services/TickerUniverse';
+import { SymbolDetector } from '../src/services/SymbolDetector';
+import { SymbolAllowlist } from '../src/services/SymbolAllowlist';
+import { SymbolAliases } from '../src/services/SymbolAliases';
+import { UNKNOWN_TICKER_PENALTY } from '../src/config';
+
+const NASDAQ_LISTING = [
+  'Symbol|Security Name|Market Category|Test Issue|Financial Status|Round Lot Size|ETF|NextShares',
+  'NVDA|NVIDIA Corporation - Common Stock|Q|N|N|100|N|N',
+  'AMD|Advanced Micro Devices, Inc. - Common Stock|Q|N|N|100|N|N',
+  'BRK.B|Berkshire Hathaway Inc. Class B|Q|N|N|100|N|N',
+  'File Creation Time: 0301202622:01|||||||'
+].join('\n');
+
+function createDetector(universe: TickerUniverse, allowlist?: SymbolAllowlist): SymbolDetector {
+  return new SymbolDetector(undefined, undefined, undefined, allowlist, new SymbolAliases(), universe);
+}
+
+test.describe('Ticker universe', () => {
+  let tempDir: string;
+
+  test.beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ticker-universe-'));
+  });
+
+  test.afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('should load NASDAQ listings, CSV columns, plain lists and JSON arrays', () => {
+    const nasdaqPath = path.join(tempDir, 'nasdaqlisted.txt');
+    fs.writeFileSync(nasdaqPath, NASDAQ_LISTING);
+    const nasdaq = new TickerUniverse(nasdaqPath);
+    expect(nasdaq.getTickerCount()).toBe(3);
+    expect(nasdaq.isKnown('brk.b')).toBe(true);
+    expect(nasdaq.isKnown('PLAN')).toBe(false);
+
+    const csvPath = path.join(tempDir, 'tickers.csv');
+    fs.writeFileSync(csvPath, 'name,ticker\n"Tesla, Inc.",TSLA\nPalantir,PLTR\n');
+    expect(new TickerUniverse(csvPath).isKnown('PLTR')).toBe(true);
+
+    const listPath = path.join(tempDir, 'tickers.txt');
+    fs.writeFileSync(listPath, 'SPY\nQQQ\n');
+    expect(new TickerUniverse(listPath).getTickerCount()).toBe(2);
+
+    const jsonPath = path.join(tempDir, 'tickers.json');
+    fs.writeFileSync(jsonPath, JSON.stringify(['$msft', 'not a ticker', 42]));
+    expect(new TickerUniverse(jsonPath).getTickerCount()).toBe(1);
+  });
+
+  test('should treat every ticker as known without a file and keep tickers when the file becomes invalid', () => {
+    const missing = new TickerUniverse(path.join(tempDir, 'missing.csv'), 'strict');
+    expect(missing.isLoaded()).toBe(false);
+    expect(missing.rejects('PLAN')).toBe(false);
+
+    const filePath = path.join(tempDir, 'tickers.csv');
+    fs.writeFileSync(filePath, NASDAQ_LISTING);
+    const universe = new TickerUniverse(filePath, 'strict');
+
+    fs.writeFileSync(filePath, 'Symbol|Security Name\n');
+    expect(universe.reload()).toBe(false);
+    expect(universe.getTickerCount()).toBe(3);
+
+    fs.writeFileSync(filePath, 'Symbol\nPLAN\n');
+    expect(universe.reload()).toBe(true);
+    expect(universe.rejects('PLAN')).toBe(false);
+    expect(universe.rejects('NVDA')).toBe(true);
+  });
+
+  test('should reject unknown tickers in strict mode unless allowlisted', () => {
+    const strict = new TickerUniverse(undefined, 'strict');
+    strict.setTickers(['NVDA', 'AMD']);
+
+    const allowlist = new SymbolAllowlist();
+    const detector = createDetector(strict, allowlist);
+    expect(detector.detectSymbols('$NVDA and $AMD breakout, PLAN for CRWV').map(s => s.symbol)).toEqual(['NVDA', 'AMD']);
+
+    allowlist.addSymbol('CRWV', 'admin1', 'msg1', '$CRWV analysis');
+    expect(detector.isLikelyStockSymbol('CRWV')).toBe(true);
+    expect(detector.isLikelyStockSymbol('PLAN')).toBe(false);
+  });
+
+  test('should only lower confidence for unknown tickers in advisory mode', () => {
+    const advisory = new TickerUniverse(undefined, 'advisory');
+    advisory.setTickers(['NVDA']);
+
+    const withUniverse = createDetector(advisory).detectSymbols('$NVDA and $CRWV breakout');
+    const withoutUniverse = createDetector(new TickerUniverse()).detectSymbols('$NVDA and $CRWV breakout');
+
+    const confidence = (symbols: typeof withUniverse, symbol: string) => symbols.find(s => s.symbol === symbol)!.confidence;
+    expect(confidence(withUniverse, 'CRWV')).toBeCloseTo(confidence(withoutUniverse, 'CRWV') - UNKNOWN_TICKER_PENALTY);
+    expect(confidence(withUniverse, 'NVDA')).toBe(confidence(withoutUniverse, 'NVDA'));
+  });
+});
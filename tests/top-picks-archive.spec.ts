@@ -0,0 +1,135 @@
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TopPicksArchive } from '../src/services/TopPicksArchive';
+import { TopPicksSnapshot } from '../src/types';
+import * as toppicksCommand from '../src/commands/toppicks';
+
+function createSnapshot(messageId: string, timestamp: string, long: string[], short: string[], guildId: string = 'guild-a'): TopPicksSnapshot {
+  return {
+    guildId,
+    messageId,
+    channelId: 'general',
+    authorId: 'manager1',
+    messageUrl: `https://discord.com/channels/${guildId}/general/${messageId}`,
+    timestamp: new Date(timestamp),
+    long,
+    short
+  };
+}
+
+// Mock ChatInputCommandInteraction for /toppicks
+class MockInteraction {
+  public lastReply: any = null;
+  public user = { id: 'user1', tag: 'User#0001' };
+  public options: any;
+
+  constructor(public guildId: string | null, subcommand: string, date: string | null = null) {
+    this.options = {
+      getSubcommand: () => subcommand,
+      getString: (name: string) => (name === 'date' ? date : null)
+    };
+  }
+
+  async reply(content: any) {
+    this.lastReply = content;
+  }
+}
+
+test.describe('Top picks archive', () => {
+  let tempDir: string;
+
+  test.beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'top-picks-archive-'));
+  });
+
+  test.afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('should keep one snapshot per day, replaced by later lists', async () => {
+    const archive = new TopPicksArchive(undefined, 'UTC');
+
+    await archive.record(createSnapshot('m1', '2026-03-02T09:00:00Z', ['NVDA'], ['TSLA']));
+    await archive.record(createSnapshot('m2', '2026-03-02T15:00:00Z', ['NVDA', 'AMD'], ['TSLA']));
+    // An older message re-processed later doesn't replace the day's latest list
+    await archive.record(createSnapshot('m0', '2026-03-02T08:00:00Z', ['AAPL'], []));
+    await archive.record(createSnapshot('m3', '2026-03-01T15:00:00Z', ['AAPL'], []));
+
+    expect(archive.getDay('guild-a', '2026-03-02')!.messageId).toBe('m2');
+    expect(archive.getDates('guild-a')).toEqual(['2026-03-02', '2026-03-01']);
+    expect(archive.getLatest('guild-a')!.long).toEqual(['NVDA', 'AMD']);
+    expect(archive.getPrevious('guild-a', '2026-03-02')!.messageId).toBe('m3');
+    expect(archive.getPrevious('guild-a', '2026-03-01')).toBeNull();
+    expect(archive.getLatest('guild-b')).toBeNull();
+  });
+
+  test('should group messages into days in the configured time zone', async () => {
+    const archive = new TopPicksArchive(undefined, 'America/New_York');
+
+    // 02:00 UTC on March 3rd is still March 2nd in New York
+    const day = await archive.record(createSnapshot('m1', '2026-03-03T02:00:00Z', ['NVDA'], []));
+
+    expect(day.date).toBe('2026-03-02');
+  });
+
+  test('should persist and restore the archive', async () => {
+    const filePath = path.join(tempDir, 'top-picks-archive.json');
+    const archive = new TopPicksArchive(filePath, 'UTC');
+    await archive.record(createSnapshot('m1', '2026-03-02T15:00:00Z', ['NVDA'], ['TSLA']));
+
+    const restored = new TopPicksArchive(filePath, 'UTC');
+    await restored.load();
+
+    const day = restored.getDay('guild-a', '2026-03-02')!;
+    expect(day.messageId).toBe('m1');
+    expect(day.short).toEqual(['TSLA']);
+    expect(day.timestamp).toEqual(new Date('2026-03-02T15:00:00Z'));
+  });
+
+  test('should diff long and short lists against the previous day', async () => {
+    const archive = new TopPicksArchive(undefined, 'UTC');
+    const previous = await archive.record(createSnapshot('m1', '2026-03-01T15:00:00Z', ['NVDA', 'AMD'], ['TSLA']));
+    const current = await archive.record(createSnapshot('m2', '2026-03-02T15:00:00Z', ['NVDA', 'PLTR'], ['TSLA', 'INTC']));
+
+    expect(TopPicksArchive.diff(previous, current)).toEqual({
+      long: { added: ['PLTR'], dropped: ['AMD'] },
+      short: { added: ['INTC'], dropped: [] }
+    });
+  });
+
+  test('should replay and diff archived days with /toppicks', async () => {
+    const archive = new TopPicksArchive(undefined, 'UTC');
+    await archive.record(createSnapshot('m1', '2026-03-01T15:00:00Z', ['NVDA', 'AMD'], ['TSLA']));
+    await archive.record(createSnapshot('m2', '2026-03-02T15:00:00Z', ['NVDA', 'PLTR'], ['TSLA']));
+    toppicksCommand.initializeServices(archive);
+
+    const show = new MockInteraction('guild-a', 'show', '2026-03-01');
+    await toppicksCommand.execute(show as any);
+    const showEmbed = show.lastReply.embeds[0].toJSON();
+    expect(show.lastReply.ephemeral).toBe(true);
+    expect(showEmbed.title).toContain('2026-03-01');
+    expect(showEmbed.url).toContain('m1');
+    expect(showEmbed.fields[0].value).toBe('$NVDA, $AMD');
+
+    const diff = new MockInteraction('guild-a', 'diff');
+    await toppicksCommand.execute(diff as any);
+    const diffEmbed = diff.lastReply.embeds[0].toJSON();
+    expect(diffEmbed.title).toContain('2026-03-01 → 2026-03-02');
+    expect(diffEmbed.fields[0].value).toBe('➕ $PLTR\n➖ $AMD');
+    expect(diffEmbed.fields[1].value).toBe('No changes');
+
+    const missing = new MockInteraction('guild-a', 'show', '2026-02-01');
+    await toppicksCommand.execute(missing as any);
+    expect(missing.lastReply.content).toContain('No top picks were archived for 2026-02-01');
+
+    const invalid = new MockInteraction('guild-a', 'show', 'yesterday');
+    await toppicksCommand.execute(invalid as any);
+    expect(invalid.lastReply.content).toContain('not a valid date');
+
+    const firstDay = new MockInteraction('guild-a', 'diff', '2026-03-01');
+    await toppicksCommand.execute(firstDay as any);
+    expect(firstDay.lastReply.content).toContain('no archived day before 2026-03-01');
+  });
+});
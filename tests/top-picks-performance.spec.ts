@@ -0,0 +1,152 @@
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FilePriceProvider, PriceProvider, DailyClose } from '../src/services/PriceProvider';
+import { TopPicksPerformance } from '../src/services/TopPicksPerformance';
+import { TopPicksArchive } from '../src/services/TopPicksArchive';
+import { TopPicksSnapshot } from '../src/types';
+import * as performanceCommand from '../src/commands/performance';
+
+// Ten consecutive trading days starting 2026-03-02
+const TRADING_DAYS = ['2026-03-02', '2026-03-03', '2026-03-04', '2026-03-05', '2026-03-06',
+  '2026-03-09', '2026-03-10', '2026-03-11', '2026-03-12', '2026-03-13'];
+
+class StaticPriceProvider implements PriceProvider {
+  constructor(private readonly closes: Record<string, number[]>) {}
+
+  async getDailyCloses(symbol: string): Promise<DailyClose[]> {
+    return (this.closes[symbol] || []).map((close, i) => ({ date: TRADING_DAYS[i]!, close }));
+  }
+}
+
+function createSnapshot(messageId: string, timestamp: string, long: string[], short: string[]): TopPicksSnapshot {
+  return {
+    guildId: 'guild-a',
+    messageId,
+    channelId: 'general',
+    authorId: 'manager1',
+    messageUrl: `https://discord.com/channels/guild-a/general/${messageId}`,
+    timestamp: new Date(timestamp),
+    long,
+    short
+  };
+}
+
+// Mock ChatInputCommandInteraction for /performance
+class MockInteraction {
+  public lastReply: any = null;
+  public user = { id: 'user1', tag: 'User#0001' };
+  public options: any;
+
+  constructor(public guildId: string | null, days: number | null = null) {
+    this.options = {
+      getInteger: (name: string) => (name === 'days' ? days : null)
+    };
+  }
+
+  async reply(content: any) {
+    this.lastReply = content;
+  }
+}
+
+test.describe('Top picks performance', () => {
+  let tempDir: string;
+
+  test.beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'top-picks-performance-'));
+  });
+
+  test.afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  test('should read closing prices from CSV and JSON files', async () => {
+    const csvPath = path.join(tempDir, 'prices.csv');
+    fs.writeFileSync(csvPath, 'date,Symbol,close\n2026-03-03,NVDA,110\n2026-03-02,"nvda",100\nbad-date,NVDA,1\n2026-03-02,AMD,50\n');
+    const csvProvider = new FilePriceProvider(csvPath);
+
+    expect(await csvProvider.getDailyCloses('NVDA')).toEqual([
+      { date: '2026-03-02', close: 100 },
+      { date: '2026-03-03', close: 110 }
+    ]);
+    expect(await csvProvider.getDailyCloses('TSLA')).toEqual([]);
+
+    // Appended prices are picked up once the file changes
+    fs.appendFileSync(csvPath, '2026-03-04,NVDA,120\n');
+    const later = new Date(Date.now() + 60 * 1000);
+    fs.utimesSync(csvPath, later, later);
+    expect((await csvProvider.getDailyCloses('NVDA')).map(c => c.close)).toEqual([100, 110, 120]);
+
+    const jsonPath = path.join(tempDir, 'prices.json');
+    fs.writeFileSync(jsonPath, JSON.stringify({ TSLA: { '2026-03-03': 210, '2026-03-02': 200 } }));
+    expect((await new FilePriceProvider(jsonPath).getDailyCloses('TSLA')).map(c => c.date)).toEqual(['2026-03-02', '2026-03-03']);
+
+    expect(await new FilePriceProvider(path.join(tempDir, 'missing.csv')).getDailyCloses('NVDA')).toEqual([]);
+  });
+
+  test('should compute forward returns from the next close, inverting shorts', async () => {
+    const performance = new TopPicksPerformance(new StaticPriceProvider({}));
+    const closes = [100, 110, 99, 101, 102, 105].map((close, i) => ({ date: TRADING_DAYS[i]!, close }));
+
+    // Picked on a Sunday - entry is Monday's close
+    const long = performance.computePickReturn('NVDA', 'top_long', '2026-03-01', closes)!;
+    expect(long.entryDate).toBe('2026-03-02');
+    expect(long.returns[1]).toBeCloseTo(0.10);
+    expect(long.returns[5]).toBeCloseTo(0.05);
+    expect(long.returns[20]).toBeNull();
+
+    const short = performance.computePickReturn('NVDA', 'top_short', '2026-03-03', closes)!;
+    expect(short.returns[1]).toBeCloseTo(0.10);
+
+    expect(performance.computePickReturn('NVDA', 'top_long', '2026-04-01', closes)).toBeNull();
+  });
+
+  test('should summarize returns by top_long and top_short priority', async () => {
+    const performance = new TopPicksPerformance(new StaticPriceProvider({
+      NVDA: [100, 110, 120, 120, 120, 130],
+      AMD: [100, 90, 90, 90, 90, 90],
+      TSLA: [200, 180, 180, 180, 180, 220]
+    }));
+    const archive = new TopPicksArchive(undefined, 'UTC');
+    await archive.record(createSnapshot('m1', '2026-03-02T12:00:00Z', ['NVDA', 'AMD'], ['TSLA', 'XYZ']));
+
+    const report = await performance.buildReport(archive.getRecentDays('guild-a', 30));
+
+    const longOneDay = report.summaries.top_long.horizons.find(h => h.horizon === 1)!;
+    expect(report.summaries.top_long.picks).toBe(2);
+    expect(longOneDay.averageReturn).toBeCloseTo(0);
+    expect(longOneDay.winRate).toBe(0.5);
+
+    const shortFiveDay = report.summaries.top_short.horizons.find(h => h.horizon === 5)!;
+    expect(report.summaries.top_short.picks).toBe(1);
+    expect(shortFiveDay.averageReturn).toBeCloseTo(-0.10);
+    expect(shortFiveDay.winRate).toBe(0);
+
+    expect(report.summaries.top_long.horizons.find(h => h.horizon === 20)!.count).toBe(0);
+    expect(report.missingPrices).toEqual(['XYZ']);
+  });
+
+  test('should show the performance embed with /performance', async () => {
+    const archive = new TopPicksArchive(undefined, 'UTC');
+    const performance = new TopPicksPerformance(new StaticPriceProvider({ NVDA: [100, 110], TSLA: [200, 190] }));
+    performanceCommand.initializeServices(archive, performance);
+
+    const empty = new MockInteraction('guild-a');
+    await performanceCommand.execute(empty as any);
+    expect(empty.lastReply.content).toContain('No top picks have been archived yet');
+
+    await archive.record(createSnapshot('m1', '2026-03-02T12:00:00Z', ['NVDA'], ['TSLA', 'XYZ']));
+
+    const interaction = new MockInteraction('guild-a', 10);
+    await performanceCommand.execute(interaction as any);
+    const embed = interaction.lastReply.embeds[0].toJSON();
+
+    expect(interaction.lastReply.ephemeral).toBe(true);
+    expect(embed.fields[0].name).toBe('📈 Top Long (1 picks)');
+    expect(embed.fields[0].value).toContain('`1d` +10.00% avg · 100% win (n=1)');
+    expect(embed.fields[0].value).toContain('`5d` not enough price data yet');
+    expect(embed.fields[1].value).toContain('`1d` +5.00% avg');
+    expect(embed.footer.text).toBe('No price data for: XYZ');
+  });
+});
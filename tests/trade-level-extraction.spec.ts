@@ -0,0 +1,99 @@
+import { test, expect } from '@playwright/test';
+import { TradeLevelExtractor } from '../src/services/TradeLevelExtractor';
+import { AnalysisLinker } from '../src/services/AnalysisLinker';
+import { EphemeralHandler } from '../src/services/EphemeralHandler';
+import { MessageRetention } from '../src/services/MessageRetention';
+
+const mockClient: any = {
+  channels: { cache: new Map([['long-analysis', { name: 'long-analysis' }]]) }
+};
+
+function createAnalysisMessage(id: string, content: string): any {
+  return {
+    id,
+    author: { bot: false, id: 'manager1', tag: 'Manager#0001' },
+    content,
+    createdAt: new Date(),
+    guildId: 'guild-a',
+    channel: { id: 'long-analysis', isThread: () => false },
+    member: { displayName: 'Manager' },
+    reference: null
+  };
+}
+
+test.describe('Trade level extraction', () => {
+  const extractor = new TradeLevelExtractor();
+
+  test('should extract English levels', () => {
+    expect(extractor.extractLevels('$NVDA breakout. Support at $180, target $210. Stop loss 172.5')).toEqual({
+      support: [180],
+      target: [210],
+      stop: [172.5]
+    });
+    expect(extractor.extractLevels('Entry 180-185, targets 200 / 215, stop below 170, resistance 195')).toEqual({
+      entry: [180, 185],
+      target: [200, 215],
+      stop: [170],
+      resistance: [195]
+    });
+  });
+
+  test('should extract Hebrew levels with attached prefixes', () => {
+    expect(extractor.extractLevels('בתמיכה של 180 והתנגדות ב-195. יעד 210 סטופ 172')).toEqual({
+      support: [180],
+      resistance: [195],
+      target: [210],
+      stop: [172]
+    });
+    expect(extractor.extractLevels('תמיכה 45.5\nיעדים: 50, 55')).toEqual({
+      support: [45.5],
+      target: [50, 55]
+    });
+  });
+
+  test('should ignore moving averages, percentages and periods', () => {
+    expect(extractor.extractLevels('Support at the 50 EMA and the 20 day low, resistance at 52WH')).toEqual({});
+    expect(extractor.extractLevels('Stop 5% below entry')).toEqual({});
+    expect(extractor.extractFields('Bullish breakout with strong volume')).toEqual({});
+  });
+
+  test('should not read dates, fractions, years or counts as prices', () => {
+    expect(extractor.extractLevels('Target hit on 3 of 5 positions')).toEqual({});
+    expect(extractor.extractLevels('Entry on 10/15 at 120')).toEqual({ entry: [120] });
+    expect(extractor.extractLevels('Entry on 15.10.2025 at 120, stop 2025-10-20 below 112')).toEqual({ entry: [120], stop: [112] });
+    expect(extractor.extractLevels('Support near 2025 highs of 180')).toEqual({ support: [180] });
+    expect(extractor.extractLevels('Took profit on 2 out of 4, target 3/4 of the move')).toEqual({});
+    expect(extractor.extractLevels('Entry 12.5-13.5, target $2050')).toEqual({ entry: [12.5, 13.5], target: [2050] });
+  });
+
+  test('should read numbers right after a keyword as level numbers, not prices', () => {
+    expect(extractor.extractLevels('Target 1: 210, Target 2: 225')).toEqual({ target: [210, 225] });
+    expect(extractor.extractLevels('support 1 at 180, support #2 at 172')).toEqual({ support: [180, 172] });
+    expect(extractor.extractLevels('TP1 210 TP2 225 SL1 195')).toEqual({ target: [210, 225], stop: [195] });
+    expect(extractor.extractLevels('יעד 1: 210 תמיכה 2 ב-180')).toEqual({ target: [210], support: [180] });
+    // A lone small number is still a price
+    expect(extractor.extractLevels('stop 5, target 8')).toEqual({ stop: [5], target: [8] });
+  });
+
+  test('should only read short abbreviations as whole words followed by a price', () => {
+    expect(extractor.extractLevels('The res of the sector looks weak, tp later. Sl ow grind up 3 pt today')).toEqual({});
+    expect(extractor.extractLevels('ASLAN and STPR 40 are setting up, RESN 12')).toEqual({});
+    expect(extractor.extractLevels('SL 172, TP: 210, res 195')).toEqual({ stop: [172], target: [210], resistance: [195] });
+  });
+
+  test('should store levels on indexed analysis and show them on the embed', async () => {
+    const analysisLinker = new AnalysisLinker();
+    const ephemeralHandler = new EphemeralHandler(analysisLinker, new MessageRetention());
+
+    await analysisLinker.indexMessage(createAnalysisMessage('nvda-1', '$NVDA analysis with bullish breakout, support at $180 and price target $210'));
+
+    const [analysis] = await analysisLinker.getLatestAnalysis('NVDA', 1);
+    expect(analysis!.tradeLevels).toEqual({ support: [180], target: [210] });
+
+    const embed = ephemeralHandler.buildAnalysisEmbed('NVDA', analysis!, mockClient, 'guild-a').toJSON();
+    expect(embed.fields).toEqual([
+      { name: '🏁 Target', value: '$210', inline: true },
+      { name: '🟢 Support', value: '$180', inline: true }
+    ]);
+  });
+});
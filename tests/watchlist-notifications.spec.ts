@@ -0,0 +1,232 @@
+import { test, expect } from '@playwright/test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AnalysisLinker } from '../src/services/AnalysisLinker';
+import { EphemeralHandler } from '../src/services/EphemeralHandler';
+import { WatchlistStore } from '../src/services/WatchlistStore';
+import { WatchlistNotifier } from '../src/services/WatchlistNotifier';
+
+function createAnalysisMessage(id: string, content: string, authorId: string = 'manager1'): any {
+  return {
+    id,
+    author: { bot: false, id: authorId, tag: 'Manager#0001' },
+    content,
+    createdAt: new Date(),
+    guildId: 'test-guild',
+    channel: { id: 'long_analysis', isThread: () => false },
+    member: { displayName: 'Manager' },
+    reference: null
+  };
+}
+
+// Mock client that records DMs per user
+function createMockClient(closedDmUsers: string[] = []) {
+  const sent: Array<{ userId: string; payload: any; at: number }> = [];
+  const client = {
+    channels: { cache: new Map([['long_analysis', { name: 'long-analysis' }]]) },
+    users: {
+      fetch: async (userId: string) => ({
+        id: userId,
+        send: async (payload: any) => {
+          if (closedDmUsers.includes(userId)) {
+            throw new Error('Cannot send messages to this user');
+          }
+          sent.push({ userId, payload, at: Date.now() });
+        }
+      })
+    }
+  };
+  return { client, sent };
+}
+
+test.describe('Watchlist Notifications', () => {
+  let analysisLinker: AnalysisLinker;
+  let ephemeralHandler: EphemeralHandler;
+  let watchlistStore: WatchlistStore;
+
+  test.beforeEach(() => {
+    analysisLinker = new AnalysisLinker();
+    ephemeralHandler = new EphemeralHandler(analysisLinker);
+    watchlistStore = new WatchlistStore();
+  });
+
+  test('should DM each subscriber once with the message link and chart', async () => {
+    const { client, sent } = createMockClient();
+    const notifier = new WatchlistNotifier(client as any, watchlistStore, ephemeralHandler, 20, 0);
+    analysisLinker.onAnalysisIndexed(analysis => notifier.handleAnalysisIndexed('test-guild', analysis));
+
+    await watchlistStore.add('test-guild', 'user1', 'NVDA');
+    await watchlistStore.add('test-guild', 'user1', 'AMD');
+    await watchlistStore.add('test-guild', 'user2', 'AMD');
+
+    const message = createAnalysisMessage('msg-1', '$NVDA $AMD analysis with bullish breakout and price target https://www.tradingview.com/x/abc123/');
+    await analysisLinker.indexMessage(message);
+    await notifier.waitForIdle();
+
+    expect(sent.map(s => s.userId).sort()).toEqual(['user1', 'user2']);
+
+    const user1Dm = sent.find(s => s.userId === 'user1')!;
+    const embed = user1Dm.payload.embeds[0].toJSON();
+    expect(embed.title).toBe('🔔 New Analysis for $NVDA, $AMD');
+    expect(embed.description).toContain('msg-1');
+    expect(embed.image?.url).toContain('tradingview.com');
+  });
+
+  test('should only DM analysis from the guild the symbol was watched in', async () => {
+    const { client, sent } = createMockClient();
+    const notifier = new WatchlistNotifier(client as any, watchlistStore, ephemeralHandler, 20, 0);
+    const otherLinker = new AnalysisLinker();
+    analysisLinker.onAnalysisIndexed(analysis => notifier.handleAnalysisIndexed('test-guild', analysis));
+    otherLinker.onAnalysisIndexed(analysis => notifier.handleAnalysisIndexed('other-guild', analysis));
+
+    await watchlistStore.add('test-guild', 'user1', 'NVDA');
+
+    const otherMessage = createAnalysisMessage('other-msg', '$NVDA analysis with bullish breakout and price target 200');
+    otherMessage.guildId = 'other-guild';
+    await otherLinker.indexMessage(otherMessage);
+    await analysisLinker.indexMessage(createAnalysisMessage('own-msg', '$NVDA analysis with bullish breakout and price target 210'));
+    await notifier.waitForIdle();
+
+    expect(sent).toHaveLength(1);
+    const embed = sent[0]!.payload.embeds[0].toJSON();
+    expect(embed.url).toContain('/test-guild/');
+    expect(embed.url).toContain('own-msg');
+    expect(JSON.stringify(sent[0]!.payload)).not.toContain('other-msg');
+  });
+
+  test('should not notify again when an indexed message is edited', async () => {
+    const { client, sent } = createMockClient();
+    const notifier = new WatchlistNotifier(client as any, watchlistStore, ephemeralHandler, 20, 0);
+    analysisLinker.onAnalysisIndexed(analysis => notifier.handleAnalysisIndexed('test-guild', analysis));
+    await watchlistStore.add('test-guild', 'user1', 'NVDA');
+
+    await analysisLinker.indexMessage(createAnalysisMessage('msg-1', '$NVDA analysis with bullish breakout and price target 200'));
+    await analysisLinker.reindexMessage(createAnalysisMessage('msg-1', '$NVDA corrected analysis with bullish breakout and price target 210'));
+    await notifier.waitForIdle();
+
+    expect(sent).toHaveLength(1);
+  });
+
+  test('should not notify when a scraped analysis is edited', async () => {
+    const { client, sent } = createMockClient();
+    const notifier = new WatchlistNotifier(client as any, watchlistStore, ephemeralHandler, 20, 0);
+    analysisLinker.onAnalysisIndexed(analysis => notifier.handleAnalysisIndexed('test-guild', analysis));
+    await watchlistStore.add('test-guild', 'user1', 'NVDA');
+
+    // Indexed by the historical scrape weeks ago, then edited after a restart
+    const postedAt = new Date(Date.now() - 14 * 24 * 60 * 60 * 1000);
+    const analysis = {
+      messageId: 'old-msg',
+      channelId: 'long_analysis',
+      authorId: 'manager1',
+      content: '$NVDA analysis with bullish breakout and price target 200',
+      symbols: ['NVDA'],
+      timestamp: postedAt,
+      relevanceScore: 1
+    };
+    analysisLinker.applyScrapedBatch({
+      channelId: 'long_analysis',
+      checkpoint: 'old-msg',
+      latestAnalysis: new Map([['NVDA', analysis]]),
+      history: new Map([['NVDA', [analysis]]])
+    });
+
+    const edited = createAnalysisMessage('old-msg', '$NVDA corrected analysis with bullish breakout and price target 210');
+    edited.createdAt = postedAt;
+    await analysisLinker.reindexMessage(edited);
+    await notifier.waitForIdle();
+
+    expect(analysisLinker.getLatestAnalysisUrl('NVDA')).toContain('old-msg');
+    expect(sent).toHaveLength(0);
+  });
+
+  test('should enforce the per-user daily cap', async () => {
+    const { client, sent } = createMockClient();
+    const notifier = new WatchlistNotifier(client as any, watchlistStore, ephemeralHandler, 2, 0);
+    await watchlistStore.add('test-guild', 'user1', 'NVDA');
+
+    for (let i = 0; i < 4; i++) {
+      notifier.handleAnalysisIndexed('test-guild', {
+        messageId: `msg-${i}`,
+        channelId: 'long_analysis',
+        authorId: 'manager1',
+        content: '$NVDA analysis',
+        symbols: ['NVDA'],
+        timestamp: new Date(),
+        relevanceScore: 1
+      });
+    }
+    await notifier.waitForIdle();
+
+    expect(sent).toHaveLength(2);
+  });
+
+  test('should space queued DMs and not count failed sends against the cap', async () => {
+    const { client, sent } = createMockClient(['closed-user']);
+    const notifier = new WatchlistNotifier(client as any, watchlistStore, ephemeralHandler, 1, 50);
+    await watchlistStore.add('test-guild', 'closed-user', 'NVDA');
+    await watchlistStore.add('test-guild', 'user1', 'NVDA');
+    await watchlistStore.add('test-guild', 'user2', 'NVDA');
+
+    notifier.handleAnalysisIndexed('test-guild', {
+      messageId: 'msg-1',
+      channelId: 'long_analysis',
+      authorId: 'manager1',
+      content: '$NVDA analysis',
+      symbols: ['NVDA'],
+      timestamp: new Date(),
+      relevanceScore: 1
+    });
+    await notifier.waitForIdle();
+
+    expect(sent.map(s => s.userId)).toEqual(['user1', 'user2']);
+    expect(sent[1]!.at - sent[0]!.at).toBeGreaterThanOrEqual(45);
+  });
+
+  test('should persist watchlists and enforce the per-user limit', async () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'watchlists-'));
+    const filePath = path.join(tempDir, 'watchlists.json');
+
+    try {
+      const store = new WatchlistStore(filePath);
+      expect(await store.add('test-guild', 'user1', 'NVDA')).toBe('added');
+      expect(await store.add('test-guild', 'user1', 'NVDA')).toBe('already_watching');
+      expect(await store.add('test-guild', 'user1', 'AMD')).toBe('added');
+      expect(await store.remove('test-guild', 'user1', 'AMD')).toBe(true);
+      expect(await store.remove('test-guild', 'user1', 'AMD')).toBe(false);
+
+      const restarted = new WatchlistStore(filePath);
+      await restarted.load();
+      expect(restarted.list('test-guild', 'user1')).toEqual(['NVDA']);
+      expect(restarted.getSubscribers('test-guild', 'NVDA')).toEqual(['user1']);
+
+      for (let i = 1; i < WatchlistStore.MAX_SYMBOLS_PER_USER; i++) {
+        await restarted.add('test-guild', 'user1', `X${String.fromCharCode(65 + i)}`);
+      }
+      expect(await restarted.add('test-guild', 'user1', 'TSLA')).toBe('limit_reached');
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+
+  test('should migrate watchlists saved before they were kept per guild', async () => {
+    const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'watchlists-'));
+    const filePath = path.join(tempDir, 'watchlists.json');
+
+    try {
+      fs.writeFileSync(filePath, JSON.stringify({ version: 1, watchlists: { user1: ['NVDA'] } }));
+
+      const store = new WatchlistStore(filePath);
+      await store.load('test-guild');
+      expect(store.list('test-guild', 'user1')).toEqual(['NVDA']);
+      expect(store.list('other-guild', 'user1')).toEqual([]);
+
+      const restarted = new WatchlistStore(filePath);
+      await restarted.load();
+      expect(restarted.getSubscribers('test-guild', 'NVDA')).toEqual(['user1']);
+    } finally {
+      fs.rmSync(tempDir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,172 @@
+import { test, expect } from '@playwright/test';
+import { AnalysisLinker } from '../src/services/AnalysisLinker';
+import { TopPicksArchive } from '../src/services/TopPicksArchive';
+import { WeeklyReport } from '../src/services/WeeklyReport';
+import { DiscussionChannelHandler } from '../src/services/DiscussionChannelHandler';
+import { CronSchedule } from '../src/services/Scheduler';
+import * as reportCommand from '../src/commands/report';
+import { BotConfig } from '../src/types';
+
+const NOW = new Date('2026-03-06T16:00:00Z');
+const HOUR_MS = 60 * 60 * 1000;
+
+const botConfig: BotConfig = {
+  generalNoticesChannel: 'general',
+  analysisChannels: ['long_analysis', 'short_analysis'],
+  discussionChannels: [],
+  guildId: 'test-guild',
+  managerId: 'manager1',
+  reportChannel: 'reports'
+};
+
+function createMessage(id: string, content: string, hoursAgo: number): any {
+  return {
+    id,
+    author: { bot: false, id: 'manager1', tag: 'Manager#0001' },
+    content,
+    createdAt: new Date(NOW.getTime() - hoursAgo * HOUR_MS),
+    guildId: 'test-guild',
+    channelId: 'long_analysis',
+    channel: { id: 'long_analysis', isThread: () => false },
+    member: { displayName: 'Manager' },
+    reference: null,
+    attachments: new Map(),
+    embeds: []
+  };
+}
+
+function createTopPicks(day: number, long: string[], short: string[]): any {
+  return {
+    guildId: 'test-guild',
+    messageId: `picks-${day}`,
+    channelId: 'general',
+    authorId: 'manager1',
+    messageUrl: `https://discord.com/channels/test-guild/general/picks-${day}`,
+    timestamp: new Date(Date.UTC(2026, 2, day, 12)),
+    long,
+    short
+  };
+}
+
+test.describe('Cron schedule', () => {
+  test('should find the next matching time in the configured time zone', () => {
+    // Fridays at 18:00 in Jerusalem (UTC+2 until 27 March 2026, then UTC+3)
+    const weekly = CronSchedule.parse('0 18 * * 5', 'Asia/Jerusalem')!;
+    expect(weekly.next(new Date('2026-03-02T00:00:00Z')).toISOString()).toBe('2026-03-06T16:00:00.000Z');
+    expect(weekly.next(new Date('2026-03-06T16:00:00Z')).toISOString()).toBe('2026-03-13T16:00:00.000Z');
+    expect(weekly.next(new Date('2026-03-21T00:00:00Z')).toISOString()).toBe('2026-03-27T15:00:00.000Z');
+
+    const everyQuarterHour = CronSchedule.parse('*/15 9-17 * * 1-5', 'UTC')!;
+    expect(everyQuarterHour.next(new Date('2026-03-06T17:50:00Z')).toISOString()).toBe('2026-03-09T09:00:00.000Z');
+
+    // With both day fields restricted, either one matching is enough
+    const firstOrSunday = CronSchedule.parse('30 6 1 * 0', 'UTC')!;
+    expect(firstOrSunday.next(new Date('2026-03-02T00:00:00Z')).toISOString()).toBe('2026-03-08T06:30:00.000Z');
+    expect(firstOrSunday.next(new Date('2026-03-29T07:00:00Z')).toISOString()).toBe('2026-04-01T06:30:00.000Z');
+  });
+
+  test('should reject malformed or impossible expressions', () => {
+    expect(CronSchedule.parse('0 18 * *', 'UTC')).toBeNull();
+    expect(CronSchedule.parse('60 18 * * 5', 'UTC')).toBeNull();
+    expect(CronSchedule.parse('0 18 * * fri', 'UTC')).toBeNull();
+    expect(CronSchedule.parse('0 0 31 2 *', 'UTC')).toBeNull();
+    expect(CronSchedule.parse('0 18 * * 7', 'Nowhere/Special')).toBeNull();
+    expect(CronSchedule.parse('0 0 29 2 *', 'UTC')).not.toBeNull();
+  });
+});
+
+test.describe('Weekly report', () => {
+  let analysisLinker: AnalysisLinker;
+  let topPicksArchive: TopPicksArchive;
+
+  test.beforeEach(async () => {
+    analysisLinker = new AnalysisLinker();
+    await analysisLinker.indexMessage(createMessage('nvda1', '$NVDA analysis showing bullish breakout with price target 210\nhttps://tradingview.com/chart/nvda1', 100));
+    await analysisLinker.indexMessage(createMessage('nvda2', '$NVDA breakout above resistance with strong volume\nhttps://tradingview.com/chart/nvda2', 5));
+    await analysisLinker.indexMessage(createMessage('amd1', '$AMD analysis showing bullish breakout with price target 180', 30));
+    await analysisLinker.indexMessage(createMessage('old', '$AAPL analysis showing bullish breakout with price target 250', 24 * 8));
+
+    topPicksArchive = new TopPicksArchive(undefined, 'UTC');
+    await topPicksArchive.record(createTopPicks(2, ['NVDA', 'PLTR'], ['TSLA']));
+    await topPicksArchive.record(createTopPicks(5, ['NVDA'], ['TSLA']));
+    await topPicksArchive.record(createTopPicks(20, ['AAPL'], []));
+  });
+
+  test('should summarize analysis and top picks of the last seven days per symbol', () => {
+    const report = new WeeklyReport(topPicksArchive, 7, 'UTC').build(analysisLinker, 'test-guild', NOW);
+
+    expect(report.analysisCount).toBe(3);
+    expect(report.analyzedSymbolCount).toBe(2);
+    expect(report.topPicksDays).toBe(2);
+    expect(report.symbols.map(s => [s.symbol, s.analysisCount, s.longPickDays, s.shortPickDays])).toEqual([
+      ['NVDA', 2, 2, 0],
+      ['AMD', 1, 0, 0],
+      ['TSLA', 0, 0, 2],
+      ['PLTR', 0, 1, 0]
+    ]);
+
+    const nvda = report.symbols[0]!;
+    expect(nvda.firstAnalysisAt).toEqual(new Date(NOW.getTime() - 100 * HOUR_MS));
+    expect(nvda.lastAnalysisAt).toEqual(new Date(NOW.getTime() - 5 * HOUR_MS));
+    expect(nvda.latestAnalysisUrl).toContain('nvda2');
+    expect(nvda.chartUrls).toEqual(['https://tradingview.com/chart/nvda2', 'https://tradingview.com/chart/nvda1']);
+  });
+
+  test('should render Markdown and HTML files', () => {
+    const weeklyReport = new WeeklyReport(topPicksArchive, 7, 'UTC');
+    const report = weeklyReport.build(analysisLinker, 'test-guild', NOW);
+
+    const markdown = weeklyReport.render(report, 'markdown');
+    expect(markdown).toContain('# Weekly Report: 2026-02-27 – 2026-03-06');
+    expect(markdown).toContain('| [$NVDA](https://discord.com/channels/test-guild/long_analysis/nvda2) | 2 | 2026-03-02 12:00 | 2026-03-06 11:00 | 2 / 0 |');
+    expect(markdown).toContain('| $TSLA | 0 | — | — | 0 / 2 |');
+    expect(markdown).toContain('![NVDA chart](https://tradingview.com/chart/nvda2)');
+
+    const html = weeklyReport.render(report, 'html');
+    expect(html).toContain('<img src="https://tradingview.com/chart/nvda1" alt="NVDA chart" width="160">');
+    expect(html).toContain('<td>0 / 2</td>');
+
+    expect(weeklyReport.toAttachment(report, 'html').name).toBe('weekly-report-2026-03-06.html');
+  });
+
+  test('should post the report to the report channel with /report weekly', async () => {
+    const sent: any[] = [];
+    const reportChannel = {
+      id: 'reports',
+      isTextBased: () => true,
+      send: async (payload: any) => {
+        sent.push(payload);
+        return { id: 'report-message', channelId: 'reports' };
+      }
+    };
+    const client = { channels: { fetch: async (id: string) => (id === 'reports' ? reportChannel : null) } };
+    const registry: any = { get: () => ({ config: botConfig, analysisLinker }) };
+    reportCommand.initializeServices(new DiscussionChannelHandler(), registry, new WeeklyReport(topPicksArchive, 7, 'UTC'));
+
+    const createInteraction = (userId: string) => {
+      const interaction: any = {
+        user: { id: userId, tag: `${userId}#0001` },
+        member: { displayName: userId },
+        channel: { id: 'general', isThread: () => false },
+        guildId: 'test-guild',
+        client,
+        options: { getString: (name: string) => (name === 'format' ? 'html' : null) },
+        reply: async (response: any) => { interaction.response = response; },
+        deferReply: async () => {},
+        editReply: async (response: any) => { interaction.response = response; }
+      };
+      return interaction;
+    };
+
+    const denied = createInteraction('user1');
+    await reportCommand.execute(denied);
+    expect(denied.response.content).toContain('Only managers');
+    expect(sent).toHaveLength(0);
+
+    const allowed = createInteraction('manager1');
+    await reportCommand.execute(allowed);
+    expect(allowed.response.content).toContain('Posted the weekly report to <#reports>');
+    expect(sent).toHaveLength(1);
+    expect(sent[0].files[0].name).toMatch(/^weekly-report-\d{4}-\d{2}-\d{2}\.html$/);
+  });
+});